@@ -13,6 +13,7 @@ import RootStackNavigator from "@/navigation/RootStackNavigator";
 import { ErrorBoundary } from "@/components/ErrorBoundary";
 import { UnitsProvider } from "@/lib/UnitsContext";
 import { AuthProvider } from "@/lib/AuthContext";
+import { TimerProvider } from "@/lib/TimerContext";
 
 export default function App() {
   return (
@@ -20,16 +21,18 @@ export default function App() {
       <QueryClientProvider client={queryClient}>
         <AuthProvider>
           <UnitsProvider>
-            <SafeAreaProvider>
-              <GestureHandlerRootView style={styles.root}>
-                <KeyboardProvider>
-                  <NavigationContainer>
-                    <RootStackNavigator />
-                  </NavigationContainer>
-                  <StatusBar style="auto" />
-                </KeyboardProvider>
-              </GestureHandlerRootView>
-            </SafeAreaProvider>
+            <TimerProvider>
+              <SafeAreaProvider>
+                <GestureHandlerRootView style={styles.root}>
+                  <KeyboardProvider>
+                    <NavigationContainer>
+                      <RootStackNavigator />
+                    </NavigationContainer>
+                    <StatusBar style="auto" />
+                  </KeyboardProvider>
+                </GestureHandlerRootView>
+              </SafeAreaProvider>
+            </TimerProvider>
           </UnitsProvider>
         </AuthProvider>
       </QueryClientProvider>
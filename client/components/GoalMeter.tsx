@@ -8,15 +8,20 @@ import Animated, {
   withTiming,
   useSharedValue,
 } from "react-native-reanimated";
+import { ThemedText } from "@/components/ThemedText";
+import { GOAL_PERIOD_LABELS } from "@/constants/theme";
+import { GoalPeriod } from "@/lib/storage";
 
 interface GoalMeterProps {
   current: number;
   goal: number;
   color: string;
   size?: "small" | "large";
+  // current and goal are for this period; weekly/monthly meters are labelled with it
+  period?: GoalPeriod;
 }
 
-export function GoalMeter({ current, goal, color, size = "small" }: GoalMeterProps) {
+export function GoalMeter({ current, goal, color, size = "small", period = "day" }: GoalMeterProps) {
   const progress = goal > 0 ? Math.min(current / goal, 1.5) : 0;
   const isGoalMet = current >= goal && goal > 0;
   const isSurpassed = current > goal && goal > 0;
@@ -115,7 +120,13 @@ export function GoalMeter({ current, goal, color, size = "small" }: GoalMeterPro
               backgroundColor: isSurpassed ? "rgba(255,215,0,0.2)" : "transparent",
             },
           ]}
-        />
+        >
+          {period !== "day" ? (
+            <ThemedText type="small" style={[styles.periodLabel, { color: meterColor }]}>
+              {GOAL_PERIOD_LABELS[period].suffix}
+            </ThemedText>
+          ) : null}
+        </View>
       </Animated.View>
     </View>
   );
@@ -141,5 +152,11 @@ const styles = StyleSheet.create({
   },
   innerCircle: {
     position: "absolute",
+    justifyContent: "center",
+    alignItems: "center",
+  },
+  periodLabel: {
+    fontSize: 10,
+    fontWeight: "700",
   },
 });
@@ -12,9 +12,11 @@ import { useNavigation } from "@react-navigation/native";
 import type { NativeStackNavigationProp } from "@react-navigation/native-stack";
 import { ThemedText } from "@/components/ThemedText";
 import { useUnits } from "@/lib/UnitsContext";
+import { isHabitDueOn } from "@/lib/dates";
+import { useTimers, formatTimerElapsed } from "@/lib/TimerContext";
 import { Habit } from "@/lib/storage";
 import { useTheme } from "@/hooks/useTheme";
-import { Spacing } from "@/constants/theme";
+import { Spacing, GOAL_PERIOD_LABELS } from "@/constants/theme";
 
 interface HabitRowProps {
   habit: Habit;
@@ -26,22 +28,29 @@ type RootStackParamList = {
 
 export function HabitRow({ habit }: HabitRowProps) {
   const { theme } = useTheme();
-  const { getEffectiveTodayUnits, addUnits } = useUnits();
+  const { getEffectivePeriodUnits, addUnits, currentDate } = useUnits();
+  const { getTimer, getElapsedMs } = useTimers();
   const navigation = useNavigation<NativeStackNavigationProp<RootStackParamList>>();
 
-  // Show EFFECTIVE units (after penalty distributed evenly across all habits)
-  const todayCount = getEffectiveTodayUnits(habit.id);
+  // Show EFFECTIVE units (after penalty distributed evenly across all habits) for the goal period:
+  // today for daily goals, the week or month so far otherwise
+  const goalPeriod = habit.goalPeriod ?? "day";
+  const periodCount = getEffectivePeriodUnits(habit.id);
+  const isRestDay = !isHabitDueOn(habit, currentDate);
+  const timer = habit.habitType === "time" ? getTimer(habit.id) : undefined;
   const scale = useSharedValue(1);
 
   const statusColor = useMemo(() => {
-    if (todayCount === 0) {
+    if (isRestDay && periodCount < habit.dailyGoal) {
+      return theme.textSecondary;
+    } else if (periodCount === 0) {
       return "#FF4444";
-    } else if (todayCount < habit.dailyGoal) {
+    } else if (periodCount < habit.dailyGoal) {
       return "#FFB800";
     } else {
       return "#34C759";
     }
-  }, [todayCount, habit.dailyGoal]);
+  }, [periodCount, habit.dailyGoal, isRestDay, theme.textSecondary]);
 
   const increment = habit.tapIncrement || 1;
 
@@ -91,16 +100,29 @@ export function HabitRow({ habit }: HabitRowProps) {
             <ThemedText type="body" style={styles.habitName} numberOfLines={1}>
               {habit.name}
             </ThemedText>
-            <ThemedText type="small" style={{ color: theme.textSecondary }}>
-              {habit.unitName} (+{increment}{habit.habitType === "time" ? " min" : ""})
-            </ThemedText>
+            {timer ? (
+              <View style={styles.timerIndicator}>
+                <Feather
+                  name={timer.startedAt ? "clock" : "pause"}
+                  size={12}
+                  color={timer.startedAt ? habit.color : theme.textSecondary}
+                />
+                <ThemedText type="small" style={{ color: timer.startedAt ? habit.color : theme.textSecondary }}>
+                  {formatTimerElapsed(getElapsedMs(habit.id))}{timer.startedAt ? "" : " paused"}
+                </ThemedText>
+              </View>
+            ) : (
+              <ThemedText type="small" style={{ color: theme.textSecondary }}>
+                {habit.unitName} (+{increment}{habit.habitType === "time" ? " min" : ""}){isRestDay ? " · Rest day" : ""}
+              </ThemedText>
+            )}
           </View>
           <View style={styles.countContainer}>
             <ThemedText type="h4" style={{ color: statusColor }}>
-              {todayCount}
+              {periodCount}
             </ThemedText>
             <ThemedText type="small" style={{ color: theme.textSecondary }}>
-              /{habit.dailyGoal}
+              /{habit.dailyGoal}{goalPeriod !== "day" ? ` ${GOAL_PERIOD_LABELS[goalPeriod].suffix}` : ""}
             </ThemedText>
           </View>
         </View>
@@ -157,6 +179,11 @@ const styles = StyleSheet.create({
   habitName: {
     fontWeight: "600",
   },
+  timerIndicator: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 4,
+  },
   countContainer: {
     flexDirection: "row",
     alignItems: "baseline",
@@ -5,6 +5,7 @@ import { useTheme } from "@/hooks/useTheme";
 import { Spacing, BorderRadius, FREE_LIMITS } from "@/constants/theme";
 import { Habit, UnitLog } from "@/lib/storage";
 import { useUnits } from "@/lib/UnitsContext";
+import { addDays, getDayOfWeek, isHabitDueOn } from "@/lib/dates";
 
 interface HabitWallProps {
   habit: Habit;
@@ -19,36 +20,32 @@ const MAX_VISIBLE_BLOCKS = Math.floor(MAX_BLOCKS_HEIGHT / (BLOCK_SIZE * 0.7 + 2)
 
 export function HabitWall({ habit, logs, onDayPress }: HabitWallProps) {
   const { theme } = useTheme();
-  const { isPro } = useUnits();
+  const { isPro, currentDate } = useUnits();
 
   const daysToShow = isPro ? 14 : FREE_LIMITS.WALL_HISTORY_DAYS;
 
   const dayData = useMemo(() => {
-    const result: { date: string; units: number; displayDate: string }[] = [];
-    const today = new Date();
+    const result: { date: string; units: number; displayDate: string; isRestDay: boolean }[] = [];
 
     for (let i = daysToShow - 1; i >= 0; i--) {
-      const date = new Date(today);
-      date.setDate(date.getDate() - i);
-      const y = date.getFullYear();
-      const m = String(date.getMonth() + 1).padStart(2, "0");
-      const d = String(date.getDate()).padStart(2, "0");
-      const dateStr = `${y}-${m}-${d}`;
+      const dateStr = addDays(currentDate, -i);
       
       const dayLogs = logs.filter((l) => l.date === dateStr);
       const units = dayLogs.reduce((sum, l) => sum + l.count, 0);
 
-      const displayDate = date.getDate().toString();
+      const displayDate = String(Number(dateStr.slice(8, 10)));
 
       result.push({
         date: dateStr,
         units,
         displayDate,
+        // Not scheduled: shown neutral rather than as a missed day
+        isRestDay: !isHabitDueOn(habit, dateStr),
       });
     }
 
     return result;
-  }, [logs, daysToShow]);
+  }, [logs, daysToShow, currentDate, habit]);
 
   const renderBlocks = (units: number) => {
     if (units === 0) return null;
@@ -103,7 +100,7 @@ export function HabitWall({ habit, logs, onDayPress }: HabitWallProps) {
         contentContainerStyle={styles.scrollContent}
       >
         {dayData.map((day, index) => {
-          const isWeekStart = new Date(day.date).getDay() === 1;
+          const isWeekStart = getDayOfWeek(day.date) === 1;
           return (
             <Pressable
               key={day.date}
@@ -111,6 +108,7 @@ export function HabitWall({ habit, logs, onDayPress }: HabitWallProps) {
               style={[
                 styles.column,
                 isWeekStart && styles.weekStart,
+                day.isRestDay && day.units === 0 && styles.restDay,
                 { borderColor: theme.border },
               ]}
             >
@@ -124,6 +122,10 @@ export function HabitWall({ habit, logs, onDayPress }: HabitWallProps) {
                 <ThemedText style={[styles.unitCount, { color: theme.textSecondary }]}>
                   {day.units}
                 </ThemedText>
+              ) : day.isRestDay ? (
+                <ThemedText style={[styles.unitCount, { color: theme.textSecondary }]}>
+                  rest
+                </ThemedText>
               ) : null}
             </Pressable>
           );
@@ -157,6 +159,9 @@ const styles = StyleSheet.create({
     borderLeftWidth: 1,
     paddingLeft: Spacing.xs,
   },
+  restDay: {
+    opacity: 0.5,
+  },
   blocksContainer: {
     height: MAX_BLOCKS_HEIGHT,
     justifyContent: "flex-end",
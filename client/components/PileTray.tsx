@@ -11,16 +11,9 @@ const BUNDLE_THRESHOLD = 50;
 
 export function PileTray() {
   const { theme } = useTheme();
-  const { logs, habits, getTodayTotalUnits, getLogsForDate } = useUnits();
+  const { logs, habits, getTodayTotalUnits, getLogsForDate, currentDate: today } = useUnits();
   const totalUnits = getTodayTotalUnits();
 
-  const today = useMemo(() => {
-    const now = new Date();
-    const y = now.getFullYear();
-    const m = String(now.getMonth() + 1).padStart(2, "0");
-    const d = String(now.getDate()).padStart(2, "0");
-    return `${y}-${m}-${d}`;
-  }, []);
   const todayLogs = useMemo(() => getLogsForDate(today), [getLogsForDate, today]);
 
   const blocks = useMemo(() => {
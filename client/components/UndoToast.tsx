@@ -16,36 +16,45 @@ const TOAST_DURATION = 5000;
 
 export function UndoToast() {
   const { theme } = useTheme();
-  const { undoAction, undoLastAdd, clearUndo, habits } = useUnits();
+  const { undoStack, redoStack, undo, redo } = useUnits();
   const [visible, setVisible] = useState(false);
   const translateY = useSharedValue(100);
   const opacity = useSharedValue(0);
 
+  const lastAction = undoStack[undoStack.length - 1];
+  const lastUndone = redoStack[redoStack.length - 1];
+  // Changes whenever an action is added, undone or redone
+  const historyKey = `${lastAction?.id ?? ""}:${lastUndone?.id ?? ""}`;
+
   useEffect(() => {
-    if (undoAction) {
+    if (lastAction || lastUndone) {
       setVisible(true);
       translateY.value = withSpring(0, { damping: 15 });
       opacity.value = withSpring(1);
 
+      // Restarted on every step so the user can keep stepping back
       const timeout = setTimeout(() => {
         hideToast();
       }, TOAST_DURATION);
 
       return () => clearTimeout(timeout);
     }
-  }, [undoAction]);
+  }, [historyKey]);
 
+  // Hiding only dismisses the toast; the history stays available
   const hideToast = () => {
     translateY.value = withTiming(100, { duration: 200 });
     opacity.value = withTiming(0, { duration: 200 }, () => {
       runOnJS(setVisible)(false);
-      runOnJS(clearUndo)();
     });
   };
 
   const handleUndo = async () => {
-    await undoLastAdd();
-    hideToast();
+    await undo();
+  };
+
+  const handleRedo = async () => {
+    await redo();
   };
 
   const animatedStyle = useAnimatedStyle(() => ({
@@ -53,10 +62,7 @@ export function UndoToast() {
     opacity: opacity.value,
   }));
 
-  if (!visible || !undoAction) return null;
-
-  const habit = habits.find((h) => h.id === undoAction.habitId);
-  const habitName = habit?.name || "habit";
+  if (!visible || (!lastAction && !lastUndone)) return null;
 
   return (
     <Animated.View
@@ -67,21 +73,42 @@ export function UndoToast() {
       ]}
     >
       <View style={styles.content}>
-        <ThemedText type="small">
-          Added {undoAction.count} unit{undoAction.count > 1 ? "s" : ""} to {habitName}
+        <ThemedText type="small" numberOfLines={1}>
+          {lastAction ? lastAction.label : `Undid: ${lastUndone?.label}`}
         </ThemedText>
+        {undoStack.length > 1 ? (
+          <ThemedText type="small" style={{ color: theme.textSecondary }}>
+            {undoStack.length - 1} earlier action{undoStack.length - 1 > 1 ? "s" : ""}
+          </ThemedText>
+        ) : null}
       </View>
-      <Pressable
-        onPress={handleUndo}
-        style={({ pressed }) => [
-          styles.undoButton,
-          { backgroundColor: theme.accent, opacity: pressed ? 0.8 : 1 },
-        ]}
-      >
-        <ThemedText type="small" style={{ color: "white", fontWeight: "600" }}>
-          Undo
-        </ThemedText>
-      </Pressable>
+      {lastUndone ? (
+        <Pressable
+          onPress={handleRedo}
+          style={({ pressed }) => [
+            styles.undoButton,
+            styles.redoButton,
+            { borderColor: theme.accent, opacity: pressed ? 0.8 : 1 },
+          ]}
+        >
+          <ThemedText type="small" style={{ color: theme.accent, fontWeight: "600" }}>
+            Redo
+          </ThemedText>
+        </Pressable>
+      ) : null}
+      {lastAction ? (
+        <Pressable
+          onPress={handleUndo}
+          style={({ pressed }) => [
+            styles.undoButton,
+            { backgroundColor: theme.accent, opacity: pressed ? 0.8 : 1 },
+          ]}
+        >
+          <ThemedText type="small" style={{ color: "white", fontWeight: "600" }}>
+            Undo
+          </ThemedText>
+        </Pressable>
+      ) : null}
     </Animated.View>
   );
 }
@@ -109,5 +136,9 @@ const styles = StyleSheet.create({
     paddingHorizontal: Spacing.md,
     paddingVertical: Spacing.sm,
     borderRadius: BorderRadius.sm,
+    marginLeft: Spacing.sm,
+  },
+  redoButton: {
+    borderWidth: 1,
   },
 });
@@ -247,6 +247,14 @@ export const HABIT_ICONS = [
   "sunset",
 ] as const;
 
+// Goal periods a habit's target can be set over. suffix follows the target ("5/wk"),
+// noun fills "per ___" and "this ___".
+export const GOAL_PERIOD_LABELS = {
+  day: { label: "Day", suffix: "day", noun: "day" },
+  week: { label: "Week", suffix: "wk", noun: "week" },
+  month: { label: "Month", suffix: "mo", noun: "month" },
+} as const;
+
 export const Fonts = Platform.select({
   ios: {
     sans: "system-ui",
@@ -1,5 +1,7 @@
 import { registerRootComponent } from "expo";
 
 import App from "@/App";
+import { registerNotificationActionHandlers } from "@/lib/notificationActions";
 
+registerNotificationActionHandlers();
 registerRootComponent(App);
@@ -1,7 +1,21 @@
 import React, { createContext, useContext, useState, useEffect, ReactNode } from "react";
 import { Session, User, AuthError } from "@supabase/supabase-js";
+import * as Linking from "expo-linking";
 import { supabase, Profile, isSupabaseConfigured } from "@/lib/supabase";
+import { getAuthRedirectUrl, parseAuthCallback } from "@/lib/authLinks";
+import { requestAppleCredential } from "@/lib/appleAuth";
 import { setIsPro as saveIsPro } from "@/lib/storage";
+import { getDeviceTimeZone } from "@/lib/dates";
+
+const NOT_CONFIGURED = { message: "Supabase not configured" } as AuthError;
+
+export type DatePreferences = Partial<Pick<Profile, "day_start_hour" | "home_time_zone" | "travel_mode">>;
+
+// Outcome of an auth deep link worth telling the user about
+export interface AuthLinkNotice {
+  title: string;
+  message: string;
+}
 
 interface AuthContextType {
   session: Session | null;
@@ -12,7 +26,21 @@ interface AuthContextType {
   signIn: (email: string, password: string) => Promise<{ error: AuthError | null }>;
   signOut: () => Promise<void>;
   resendConfirmation: (email: string) => Promise<{ error: AuthError | null }>;
+  signInWithApple: () => Promise<{ error: AuthError | null; cancelled: boolean }>;
+  linkAppleId: () => Promise<{ error: AuthError | null; cancelled: boolean }>;
+  sendMagicLink: (email: string, options?: { createUser?: boolean }) => Promise<{ error: AuthError | null }>;
+  requestPasswordReset: (email: string) => Promise<{ error: AuthError | null }>;
+  updatePassword: (password: string) => Promise<{ error: AuthError | null }>;
+  changeEmail: (email: string) => Promise<{ error: AuthError | null }>;
+  // Signed in from a password recovery link and no new password chosen yet
+  passwordRecovery: boolean;
+  finishPasswordRecovery: () => void;
+  // State of the last auth deep link (magic link, confirmation, recovery)
+  completingAuthLink: boolean;
+  authLinkNotice: AuthLinkNotice | null;
+  clearAuthLinkNotice: () => void;
   updateOnboardingAnswers: (answers: Record<string, unknown>) => Promise<void>;
+  updateDatePreferences: (updates: DatePreferences) => Promise<void>;
   refreshProfile: () => Promise<void>;
 }
 
@@ -23,6 +51,9 @@ export function AuthProvider({ children }: { children: ReactNode }) {
   const [user, setUser] = useState<User | null>(null);
   const [profile, setProfile] = useState<Profile | null>(null);
   const [loading, setLoading] = useState(true);
+  const [completingAuthLink, setCompletingAuthLink] = useState(false);
+  const [authLinkNotice, setAuthLinkNotice] = useState<AuthLinkNotice | null>(null);
+  const [passwordRecovery, setPasswordRecovery] = useState(false);
 
   const fetchProfile = async (userId: string, userEmail?: string) => {
     if (!isSupabaseConfigured) return null;
@@ -41,6 +72,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
           .upsert({
             id: userId,
             email: userEmail,
+            home_time_zone: getDeviceTimeZone(),
             created_at: new Date().toISOString(),
             updated_at: new Date().toISOString(),
           }, { onConflict: "id" });
@@ -57,7 +89,18 @@ export function AuthProvider({ children }: { children: ReactNode }) {
       }
       return null;
     }
-    return data as Profile;
+
+    const existing = data as Profile;
+    // Profiles created before time zones were tracked adopt the current zone as home
+    if (!existing.home_time_zone) {
+      const homeTimeZone = getDeviceTimeZone();
+      const { error: zoneError } = await supabase
+        .from("profiles")
+        .update({ home_time_zone: homeTimeZone })
+        .eq("id", userId);
+      if (!zoneError) return { ...existing, home_time_zone: homeTimeZone };
+    }
+    return existing;
   };
 
   const refreshProfile = async () => {
@@ -86,7 +129,12 @@ export function AuthProvider({ children }: { children: ReactNode }) {
 
     const {
       data: { subscription },
-    } = supabase.auth.onAuthStateChange(async (_event, session) => {
+    } = supabase.auth.onAuthStateChange(async (event, session) => {
+      if (event === "PASSWORD_RECOVERY") {
+        setPasswordRecovery(true);
+      } else if (!session) {
+        setPasswordRecovery(false);
+      }
       setSession(session);
       setUser(session?.user ?? null);
       if (session?.user) {
@@ -100,14 +148,68 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     return () => subscription.unsubscribe();
   }, []);
 
+  // Auth emails link back into the app (see authLinks.ts). The link may cold
+  // start the app or arrive while it is running; either way the session it
+  // carries is stored and onAuthStateChange takes over from there. A recovery
+  // link additionally holds the user on the set-new-password form.
+  useEffect(() => {
+    if (!isSupabaseConfigured) return;
+
+    const completeAuthLink = async (url: string | null) => {
+      const callback = url ? parseAuthCallback(url) : null;
+      if (!callback) return;
+
+      if (callback.kind === "error") {
+        setAuthLinkNotice({ title: "Couldn't Open Link", message: callback.message });
+        return;
+      }
+      if (callback.kind === "message") {
+        setAuthLinkNotice({ title: "Email Change", message: callback.message });
+        return;
+      }
+
+      if (callback.type === "recovery") {
+        setPasswordRecovery(true);
+      }
+      setCompletingAuthLink(true);
+      const { data, error } =
+        callback.kind === "session"
+          ? await supabase.auth.setSession({
+              access_token: callback.accessToken,
+              refresh_token: callback.refreshToken,
+            })
+          : await supabase.auth.exchangeCodeForSession(callback.code);
+      setCompletingAuthLink(false);
+
+      if (error) {
+        console.log("[Auth] Failed to complete auth link:", error.message);
+        setPasswordRecovery(false);
+        setAuthLinkNotice({ title: "Couldn't Open Link", message: error.message });
+      } else if (callback.type === "email_change") {
+        setAuthLinkNotice({
+          title: "Email Updated",
+          message: `Your account email is now ${data.user?.email ?? "confirmed"}.`,
+        });
+      }
+    };
+
+    Linking.getInitialURL().then(completeAuthLink);
+    const linkSubscription = Linking.addEventListener("url", ({ url }) => {
+      completeAuthLink(url);
+    });
+
+    return () => linkSubscription.remove();
+  }, []);
+
   const signUp = async (email: string, password: string) => {
     if (!isSupabaseConfigured) {
-      return { error: { message: "Supabase not configured" } as AuthError };
+      return { error: NOT_CONFIGURED };
     }
     
     const { error } = await supabase.auth.signUp({
       email,
       password,
+      options: { emailRedirectTo: getAuthRedirectUrl() },
     });
     
     return { error };
@@ -115,7 +217,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
 
   const signIn = async (email: string, password: string) => {
     if (!isSupabaseConfigured) {
-      return { error: { message: "Supabase not configured" } as AuthError };
+      return { error: NOT_CONFIGURED };
     }
     
     const { error } = await supabase.auth.signInWithPassword({
@@ -138,17 +240,149 @@ export function AuthProvider({ children }: { children: ReactNode }) {
 
   const resendConfirmation = async (email: string) => {
     if (!isSupabaseConfigured) {
-      return { error: { message: "Supabase not configured" } as AuthError };
+      return { error: NOT_CONFIGURED };
     }
     
     const { error } = await supabase.auth.resend({
       type: "signup",
       email,
+      options: { emailRedirectTo: getAuthRedirectUrl() },
     });
     
     return { error };
   };
 
+  // If the Apple ID uses the same (confirmed) email as an existing password
+  // account, Supabase links the two and this signs into that account.
+  // "Hide My Email" addresses never match; linkAppleId covers that case.
+  const signInWithApple = async () => {
+    if (!isSupabaseConfigured) {
+      return { error: NOT_CONFIGURED, cancelled: false };
+    }
+
+    const { credential, cancelled, error: appleError } = await requestAppleCredential();
+    if (!credential) {
+      return { error: appleError ? ({ message: appleError } as AuthError) : null, cancelled };
+    }
+
+    const { data, error } = await supabase.auth.signInWithIdToken({
+      provider: "apple",
+      token: credential.identityToken,
+      nonce: credential.nonce,
+    });
+    if (error) {
+      return { error, cancelled: false };
+    }
+
+    // Apple only shares the name on the first authorization
+    if (credential.fullName && !data.user?.user_metadata?.full_name) {
+      const { error: nameError } = await supabase.auth.updateUser({
+        data: { full_name: credential.fullName },
+      });
+      if (nameError) {
+        console.log("[Auth] Failed to save Apple name:", nameError.message);
+      }
+    }
+
+    return { error: null, cancelled: false };
+  };
+
+  // Adds Sign in with Apple to the signed-in account, so either method opens
+  // the same data. Needs manual linking enabled in Supabase Auth settings.
+  const linkAppleId = async () => {
+    if (!isSupabaseConfigured) {
+      return { error: NOT_CONFIGURED, cancelled: false };
+    }
+
+    const { credential, cancelled, error: appleError } = await requestAppleCredential();
+    if (!credential) {
+      return { error: appleError ? ({ message: appleError } as AuthError) : null, cancelled };
+    }
+
+    const { data, error } = await supabase.auth.linkIdentity({
+      provider: "apple",
+      token: credential.identityToken,
+      nonce: credential.nonce,
+    });
+    if (error) {
+      return { error, cancelled: false };
+    }
+
+    if (data.user) {
+      setUser(data.user);
+    }
+    return { error: null, cancelled: false };
+  };
+
+  // Signs into the account with this email, including one created with a
+  // password, so the link never creates a duplicate. createUser: false keeps
+  // the link from signing up someone who has no account yet.
+  const sendMagicLink = async (email: string, options: { createUser?: boolean } = {}) => {
+    if (!isSupabaseConfigured) {
+      return { error: NOT_CONFIGURED };
+    }
+
+    const { error } = await supabase.auth.signInWithOtp({
+      email,
+      options: {
+        emailRedirectTo: getAuthRedirectUrl(),
+        shouldCreateUser: options.createUser ?? true,
+      },
+    });
+
+    return { error };
+  };
+
+  const requestPasswordReset = async (email: string) => {
+    if (!isSupabaseConfigured) {
+      return { error: NOT_CONFIGURED };
+    }
+
+    const { error } = await supabase.auth.resetPasswordForEmail(email, {
+      redirectTo: getAuthRedirectUrl(),
+    });
+
+    return { error };
+  };
+
+  // Also sets a first password for accounts created with Apple or a magic link
+  const updatePassword = async (password: string) => {
+    if (!isSupabaseConfigured) {
+      return { error: NOT_CONFIGURED };
+    }
+
+    const { error } = await supabase.auth.updateUser({ password });
+    if (!error) {
+      setPasswordRecovery(false);
+    }
+
+    return { error };
+  };
+
+  // Supabase only switches the address once it is confirmed from the email
+  // (sent to both addresses with secure email change). Until then the new
+  // address is on user.new_email; profiles.email follows the confirmed one
+  // through a trigger (migration 015).
+  const changeEmail = async (email: string) => {
+    if (!isSupabaseConfigured) {
+      return { error: NOT_CONFIGURED };
+    }
+
+    const { data, error } = await supabase.auth.updateUser(
+      { email },
+      { emailRedirectTo: getAuthRedirectUrl() }
+    );
+    if (!error && data.user) {
+      setUser(data.user);
+    }
+
+    return { error };
+  };
+
+  const finishPasswordRecovery = () => setPasswordRecovery(false);
+
+  const clearAuthLinkNotice = () => setAuthLinkNotice(null);
+
   const updateOnboardingAnswers = async (answers: Record<string, unknown>) => {
     if (!user) return;
     const { error } = await supabase
@@ -161,6 +395,20 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     }
   };
 
+  const updateDatePreferences = async (updates: DatePreferences) => {
+    if (!user) return;
+    const { error } = await supabase
+      .from("profiles")
+      .update({ ...updates, updated_at: new Date().toISOString() })
+      .eq("id", user.id);
+
+    if (error) {
+      console.log("[Auth] Failed to save date preferences:", error.message);
+      return;
+    }
+    setProfile((prev) => (prev ? { ...prev, ...updates } : null));
+  };
+
   return (
     <AuthContext.Provider
       value={{
@@ -172,7 +420,19 @@ export function AuthProvider({ children }: { children: ReactNode }) {
         signIn,
         signOut,
         resendConfirmation,
+        signInWithApple,
+        linkAppleId,
+        sendMagicLink,
+        requestPasswordReset,
+        updatePassword,
+        changeEmail,
+        passwordRecovery,
+        finishPasswordRecovery,
+        completingAuthLink,
+        authLinkNotice,
+        clearAuthLinkNotice,
         updateOnboardingAnswers,
+        updateDatePreferences,
         refreshProfile,
       }}
     >
@@ -0,0 +1,239 @@
+import React, {
+  createContext,
+  useContext,
+  useState,
+  useEffect,
+  useCallback,
+  useRef,
+  ReactNode,
+} from "react";
+import { AppState, AppStateStatus } from "react-native";
+import { HabitTimer, getTimers, saveTimers } from "@/lib/storage";
+import { useAuth } from "@/lib/AuthContext";
+import { useUnits } from "@/lib/UnitsContext";
+
+// ============================================================================
+// HABIT TIMERS
+// ============================================================================
+// Start/stop timers for time habits. A timer only stores when its current run
+// started plus the time banked from earlier runs, so elapsed time is always
+// derived from the clock and survives backgrounding or the app being killed.
+// Stopping logs the elapsed minutes through addUnits, credited to the day the
+// timer is stopped.
+// ============================================================================
+
+const MINUTE_MS = 60 * 1000;
+
+interface TimerContextType {
+  timers: HabitTimer[];
+  getTimer: (habitId: string) => HabitTimer | undefined;
+  getElapsedMs: (habitId: string) => number;
+  startTimer: (habitId: string) => Promise<void>;
+  pauseTimer: (habitId: string) => Promise<void>;
+  stopTimer: (habitId: string) => Promise<number>;
+  discardTimer: (habitId: string) => Promise<void>;
+}
+
+const TimerContext = createContext<TimerContextType | null>(null);
+
+function getTimerElapsedMs(timer: HabitTimer, now: number): number {
+  if (!timer.startedAt) return timer.accumulatedMs;
+  return (
+    timer.accumulatedMs + Math.max(now - new Date(timer.startedAt).getTime(), 0)
+  );
+}
+
+// "4:05" under an hour, "1:04:05" after
+export function formatTimerElapsed(ms: number): string {
+  const totalSeconds = Math.floor(ms / 1000);
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = String(totalSeconds % 60).padStart(2, "0");
+  if (hours > 0) {
+    return `${hours}:${String(minutes).padStart(2, "0")}:${seconds}`;
+  }
+  return `${minutes}:${seconds}`;
+}
+
+export function TimerProvider({ children }: { children: ReactNode }) {
+  const { user } = useAuth();
+  const { habits, loading, addUnits } = useUnits();
+  const [timers, setTimers] = useState<HabitTimer[]>([]);
+  const [now, setNow] = useState(Date.now());
+  const timersRef = useRef<HabitTimer[]>([]);
+  const previousUserIdRef = useRef<string | null>(null);
+
+  const commitTimers = useCallback(async (next: HabitTimer[]) => {
+    timersRef.current = next;
+    setTimers(next);
+    setNow(Date.now());
+    await saveTimers(next);
+  }, []);
+
+  // Restore persisted timers on launch. On sign-out or account switch
+  // UnitsProvider clears the stored copy, so only the in-memory list is reset.
+  useEffect(() => {
+    const currentUserId = user?.id ?? null;
+    const previousUserId = previousUserIdRef.current;
+    previousUserIdRef.current = currentUserId;
+
+    if (previousUserId !== null && previousUserId !== currentUserId) {
+      console.log("[Timer] User changed - dropping running timers");
+      timersRef.current = [];
+      setTimers([]);
+      return;
+    }
+
+    if (currentUserId && previousUserId === null) {
+      getTimers().then((stored) => {
+        console.log("[Timer] Restored", stored.length, "timers");
+        timersRef.current = stored;
+        setTimers(stored);
+        setNow(Date.now());
+      });
+    }
+  }, [user]);
+
+  // Drop timers whose habit was deleted
+  useEffect(() => {
+    if (loading || timersRef.current.length === 0) return;
+    const kept = timersRef.current.filter((t) =>
+      habits.some((h) => h.id === t.habitId),
+    );
+    if (kept.length !== timersRef.current.length) {
+      commitTimers(kept);
+    }
+  }, [habits, loading, commitTimers]);
+
+  // Tick once a second while anything is running, and catch up immediately
+  // when the app returns to the foreground
+  const hasRunningTimer = timers.some((t) => t.startedAt !== null);
+
+  useEffect(() => {
+    if (!hasRunningTimer) return;
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    const subscription = AppState.addEventListener(
+      "change",
+      (nextAppState: AppStateStatus) => {
+        if (nextAppState === "active") setNow(Date.now());
+      },
+    );
+    return () => {
+      clearInterval(interval);
+      subscription.remove();
+    };
+  }, [hasRunningTimer]);
+
+  const getTimer = useCallback(
+    (habitId: string) => timers.find((t) => t.habitId === habitId),
+    [timers],
+  );
+
+  const getElapsedMs = useCallback(
+    (habitId: string) => {
+      const timer = timers.find((t) => t.habitId === habitId);
+      return timer ? getTimerElapsedMs(timer, now) : 0;
+    },
+    [timers, now],
+  );
+
+  // Starts a new timer, or resumes a paused one
+  const handleStartTimer = useCallback(
+    async (habitId: string) => {
+      const existing = timersRef.current.find((t) => t.habitId === habitId);
+      if (existing?.startedAt) return;
+      const startedAt = new Date().toISOString();
+      const next = existing
+        ? timersRef.current.map((t) =>
+            t.habitId === habitId ? { ...t, startedAt } : t,
+          )
+        : [...timersRef.current, { habitId, startedAt, accumulatedMs: 0 }];
+      console.log("[Timer]", existing ? "Resumed" : "Started", habitId);
+      await commitTimers(next);
+    },
+    [commitTimers],
+  );
+
+  const handlePauseTimer = useCallback(
+    async (habitId: string) => {
+      const existing = timersRef.current.find((t) => t.habitId === habitId);
+      if (!existing?.startedAt) return;
+      const accumulatedMs = getTimerElapsedMs(existing, Date.now());
+      console.log("[Timer] Paused", habitId, "at", accumulatedMs, "ms");
+      await commitTimers(
+        timersRef.current.map((t) =>
+          t.habitId === habitId ? { ...t, startedAt: null, accumulatedMs } : t,
+        ),
+      );
+    },
+    [commitTimers],
+  );
+
+  const handleDiscardTimer = useCallback(
+    async (habitId: string) => {
+      console.log("[Timer] Discarded", habitId);
+      await commitTimers(
+        timersRef.current.filter((t) => t.habitId !== habitId),
+      );
+    },
+    [commitTimers],
+  );
+
+  // Logs the elapsed time rounded to whole minutes and clears the timer.
+  // Returns the minutes logged; under half a minute logs nothing. If the
+  // write is refused the timer is put back as it was.
+  const handleStopTimer = useCallback(
+    async (habitId: string) => {
+      const existing = timersRef.current.find((t) => t.habitId === habitId);
+      if (!existing) return 0;
+      // Taken out before the write, so a second stop can't log the same run again
+      timersRef.current = timersRef.current.filter(
+        (t) => t.habitId !== habitId,
+      );
+      const minutes = Math.round(
+        getTimerElapsedMs(existing, Date.now()) / MINUTE_MS,
+      );
+      if (minutes > 0) {
+        const logged = await addUnits(habitId, minutes, "timer");
+        if (!logged) {
+          console.error(
+            "[Timer] Could not log",
+            minutes,
+            "minutes for",
+            habitId,
+          );
+          timersRef.current = [...timersRef.current, existing];
+          return 0;
+        }
+      }
+      console.log("[Timer] Stopped", habitId, "- logged", minutes, "minutes");
+      await commitTimers(timersRef.current);
+      return minutes;
+    },
+    [addUnits, commitTimers],
+  );
+
+  return (
+    <TimerContext.Provider
+      value={{
+        timers,
+        getTimer,
+        getElapsedMs,
+        startTimer: handleStartTimer,
+        pauseTimer: handlePauseTimer,
+        stopTimer: handleStopTimer,
+        discardTimer: handleDiscardTimer,
+      }}
+    >
+      {children}
+    </TimerContext.Provider>
+  );
+}
+
+export function useTimers() {
+  const context = useContext(TimerContext);
+  if (!context) {
+    throw new Error("useTimers must be used within a TimerProvider");
+  }
+  return context;
+}
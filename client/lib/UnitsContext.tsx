@@ -1,4 +1,4 @@
-import React, { createContext, useContext, useState, useEffect, useCallback, useRef, ReactNode } from "react";
+import React, { createContext, useContext, useState, useEffect, useCallback, useMemo, useRef, ReactNode } from "react";
 import { AppState, AppStateStatus } from "react-native";
 import * as Haptics from "expo-haptics";
 import {
@@ -7,48 +7,78 @@ import {
   AppSettings,
   BadHabit,
   BadHabitLog,
+  UnitEvent,
+  UnitEventSource,
   getSettings,
   saveSettings,
   getIsPro,
   setIsPro as saveIsPro,
   generateId,
-  getTodayDate,
-  getStartOfWeek,
+  generateUuid,
   FREE_LIMITS,
   isOnboardingComplete,
   setOnboardingComplete,
   resetOnboarding as resetOnboardingStorage,
   clearUserData,
+  UserDataSnapshot,
+  PendingMutationPayload,
+  enqueuePendingMutation,
+  loadUserDataSnapshot,
+  setUserDataOwner,
+  saveHabits,
+  saveLogs,
+  saveBadHabits,
+  saveBadHabitLogs,
+  saveUnitEvents,
+  takeNotificationUnitLogs,
+  getPendingMutations,
+  SyncState,
+  getSyncState,
+  saveSyncState,
 } from "@/lib/storage";
-import { useAuth } from "@/lib/AuthContext";
+import { useAuth, DatePreferences } from "@/lib/AuthContext";
 import {
-  fetchHabitsWithTodayProgress,
-  fetchAllHabits,
-  fetchAllHabitLogs,
-  fetchBadHabits as fetchDbBadHabits,
-  fetchBadHabitLogs as fetchDbBadHabitLogs,
-  addUnitsToHabit,
-  setUnitsForHabit,
-  createHabit as createDbHabit,
-  updateHabit as updateDbHabit,
-  deleteHabit as deleteDbHabit,
-  createBadHabit as createDbBadHabit,
-  deleteBadHabit as deleteDbBadHabit,
-  createBadHabitLog as createDbBadHabitLog,
-  undoBadHabitLog as undoDbBadHabitLog,
-  HabitWithProgress,
-  DbHabit,
-  DbHabitLog,
-  DbBadHabit,
-  DbBadHabitLog,
-} from "@/lib/habitService";
-
-interface UndoAction {
-  type: "add_units" | "remove_units";
-  logId: string;
-  habitId: string;
-  count: number;
-}
+  getTodayDate,
+  getDateForTimestamp,
+  addDays,
+  getStartOfWeek,
+  getPeriodStart,
+  isHabitDueOn,
+  getMsUntilNextDay,
+  getDeviceTimeZone,
+  getHomeTimeZone,
+  hasTimeZoneMismatch,
+  setDayStartHour,
+  setHomeTimeZone,
+  setTravelMode,
+} from "@/lib/dates";
+import { pushPendingMutations, syncUserData, reconcileConfirmedCounts, applyNotificationUnitLogs, applyImportedUnitEvents, applyRemoteChange, pullHistoryPage, mergeHistoryPage, HISTORY_PAGE_DAYS, HistoryRange } from "@/lib/syncEngine";
+import { createHabitsBatch, importUnitEvents, subscribeToRemoteChanges, fetchFirstLogDate } from "@/lib/habitService";
+import type { RemoteChange, RemoteChangeStatus } from "@/lib/habitRepository";
+import type { ImportPlan } from "@/lib/dataImport";
+import { StatsIndex, buildStatsIndex, getDayRollup, sumHabitUnits } from "@/lib/statsIndex";
+import { configureReminderNotifications, syncHabitReminders } from "@/lib/reminders";
+import { addNotificationUnitsLoggedListener } from "@/lib/notificationActions";
+
+// Units change on every tap; wait for a pause before rebuilding reminders
+const REMINDER_SYNC_DELAY_MS = 1500;
+
+// One reversible user action. Undo writes the exact inverse through the outbox;
+// redo writes the original change again.
+export type UndoEntry = { id: string; label: string } & (
+  | { type: "units"; habitId: string; date: string; delta: number }
+  | { type: "bad_habit_tap"; badHabitId: string; date: string; penaltyUnits: number; tapped: boolean }
+  | { type: "delete_habit"; habit: Habit; logs: UnitLog[] }
+  | { type: "delete_bad_habit"; badHabit: BadHabit; logs: BadHabitLog[] }
+);
+
+const MAX_UNDO_DEPTH = 50;
+
+// Shown when the device is in a different zone than the one days are counted in
+export type TimeZoneNotice = {
+  homeTimeZone: string;
+  deviceTimeZone: string;
+};
 
 interface UnitsContextType {
   habits: Habit[];
@@ -56,21 +86,30 @@ interface UnitsContextType {
   settings: AppSettings;
   isPro: boolean;
   loading: boolean;
-  undoAction: UndoAction | null;
+  undoStack: UndoEntry[];
+  redoStack: UndoEntry[];
   hasCompletedOnboarding: boolean;
   badHabits: BadHabit[];
   badHabitLogs: BadHabitLog[];
+  unitEvents: UnitEvent[];
   currentDate: string;
+  pendingChanges: number;
+  timeZoneNotice: TimeZoneNotice | null;
+  dismissTimeZoneNotice: () => void;
+  // Logs before this day are not on the device yet (see loadHistory); null once all history is local
+  historyStart: string | null;
   
   addHabit: (habit: Omit<Habit, "id" | "createdAt" | "isArchived">) => Promise<boolean>;
   updateHabit: (id: string, updates: Partial<Habit>) => Promise<void>;
   deleteHabit: (id: string) => Promise<void>;
+  importData: (plan: ImportPlan) => Promise<{ success: boolean; error: string | null }>;
   
-  addUnits: (habitId: string, count: number) => Promise<boolean>;
-  removeUnits: (habitId: string, count: number) => Promise<boolean>;
+  addUnits: (habitId: string, count: number, source?: UnitEventSource) => Promise<boolean>;
+  removeUnits: (habitId: string, count: number, source?: UnitEventSource) => Promise<boolean>;
   addUnitsForDate: (habitId: string, count: number, date: string) => Promise<boolean>;
   removeUnitsForDate: (habitId: string, count: number, date: string) => Promise<boolean>;
-  undoLastAdd: () => Promise<void>;
+  undo: () => Promise<boolean>;
+  redo: () => Promise<boolean>;
   clearUndo: () => void;
   
   addBadHabit: (name: string) => Promise<boolean>;
@@ -102,66 +141,71 @@ interface UnitsContextType {
   getWeekTotalUnits: () => number;
   getMonthUnits: (habitId: string) => number;
   getYearUnits: (habitId: string) => number;
+  getPeriodUnits: (habitId: string, date?: string) => number;
+  getEffectivePeriodUnits: (habitId: string, date?: string) => number;
   getLogsForDate: (date: string) => UnitLog[];
+  getUnitEventsForDate: (date: string, habitId?: string) => UnitEvent[];
   getHighestDailyTotal: () => number;
+  // Logs rolled up by day and habit (see statsIndex.ts) for stats that scan long ranges
+  statsIndex: StatsIndex;
   
   canAddHabit: () => boolean;
   canAddUnits: (count: number) => boolean;
   
   refreshData: () => Promise<void>;
+  // Downloads older history back to `from` (all of it when omitted). Resolves with the
+  // local data once it is there, or null when it could not be fetched.
+  loadHistory: (from?: string) => Promise<UserDataSnapshot | null>;
+  flushPendingMutations: () => Promise<void>;
   clearAllHabitData: () => Promise<void>;
 }
 
 const UnitsContext = createContext<UnitsContextType | undefined>(undefined);
 
-function dbHabitToLocal(dbHabit: DbHabit | HabitWithProgress): Habit {
-  return {
-    id: dbHabit.id,
-    name: dbHabit.name,
-    icon: dbHabit.icon,
-    color: dbHabit.color,
-    unitName: dbHabit.unit_name,
-    dailyGoal: dbHabit.daily_goal,
-    tapIncrement: dbHabit.tap_increment,
-    habitType: dbHabit.habit_type,
-    createdAt: dbHabit.created_at,
-    isArchived: dbHabit.is_archived,
-  };
+// How often to retry the outbox while changes are pending
+const OUTBOX_RETRY_INTERVAL_MS = 30000;
+
+type DateSettings = Pick<AppSettings, "dayStartHour" | "homeTimeZone" | "travelMode">;
+
+function pickDateSettings(settings: Partial<AppSettings>): DateSettings {
+  const prefs: DateSettings = {};
+  if (settings.dayStartHour !== undefined) prefs.dayStartHour = settings.dayStartHour;
+  if (settings.homeTimeZone !== undefined) prefs.homeTimeZone = settings.homeTimeZone;
+  if (settings.travelMode !== undefined) prefs.travelMode = settings.travelMode;
+  return prefs;
 }
 
-function dbLogToLocal(dbLog: DbHabitLog): UnitLog {
-  return {
-    id: dbLog.id,
-    habitId: dbLog.habit_id,
-    count: dbLog.count,
-    date: dbLog.date,
-    createdAt: dbLog.created_at,
-  };
+function toProfileDatePreferences(prefs: DateSettings): DatePreferences {
+  const updates: DatePreferences = {};
+  if (prefs.dayStartHour !== undefined) updates.day_start_hour = prefs.dayStartHour;
+  if (prefs.homeTimeZone !== undefined) updates.home_time_zone = prefs.homeTimeZone;
+  if (prefs.travelMode !== undefined) updates.travel_mode = prefs.travelMode;
+  return updates;
 }
 
-function dbBadHabitToLocal(dbBadHabit: DbBadHabit): BadHabit {
-  return {
-    id: dbBadHabit.id,
-    name: dbBadHabit.name,
-    createdAt: dbBadHabit.created_at,
-    isArchived: dbBadHabit.is_archived,
-  };
+// Point the date module at these preferences; fields left undefined keep their current value
+function applyDateSettings(prefs: DateSettings) {
+  if (prefs.dayStartHour !== undefined) setDayStartHour(prefs.dayStartHour);
+  if (prefs.homeTimeZone !== undefined) setHomeTimeZone(prefs.homeTimeZone);
+  if (prefs.travelMode !== undefined) setTravelMode(prefs.travelMode);
 }
 
-function dbBadHabitLogToLocal(dbLog: DbBadHabitLog): BadHabitLog {
-  return {
-    id: dbLog.id,
-    badHabitId: dbLog.bad_habit_id,
-    count: dbLog.count,
-    date: dbLog.date,
-    createdAt: dbLog.created_at,
-    penaltyAdjustments: [],
-    isUndone: dbLog.is_undone,
-  };
+function describeUnitChange(habit: Habit | undefined, delta: number, date: string, today: string): string {
+  const amount = Math.abs(delta);
+  const units = `${amount} unit${amount === 1 ? "" : "s"}`;
+  const name = habit?.name || "habit";
+  const text = delta >= 0 ? `Added ${units} to ${name}` : `Removed ${units} from ${name}`;
+  return date === today ? text : `${text} on ${date}`;
+}
+
+function describeBadHabitTap(badHabit: BadHabit | undefined, tapped: boolean, date: string, today: string): string {
+  const name = badHabit?.name || "bad habit";
+  const text = tapped ? `Logged ${name}` : `Cleared ${name}`;
+  return date === today ? text : `${text} on ${date}`;
 }
 
 export function UnitsProvider({ children }: { children: ReactNode }) {
-  const { user } = useAuth();
+  const { user, profile, updateDatePreferences } = useAuth();
   const [habits, setHabits] = useState<Habit[]>([]);
   const [logs, setLogs] = useState<UnitLog[]>([]);
   const [settings, setSettings] = useState<AppSettings>({
@@ -170,14 +214,34 @@ export function UnitsProvider({ children }: { children: ReactNode }) {
   });
   const [isPro, setIsProState] = useState(false);
   const [loading, setLoading] = useState(true);
-  const [undoAction, setUndoAction] = useState<UndoAction | null>(null);
+  const [undoStack, setUndoStack] = useState<UndoEntry[]>([]);
+  const [redoStack, setRedoStack] = useState<UndoEntry[]>([]);
   const [hasCompletedOnboarding, setHasCompletedOnboarding] = useState(false);
   const [badHabits, setBadHabits] = useState<BadHabit[]>([]);
   const [badHabitLogs, setBadHabitLogs] = useState<BadHabitLog[]>([]);
+  const [unitEvents, setUnitEvents] = useState<UnitEvent[]>([]);
   const [currentDate, setCurrentDate] = useState(getTodayDate());
+  const [pendingChanges, setPendingChanges] = useState(0);
+  const [timeZoneNotice, setTimeZoneNotice] = useState<TimeZoneNotice | null>(null);
+  const [historyStart, setHistoryStart] = useState<string | null>(null);
   const appState = useRef(AppState.currentState);
   const previousUserIdRef = useRef<string | null>(null);
   const clearingPromiseRef = useRef<Promise<void> | null>(null);
+  // User whose local store has been loaded into state; persistence is off until then
+  const hydratedUserIdRef = useRef<string | null>(null);
+  // Latest in-memory data, read by the sync merge after its network round trip
+  const latestDataRef = useRef<UserDataSnapshot>({ habits: [], logs: [], badHabits: [], badHabitLogs: [], unitEvents: [] });
+  // Undo and redo pop through these, so a second tap before the re-render takes the next entry
+  const undoStackRef = useRef<UndoEntry[]>([]);
+  const redoStackRef = useRef<UndoEntry[]>([]);
+  // Date preferences from the user's profile; take precedence over the locally stored settings
+  const profileDateSettingsRef = useRef<DateSettings>({});
+  // Sync cursor and history window of the local store; syncs and history loads each update their part
+  const syncStateRef = useRef<SyncState>({ cursor: null, historyStart: null });
+  // History pages load one at a time, in order
+  const historyLoadRef = useRef<Promise<unknown>>(Promise.resolve());
+  // Device zone the user chose to keep counting home days in; not asked again this session
+  const dismissedTimeZoneRef = useRef<string | null>(null);
 
   // Clear all local state and storage when user logs out or changes
   const clearLocalState = useCallback(async () => {
@@ -187,7 +251,13 @@ export function UnitsProvider({ children }: { children: ReactNode }) {
     setLogs([]);
     setBadHabits([]);
     setBadHabitLogs([]);
-    setUndoAction(null);
+    setUnitEvents([]);
+    setUndoStack([]);
+    setRedoStack([]);
+    setPendingChanges(0);
+    setHistoryStart(null);
+    hydratedUserIdRef.current = null;
+    syncStateRef.current = { cursor: null, historyStart: null };
     // Clear AsyncStorage user data (preserves settings, onboarding, isPro)
     await clearUserData();
     console.log("[Units] Local state and storage cleared");
@@ -215,23 +285,114 @@ export function UnitsProvider({ children }: { children: ReactNode }) {
     previousUserIdRef.current = currentUserId;
   }, [user, clearLocalState]);
 
+  const updateSyncState = useCallback((update: Partial<SyncState>) => {
+    syncStateRef.current = { ...syncStateRef.current, ...update };
+    setHistoryStart(syncStateRef.current.historyStart);
+    saveSyncState(syncStateRef.current);
+  }, []);
+
+  // Push queued writes to Supabase (see syncEngine for ordering and retry rules)
+  const flushPendingMutations = useCallback(async () => {
+    if (!user) return;
+    const { remaining, confirmedCounts } = await pushPendingMutations(user.id);
+    setPendingChanges(remaining);
+    if (confirmedCounts.length > 0) {
+      // Adopt the counts returned by the atomic increment
+      setLogs((prev) => reconcileConfirmedCounts(prev, confirmedCounts));
+    }
+  }, [user]);
+
+  // Pick up units logged from notification actions while the app was in the background.
+  // Their writes are already sent or queued, so only local state changes here.
+  const applyPendingNotificationLogs = useCallback(async () => {
+    if (!user || hydratedUserIdRef.current !== user.id) return;
+    const entries = await takeNotificationUnitLogs();
+    if (entries.length === 0) return;
+
+    console.log("[Units] Applying", entries.length, "unit logs from notification actions");
+    const current = latestDataRef.current;
+    const { logs: nextLogs, unitEvents: nextEvents } = applyNotificationUnitLogs(current.logs, current.unitEvents, entries);
+    latestDataRef.current = { ...current, logs: nextLogs, unitEvents: nextEvents };
+    setLogs(nextLogs);
+    setUnitEvents(nextEvents);
+    const pending = await getPendingMutations();
+    setPendingChanges(pending.length);
+  }, [user]);
+
+  useEffect(() => {
+    return addNotificationUnitsLoggedListener(() => {
+      applyPendingNotificationLogs();
+    });
+  }, [applyPendingNotificationLogs]);
+
+  // Persist a write to the outbox and kick off a background flush.
+  // Callers apply the change to local state themselves (optimistic update).
+  const queueMutation = useCallback(async (payload: PendingMutationPayload) => {
+    await enqueuePendingMutation(payload);
+    setPendingChanges((count) => count + 1);
+    flushPendingMutations();
+  }, [flushPendingMutations]);
+
+  // Append a unit event for a change to a day's total; it rides along with the rollup write
+  const recordUnitEvent = useCallback((habitId: string, date: string, delta: number, source: UnitEventSource): UnitEvent => {
+    const event: UnitEvent = {
+      id: generateUuid(),
+      habitId,
+      date,
+      delta,
+      source,
+      timestamp: new Date().toISOString(),
+    };
+    setUnitEvents((prev) => [...prev, event]);
+    return event;
+  }, []);
+
+  // A new action invalidates anything that was undone before it
+  const recordUndo = useCallback((entry: UndoEntry) => {
+    setUndoStack((prev) => [...prev, entry].slice(-MAX_UNDO_DEPTH));
+    setRedoStack([]);
+  }, []);
+
   // Day change detection - check if date has changed
   const checkDayChange = useCallback(() => {
     const today = getTodayDate();
     if (today !== currentDate) {
       setCurrentDate(today);
-      setUndoAction(null); // Clear undo on new day
+      // Clear undo history on new day
+      setUndoStack([]);
+      setRedoStack([]);
       return true;
     }
     return false;
   }, [currentDate]);
 
+  // Surface a notice when the device has moved to another zone and days still follow home
+  const checkTimeZone = useCallback(() => {
+    const homeTimeZone = getHomeTimeZone();
+    const deviceTimeZone = getDeviceTimeZone();
+    if (!homeTimeZone || !hasTimeZoneMismatch() || dismissedTimeZoneRef.current === deviceTimeZone) {
+      setTimeZoneNotice(null);
+      return;
+    }
+    setTimeZoneNotice((prev) =>
+      prev?.homeTimeZone === homeTimeZone && prev.deviceTimeZone === deviceTimeZone ? prev : { homeTimeZone, deviceTimeZone }
+    );
+  }, []);
+
+  const dismissTimeZoneNotice = useCallback(() => {
+    dismissedTimeZoneRef.current = getDeviceTimeZone();
+    setTimeZoneNotice(null);
+  }, []);
+
   // Listen for app state changes (foreground/background)
   useEffect(() => {
     const subscription = AppState.addEventListener("change", (nextAppState: AppStateStatus) => {
       if (appState.current.match(/inactive|background/) && nextAppState === "active") {
-        // App came to foreground - check if day changed
+        // App came to foreground - check if day or time zone changed, pick up units logged
+        // from notifications and retry any offline writes
         checkDayChange();
+        checkTimeZone();
+        applyPendingNotificationLogs().then(() => flushPendingMutations());
       }
       appState.current = nextAppState;
     });
@@ -239,18 +400,76 @@ export function UnitsProvider({ children }: { children: ReactNode }) {
     return () => {
       subscription.remove();
     };
-  }, [checkDayChange]);
+  }, [checkDayChange, checkTimeZone, flushPendingMutations, applyPendingNotificationLogs]);
+
+  // Keep retrying the outbox while there are changes waiting for connectivity
+  useEffect(() => {
+    if (pendingChanges === 0) return;
+    const intervalId = setInterval(() => {
+      flushPendingMutations();
+    }, OUTBOX_RETRY_INTERVAL_MS);
+    return () => clearInterval(intervalId);
+  }, [pendingChanges, flushPendingMutations]);
+
+  useEffect(() => {
+    undoStackRef.current = undoStack;
+    redoStackRef.current = redoStack;
+  }, [undoStack, redoStack]);
+
+  // The device store is the primary copy: mirror every state change to AsyncStorage
+  useEffect(() => {
+    latestDataRef.current = { habits, logs, badHabits, badHabitLogs, unitEvents };
+  }, [habits, logs, badHabits, badHabitLogs, unitEvents]);
+
+  useEffect(() => {
+    if (user && hydratedUserIdRef.current === user.id) saveHabits(habits);
+  }, [habits, user]);
+
+  useEffect(() => {
+    if (user && hydratedUserIdRef.current === user.id) saveLogs(logs);
+  }, [logs, user]);
+
+  useEffect(() => {
+    if (user && hydratedUserIdRef.current === user.id) saveBadHabits(badHabits);
+  }, [badHabits, user]);
+
+  useEffect(() => {
+    if (user && hydratedUserIdRef.current === user.id) saveBadHabitLogs(badHabitLogs);
+  }, [badHabitLogs, user]);
+
+  useEffect(() => {
+    if (user && hydratedUserIdRef.current === user.id) saveUnitEvents(unitEvents);
+  }, [unitEvents, user]);
+
+  // Date preferences live in the profile so they follow the user across devices
+  const profileDayStartHour = profile?.day_start_hour;
+  const profileHomeTimeZone = profile?.home_time_zone;
+  const profileTravelMode = profile?.travel_mode;
+  useEffect(() => {
+    const prefs: DateSettings = {};
+    if (typeof profileDayStartHour === "number") prefs.dayStartHour = profileDayStartHour;
+    if (profileHomeTimeZone) prefs.homeTimeZone = profileHomeTimeZone;
+    if (typeof profileTravelMode === "boolean") prefs.travelMode = profileTravelMode;
+    if (Object.keys(prefs).length === 0) return;
+    profileDateSettingsRef.current = prefs;
+
+    console.log("[Units] Applying date preferences from profile:", prefs);
+    applyDateSettings(prefs);
+    setSettings((prev) => ({ ...prev, ...prefs }));
+    getSettings().then((stored) => saveSettings({ ...stored, ...prefs }));
+    setCurrentDate(getTodayDate());
+    checkTimeZone();
+  }, [profileDayStartHour, profileHomeTimeZone, profileTravelMode, checkTimeZone]);
 
   // Set up midnight timer to detect day change
   useEffect(() => {
     const checkMidnight = () => {
       checkDayChange();
+      checkTimeZone();
     };
 
-    // Calculate ms until next midnight
-    const now = new Date();
-    const tomorrow = new Date(now.getFullYear(), now.getMonth(), now.getDate() + 1);
-    const msUntilMidnight = tomorrow.getTime() - now.getTime();
+    // Calculate ms until the next day boundary in the active time zone (midnight unless a later day start is set)
+    const msUntilMidnight = getMsUntilNextDay();
 
     // Set timeout for midnight, then check every minute after
     const midnightTimeout = setTimeout(() => {
@@ -267,7 +486,7 @@ export function UnitsProvider({ children }: { children: ReactNode }) {
       clearTimeout(midnightTimeout);
       clearInterval(intervalId);
     };
-  }, [checkDayChange]);
+  }, [checkDayChange, checkTimeZone, settings.dayStartHour, settings.homeTimeZone, settings.travelMode]);
 
   const refreshData = useCallback(async () => {
     try {
@@ -289,98 +508,186 @@ export function UnitsProvider({ children }: { children: ReactNode }) {
         isOnboardingComplete(),
       ]);
 
-      setSettings(loadedSettings);
+      const mergedSettings = { ...loadedSettings, ...profileDateSettingsRef.current };
+      applyDateSettings(mergedSettings);
+      setSettings(mergedSettings);
+      setCurrentDate(getTodayDate());
+      checkTimeZone();
       // isPro state is managed by RootStackNavigator's validatePremiumAccess
       setHasCompletedOnboarding(loadedOnboarding);
 
-      // Supabase is the single source of truth for all user data
-      // Only load from Supabase when user is authenticated
+      // AsyncStorage is the primary store for user data. It is shown immediately,
+      // then reconciled with Supabase (the server copy wins unless a write is still queued).
+      // Only load user data when authenticated
       if (user) {
-        console.log("[Units] refreshData: Loading user data from Supabase...");
-        
-        const [habitsResult, logsResult, badHabitsResult, badHabitLogsResult] = await Promise.all([
-          fetchAllHabits(user.id),
-          fetchAllHabitLogs(user.id),
-          fetchDbBadHabits(user.id),
-          fetchDbBadHabitLogs(user.id),
-        ]);
-
-        // Handle table not found errors gracefully (tables may not exist yet)
-        const isTableNotFoundError = (error: string) => 
-          error?.includes("Could not find") || error?.includes("does not exist");
-
-        if (habitsResult.error) {
-          if (isTableNotFoundError(habitsResult.error)) {
-            console.log("[Units] Habits table not found - using empty data");
-          } else {
-            console.warn("[Units] Error fetching habits:", habitsResult.error);
-          }
-          setHabits([]);
-        } else {
-          const localHabits = habitsResult.habits.map(dbHabitToLocal);
-          setHabits(localHabits);
-          console.log("[Units] refreshData: Loaded", localHabits.length, "habits from Supabase");
-        }
-
-        if (logsResult.error) {
-          if (isTableNotFoundError(logsResult.error)) {
-            console.log("[Units] Habit logs table not found - using empty data");
-          } else {
-            console.warn("[Units] Error fetching logs:", logsResult.error);
+        if (hydratedUserIdRef.current !== user.id) {
+          const local = await loadUserDataSnapshot(user.id);
+          if (local) {
+            setHabits(local.habits);
+            setLogs(local.logs);
+            setBadHabits(local.badHabits);
+            setBadHabitLogs(local.badHabitLogs);
+            setUnitEvents(local.unitEvents);
+            latestDataRef.current = local;
+            // Cold start is instant when there is a local copy; sync continues in the background
+            setLoading(false);
+            console.log("[Units] refreshData: Hydrated", local.habits.length, "habits and", local.logs.length, "logs from local store");
           }
-          setLogs([]);
-        } else {
-          const localLogs = logsResult.logs.map(dbLogToLocal);
-          setLogs(localLogs);
-          console.log("[Units] refreshData: Loaded", localLogs.length, "logs from Supabase");
+          // Another user's cursor would skip this user's rows, so without a local copy start over
+          syncStateRef.current = local ? await getSyncState() : { cursor: null, historyStart: null };
+          setHistoryStart(syncStateRef.current.historyStart);
+          await setUserDataOwner(user.id);
+          hydratedUserIdRef.current = user.id;
         }
 
-        if (badHabitsResult.error) {
-          if (isTableNotFoundError(badHabitsResult.error)) {
-            console.log("[Units] Bad habits table not found - using empty data");
-          } else {
-            console.warn("[Units] Error fetching bad habits:", badHabitsResult.error);
-          }
-          setBadHabits([]);
+        // Before the pull, so the merge sees units logged from notifications while the app was closed
+        await applyPendingNotificationLogs();
+
+        console.log("[Units] refreshData: Syncing with Supabase...");
+        const { snapshot, syncState, pendingCount } = await syncUserData(user.id, () => latestDataRef.current, syncStateRef.current);
+        setPendingChanges(pendingCount);
+        updateSyncState(syncState);
+
+        if (snapshot) {
+          latestDataRef.current = snapshot;
+          setHabits(snapshot.habits);
+          setLogs(snapshot.logs);
+          setBadHabits(snapshot.badHabits);
+          setBadHabitLogs(snapshot.badHabitLogs);
+          setUnitEvents(snapshot.unitEvents);
+          console.log("[Units] refreshData: Sync complete");
         } else {
-          const localBadHabits = badHabitsResult.badHabits.map(dbBadHabitToLocal);
-          setBadHabits(localBadHabits);
-          console.log("[Units] refreshData: Loaded", localBadHabits.length, "bad habits from Supabase");
+          // Most likely offline - the local store stays authoritative until the next sync
+          console.log("[Units] refreshData: Sync failed, keeping local data");
         }
-
-        if (badHabitLogsResult.error) {
-          if (isTableNotFoundError(badHabitLogsResult.error)) {
-            console.log("[Units] Bad habit logs table not found - using empty data");
-          } else {
-            console.warn("[Units] Error fetching bad habit logs:", badHabitLogsResult.error);
-          }
-          setBadHabitLogs([]);
-        } else {
-          const localBadHabitLogs = badHabitLogsResult.logs.map(dbBadHabitLogToLocal);
-          setBadHabitLogs(localBadHabitLogs);
-          console.log("[Units] refreshData: Loaded", localBadHabitLogs.length, "bad habit logs from Supabase");
-        }
-
-        console.log("[Units] refreshData: Data loaded successfully from Supabase");
       } else {
         // No user - clear all user data (user must be authenticated to access data)
         console.log("[Units] refreshData: No user authenticated - clearing user data");
+        hydratedUserIdRef.current = null;
+        syncStateRef.current = { cursor: null, historyStart: null };
+        setHistoryStart(null);
         setHabits([]);
         setLogs([]);
         setBadHabits([]);
         setBadHabitLogs([]);
+        setUnitEvents([]);
       }
     } catch (error) {
       console.error("[Units] Error loading data:", error);
     } finally {
       setLoading(false);
     }
-  }, [user]);
+  }, [user, checkTimeZone, applyPendingNotificationLogs, updateSyncState]);
 
   useEffect(() => {
     refreshData();
   }, [refreshData]);
 
+  // Sync only keeps recent logs on the device; older ones are fetched a page at a time
+  // when a screen needs them, going back until an empty page reaches the oldest log
+  // or habit. Imported habits are stamped with the import time, so their createdAt
+  // alone can't tell where history begins.
+  const loadHistoryPages = useCallback(async (from?: string): Promise<UserDataSnapshot | null> => {
+    if (!user || hydratedUserIdRef.current !== user.id) return null;
+    const userId = user.id;
+    const { cursor } = syncStateRef.current;
+    let start: string | null = syncStateRef.current.historyStart;
+    // No window yet means the first sync has not finished; nothing is known to be complete
+    if (!start) return cursor ? latestDataRef.current : null;
+    // The first sync found no rows at all, so there is nothing older either
+    if (!cursor) return latestDataRef.current;
+    if (from && start <= from) return latestDataRef.current;
+
+    const first = await fetchFirstLogDate(userId, addDays(start, -1));
+    if (first.error) {
+      console.log("[Units] loadHistory: Could not find the oldest log, history stays at", start);
+      return null;
+    }
+
+    while (start && (!from || start > from)) {
+      const range: HistoryRange = { from: addDays(start, -HISTORY_PAGE_DAYS), to: addDays(start, -1) };
+      console.log("[Units] loadHistory: Fetching", range.from, "to", range.to);
+      const { page, error } = await pullHistoryPage(userId, range);
+      if (!page || error) {
+        console.log("[Units] loadHistory: Fetch failed, history stays at", start);
+        return null;
+      }
+      if (hydratedUserIdRef.current !== userId) return null;
+
+      const pending = await getPendingMutations();
+      const merged = mergeHistoryPage(latestDataRef.current, page, range, pending);
+      latestDataRef.current = merged;
+      setLogs(merged.logs);
+      setBadHabitLogs(merged.badHabitLogs);
+      setUnitEvents(merged.unitEvents);
+
+      const createdDates = [...merged.habits, ...merged.badHabits].map((item) => getDateForTimestamp(item.createdAt));
+      const firstDate = createdDates.reduce((earliest, date) => (date < earliest ? date : earliest), first.date ?? getTodayDate());
+      const isEmpty = page.logs.length === 0 && page.badHabitLogs.length === 0 && page.unitEvents.length === 0;
+      start = isEmpty && range.from <= firstDate ? null : range.from;
+      updateSyncState({ historyStart: start });
+    }
+    return latestDataRef.current;
+  }, [user, updateSyncState]);
+
+  const loadHistory = useCallback((from?: string) => {
+    const run = historyLoadRef.current.then(() => loadHistoryPages(from));
+    historyLoadRef.current = run.catch(() => undefined);
+    return run;
+  }, [loadHistoryPages]);
+
+  // Read by the realtime subscription, which should not resubscribe when refreshData changes
+  const refreshDataRef = useRef(refreshData);
+  useEffect(() => {
+    refreshDataRef.current = refreshData;
+  }, [refreshData]);
+
+  // Live changes from the user's other devices. Each row is merged by the same rules
+  // as a pull, which also drops the echoes of this device's own writes (see syncEngine).
+  const userId = user?.id ?? null;
+  useEffect(() => {
+    if (!userId) return;
+    let missedChanges = false;
+
+    const handleRemoteChange = async (change: RemoteChange) => {
+      if (hydratedUserIdRef.current !== userId) return;
+      const pending = await getPendingMutations();
+      // Functional updates, so taps made while the outbox was being read are kept
+      const merge = (data: Partial<UserDataSnapshot>) =>
+        applyRemoteChange({ ...latestDataRef.current, ...data }, change, pending);
+      switch (change.table) {
+        case "habits":
+          setHabits((prev) => merge({ habits: prev }).habits);
+          break;
+        case "habit_logs":
+          setLogs((prev) => merge({ logs: prev }).logs);
+          break;
+        case "bad_habits":
+          setBadHabits((prev) => merge({ badHabits: prev }).badHabits);
+          break;
+        case "bad_habit_logs":
+          setBadHabitLogs((prev) => merge({ badHabitLogs: prev }).badHabitLogs);
+          break;
+        case "unit_events":
+          setUnitEvents((prev) => merge({ unitEvents: prev }).unitEvents);
+          break;
+      }
+    };
+
+    // Changes made while the channel was down are not replayed; a full sync catches up
+    const handleStatus = (status: RemoteChangeStatus) => {
+      if (status === "disconnected") {
+        missedChanges = true;
+      } else if (missedChanges) {
+        missedChanges = false;
+        console.log("[Units] Realtime reconnected - syncing");
+        refreshDataRef.current();
+      }
+    };
+
+    return subscribeToRemoteChanges(userId, handleRemoteChange, handleStatus);
+  }, [userId]);
+
   const triggerHaptic = useCallback((style: "light" | "medium" | "heavy" = "light") => {
     if (settings.hapticsEnabled) {
       const feedbackStyle = {
@@ -409,29 +716,21 @@ export function UnitsProvider({ children }: { children: ReactNode }) {
       return false;
     }
 
-    // Write to Supabase first (single source of truth)
-    const { habit: dbHabit, error } = await createDbHabit(user.id, {
-      name: habit.name,
-      icon: habit.icon,
-      color: habit.color,
-      unit_name: habit.unitName,
-      daily_goal: habit.dailyGoal,
-      tap_increment: habit.tapIncrement,
-      habit_type: habit.habitType,
-    });
-
-    if (error || !dbHabit) {
-      console.error("[Units] Failed to create habit in Supabase:", error);
-      return false;
-    }
-
-    // Update local state with the habit from Supabase
-    const newHabit = dbHabitToLocal(dbHabit);
+    // Client-generated UUID so the habit keeps the same id once it reaches Supabase
+    const now = new Date().toISOString();
+    const newHabit: Habit = {
+      ...habit,
+      id: generateUuid(),
+      createdAt: now,
+      isArchived: false,
+      updatedAt: now,
+    };
     setHabits([...habits, newHabit]);
+    await queueMutation({ type: "create_habit", habit: newHabit });
 
     triggerSuccess();
     return true;
-  }, [habits, user, isPro, triggerSuccess]);
+  }, [habits, user, isPro, triggerSuccess, queueMutation]);
 
   const handleUpdateHabit = useCallback(async (id: string, updates: Partial<Habit>) => {
     if (!user) {
@@ -439,30 +738,11 @@ export function UnitsProvider({ children }: { children: ReactNode }) {
       return;
     }
 
-    // Build Supabase update object
-    const dbUpdates: Partial<{ name: string; icon: string; color: string; unit_name: string; daily_goal: number; tap_increment: number; habit_type: "count" | "time"; is_archived: boolean }> = {};
-    if (updates.name !== undefined) dbUpdates.name = updates.name;
-    if (updates.icon !== undefined) dbUpdates.icon = updates.icon;
-    if (updates.color !== undefined) dbUpdates.color = updates.color;
-    if (updates.unitName !== undefined) dbUpdates.unit_name = updates.unitName;
-    if (updates.dailyGoal !== undefined) dbUpdates.daily_goal = updates.dailyGoal;
-    if (updates.tapIncrement !== undefined) dbUpdates.tap_increment = updates.tapIncrement;
-    if (updates.habitType !== undefined) dbUpdates.habit_type = updates.habitType;
-    if (updates.isArchived !== undefined) dbUpdates.is_archived = updates.isArchived;
-    
-    if (Object.keys(dbUpdates).length > 0) {
-      // Write to Supabase first (single source of truth)
-      const { error } = await updateDbHabit(id, dbUpdates);
-      if (error) {
-        console.error("[Units] Failed to update habit in Supabase:", error);
-        return;
-      }
-    }
-
-    // Update local state
-    const updated = habits.map((h) => (h.id === id ? { ...h, ...updates } : h));
+    // Update local state, then queue the write for Supabase
+    const updated = habits.map((h) => (h.id === id ? { ...h, ...updates, updatedAt: new Date().toISOString() } : h));
     setHabits(updated);
-  }, [habits, user]);
+    await queueMutation({ type: "update_habit", habitId: id, updates });
+  }, [habits, user, queueMutation]);
 
   const handleDeleteHabit = useCallback(async (id: string) => {
     if (!user) {
@@ -470,22 +750,75 @@ export function UnitsProvider({ children }: { children: ReactNode }) {
       return;
     }
 
-    // Delete from Supabase first (single source of truth)
-    const { error } = await deleteDbHabit(id);
-    if (error) {
-      console.error("[Units] Failed to delete habit from Supabase:", error);
-      return;
-    }
+    const habit = habits.find((h) => h.id === id);
 
-    // Update local state
+    // Update local state, then queue the delete for Supabase
     const updated = habits.filter((h) => h.id !== id);
     setHabits(updated);
     
     const updatedLogs = logs.filter((l) => l.habitId !== id);
     setLogs(updatedLogs);
-  }, [habits, logs, user]);
+    await queueMutation({ type: "delete_habit", habitId: id });
 
-  const handleAddUnits = useCallback(async (habitId: string, count: number) => {
+    if (habit) {
+      recordUndo({
+        id: generateId(),
+        label: `Deleted ${habit.name}`,
+        type: "delete_habit",
+        habit,
+        logs: logs.filter((l) => l.habitId === id),
+      });
+    }
+  }, [habits, logs, user, queueMutation, recordUndo]);
+
+  // Bulk import (see dataImport.ts). Unlike other writes this goes straight to
+  // Supabase rather than through the outbox, so it needs a connection, and local
+  // state only changes once the server has the data.
+  const handleImportData = useCallback(async (plan: ImportPlan) => {
+    if (!user) {
+      console.error("[Units] Cannot import: user not authenticated");
+      return { success: false, error: "You need to be signed in to import." };
+    }
+
+    const activeHabits = habits.filter((h) => !h.isArchived);
+    if (!isPro && activeHabits.length + plan.newHabits.length > FREE_LIMITS.MAX_HABITS) {
+      return { success: false, error: `Free accounts can have up to ${FREE_LIMITS.MAX_HABITS} habits.` };
+    }
+
+    console.log("[Units] Importing", plan.newHabits.length, "habits and", plan.events.length, "unit entries");
+    const created = await createHabitsBatch(user.id, plan.newHabits);
+    if (!created.success) {
+      console.error("[Units] Import failed creating habits:", created.error);
+      return { success: false, error: created.error };
+    }
+
+    const current = latestDataRef.current;
+    const nextHabits = [...current.habits, ...plan.newHabits];
+    latestDataRef.current = { ...current, habits: nextHabits };
+    setHabits(nextHabits);
+
+    const result = await importUnitEvents(plan.events);
+    if (!result.success) {
+      // Some batches may have landed; pull the server's copy rather than guess which
+      console.error("[Units] Import failed after", result.imported, "entries:", result.error);
+      refreshData();
+      return { success: false, error: result.error };
+    }
+
+    const { logs: nextLogs, unitEvents: nextEvents } = applyImportedUnitEvents(
+      latestDataRef.current.logs,
+      latestDataRef.current.unitEvents,
+      plan.events
+    );
+    latestDataRef.current = { ...latestDataRef.current, logs: nextLogs, unitEvents: nextEvents };
+    setLogs(nextLogs);
+    setUnitEvents(nextEvents);
+    console.log("[Units] Import complete:", result.imported, "entries applied");
+    triggerSuccess();
+    return { success: true, error: null };
+  }, [habits, user, isPro, refreshData, triggerSuccess]);
+
+  const handleAddUnits = useCallback(async (habitId: string, count: number, source: UnitEventSource = "tap") => {
     if (!user) {
       console.error("[Units] Cannot add units: user not authenticated");
       return false;
@@ -498,20 +831,19 @@ export function UnitsProvider({ children }: { children: ReactNode }) {
     const existingLog = logs.find((l) => l.habitId === habitId && l.date === today);
     const oldTotal = existingLog?.count ?? 0;
     const newTotal = oldTotal + count;
+    // Goal completion is judged over the habit's goal period, not just today
+    const periodStart = getPeriodStart(habit.goalPeriod ?? "day", today);
+    const oldPeriodTotal = logs
+      .filter((l) => l.habitId === habitId && l.date >= periodStart && l.date <= today)
+      .reduce((sum, l) => sum + l.count, 0);
+    const newPeriodTotal = oldPeriodTotal + count;
 
-    // Write to Supabase first (single source of truth)
-    const { error } = await addUnitsToHabit(habitId, user.id, count, today);
-    if (error) {
-      console.error("[Units] Failed to add units in Supabase:", error);
-      return false;
-    }
-
-    // Update local state
+    // Update local state optimistically
     let updatedLogs: UnitLog[];
     if (existingLog) {
       updatedLogs = logs.map((l) =>
         l.habitId === habitId && l.date === today
-          ? { ...l, count: newTotal }
+          ? { ...l, count: newTotal, updatedAt: new Date().toISOString() }
           : l
       );
     } else {
@@ -526,17 +858,20 @@ export function UnitsProvider({ children }: { children: ReactNode }) {
     }
     
     setLogs(updatedLogs);
+    const event = recordUnitEvent(habitId, today, count, source);
+    await queueMutation({ type: "add_units", habitId, count, date: today, event });
+    recordUndo({ id: generateId(), label: describeUnitChange(habit, count, today, today), type: "units", habitId, date: today, delta: count });
 
-    if (newTotal >= habit.dailyGoal && oldTotal < habit.dailyGoal) {
+    if (newPeriodTotal >= habit.dailyGoal && oldPeriodTotal < habit.dailyGoal) {
       triggerSuccess();
     } else {
       triggerHaptic("medium");
     }
 
     return true;
-  }, [habits, logs, user, triggerHaptic, triggerSuccess]);
+  }, [habits, logs, user, triggerHaptic, triggerSuccess, queueMutation, recordUnitEvent, recordUndo]);
 
-  const handleRemoveUnits = useCallback(async (habitId: string, count: number) => {
+  const handleRemoveUnits = useCallback(async (habitId: string, count: number, source: UnitEventSource = "edit") => {
     if (!user) {
       console.error("[Units] Cannot remove units: user not authenticated");
       return false;
@@ -555,14 +890,7 @@ export function UnitsProvider({ children }: { children: ReactNode }) {
     const actualCountToRemove = Math.min(count, totalAvailable);
     const newTotal = totalAvailable - actualCountToRemove;
 
-    // Write to Supabase first (single source of truth)
-    const { error } = await setUnitsForHabit(habitId, user.id, newTotal, today);
-    if (error) {
-      console.error("[Units] Failed to remove units in Supabase:", error);
-      return false;
-    }
-
-    // Update local state
+    // Update local state optimistically
     let remaining = actualCountToRemove;
     const logsToRemove: string[] = [];
     const logsToUpdate: { id: string; newCount: number }[] = [];
@@ -584,16 +912,26 @@ export function UnitsProvider({ children }: { children: ReactNode }) {
       .map((l) => {
         const update = logsToUpdate.find((u) => u.id === l.id);
         if (update) {
-          return { ...l, count: update.newCount };
+          return { ...l, count: update.newCount, updatedAt: new Date().toISOString() };
         }
         return l;
       });
 
     setLogs(updated);
+    const event = recordUnitEvent(habitId, today, -actualCountToRemove, source);
+    await queueMutation({ type: "set_units", habitId, count: newTotal, date: today, event });
+    recordUndo({
+      id: generateId(),
+      label: describeUnitChange(habits.find((h) => h.id === habitId), -actualCountToRemove, today, today),
+      type: "units",
+      habitId,
+      date: today,
+      delta: -actualCountToRemove,
+    });
     
     triggerHaptic("light");
     return true;
-  }, [logs, user, triggerHaptic]);
+  }, [habits, logs, user, triggerHaptic, queueMutation, recordUnitEvent, recordUndo]);
 
   const handleAddUnitsForDate = useCallback(async (habitId: string, count: number, date: string) => {
     if (!user) {
@@ -604,28 +942,28 @@ export function UnitsProvider({ children }: { children: ReactNode }) {
     const habit = habits.find((h) => h.id === habitId);
     if (!habit) return false;
 
-    // Write to Supabase first (single source of truth)
-    const { error } = await addUnitsToHabit(habitId, user.id, count, date);
-    if (error) {
-      console.error("[Units] Failed to add units for date in Supabase:", error);
-      return false;
-    }
+    // Clamp once so the local log, the event, the write and the undo entry all agree
+    const units = Math.max(1, Math.min(count, 9999));
 
-    // Update local state
+    // Update local state optimistically
     const newLog: UnitLog = {
       id: generateId(),
       habitId,
-      count: Math.max(1, Math.min(count, 9999)),
+      count: units,
       date,
       createdAt: new Date().toISOString(),
     };
 
     const updated = [...logs, newLog];
     setLogs(updated);
+    // Past-day changes are edits in the audit trail
+    const event = recordUnitEvent(habitId, date, units, "edit");
+    await queueMutation({ type: "add_units", habitId, count: units, date, event });
+    recordUndo({ id: generateId(), label: describeUnitChange(habit, units, date, getTodayDate()), type: "units", habitId, date, delta: units });
     
     triggerHaptic("medium");
     return true;
-  }, [habits, logs, user, triggerHaptic]);
+  }, [habits, logs, user, triggerHaptic, queueMutation, recordUnitEvent, recordUndo]);
 
   const handleRemoveUnitsForDate = useCallback(async (habitId: string, count: number, date: string) => {
     if (!user) {
@@ -645,14 +983,7 @@ export function UnitsProvider({ children }: { children: ReactNode }) {
     const actualCountToRemove = Math.min(count, totalAvailable);
     const newTotal = totalAvailable - actualCountToRemove;
 
-    // Write to Supabase first (single source of truth)
-    const { error } = await setUnitsForHabit(habitId, user.id, newTotal, date);
-    if (error) {
-      console.error("[Units] Failed to remove units for date in Supabase:", error);
-      return false;
-    }
-
-    // Update local state
+    // Update local state optimistically
     let remaining = actualCountToRemove;
     const logsToRemove: string[] = [];
     const logsToUpdate: { id: string; newCount: number }[] = [];
@@ -674,337 +1005,171 @@ export function UnitsProvider({ children }: { children: ReactNode }) {
       .map((l) => {
         const update = logsToUpdate.find((u) => u.id === l.id);
         if (update) {
-          return { ...l, count: update.newCount };
+          return { ...l, count: update.newCount, updatedAt: new Date().toISOString() };
         }
         return l;
       });
 
     setLogs(updated);
+    const event = recordUnitEvent(habitId, date, -actualCountToRemove, "edit");
+    await queueMutation({ type: "set_units", habitId, count: newTotal, date, event });
+    recordUndo({
+      id: generateId(),
+      label: describeUnitChange(habits.find((h) => h.id === habitId), -actualCountToRemove, date, getTodayDate()),
+      type: "units",
+      habitId,
+      date,
+      delta: -actualCountToRemove,
+    });
     
     triggerHaptic("light");
     return true;
-  }, [logs, user, triggerHaptic]);
-
-  const handleUndoLastAdd = useCallback(async () => {
-    if (!undoAction || !user) return;
-
-    // Set units to the previous count in Supabase (single source of truth)
-    const { error } = await setUnitsForHabit(undoAction.habitId, user.id, 0, currentDate);
-    if (error) {
-      console.error("[Units] Failed to undo last add in Supabase:", error);
-      return;
-    }
-
-    // Update local state
-    const updated = logs.filter((l) => l.id !== undoAction.logId);
-    setLogs(updated);
-    setUndoAction(null);
-    triggerHaptic("light");
-  }, [undoAction, logs, user, currentDate, triggerHaptic]);
+  }, [habits, logs, user, triggerHaptic, queueMutation, recordUnitEvent, recordUndo]);
 
   const clearUndo = useCallback(() => {
-    setUndoAction(null);
+    setUndoStack([]);
+    setRedoStack([]);
   }, []);
 
   const handleUpdateSettings = useCallback(async (updates: Partial<AppSettings>) => {
     const updated = { ...settings, ...updates };
     setSettings(updated);
+    const dateUpdates = pickDateSettings(updates);
+    if (Object.keys(dateUpdates).length > 0) {
+      applyDateSettings(dateUpdates);
+      profileDateSettingsRef.current = { ...profileDateSettingsRef.current, ...dateUpdates };
+      checkDayChange();
+      checkTimeZone();
+      updateDatePreferences(toProfileDatePreferences(dateUpdates));
+    }
     await saveSettings(updated);
-  }, [settings]);
+  }, [settings, checkDayChange, checkTimeZone, updateDatePreferences]);
 
   const handleSetIsPro = useCallback(async (value: boolean) => {
     setIsProState(value);
     await saveIsPro(value);
   }, []);
 
+  // Logs rolled up by day and habit, rebuilt when they change; the getters below read from it
+  const statsIndex = useMemo(
+    () => buildStatsIndex(logs, badHabitLogs, { date: currentDate, habitIds: habits.filter((h) => !h.isArchived).map((h) => h.id) }),
+    [logs, badHabitLogs, currentDate, habits]
+  );
+
   const getTodayUnits = useCallback((habitId: string) => {
-    return logs
-      .filter((l) => l.habitId === habitId && l.date === currentDate)
-      .reduce((sum, l) => sum + l.count, 0);
-  }, [logs, currentDate]);
+    return getDayRollup(statsIndex, currentDate).habitUnits.get(habitId) ?? 0;
+  }, [statsIndex, currentDate]);
 
   const getWeekUnits = useCallback((habitId: string) => {
-    const startOfWeek = getStartOfWeek();
-    return logs
-      .filter((l) => l.habitId === habitId && l.date >= startOfWeek)
-      .reduce((sum, l) => sum + l.count, 0);
-  }, [logs]);
+    return sumHabitUnits(statsIndex, habitId, { from: getStartOfWeek() });
+  }, [statsIndex]);
 
   const getMonthUnits = useCallback((habitId: string) => {
-    const now = new Date();
-    const first = new Date(now.getFullYear(), now.getMonth(), 1);
-    const y = first.getFullYear();
-    const m = String(first.getMonth() + 1).padStart(2, "0");
-    const startOfMonth = `${y}-${m}-01`;
-    return logs
-      .filter((l) => l.habitId === habitId && l.date >= startOfMonth)
-      .reduce((sum, l) => sum + l.count, 0);
-  }, [logs]);
+    // currentDate already respects the day start hour
+    return sumHabitUnits(statsIndex, habitId, { from: `${currentDate.slice(0, 7)}-01` });
+  }, [statsIndex, currentDate]);
 
   const getYearUnits = useCallback((habitId: string) => {
-    const now = new Date();
-    const startOfYear = `${now.getFullYear()}-01-01`;
-    return logs
-      .filter((l) => l.habitId === habitId && l.date >= startOfYear)
-      .reduce((sum, l) => sum + l.count, 0);
-  }, [logs]);
+    return sumHabitUnits(statsIndex, habitId, { from: `${currentDate.slice(0, 4)}-01-01` });
+  }, [statsIndex, currentDate]);
 
   const getTodayTotalUnits = useCallback(() => {
     // Only count logs for habits that still exist
-    const habitIds = new Set(habits.map((h) => h.id));
-    return logs
-      .filter((l) => l.date === currentDate && habitIds.has(l.habitId))
-      .reduce((sum, l) => sum + l.count, 0);
-  }, [logs, currentDate, habits]);
+    const { habitUnits } = getDayRollup(statsIndex, currentDate);
+    return habits.reduce((sum, h) => sum + (habitUnits.get(h.id) ?? 0), 0);
+  }, [statsIndex, currentDate, habits]);
 
   // Penalty: each bad habit tap removes 10% of total logged units from score (captured at tap time)
   const PENALTY_PERCENT_PER_TAP = 0.10;
 
   // Helper to get total stored penalty for a date (sum of penaltyUnits from non-undone bad habit logs)
   const getStoredPenaltyForDate = useCallback((dateStr: string): number => {
-    return badHabitLogs
-      .filter((l) => l.date === dateStr && !l.isUndone)
-      .reduce((sum, l) => sum + (l.penaltyUnits || 0), 0);
-  }, [badHabitLogs]);
+    return getDayRollup(statsIndex, dateStr).penalty;
+  }, [statsIndex]);
 
-  // Helper to distribute penalty EVENLY across all habits
-  // Each habit gets penalized by: floor(totalPenalty / habitCount)
-  // Remainder distributed 1 each to habits in alphabetical order
-  // Guarantees: sum(effectiveUnits) = max(0, totalRawUnits - totalPenalty)
-  const distributeEffectivePenalty = useCallback((
-    habitRawUnits: Record<string, number>,
-    totalRawUnits: number,
-    totalPenalty: number,
-    habitIds: string[]
-  ): Record<string, number> => {
-    if (totalPenalty === 0 || habitIds.length === 0) {
-      return { ...habitRawUnits };
-    }
-    
-    // Calculate actual penalty that can be applied (capped at total raw units)
-    const actualPenalty = Math.min(totalPenalty, totalRawUnits);
-    
-    // Sort habit IDs deterministically (alphabetically) for consistent results
-    const sortedHabitIds = [...habitIds].sort();
-    const habitCount = sortedHabitIds.length;
-    
-    // Calculate EVEN share per habit
-    const baseShare = Math.floor(actualPenalty / habitCount);
-    let remainder = actualPenalty - (baseShare * habitCount);
-    
-    // Calculate penalty per habit, distributing remainder to first habits alphabetically
-    const shares: Record<string, number> = {};
-    for (const habitId of sortedHabitIds) {
-      const rawUnits = habitRawUnits[habitId] || 0;
-      let share = baseShare;
-      
-      // Add 1 from remainder if available
-      if (remainder > 0) {
-        share += 1;
-        remainder -= 1;
-      }
-      
-      // Cap share at the raw units available for this habit
-      shares[habitId] = Math.min(share, rawUnits);
-    }
-    
-    // If some habits couldn't absorb their full share, redistribute to others
-    let totalAllocated = Object.values(shares).reduce((a, b) => a + b, 0);
-    let unallocated = actualPenalty - totalAllocated;
-    
-    // Keep redistributing until all penalty is allocated or no more can be absorbed
-    while (unallocated > 0) {
-      let redistributed = false;
-      for (const habitId of sortedHabitIds) {
-        if (unallocated <= 0) break;
-        const rawUnits = habitRawUnits[habitId] || 0;
-        const canAbsorb = rawUnits - shares[habitId];
-        if (canAbsorb > 0) {
-          shares[habitId] += 1;
-          unallocated -= 1;
-          redistributed = true;
-        }
-      }
-      if (!redistributed) break;
-    }
-    
-    // Build result
-    const result: Record<string, number> = {};
-    for (const habitId of habitIds) {
-      const rawUnits = habitRawUnits[habitId] || 0;
-      result[habitId] = Math.max(0, rawUnits - (shares[habitId] || 0));
-    }
-    
-    return result;
-  }, []);
-
-  // Get effective units for a habit after 10% penalty applied per bad tap
+  // Get effective units for a habit after the day's penalty is spread over today's habits
   const getEffectiveTodayUnits = useCallback((habitId: string) => {
-    const activeHabits = habits.filter((h) => !h.isArchived);
-    
-    if (activeHabits.length === 0) return 0;
-    
-    // Calculate total raw units across all habits
-    let totalRawUnits = 0;
-    const habitRawUnits: Record<string, number> = {};
-    
-    for (const h of activeHabits) {
-      const raw = logs
-        .filter((l) => l.habitId === h.id && l.date === currentDate)
-        .reduce((sum, l) => sum + l.count, 0);
-      habitRawUnits[h.id] = raw;
-      totalRawUnits += raw;
-    }
-    
-    // Use stored penalty (captured at tap time, doesn't grow with new units)
-    const totalPenalty = getStoredPenaltyForDate(currentDate);
-    
-    // Distribute penalty using helper
-    const effectiveUnits = distributeEffectivePenalty(
-      habitRawUnits,
-      totalRawUnits,
-      totalPenalty,
-      activeHabits.map((h) => h.id)
-    );
-    
-    return effectiveUnits[habitId] || 0;
-  }, [logs, currentDate, habits, distributeEffectivePenalty, getStoredPenaltyForDate]);
+    return getDayRollup(statsIndex, currentDate).effectiveUnits.get(habitId) ?? 0;
+  }, [statsIndex, currentDate]);
 
   // Get effective total units after 10% penalty applied per bad tap
   // TODAY'S SCORE = raw work - penalty (never negative)
   const getEffectiveTodayTotalUnits = useCallback(() => {
-    const activeHabits = habits.filter((h) => !h.isArchived);
-    const rawTotal = logs
-      .filter((l) => l.date === currentDate && activeHabits.some((h) => h.id === l.habitId))
-      .reduce((sum, l) => sum + l.count, 0);
-    
-    // Use stored penalty (captured at tap time, doesn't grow with new units)
-    const totalPenalty = getStoredPenaltyForDate(currentDate);
-    
-    // Score = raw - penalty, minimum 0
-    return Math.max(0, rawTotal - totalPenalty);
-  }, [logs, currentDate, habits, getStoredPenaltyForDate]);
+    return getDayRollup(statsIndex, currentDate).effectiveTotal;
+  }, [statsIndex, currentDate]);
 
   // Get effective distribution of units across all habits (for blocks visualization)
-  // Uses the same penalty distribution helper to ensure consistency
+  // Sums to getEffectiveTodayTotalUnits (see distributeEffectivePenalty)
   const getEffectiveUnitsDistribution = useCallback(() => {
-    const activeHabits = habits.filter((h) => !h.isArchived);
-    
-    if (activeHabits.length === 0) return {};
-    
-    // Calculate raw totals per habit
-    let rawTotal = 0;
-    const habitRawUnits: Record<string, number> = {};
-    
-    for (const h of activeHabits) {
-      const raw = logs
-        .filter((l) => l.habitId === h.id && l.date === currentDate)
-        .reduce((sum, l) => sum + l.count, 0);
-      habitRawUnits[h.id] = raw;
-      rawTotal += raw;
-    }
-    
-    // Use stored penalty (captured at tap time, doesn't grow with new units)
-    const totalPenalty = getStoredPenaltyForDate(currentDate);
-    
-    // Use helper to distribute penalty (ensures sum equals total)
-    return distributeEffectivePenalty(
-      habitRawUnits,
-      rawTotal,
-      totalPenalty,
-      activeHabits.map((h) => h.id)
-    );
-  }, [logs, currentDate, habits, distributeEffectivePenalty, getStoredPenaltyForDate]);
+    return Object.fromEntries(getDayRollup(statsIndex, currentDate).effectiveUnits) as Record<string, number>;
+  }, [statsIndex, currentDate]);
 
   const getWeekTotalUnits = useCallback(() => {
     const startOfWeek = getStartOfWeek();
-    const habitIds = new Set(habits.map((h) => h.id));
-    return logs
-      .filter((l) => l.date >= startOfWeek && habitIds.has(l.habitId))
-      .reduce((sum, l) => sum + l.count, 0);
-  }, [logs, habits]);
+    return habits.reduce((sum, h) => sum + sumHabitUnits(statsIndex, h.id, { from: startOfWeek }), 0);
+  }, [statsIndex, habits]);
 
   // Get effective (penalty-adjusted) total for any date
-  // Uses same fixed penalty logic as getEffectiveTodayTotalUnits
   // For historical dates, uses logs as proof of activity (if a habit has logs on that date, it was active)
   const getEffectiveTotalForDate = useCallback((dateStr: string) => {
-    // For today, delegate to existing function for consistency
-    if (dateStr === currentDate) {
-      return getEffectiveTodayTotalUnits();
-    }
-    
-    // For historical dates, only include habits that have logs on that date
-    // This serves as proof of activity and handles archived habits correctly
-    // (if a habit has logs on a date, it was definitely active that day)
-    const logsOnDate = logs.filter((l) => l.date === dateStr);
-    const habitIdsWithLogs = new Set(logsOnDate.map((l) => l.habitId));
-    
-    const rawTotal = logsOnDate.reduce((sum, l) => sum + l.count, 0);
-    
-    // Use stored penalty (captured at tap time, doesn't grow with new units)
-    const totalPenalty = getStoredPenaltyForDate(dateStr);
-    
-    return Math.max(0, rawTotal - totalPenalty);
-  }, [logs, currentDate, getEffectiveTodayTotalUnits, getStoredPenaltyForDate]);
+    return getDayRollup(statsIndex, dateStr).effectiveTotal;
+  }, [statsIndex]);
 
   // Get effective units for a specific habit on a specific date
   // Uses same fixed penalty logic; for historical dates uses logs as proof of activity
   const getEffectiveHabitUnitsForDate = useCallback((habitId: string, dateStr: string) => {
-    // For today, delegate to existing function for consistency
-    if (dateStr === currentDate) {
-      return getEffectiveTodayUnits(habitId);
-    }
-    
-    // For historical dates, only include habits that have logs on that date
-    // This serves as proof of activity and handles archived habits correctly
-    const logsOnDate = logs.filter((l) => l.date === dateStr);
-    const habitIdsWithLogs = [...new Set(logsOnDate.map((l) => l.habitId))];
-    
-    if (habitIdsWithLogs.length === 0) return 0;
-    
-    // Calculate total raw units across habits with logs on this date
-    let totalRawUnits = 0;
-    const habitRawUnits: Record<string, number> = {};
-    
-    for (const hId of habitIdsWithLogs) {
-      const raw = logsOnDate
-        .filter((l) => l.habitId === hId)
-        .reduce((sum, l) => sum + l.count, 0);
-      habitRawUnits[hId] = raw;
-      totalRawUnits += raw;
-    }
-    
-    // Use stored penalty (captured at tap time, doesn't grow with new units)
-    const totalPenalty = getStoredPenaltyForDate(dateStr);
-    
-    // Use helper to distribute penalty
-    const effectiveUnits = distributeEffectivePenalty(
-      habitRawUnits,
-      totalRawUnits,
-      totalPenalty,
-      habitIdsWithLogs
-    );
-    
-    return effectiveUnits[habitId] || 0;
-  }, [logs, currentDate, getEffectiveTodayUnits, distributeEffectivePenalty, getStoredPenaltyForDate]);
+    return getDayRollup(statsIndex, dateStr).effectiveUnits.get(habitId) ?? 0;
+  }, [statsIndex]);
+
+  // Raw units from the start of the habit's goal period through the given date (defaults to today).
+  // Daily habits return just that day's units.
+  const getPeriodUnits = useCallback((habitId: string, date: string = currentDate) => {
+    const habit = habits.find((h) => h.id === habitId);
+    const periodStart = getPeriodStart(habit?.goalPeriod ?? "day", date);
+    return sumHabitUnits(statsIndex, habitId, { from: periodStart, to: date });
+  }, [statsIndex, habits, currentDate]);
+
+  // Penalty-adjusted version of getPeriodUnits: each day's effective units summed over the period so far
+  const getEffectivePeriodUnits = useCallback((habitId: string, date: string = currentDate) => {
+    const habit = habits.find((h) => h.id === habitId);
+    const periodStart = getPeriodStart(habit?.goalPeriod ?? "day", date);
+    return sumHabitUnits(statsIndex, habitId, { from: periodStart, to: date }, "effective");
+  }, [statsIndex, habits, currentDate]);
+
+  useEffect(() => {
+    configureReminderNotifications();
+  }, []);
+
+  // Reschedule reminders whenever something that decides them changes: habits and
+  // their reminder times, units logged (goal met suppresses), the day, or settings
+  useEffect(() => {
+    if (loading) return;
+    const timeoutId = setTimeout(() => {
+      syncHabitReminders(habits, settings, currentDate, (habitId) => getPeriodUnits(habitId));
+    }, REMINDER_SYNC_DELAY_MS);
+    return () => clearTimeout(timeoutId);
+  }, [loading, habits, settings, currentDate, getPeriodUnits]);
 
   const getLogsForDate = useCallback((date: string) => {
     const habitIds = new Set(habits.map((h) => h.id));
     return logs.filter((l) => l.date === date && habitIds.has(l.habitId));
   }, [logs, habits]);
 
+  // Unit events credited to a day, oldest first (optionally for one habit)
+  const getUnitEventsForDate = useCallback((date: string, habitId?: string) => {
+    return unitEvents.filter((e) => e.date === date && (!habitId || e.habitId === habitId));
+  }, [unitEvents]);
+
   const getHighestDailyTotal = useCallback(() => {
     // Only count logs for habits that still exist
-    const habitIds = new Set(habits.map((h) => h.id));
-    const dailyTotals: Record<string, number> = {};
-    logs.forEach((log) => {
-      if (log.date !== currentDate && habitIds.has(log.habitId)) {
-        dailyTotals[log.date] = (dailyTotals[log.date] || 0) + log.count;
-      }
+    let highest = 0;
+    statsIndex.days.forEach(({ habitUnits }, date) => {
+      if (date === currentDate) return;
+      const total = habits.reduce((sum, h) => sum + (habitUnits.get(h.id) ?? 0), 0);
+      highest = Math.max(highest, total);
     });
-    const totals = Object.values(dailyTotals);
-    return totals.length > 0 ? Math.max(...totals) : 0;
-  }, [logs, currentDate, habits]);
+    return highest;
+  }, [statsIndex, currentDate, habits]);
 
   const canAddHabit = useCallback(() => {
     if (isPro) return true;
@@ -1033,20 +1198,19 @@ export function UnitsProvider({ children }: { children: ReactNode }) {
       return false;
     }
 
-    // Write to Supabase first (single source of truth)
-    const { badHabit: dbBadHabit, error } = await createDbBadHabit(user.id, name);
-    if (error || !dbBadHabit) {
-      console.error("[Units] Failed to create bad habit in Supabase:", error);
-      return false;
-    }
-
-    // Update local state with the bad habit from Supabase
-    const newBadHabit = dbBadHabitToLocal(dbBadHabit);
+    // Client-generated UUID so the bad habit keeps the same id once it reaches Supabase
+    const newBadHabit: BadHabit = {
+      id: generateUuid(),
+      name,
+      createdAt: new Date().toISOString(),
+      isArchived: false,
+    };
     setBadHabits([...badHabits, newBadHabit]);
+    await queueMutation({ type: "create_bad_habit", badHabit: newBadHabit });
     
     triggerHaptic("medium");
     return true;
-  }, [badHabits, triggerHaptic, user]);
+  }, [badHabits, triggerHaptic, user, queueMutation]);
 
   const handleDeleteBadHabit = useCallback(async (id: string) => {
     if (!user) {
@@ -1054,19 +1218,25 @@ export function UnitsProvider({ children }: { children: ReactNode }) {
       return;
     }
 
-    // Delete from Supabase first (single source of truth)
-    const { error } = await deleteDbBadHabit(id);
-    if (error) {
-      console.error("[Units] Failed to delete bad habit from Supabase:", error);
-      return;
-    }
+    const badHabit = badHabits.find((h) => h.id === id);
 
-    // Update local state
+    // Update local state, then queue the delete for Supabase
     const updated = badHabits.filter((h) => h.id !== id);
     setBadHabits(updated);
     const updatedLogs = badHabitLogs.filter((l) => l.badHabitId !== id);
     setBadHabitLogs(updatedLogs);
-  }, [badHabits, badHabitLogs, user]);
+    await queueMutation({ type: "delete_bad_habit", badHabitId: id });
+
+    if (badHabit) {
+      recordUndo({
+        id: generateId(),
+        label: `Deleted ${badHabit.name}`,
+        type: "delete_bad_habit",
+        badHabit,
+        logs: badHabitLogs.filter((l) => l.badHabitId === id),
+      });
+    }
+  }, [badHabits, badHabitLogs, user, queueMutation, recordUndo]);
 
   const handleTapBadHabit = useCallback(async (badHabitId: string) => {
     if (!user) {
@@ -1095,22 +1265,33 @@ export function UnitsProvider({ children }: { children: ReactNode }) {
     const currentEffectiveTotal = Math.max(0, currentRawTotal - existingPenalty);
     const penaltyUnits = Math.round(currentEffectiveTotal * PENALTY_PERCENT_PER_TAP);
     
-    // Write to Supabase first (single source of truth)
-    const { log: dbLog, error } = await createDbBadHabitLog(user.id, badHabitId, today, penaltyUnits);
-    if (error || !dbLog) {
-      console.error("[Units] Failed to create bad habit log in Supabase:", error);
-      return;
-    }
-
-    // Update local state with the log from Supabase
-    const newLog = dbBadHabitLogToLocal(dbLog);
-    newLog.penaltyUnits = penaltyUnits;
+    // Update local state optimistically
+    const newLog: BadHabitLog = {
+      id: generateUuid(),
+      badHabitId,
+      count: 1,
+      date: today,
+      createdAt: new Date().toISOString(),
+      penaltyAdjustments: [],
+      penaltyUnits,
+      isUndone: false,
+    };
     setBadHabitLogs([...badHabitLogs, newLog]);
+    await queueMutation({ type: "tap_bad_habit", badHabitId, date: today, penaltyUnits });
+    recordUndo({
+      id: generateId(),
+      label: describeBadHabitTap(badHabits.find((h) => h.id === badHabitId), true, today, today),
+      type: "bad_habit_tap",
+      badHabitId,
+      date: today,
+      penaltyUnits,
+      tapped: true,
+    });
     
     if (settings.hapticsEnabled) {
       Haptics.notificationAsync(Haptics.NotificationFeedbackType.Warning);
     }
-  }, [badHabitLogs, settings.hapticsEnabled, habits, logs, user]);
+  }, [badHabits, badHabitLogs, settings.hapticsEnabled, habits, logs, user, queueMutation, recordUndo]);
 
   const handleUndoBadHabitTap = useCallback(async (badHabitId: string): Promise<boolean> => {
     if (!user) {
@@ -1124,24 +1305,28 @@ export function UnitsProvider({ children }: { children: ReactNode }) {
     );
     if (!todayLog) return false;
     
-    // Write to Supabase first (single source of truth)
-    const { error } = await undoDbBadHabitLog(todayLog.id);
-    if (error) {
-      console.error("[Units] Failed to undo bad habit log in Supabase:", error);
-      return false;
-    }
-
-    // Update local state
+    // Update local state, then queue the undo (keyed by bad habit + date, since
+    // the tap itself may still be waiting in the outbox)
     const updatedBadLogs = badHabitLogs.map((l) =>
-      l.id === todayLog.id ? { ...l, isUndone: true } : l
+      l.id === todayLog.id ? { ...l, isUndone: true, updatedAt: new Date().toISOString() } : l
     );
     setBadHabitLogs(updatedBadLogs);
+    await queueMutation({ type: "undo_bad_habit_tap", badHabitId, date: today });
+    recordUndo({
+      id: generateId(),
+      label: describeBadHabitTap(badHabits.find((h) => h.id === badHabitId), false, today, today),
+      type: "bad_habit_tap",
+      badHabitId,
+      date: today,
+      penaltyUnits: todayLog.penaltyUnits ?? 0,
+      tapped: false,
+    });
     
     if (settings.hapticsEnabled) {
       Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
     }
     return true;
-  }, [badHabitLogs, settings.hapticsEnabled, user]);
+  }, [badHabits, badHabitLogs, settings.hapticsEnabled, user, queueMutation, recordUndo]);
 
   const handleTapBadHabitForDate = useCallback(async (badHabitId: string, date: string) => {
     if (!user) {
@@ -1168,18 +1353,29 @@ export function UnitsProvider({ children }: { children: ReactNode }) {
     const currentEffectiveTotal = Math.max(0, dateRawTotal - existingPenalty);
     const penaltyUnits = Math.round(currentEffectiveTotal * PENALTY_PERCENT_PER_TAP);
     
-    // Write to Supabase first (single source of truth)
-    const { log: dbLog, error } = await createDbBadHabitLog(user.id, badHabitId, date, penaltyUnits);
-    if (error || !dbLog) {
-      console.error("[Units] Failed to create bad habit log for date in Supabase:", error);
-      return;
-    }
-
-    // Update local state with the log from Supabase
-    const newLog = dbBadHabitLogToLocal(dbLog);
-    newLog.penaltyUnits = penaltyUnits;
+    // Update local state optimistically
+    const newLog: BadHabitLog = {
+      id: generateUuid(),
+      badHabitId,
+      count: 1,
+      date,
+      createdAt: new Date().toISOString(),
+      penaltyAdjustments: [],
+      penaltyUnits,
+      isUndone: false,
+    };
     setBadHabitLogs([...badHabitLogs, newLog]);
-  }, [badHabitLogs, habits, logs, user]);
+    await queueMutation({ type: "tap_bad_habit", badHabitId, date, penaltyUnits });
+    recordUndo({
+      id: generateId(),
+      label: describeBadHabitTap(badHabits.find((h) => h.id === badHabitId), true, date, getTodayDate()),
+      type: "bad_habit_tap",
+      badHabitId,
+      date,
+      penaltyUnits,
+      tapped: true,
+    });
+  }, [badHabits, badHabitLogs, habits, logs, user, queueMutation, recordUndo]);
 
   const handleUndoBadHabitTapForDate = useCallback(async (badHabitId: string, date: string): Promise<boolean> => {
     if (!user) {
@@ -1192,21 +1388,152 @@ export function UnitsProvider({ children }: { children: ReactNode }) {
     );
     if (!dateLog) return false;
     
-    // Write to Supabase first (single source of truth)
-    const { error } = await undoDbBadHabitLog(dateLog.id);
-    if (error) {
-      console.error("[Units] Failed to undo bad habit log for date in Supabase:", error);
-      return false;
-    }
-
-    // Update local state
+    // Update local state, then queue the undo for Supabase
     const updatedBadLogs = badHabitLogs.map((l) =>
-      l.id === dateLog.id ? { ...l, isUndone: true } : l
+      l.id === dateLog.id ? { ...l, isUndone: true, updatedAt: new Date().toISOString() } : l
     );
     setBadHabitLogs(updatedBadLogs);
+    await queueMutation({ type: "undo_bad_habit_tap", badHabitId, date });
+    recordUndo({
+      id: generateId(),
+      label: describeBadHabitTap(badHabits.find((h) => h.id === badHabitId), false, date, getTodayDate()),
+      type: "bad_habit_tap",
+      badHabitId,
+      date,
+      penaltyUnits: dateLog.penaltyUnits ?? 0,
+      tapped: false,
+    });
     
     return true;
-  }, [badHabitLogs, user]);
+  }, [badHabits, badHabitLogs, user, queueMutation, recordUndo]);
+
+  // ---- Undo / redo ----
+  // Each applier writes one side of an UndoEntry without touching the history.
+  // They compute from latestDataRef and update it, so a second undo tapped before
+  // the re-render builds on the first instead of overwriting it.
+
+  const applyUnitDelta = useCallback(async (habitId: string, date: string, delta: number) => {
+    const current = latestDataRef.current;
+    const dayLogs = current.logs.filter((l) => l.habitId === habitId && l.date === date);
+    const total = dayLogs.reduce((sum, l) => sum + l.count, 0);
+    // The day's count can't go below 0; state, event and write all use the delta actually applied
+    const appliedDelta = Math.max(-total, delta);
+    if (appliedDelta === 0) return;
+    const newTotal = total + appliedDelta;
+    const now = new Date().toISOString();
+    const [first] = dayLogs;
+    const nextLogs = [
+      ...current.logs.filter((l) => !(l.habitId === habitId && l.date === date)),
+      first
+        ? { ...first, count: newTotal, updatedAt: now }
+        : { id: generateId(), habitId, count: newTotal, date, createdAt: now, updatedAt: now },
+    ];
+    latestDataRef.current = { ...current, logs: nextLogs };
+    setLogs(nextLogs);
+
+    // Relative write, so the inverse is exact even if other taps landed in between
+    const event = recordUnitEvent(habitId, date, appliedDelta, "undo");
+    await queueMutation({ type: "add_units", habitId, count: appliedDelta, date, event });
+  }, [queueMutation, recordUnitEvent]);
+
+  const applyBadHabitTapped = useCallback(async (badHabitId: string, date: string, tapped: boolean, penaltyUnits: number) => {
+    const now = new Date().toISOString();
+    const current = latestDataRef.current;
+    let nextBadHabitLogs: BadHabitLog[];
+    if (tapped) {
+      const existing = current.badHabitLogs.find((l) => l.badHabitId === badHabitId && l.date === date);
+      nextBadHabitLogs = existing
+        ? current.badHabitLogs.map((l) =>
+            l.id === existing.id ? { ...l, isUndone: false, penaltyUnits, updatedAt: now } : l
+          )
+        : [
+            ...current.badHabitLogs,
+            { id: generateUuid(), badHabitId, count: 1, date, createdAt: now, penaltyAdjustments: [], penaltyUnits, isUndone: false },
+          ];
+    } else {
+      nextBadHabitLogs = current.badHabitLogs.map((l) =>
+        l.badHabitId === badHabitId && l.date === date && !l.isUndone ? { ...l, isUndone: true, updatedAt: now } : l
+      );
+    }
+    latestDataRef.current = { ...current, badHabitLogs: nextBadHabitLogs };
+    setBadHabitLogs(nextBadHabitLogs);
+    await queueMutation(tapped
+      ? { type: "tap_bad_habit", badHabitId, date, penaltyUnits }
+      : { type: "undo_bad_habit_tap", badHabitId, date });
+  }, [queueMutation]);
+
+  const applyHabitDeleted = useCallback(async (habit: Habit, habitLogs: UnitLog[], deleted: boolean) => {
+    const current = latestDataRef.current;
+    const otherHabits = current.habits.filter((h) => h.id !== habit.id);
+    const otherLogs = current.logs.filter((l) => l.habitId !== habit.id);
+    const restored = { ...habit, isArchived: false, updatedAt: new Date().toISOString() };
+    const nextHabits = deleted ? otherHabits : [...otherHabits, restored];
+    const nextLogs = deleted ? otherLogs : [...otherLogs, ...habitLogs];
+    latestDataRef.current = { ...current, habits: nextHabits, logs: nextLogs };
+    setHabits(nextHabits);
+    setLogs(nextLogs);
+    await queueMutation(deleted
+      ? { type: "delete_habit", habitId: habit.id }
+      : { type: "update_habit", habitId: habit.id, updates: { isArchived: false } });
+  }, [queueMutation]);
+
+  const applyBadHabitDeleted = useCallback(async (badHabit: BadHabit, logsForBadHabit: BadHabitLog[], deleted: boolean) => {
+    const current = latestDataRef.current;
+    const otherBadHabits = current.badHabits.filter((h) => h.id !== badHabit.id);
+    const otherLogs = current.badHabitLogs.filter((l) => l.badHabitId !== badHabit.id);
+    const restored = { ...badHabit, isArchived: false, updatedAt: new Date().toISOString() };
+    const nextBadHabits = deleted ? otherBadHabits : [...otherBadHabits, restored];
+    const nextBadHabitLogs = deleted ? otherLogs : [...otherLogs, ...logsForBadHabit];
+    latestDataRef.current = { ...current, badHabits: nextBadHabits, badHabitLogs: nextBadHabitLogs };
+    setBadHabits(nextBadHabits);
+    setBadHabitLogs(nextBadHabitLogs);
+    await queueMutation(deleted
+      ? { type: "delete_bad_habit", badHabitId: badHabit.id }
+      : { type: "restore_bad_habit", badHabitId: badHabit.id });
+  }, [queueMutation]);
+
+  // direction "undo" writes the inverse of the entry, "redo" writes it again
+  const applyUndoEntry = useCallback(async (entry: UndoEntry, direction: "undo" | "redo") => {
+    const reverse = direction === "undo";
+    switch (entry.type) {
+      case "units":
+        await applyUnitDelta(entry.habitId, entry.date, reverse ? -entry.delta : entry.delta);
+        break;
+      case "bad_habit_tap":
+        await applyBadHabitTapped(entry.badHabitId, entry.date, reverse ? !entry.tapped : entry.tapped, entry.penaltyUnits);
+        break;
+      case "delete_habit":
+        await applyHabitDeleted(entry.habit, entry.logs, !reverse);
+        break;
+      case "delete_bad_habit":
+        await applyBadHabitDeleted(entry.badHabit, entry.logs, !reverse);
+        break;
+    }
+  }, [applyUnitDelta, applyBadHabitTapped, applyHabitDeleted, applyBadHabitDeleted]);
+
+  const handleUndo = useCallback(async () => {
+    const entry = undoStackRef.current[undoStackRef.current.length - 1];
+    if (!entry || !user) return false;
+
+    undoStackRef.current = undoStackRef.current.slice(0, -1);
+    setUndoStack(undoStackRef.current);
+    await applyUndoEntry(entry, "undo");
+    setRedoStack((prev) => [...prev, entry]);
+    triggerHaptic("light");
+    return true;
+  }, [user, applyUndoEntry, triggerHaptic]);
+
+  const handleRedo = useCallback(async () => {
+    const entry = redoStackRef.current[redoStackRef.current.length - 1];
+    if (!entry || !user) return false;
+
+    redoStackRef.current = redoStackRef.current.slice(0, -1);
+    setRedoStack(redoStackRef.current);
+    await applyUndoEntry(entry, "redo");
+    setUndoStack((prev) => [...prev, entry].slice(-MAX_UNDO_DEPTH));
+    triggerHaptic("light");
+    return true;
+  }, [user, applyUndoEntry, triggerHaptic]);
 
   const getBadHabitTapsForDate = useCallback((badHabitId: string, date: string) => {
     return badHabitLogs
@@ -1221,10 +1548,8 @@ export function UnitsProvider({ children }: { children: ReactNode }) {
   }, [badHabitLogs, currentDate]);
 
   const getTodayTotalBadTaps = useCallback(() => {
-    return badHabitLogs
-      .filter((l) => l.date === currentDate && !l.isUndone)
-      .reduce((sum, l) => sum + l.count, 0);
-  }, [badHabitLogs, currentDate]);
+    return getDayRollup(statsIndex, currentDate).badHabitTaps;
+  }, [statsIndex, currentDate]);
 
   const getPenaltyMultiplier = useCallback(() => {
     // Legacy function - returns 1.0 (no multiplier) since we now use fixed subtraction
@@ -1243,14 +1568,16 @@ export function UnitsProvider({ children }: { children: ReactNode }) {
       return { percentage: 100, allGoalsMet: true, rawAllGoalsMet: true, perfectDay: true, hasBadHabits: false, improvementPercent: 0, rawImprovementPercent: 0, hasDoubledGoal: false, allGoalsDoubled: false, doubledCount: 0, penaltyPercent: 0, rawPercentage: 100, rawTotalUnits: 0, effectiveTotalUnits: 0, totalGoal: 0 };
     }
     
+    const today = getDayRollup(statsIndex, currentDate);
+    
     // Count bad habit taps today
-    const totalBadTaps = badHabitLogs
-      .filter((l) => l.date === currentDate && !l.isUndone)
-      .reduce((sum, l) => sum + l.count, 0);
-    const hasBadHabits = totalBadTaps > 0;
+    const hasBadHabits = today.badHabitTaps > 0;
     
     // Use stored penalty (captured at tap time, doesn't grow with new units)
-    const totalPenalty = getStoredPenaltyForDate(currentDate);
+    const totalPenalty = today.penalty;
+    
+    // Habits on a rest day (per their schedule) still earn units but have no goal today
+    const dueHabits = activeHabits.filter((h) => isHabitDueOn(h, currentDate));
     
     // Calculate raw units per habit and total
     let rawTotalUnits = 0;
@@ -1258,24 +1585,31 @@ export function UnitsProvider({ children }: { children: ReactNode }) {
     const habitRawUnits: Record<string, number> = {};
     
     for (const habit of activeHabits) {
-      const todayUnits = logs
-        .filter((l) => l.habitId === habit.id && l.date === currentDate)
-        .reduce((sum, l) => sum + l.count, 0);
+      const todayUnits = today.habitUnits.get(habit.id) ?? 0;
       habitRawUnits[habit.id] = todayUnits;
       rawTotalUnits += todayUnits;
+    }
+    for (const habit of dueHabits) {
       totalGoal += habit.dailyGoal;
     }
     
     // Get effective units per habit (penalty distributed EVENLY)
-    const effectiveUnitsPerHabit = distributeEffectivePenalty(
-      habitRawUnits,
-      rawTotalUnits,
-      totalPenalty,
-      activeHabits.map((h) => h.id)
-    );
+    const effectiveUnitsPerHabit = Object.fromEntries(today.effectiveUnits) as Record<string, number>;
     
     // Calculate effective total
-    const effectiveTotalUnits = Object.values(effectiveUnitsPerHabit).reduce((a, b) => a + b, 0);
+    const effectiveTotalUnits = today.effectiveTotal;
+    
+    // Units counted against each goal: today's units for daily goals, the period so far for
+    // weekly/monthly goals (each earlier day of the period carries its own day's penalty)
+    const goalRawUnits: Record<string, number> = {};
+    const goalEffectiveUnits: Record<string, number> = {};
+    for (const habit of dueHabits) {
+      const isDaily = (habit.goalPeriod ?? "day") === "day";
+      goalRawUnits[habit.id] = isDaily ? habitRawUnits[habit.id] || 0 : getPeriodUnits(habit.id, currentDate);
+      goalEffectiveUnits[habit.id] = isDaily ? effectiveUnitsPerHabit[habit.id] || 0 : getEffectivePeriodUnits(habit.id, currentDate);
+    }
+    const goalRawTotal = Object.values(goalRawUnits).reduce((a, b) => a + b, 0);
+    const goalEffectiveTotal = Object.values(goalEffectiveUnits).reduce((a, b) => a + b, 0);
     
     // Check if ALL individual habits meet their goals (after penalty)
     let allGoalsMetEffective = true;
@@ -1283,9 +1617,9 @@ export function UnitsProvider({ children }: { children: ReactNode }) {
     let anyGoalDoubled = false;
     let doubledCount = 0;
     
-    for (const habit of activeHabits) {
-      const rawUnits = habitRawUnits[habit.id] || 0;
-      const effectiveUnits = effectiveUnitsPerHabit[habit.id] || 0;
+    for (const habit of dueHabits) {
+      const rawUnits = goalRawUnits[habit.id] || 0;
+      const effectiveUnits = goalEffectiveUnits[habit.id] || 0;
       
       // Check raw goal completion
       if (rawUnits < habit.dailyGoal) {
@@ -1308,18 +1642,21 @@ export function UnitsProvider({ children }: { children: ReactNode }) {
     // For 0-100% progress, cap each habit's contribution at its goal (no overages)
     // This ensures 23/20 + 18/20 = 95% (not 102.5%) because second habit hasn't met goal
     let cappedEffectiveTotal = 0;
-    for (const habit of activeHabits) {
-      const effectiveUnits = effectiveUnitsPerHabit[habit.id] || 0;
+    for (const habit of dueHabits) {
+      const effectiveUnits = goalEffectiveUnits[habit.id] || 0;
       cappedEffectiveTotal += Math.min(effectiveUnits, habit.dailyGoal);
     }
     
-    const rawPercent = totalGoal > 0 ? (rawTotalUnits / totalGoal) * 100 : 0;
+    const rawPercent = totalGoal > 0 ? (goalRawTotal / totalGoal) * 100 : 0;
     const cappedPercent = totalGoal > 0 ? (cappedEffectiveTotal / totalGoal) * 100 : 0;
     
     // Use capped % until ALL goals met, then show actual effective %
-    const finalPercent = allGoalsMetEffective 
-      ? Math.round((effectiveTotalUnits / totalGoal) * 100 * 10) / 10 
-      : Math.round(cappedPercent * 10) / 10;
+    // (a day where every habit is resting has nothing to meet and counts as complete)
+    const finalPercent = totalGoal === 0
+      ? 100
+      : allGoalsMetEffective 
+        ? Math.round((goalEffectiveTotal / totalGoal) * 100 * 10) / 10 
+        : Math.round(cappedPercent * 10) / 10;
     
     // IMPROVEMENT %: 
     // - Before ALL goals met: show 0-100%
@@ -1327,11 +1664,11 @@ export function UnitsProvider({ children }: { children: ReactNode }) {
     // - When ALL goals doubled: show "2% better" (improvementPercent = 2)
     // The multiplier is the minimum multiplier across all habits
     let improvementPercent = 0;
-    if (allGoalsMetEffective) {
+    if (allGoalsMetEffective && dueHabits.length > 0) {
       // Find the minimum multiplier across all habits (how many times goals are exceeded)
       let minMultiplier = Infinity;
-      for (const habit of activeHabits) {
-        const effectiveUnits = effectiveUnitsPerHabit[habit.id] || 0;
+      for (const habit of dueHabits) {
+        const effectiveUnits = goalEffectiveUnits[habit.id] || 0;
         const multiplier = habit.dailyGoal > 0 ? effectiveUnits / habit.dailyGoal : 0;
         minMultiplier = Math.min(minMultiplier, multiplier);
       }
@@ -1339,7 +1676,7 @@ export function UnitsProvider({ children }: { children: ReactNode }) {
       improvementPercent = Math.round(minMultiplier * 10) / 10;
     }
     
-    const rawImprovementPercent = totalGoal > 0 ? rawTotalUnits / totalGoal : 0;
+    const rawImprovementPercent = totalGoal > 0 ? goalRawTotal / totalGoal : 0;
     
     // Penalty percent for display
     const penaltyPercent = totalGoal > 0 ? (totalPenalty / totalGoal) * 100 : 0;
@@ -1356,7 +1693,7 @@ export function UnitsProvider({ children }: { children: ReactNode }) {
       improvementPercent,                          // 1.0 = "1% better", 2.0 = "2% better" (min multiplier)
       rawImprovementPercent,                       // Raw ratio (for analytics)
       hasDoubledGoal: anyGoalDoubled,
-      allGoalsDoubled: doubledCount === activeHabits.length && doubledCount > 0,
+      allGoalsDoubled: doubledCount === dueHabits.length && doubledCount > 0,
       doubledCount,
       penaltyPercent: Math.round(penaltyPercent),  // How much penalty reduced score
       rawPercentage: Math.round(rawPercent),       // Progress based on raw work
@@ -1364,7 +1701,7 @@ export function UnitsProvider({ children }: { children: ReactNode }) {
       effectiveTotalUnits,                         // Today's score (after penalty)
       totalGoal,
     };
-  }, [habits, logs, badHabitLogs, currentDate, getStoredPenaltyForDate, distributeEffectivePenalty]);
+  }, [habits, statsIndex, currentDate, getPeriodUnits, getEffectivePeriodUnits]);
 
   return (
     <UnitsContext.Provider
@@ -1374,19 +1711,27 @@ export function UnitsProvider({ children }: { children: ReactNode }) {
         settings,
         isPro,
         loading,
-        undoAction,
+        undoStack,
+        redoStack,
         hasCompletedOnboarding,
         badHabits,
         badHabitLogs,
+        unitEvents,
         currentDate,
+        pendingChanges,
+        timeZoneNotice,
+        dismissTimeZoneNotice,
+        historyStart,
         addHabit: handleAddHabit,
         updateHabit: handleUpdateHabit,
         deleteHabit: handleDeleteHabit,
+        importData: handleImportData,
         addUnits: handleAddUnits,
         removeUnits: handleRemoveUnits,
         addUnitsForDate: handleAddUnitsForDate,
         removeUnitsForDate: handleRemoveUnitsForDate,
-        undoLastAdd: handleUndoLastAdd,
+        undo: handleUndo,
+        redo: handleRedo,
         clearUndo,
         addBadHabit: handleAddBadHabit,
         deleteBadHabit: handleDeleteBadHabit,
@@ -1413,13 +1758,19 @@ export function UnitsProvider({ children }: { children: ReactNode }) {
         getWeekUnits,
         getMonthUnits,
         getYearUnits,
+        getPeriodUnits,
+        getEffectivePeriodUnits,
         getTodayTotalUnits,
         getWeekTotalUnits,
         getLogsForDate,
+        getUnitEventsForDate,
         getHighestDailyTotal,
+        statsIndex,
         canAddHabit,
         canAddUnits,
         refreshData,
+        loadHistory,
+        flushPendingMutations,
         clearAllHabitData: clearLocalState,
       }}
     >
@@ -0,0 +1,325 @@
+import { apiRequest } from "@/lib/query-client";
+import { supabase } from "@/lib/supabase";
+import type {
+  AccountDeletionReceipt,
+  DailyTotal,
+  HabitRepository,
+} from "@/lib/habitRepository";
+import type {
+  DbBadHabit,
+  DbBadHabitLog,
+  DbHabit,
+  DbHabitLog,
+  DbUnitEvent,
+} from "@/lib/habitService";
+
+// HabitRepository on the Express data API (server/habitRoutes.ts) at
+// EXPO_PUBLIC_DOMAIN. Requests carry the Supabase access token, which the
+// server verifies with the project's JWT secret. The API speaks camelCase
+// (Drizzle column names); rows are converted to the Supabase snake_case shapes
+// so the rest of the app sees the same data as with the Supabase backend.
+
+type Row = Record<string, unknown>;
+
+function toSnakeCase<T>(row: Row): T {
+  const converted: Row = {};
+  for (const [key, value] of Object.entries(row)) {
+    converted[key.replace(/[A-Z]/g, (c) => `_${c.toLowerCase()}`)] = value;
+  }
+  return converted as T;
+}
+
+function toCamelCase(row: Row): Row {
+  const converted: Row = {};
+  for (const [key, value] of Object.entries(row)) {
+    converted[key.replace(/_([a-z])/g, (_, c: string) => c.toUpperCase())] =
+      value;
+  }
+  return converted;
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+async function send<T>(
+  method: string,
+  route: string,
+  data?: unknown,
+): Promise<{ data: T | null; error: string | null }> {
+  try {
+    const {
+      data: { session },
+    } = await supabase.auth.getSession();
+    const headers: Record<string, string> = session
+      ? { Authorization: `Bearer ${session.access_token}` }
+      : {};
+    const res = await apiRequest(method, route, data, headers);
+    if (res.status === 204) {
+      return { data: null, error: null };
+    }
+    return { data: (await res.json()) as T, error: null };
+  } catch (error) {
+    return { data: null, error: errorMessage(error) };
+  }
+}
+
+function withQuery(route: string, params: Record<string, string | undefined>) {
+  const query = new URLSearchParams();
+  for (const [key, value] of Object.entries(params)) {
+    if (value !== undefined) query.set(key, value);
+  }
+  const search = query.toString();
+  return search ? `${route}?${search}` : route;
+}
+
+/**
+ * Deletes the signed-in user's account and all of their data on the server
+ * (DELETE /api/account), in one transaction. Used by the Supabase backend too.
+ */
+export async function requestAccountDeletion(): Promise<{
+  receipt: AccountDeletionReceipt | null;
+  notFound: boolean;
+  error: string | null;
+}> {
+  const { data, error } = await send<AccountDeletionReceipt>(
+    "DELETE",
+    "/api/account",
+  );
+  // apiRequest prefixes errors with the status; 404 means an earlier request
+  // already deleted the account
+  if (error?.startsWith("404:")) {
+    return { receipt: null, notFound: true, error: null };
+  }
+  return { receipt: error ? null : data, notFound: false, error };
+}
+
+function byCreatedAtDesc(a: DbBadHabitLog, b: DbBadHabitLog): number {
+  return b.created_at.localeCompare(a.created_at);
+}
+
+export const apiHabitRepository: HabitRepository = {
+  kind: "api",
+
+  async fetchHabits(_userId, options = {}) {
+    const { data, error } = await send<Row[]>(
+      "GET",
+      withQuery("/api/habits", {
+        includeArchived: options.includeArchived ? "true" : undefined,
+        updatedSince: options.updatedSince,
+      }),
+    );
+    return {
+      habits: (data ?? []).map((row) => toSnakeCase<DbHabit>(row)),
+      error,
+    };
+  },
+
+  // The API returns an existing habit unchanged when its id is replayed
+  async upsertHabits(_userId, habits) {
+    const saved: DbHabit[] = [];
+    for (const habit of habits) {
+      const { data, error } = await send<Row>(
+        "POST",
+        "/api/habits",
+        toCamelCase({ ...habit }),
+      );
+      if (error || !data) {
+        return { habits: saved, error: error ?? "Habit was not saved" };
+      }
+      saved.push(toSnakeCase<DbHabit>(data));
+    }
+    return { habits: saved, error: null };
+  },
+
+  async updateHabit(habitId, updates) {
+    // Fields the API doesn't accept (id, timestamps) are dropped by its schema
+    const { error } = await send(
+      "PATCH",
+      `/api/habits/${habitId}`,
+      toCamelCase({ ...updates }),
+    );
+    return { success: !error, error };
+  },
+
+  async fetchHabitLogs(_userId, filter = {}) {
+    const { data, error } = await send<Row[]>(
+      "GET",
+      withQuery("/api/habit-logs", {
+        from: filter.from,
+        to: filter.to,
+        updatedSince: filter.updatedSince,
+      }),
+    );
+    // The API sorts oldest first
+    return {
+      logs: (data ?? []).map((row) => toSnakeCase<DbHabitLog>(row)).reverse(),
+      error,
+    };
+  },
+
+  async fetchDailyTotals(_userId, range = {}) {
+    const { data, error } = await send<DailyTotal[]>(
+      "GET",
+      withQuery("/api/stats/daily-totals", { from: range.from, to: range.to }),
+    );
+    return { totals: data ?? [], error };
+  },
+
+  async fetchUnitEvents(_userId, filter = {}) {
+    const { data, error } = await send<Row[]>(
+      "GET",
+      withQuery("/api/unit-events", {
+        from: filter.from,
+        to: filter.to,
+        updatedSince: filter.updatedSince,
+      }),
+    );
+    return {
+      events: (data ?? []).map((row) => toSnakeCase<DbUnitEvent>(row)),
+      error,
+    };
+  },
+
+  async incrementHabitLog(habitId, date, delta, event) {
+    const { data, error } = await send<{ count: number }>(
+      "POST",
+      `/api/habits/${habitId}/logs`,
+      {
+        date,
+        delta,
+        source: event?.source ?? "tap",
+        eventId: event?.id,
+        occurredAt: event?.timestamp,
+      },
+    );
+    return { newCount: data?.count ?? null, error };
+  },
+
+  async setHabitLogCount(habitId, date, count, event) {
+    const { data, error } = await send<{ count: number }>(
+      "POST",
+      `/api/habits/${habitId}/logs`,
+      {
+        date,
+        count: Math.max(0, count),
+        source: event?.source ?? "edit",
+        eventId: event?.id,
+        occurredAt: event?.timestamp,
+      },
+    );
+    return { newCount: data?.count ?? null, error };
+  },
+
+  async importUnitEvents(events) {
+    const { data, error } = await send<{ imported: number }>(
+      "POST",
+      "/api/habit-logs/import",
+      {
+        entries: events.map((event) => ({
+          eventId: event.id,
+          habitId: event.habitId,
+          date: event.date,
+          delta: event.delta,
+          occurredAt: event.timestamp,
+        })),
+      },
+    );
+    return { imported: data?.imported ?? 0, error };
+  },
+
+  async fetchBadHabits(_userId, options = {}) {
+    const { data, error } = await send<Row[]>(
+      "GET",
+      withQuery("/api/bad-habits", {
+        includeArchived: options.includeArchived ? "true" : undefined,
+        updatedSince: options.updatedSince,
+      }),
+    );
+    return {
+      badHabits: (data ?? []).map((row) => toSnakeCase<DbBadHabit>(row)),
+      error,
+    };
+  },
+
+  async upsertBadHabit(_userId, badHabit) {
+    const { data, error } = await send<Row>(
+      "POST",
+      "/api/bad-habits",
+      badHabit,
+    );
+    return {
+      badHabit: data ? toSnakeCase<DbBadHabit>(data) : null,
+      error,
+    };
+  },
+
+  async updateBadHabit(badHabitId, updates) {
+    const { error } = await send("PATCH", `/api/bad-habits/${badHabitId}`, {
+      isArchived: updates.is_archived,
+    });
+    return { success: !error, error };
+  },
+
+  async fetchBadHabitLogs(_userId, filter = {}) {
+    const { data, error } = await send<Row[]>(
+      "GET",
+      withQuery("/api/bad-habits/logs", {
+        from: filter.from,
+        to: filter.to,
+        updatedSince: filter.updatedSince,
+      }),
+    );
+    return {
+      logs: (data ?? [])
+        .map((row) => toSnakeCase<DbBadHabitLog>(row))
+        .sort(byCreatedAtDesc),
+      error,
+    };
+  },
+
+  async upsertBadHabitLog(_userId, log) {
+    const { data, error } = await send<Row>(
+      "PUT",
+      `/api/bad-habits/${log.bad_habit_id}/logs/${log.date}`,
+      {
+        count: log.count,
+        penaltyUnits: log.penalty_units,
+        isUndone: log.is_undone,
+      },
+    );
+    return { log: data ? toSnakeCase<DbBadHabitLog>(data) : null, error };
+  },
+
+  // The API addresses logs by (bad habit, date), so a log id is looked up first
+  async undoBadHabitLog(target) {
+    let badHabitId: string;
+    let date: string;
+    if ("logId" in target) {
+      const { logs, error } = await apiHabitRepository.fetchBadHabitLogs("");
+      if (error) return { success: false, error };
+      const log = logs.find((l) => l.id === target.logId);
+      if (!log) return { success: true, error: null };
+      badHabitId = log.bad_habit_id;
+      date = log.date;
+    } else {
+      ({ badHabitId, date } = target);
+    }
+
+    const { error } = await send(
+      "PUT",
+      `/api/bad-habits/${badHabitId}/logs/${date}`,
+      { isUndone: true },
+    );
+    return { success: !error, error };
+  },
+
+  // The data API has no push channel; other devices' changes arrive on the next sync
+  subscribeToChanges() {
+    return () => {};
+  },
+
+  async deleteAccount() {
+    return requestAccountDeletion();
+  },
+};
@@ -0,0 +1,88 @@
+import { Platform } from "react-native";
+import * as AppleAuthentication from "expo-apple-authentication";
+import * as Crypto from "expo-crypto";
+
+// ============================================================================
+// SIGN IN WITH APPLE
+// ============================================================================
+// The native Apple sheet returns an identity token that Supabase verifies with
+// signInWithIdToken, so no web redirect is involved. Apple embeds the SHA-256
+// of the nonce in the token while Supabase needs the raw value to compare it
+// against, which is why both are kept.
+//
+// Apple shares the user's name only on the very first authorization; callers
+// should store it right away.
+// ============================================================================
+
+const CANCELLED = "ERR_REQUEST_CANCELED";
+
+export interface AppleCredential {
+  identityToken: string;
+  /** Raw nonce, to pass to Supabase */
+  nonce: string;
+  /** Only present on the first authorization */
+  fullName: string | null;
+}
+
+export type AppleCredentialResult =
+  | { credential: AppleCredential; cancelled: false; error: null }
+  | { credential: null; cancelled: true; error: null }
+  | { credential: null; cancelled: false; error: string };
+
+export async function isAppleSignInAvailable(): Promise<boolean> {
+  if (Platform.OS !== "ios") return false;
+  try {
+    return await AppleAuthentication.isAvailableAsync();
+  } catch {
+    return false;
+  }
+}
+
+export async function requestAppleCredential(): Promise<AppleCredentialResult> {
+  const nonce = Crypto.randomUUID();
+  const hashedNonce = await Crypto.digestStringAsync(
+    Crypto.CryptoDigestAlgorithm.SHA256,
+    nonce,
+  );
+
+  try {
+    const credential = await AppleAuthentication.signInAsync({
+      requestedScopes: [
+        AppleAuthentication.AppleAuthenticationScope.FULL_NAME,
+        AppleAuthentication.AppleAuthenticationScope.EMAIL,
+      ],
+      nonce: hashedNonce,
+    });
+
+    if (!credential.identityToken) {
+      return {
+        credential: null,
+        cancelled: false,
+        error: "Apple did not return an identity token",
+      };
+    }
+
+    const fullName = credential.fullName
+      ? AppleAuthentication.formatFullName(credential.fullName).trim()
+      : "";
+    return {
+      credential: {
+        identityToken: credential.identityToken,
+        nonce,
+        fullName: fullName || null,
+      },
+      cancelled: false,
+      error: null,
+    };
+  } catch (error) {
+    if ((error as { code?: string }).code === CANCELLED) {
+      return { credential: null, cancelled: true, error: null };
+    }
+    return {
+      credential: null,
+      cancelled: false,
+      error:
+        error instanceof Error ? error.message : "Sign in with Apple failed",
+    };
+  }
+}
@@ -0,0 +1,98 @@
+import * as Linking from "expo-linking";
+
+// ============================================================================
+// AUTH DEEP LINKS
+// ============================================================================
+// Emails sent by Supabase Auth (magic links, signup confirmations, password
+// recovery, email changes) redirect to units://auth/callback. Supabase appends
+// the result to that URL:
+//
+//   implicit flow  #access_token=...&refresh_token=...&type=magiclink
+//   PKCE flow      ?code=...
+//   partial step   #message=Confirmation+link+accepted...  (the first of the
+//                  two links a secure email change sends)
+//   failure        #error=access_denied&error_code=otp_expired&error_description=...
+//
+// The redirect URL must be listed under Auth > URL Configuration > Redirect
+// URLs in the Supabase dashboard (units://** covers every build), otherwise
+// Supabase falls back to the site URL and the app never sees the link.
+// ============================================================================
+
+const AUTH_CALLBACK_PATH = "auth/callback";
+
+export type AuthCallback =
+  | {
+      kind: "session";
+      accessToken: string;
+      refreshToken: string;
+      /** magiclink, signup, recovery, email_change, ... */
+      type: string | null;
+    }
+  | { kind: "code"; code: string; type: string | null }
+  | { kind: "message"; message: string }
+  | { kind: "error"; message: string };
+
+/** The URL auth emails should send the user back to */
+export function getAuthRedirectUrl(): string {
+  return Linking.createURL(AUTH_CALLBACK_PATH);
+}
+
+function readParams(url: string): URLSearchParams {
+  const params = new URLSearchParams();
+  const hashIndex = url.indexOf("#");
+  const queryIndex = url.indexOf("?");
+
+  if (queryIndex !== -1 && (hashIndex === -1 || queryIndex < hashIndex)) {
+    const query = url.slice(
+      queryIndex + 1,
+      hashIndex === -1 ? undefined : hashIndex,
+    );
+    new URLSearchParams(query).forEach((value, key) => params.set(key, value));
+  }
+  if (hashIndex !== -1) {
+    // The fragment wins: that is where the implicit flow puts its tokens
+    new URLSearchParams(url.slice(hashIndex + 1)).forEach((value, key) =>
+      params.set(key, value),
+    );
+  }
+  return params;
+}
+
+/**
+ * Reads the auth result from a deep link. Returns null for URLs that are not
+ * auth callbacks, so every incoming link can be passed through here.
+ */
+export function parseAuthCallback(url: string): AuthCallback | null {
+  const params = readParams(url);
+  const type = params.get("type");
+
+  const errorDescription =
+    params.get("error_description") ?? params.get("error");
+  if (errorDescription) {
+    const expired = params.get("error_code") === "otp_expired";
+    return {
+      kind: "error",
+      message: expired
+        ? "This link has expired or was already used. Please request a new one."
+        : errorDescription,
+    };
+  }
+
+  const accessToken = params.get("access_token");
+  const refreshToken = params.get("refresh_token");
+  if (accessToken && refreshToken) {
+    return { kind: "session", accessToken, refreshToken, type };
+  }
+
+  const code = params.get("code");
+  if (code) {
+    return { kind: "code", code, type };
+  }
+
+  const message = params.get("message");
+  if (message) {
+    return { kind: "message", message };
+  }
+
+  return null;
+}
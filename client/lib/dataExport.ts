@@ -0,0 +1,298 @@
+import { File, Paths } from "expo-file-system";
+import * as Sharing from "expo-sharing";
+import Constants from "expo-constants";
+import type {
+  AppSettings,
+  BadHabit,
+  BadHabitLog,
+  Habit,
+  UnitLog,
+} from "@/lib/storage";
+import { fetchAllHabits, fetchBadHabits } from "@/lib/habitService";
+import { dbHabitToLocal, dbBadHabitToLocal } from "@/lib/syncEngine";
+
+// ============================================================================
+// DATA EXPORT
+// ============================================================================
+// A versioned JSON bundle of everything the user has logged, plus one CSV per
+// table for spreadsheets. Deleted habits are archived rather than removed, and
+// the local store only keeps active ones, so archived habits and bad habits are
+// fetched from Supabase when online. Bump EXPORT_VERSION whenever the bundle
+// shape changes so importers can tell versions apart.
+// ============================================================================
+
+export const EXPORT_FORMAT = "units-export";
+export const EXPORT_VERSION = 1;
+
+export interface ExportBundle {
+  format: typeof EXPORT_FORMAT;
+  version: number;
+  exportedAt: string;
+  appVersion: string | null;
+  // False when archived rows could not be fetched (usually offline)
+  includesArchived: boolean;
+  habits: Habit[];
+  logs: UnitLog[];
+  badHabits: BadHabit[];
+  badHabitLogs: BadHabitLog[];
+  settings: AppSettings;
+}
+
+export type ExportSource = {
+  habits: Habit[];
+  logs: UnitLog[];
+  badHabits: BadHabit[];
+  badHabitLogs: BadHabitLog[];
+  settings: AppSettings;
+};
+
+// ============================================================================
+// BUNDLE
+// ============================================================================
+
+async function fetchArchived(
+  userId: string,
+): Promise<{ habits: Habit[]; badHabits: BadHabit[]; error: string | null }> {
+  const [habitsResult, badHabitsResult] = await Promise.all([
+    fetchAllHabits(userId, { includeArchived: true }),
+    fetchBadHabits(userId, { includeArchived: true }),
+  ]);
+  const error = habitsResult.error ?? badHabitsResult.error;
+  if (error) return { habits: [], badHabits: [], error };
+
+  return {
+    habits: habitsResult.habits
+      .filter((h) => h.is_archived)
+      .map(dbHabitToLocal),
+    badHabits: badHabitsResult.badHabits
+      .filter((b) => b.is_archived)
+      .map(dbBadHabitToLocal),
+    error: null,
+  };
+}
+
+export async function buildExportBundle(
+  userId: string | null,
+  source: ExportSource,
+): Promise<ExportBundle> {
+  const archived = userId
+    ? await fetchArchived(userId)
+    : { habits: [], badHabits: [], error: "Not signed in" };
+  if (archived.error) {
+    console.log(
+      "[Export] Archived rows unavailable, exporting local data only:",
+      archived.error,
+    );
+  }
+
+  const activeHabitIds = new Set(source.habits.map((h) => h.id));
+  const activeBadHabitIds = new Set(source.badHabits.map((b) => b.id));
+
+  return {
+    format: EXPORT_FORMAT,
+    version: EXPORT_VERSION,
+    exportedAt: new Date().toISOString(),
+    appVersion: Constants.expoConfig?.version ?? null,
+    includesArchived: !archived.error,
+    habits: [
+      ...source.habits,
+      ...archived.habits.filter((h) => !activeHabitIds.has(h.id)),
+    ],
+    logs: source.logs,
+    badHabits: [
+      ...source.badHabits,
+      ...archived.badHabits.filter((b) => !activeBadHabitIds.has(b.id)),
+    ],
+    badHabitLogs: source.badHabitLogs,
+    settings: source.settings,
+  };
+}
+
+// ============================================================================
+// CSV
+// ============================================================================
+
+type CsvColumn<T> = { header: string; value: (row: T) => unknown };
+
+function csvCell(value: unknown): string {
+  if (value === null || value === undefined) return "";
+  const text =
+    typeof value === "object" ? JSON.stringify(value) : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function toCsv<T>(columns: CsvColumn<T>[], rows: T[]): string {
+  const lines = [
+    columns.map((c) => csvCell(c.header)).join(","),
+    ...rows.map((row) => columns.map((c) => csvCell(c.value(row))).join(",")),
+  ];
+  return lines.join("\r\n") + "\r\n";
+}
+
+export type ExportTable =
+  | "habits"
+  | "unit_logs"
+  | "bad_habits"
+  | "bad_habit_logs"
+  | "penalty_adjustments";
+
+export const EXPORT_TABLE_LABELS: Record<ExportTable, string> = {
+  habits: "Habits",
+  unit_logs: "Unit Logs",
+  bad_habits: "Bad Habits",
+  bad_habit_logs: "Bad Habit Logs",
+  penalty_adjustments: "Penalties",
+};
+
+export function buildExportCsv(
+  bundle: ExportBundle,
+  table: ExportTable,
+): string {
+  const habitNames = new Map(bundle.habits.map((h) => [h.id, h.name]));
+  const badHabitNames = new Map(bundle.badHabits.map((b) => [b.id, b.name]));
+
+  switch (table) {
+    case "habits":
+      return toCsv<Habit>(
+        [
+          { header: "id", value: (h) => h.id },
+          { header: "name", value: (h) => h.name },
+          { header: "icon", value: (h) => h.icon },
+          { header: "color", value: (h) => h.color },
+          { header: "unit_name", value: (h) => h.unitName },
+          { header: "goal", value: (h) => h.dailyGoal },
+          { header: "goal_period", value: (h) => h.goalPeriod ?? "day" },
+          { header: "schedule", value: (h) => h.schedule },
+          {
+            header: "reminder_times",
+            value: (h) => h.reminderTimes?.join(" "),
+          },
+          { header: "tap_increment", value: (h) => h.tapIncrement },
+          { header: "habit_type", value: (h) => h.habitType },
+          { header: "is_archived", value: (h) => h.isArchived },
+          { header: "created_at", value: (h) => h.createdAt },
+          { header: "updated_at", value: (h) => h.updatedAt },
+        ],
+        bundle.habits,
+      );
+    case "unit_logs":
+      return toCsv<UnitLog>(
+        [
+          { header: "id", value: (l) => l.id },
+          { header: "habit_id", value: (l) => l.habitId },
+          { header: "habit_name", value: (l) => habitNames.get(l.habitId) },
+          { header: "date", value: (l) => l.date },
+          { header: "count", value: (l) => l.count },
+          { header: "created_at", value: (l) => l.createdAt },
+          { header: "updated_at", value: (l) => l.updatedAt },
+        ],
+        bundle.logs,
+      );
+    case "bad_habits":
+      return toCsv<BadHabit>(
+        [
+          { header: "id", value: (b) => b.id },
+          { header: "name", value: (b) => b.name },
+          { header: "is_archived", value: (b) => b.isArchived },
+          { header: "created_at", value: (b) => b.createdAt },
+          { header: "updated_at", value: (b) => b.updatedAt },
+        ],
+        bundle.badHabits,
+      );
+    case "bad_habit_logs":
+      return toCsv<BadHabitLog>(
+        [
+          { header: "id", value: (l) => l.id },
+          { header: "bad_habit_id", value: (l) => l.badHabitId },
+          {
+            header: "bad_habit_name",
+            value: (l) => badHabitNames.get(l.badHabitId),
+          },
+          { header: "date", value: (l) => l.date },
+          { header: "count", value: (l) => l.count },
+          { header: "penalty_units", value: (l) => l.penaltyUnits },
+          { header: "is_undone", value: (l) => l.isUndone ?? false },
+          { header: "created_at", value: (l) => l.createdAt },
+          { header: "updated_at", value: (l) => l.updatedAt },
+        ],
+        bundle.badHabitLogs,
+      );
+    case "penalty_adjustments": {
+      // One row per habit a bad-habit tap took units from
+      const rows = bundle.badHabitLogs.flatMap((log) =>
+        (log.penaltyAdjustments ?? []).map((adjustment) => ({
+          log,
+          adjustment,
+        })),
+      );
+      return toCsv<(typeof rows)[number]>(
+        [
+          { header: "bad_habit_log_id", value: (r) => r.log.id },
+          { header: "bad_habit_id", value: (r) => r.log.badHabitId },
+          {
+            header: "bad_habit_name",
+            value: (r) => badHabitNames.get(r.log.badHabitId),
+          },
+          { header: "date", value: (r) => r.log.date },
+          { header: "habit_id", value: (r) => r.adjustment.habitId },
+          {
+            header: "habit_name",
+            value: (r) => habitNames.get(r.adjustment.habitId),
+          },
+          { header: "units_removed", value: (r) => r.adjustment.unitsRemoved },
+        ],
+        rows,
+      );
+    }
+  }
+}
+
+// ============================================================================
+// SHARING
+// ============================================================================
+
+export async function isExportSharingAvailable(): Promise<boolean> {
+  try {
+    return await Sharing.isAvailableAsync();
+  } catch {
+    return false;
+  }
+}
+
+function writeExportFile(name: string, content: string): string {
+  const file = new File(Paths.cache, name);
+  file.create({ overwrite: true });
+  file.write(content);
+  return file.uri;
+}
+
+function exportDateStamp(bundle: ExportBundle): string {
+  return bundle.exportedAt.slice(0, 10);
+}
+
+export async function shareExportJson(bundle: ExportBundle): Promise<void> {
+  const uri = writeExportFile(
+    `units-export-${exportDateStamp(bundle)}.json`,
+    JSON.stringify(bundle, null, 2),
+  );
+  await Sharing.shareAsync(uri, {
+    mimeType: "application/json",
+    UTI: "public.json",
+    dialogTitle: "Export Units Data",
+  });
+}
+
+export async function shareExportCsv(
+  bundle: ExportBundle,
+  table: ExportTable,
+): Promise<void> {
+  const uri = writeExportFile(
+    `units-${table.replace(/_/g, "-")}-${exportDateStamp(bundle)}.csv`,
+    buildExportCsv(bundle, table),
+  );
+  await Sharing.shareAsync(uri, {
+    mimeType: "text/csv",
+    UTI: "public.comma-separated-values-text",
+    dialogTitle: `Export ${EXPORT_TABLE_LABELS[table]}`,
+  });
+}
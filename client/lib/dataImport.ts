@@ -0,0 +1,564 @@
+import * as DocumentPicker from "expo-document-picker";
+import { File } from "expo-file-system";
+import {
+  Habit,
+  UnitEvent,
+  UnitLog,
+  generateUuid,
+  suggestIconAndColor,
+} from "@/lib/storage";
+import { EXPORT_FORMAT, EXPORT_VERSION } from "@/lib/dataExport";
+
+// ============================================================================
+// DATA IMPORT
+// ============================================================================
+// Reads either our own export bundle (see dataExport.ts) or a CSV from another
+// habit tracker, shows what it would bring in, and turns the user's choices
+// into an ImportPlan: habits to create plus unit additions for the batch
+// import_habit_logs RPC. Imported habits are matched to existing ones by id
+// (restoring a backup into the same account), then by name.
+//
+// Merging into an existing habit only tops each day up to the imported count,
+// so importing the same file twice does not double anything.
+// ============================================================================
+
+export type ImportSource = "units-backup" | "csv";
+
+export type ImportResolution = "merge" | "create" | "skip";
+
+// A habit as read from the file, with its per-day counts summed
+export interface ImportedHabit {
+  key: string;
+  sourceId: string | null;
+  name: string;
+  template: Omit<Habit, "id" | "createdAt" | "isArchived" | "updatedAt">;
+  days: { date: string; count: number }[];
+}
+
+export interface ParsedImport {
+  source: ImportSource;
+  fileName: string;
+  habits: ImportedHabit[];
+  skippedRows: number;
+}
+
+export interface ImportPreviewItem {
+  habit: ImportedHabit;
+  match: Habit | null;
+  units: number;
+  firstDate: string;
+  lastDate: string;
+}
+
+export interface ImportPlan {
+  newHabits: Habit[];
+  events: UnitEvent[];
+}
+
+// ============================================================================
+// FILE PICKING
+// ============================================================================
+
+// Returns null when the user cancels the picker
+export async function pickImportFile(): Promise<{
+  name: string;
+  text: string;
+} | null> {
+  const result = await DocumentPicker.getDocumentAsync({
+    type: [
+      "application/json",
+      "text/csv",
+      "text/comma-separated-values",
+      "text/plain",
+    ],
+    copyToCacheDirectory: true,
+  });
+  if (result.canceled || result.assets.length === 0) return null;
+
+  const asset = result.assets[0];
+  const text = await new File(asset.uri).text();
+  return { name: asset.name, text };
+}
+
+// ============================================================================
+// PARSING
+// ============================================================================
+
+function normalizeName(name: string): string {
+  return name.trim().replace(/\s+/g, " ").toLowerCase();
+}
+
+function normalizeHeader(header: string): string {
+  return header
+    .trim()
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, " ")
+    .trim();
+}
+
+// Accepts YYYY-MM-DD (optionally followed by a time), YYYY/MM/DD, and
+// MM/DD/YYYY, read as DD/MM/YYYY when the first part cannot be a month
+function parseImportDate(text: string): string | null {
+  const value = text.trim();
+  let year: number;
+  let month: number;
+  let day: number;
+
+  const isoMatch = value.match(/^(\d{4})[-/.](\d{1,2})[-/.](\d{1,2})/);
+  const usMatch = value.match(/^(\d{1,2})[-/.](\d{1,2})[-/.](\d{4})/);
+  if (isoMatch) {
+    [year, month, day] = isoMatch.slice(1).map(Number);
+  } else if (usMatch) {
+    const [first, second] = usMatch.slice(1, 3).map(Number);
+    year = Number(usMatch[3]);
+    [month, day] = first > 12 ? [second, first] : [first, second];
+  } else {
+    return null;
+  }
+
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (
+    date.getUTCFullYear() !== year ||
+    date.getUTCMonth() !== month - 1 ||
+    date.getUTCDate() !== day
+  ) {
+    return null;
+  }
+  return `${year}-${String(month).padStart(2, "0")}-${String(day).padStart(2, "0")}`;
+}
+
+const TRUE_VALUES = new Set([
+  "true",
+  "yes",
+  "y",
+  "x",
+  "done",
+  "completed",
+  "✓",
+  "✔",
+]);
+const FALSE_VALUES = new Set(["false", "no", "n", ""]);
+
+// Whole units, or null when the cell is not a count or a yes/no
+function parseImportValue(text: string): number | null {
+  const value = text.trim().toLowerCase();
+  if (TRUE_VALUES.has(value)) return 1;
+  if (FALSE_VALUES.has(value)) return 0;
+  const number = Number(value.replace(/,/g, ""));
+  if (!Number.isFinite(number)) return null;
+  return Math.max(Math.round(number), 0);
+}
+
+// RFC 4180: quoted fields may contain commas, doubled quotes and newlines
+function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ",") {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+  if (field !== "" || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows.filter((r) => r.some((cell) => cell.trim() !== ""));
+}
+
+// Habits keyed by ImportedHabit.key, with units summed per day while parsing
+type HabitAccumulator = Map<
+  string,
+  { habit: Omit<ImportedHabit, "days">; days: Map<string, number> }
+>;
+
+function addImportedHabit(
+  accumulator: HabitAccumulator,
+  key: string,
+  habit: Omit<ImportedHabit, "days" | "key">,
+): void {
+  if (!accumulator.has(key)) {
+    accumulator.set(key, { habit: { ...habit, key }, days: new Map() });
+  }
+}
+
+function addImportedUnits(
+  accumulator: HabitAccumulator,
+  key: string,
+  date: string,
+  count: number,
+): void {
+  const entry = accumulator.get(key);
+  if (!entry || count <= 0) return;
+  entry.days.set(date, (entry.days.get(date) ?? 0) + count);
+}
+
+// Backup habits are kept even without logs; CSV columns with nothing logged are dropped
+function collectImportedHabits(accumulator: HabitAccumulator): ImportedHabit[] {
+  return Array.from(accumulator.values())
+    .map(({ habit, days }) => ({
+      ...habit,
+      days: Array.from(days.entries())
+        .map(([date, count]) => ({ date, count }))
+        .sort((a, b) => a.date.localeCompare(b.date)),
+    }))
+    .filter((habit) => habit.days.length > 0 || habit.sourceId !== null);
+}
+
+// A habit seen only in another tracker's CSV: count habit, goal set to its
+// average logged day so the history does not all read as missed
+function csvHabitTemplate(
+  name: string,
+  days: number,
+  units: number,
+): ImportedHabit["template"] {
+  const { icon, color } = suggestIconAndColor(name);
+  return {
+    name,
+    icon,
+    color,
+    unitName: name.toLowerCase(),
+    dailyGoal: Math.max(1, days > 0 ? Math.round(units / days) : 1),
+    goalPeriod: "day",
+    tapIncrement: 1,
+    habitType: "count",
+  };
+}
+
+const DATE_HEADERS = ["date", "day", "timestamp", "time"];
+const HABIT_HEADERS = [
+  "habit",
+  "habit name",
+  "name",
+  "activity",
+  "task",
+  "title",
+];
+const VALUE_HEADERS = [
+  "value",
+  "count",
+  "units",
+  "amount",
+  "quantity",
+  "reps",
+  "minutes",
+  "total",
+];
+
+function findColumn(headers: string[], candidates: string[]): number {
+  for (const candidate of candidates) {
+    const index = headers.indexOf(candidate);
+    if (index !== -1) return index;
+  }
+  return -1;
+}
+
+// Two layouts are recognised:
+//   long - one row per habit per day: date, habit[, value] (no value column = 1 per row)
+//   wide - one row per day and one column per habit: date, Habit A, Habit B, ...
+function parseTrackerCsv(fileName: string, text: string): ParsedImport {
+  const [headerRow, ...rows] = parseCsv(text.replace(/^\uFEFF/, ""));
+  if (!headerRow) throw new Error("The file is empty.");
+
+  const headers = headerRow.map(normalizeHeader);
+  const dateColumn = findColumn(headers, DATE_HEADERS);
+  if (dateColumn === -1) {
+    throw new Error(
+      'Couldn\'t find a date column. Expected a header such as "date".',
+    );
+  }
+  const habitColumn = findColumn(headers, HABIT_HEADERS);
+  const valueColumn = findColumn(headers, VALUE_HEADERS);
+
+  const habits: HabitAccumulator = new Map();
+  let skippedRows = 0;
+
+  if (habitColumn !== -1) {
+    for (const row of rows) {
+      const date = parseImportDate(row[dateColumn] ?? "");
+      const name = (row[habitColumn] ?? "").trim().replace(/\s+/g, " ");
+      const count =
+        valueColumn === -1 ? 1 : parseImportValue(row[valueColumn] ?? "");
+      if (!date || !name || count === null) {
+        skippedRows++;
+        continue;
+      }
+      const key = normalizeName(name);
+      addImportedHabit(habits, key, {
+        sourceId: null,
+        name,
+        template: csvHabitTemplate(name, 0, 0),
+      });
+      addImportedUnits(habits, key, date, count);
+    }
+  } else {
+    // Only columns where every filled cell is a count or yes/no are habits
+    const habitColumns = headerRow
+      .map((name, index) => ({ name: name.trim(), index }))
+      .filter(
+        ({ name, index }) =>
+          index !== dateColumn &&
+          name !== "" &&
+          rows.every((row) => parseImportValue(row[index] ?? "") !== null),
+      );
+    if (habitColumns.length === 0) {
+      throw new Error(
+        "Couldn't find any habit columns next to the date column.",
+      );
+    }
+
+    for (const { name } of habitColumns) {
+      addImportedHabit(habits, normalizeName(name), {
+        sourceId: null,
+        name,
+        template: csvHabitTemplate(name, 0, 0),
+      });
+    }
+    for (const row of rows) {
+      const date = parseImportDate(row[dateColumn] ?? "");
+      if (!date) {
+        skippedRows++;
+        continue;
+      }
+      for (const { name, index } of habitColumns) {
+        addImportedUnits(
+          habits,
+          normalizeName(name),
+          date,
+          parseImportValue(row[index] ?? "") ?? 0,
+        );
+      }
+    }
+  }
+
+  return {
+    source: "csv",
+    fileName,
+    habits: collectImportedHabits(habits).map((habit) => {
+      const units = habit.days.reduce((sum, d) => sum + d.count, 0);
+      return {
+        ...habit,
+        template: csvHabitTemplate(habit.name, habit.days.length, units),
+      };
+    }),
+    skippedRows,
+  };
+}
+
+// Only the fields import reads; everything is checked before use
+type BackupFile = {
+  format?: unknown;
+  version?: unknown;
+  habits?: unknown;
+  logs?: unknown;
+};
+
+function parseBackup(fileName: string, bundle: BackupFile): ParsedImport {
+  if (typeof bundle.version !== "number" || bundle.version > EXPORT_VERSION) {
+    throw new Error(
+      "This backup was made by a newer version of Units. Update the app and try again.",
+    );
+  }
+  if (!Array.isArray(bundle.habits) || !Array.isArray(bundle.logs)) {
+    throw new Error("This backup is missing its habits or logs.");
+  }
+
+  const habits: HabitAccumulator = new Map();
+  // Deleted habits are part of a backup, but are not brought back
+  const activeHabits = (bundle.habits as Habit[]).filter(
+    (h) =>
+      h &&
+      typeof h.id === "string" &&
+      typeof h.name === "string" &&
+      !h.isArchived,
+  );
+  for (const habit of activeHabits) {
+    addImportedHabit(habits, habit.id, {
+      sourceId: habit.id,
+      name: habit.name,
+      template: {
+        name: habit.name,
+        icon: habit.icon,
+        color: habit.color,
+        unitName: habit.unitName,
+        dailyGoal: habit.dailyGoal,
+        goalPeriod: habit.goalPeriod ?? "day",
+        schedule: habit.schedule ?? null,
+        reminderTimes: habit.reminderTimes ?? [],
+        tapIncrement: habit.tapIncrement || 1,
+        habitType: habit.habitType === "time" ? "time" : "count",
+      },
+    });
+  }
+
+  let skippedRows = 0;
+  for (const log of bundle.logs as UnitLog[]) {
+    const date =
+      log && typeof log.date === "string" ? parseImportDate(log.date) : null;
+    if (!date || !habits.has(log.habitId) || typeof log.count !== "number") {
+      skippedRows++;
+      continue;
+    }
+    addImportedUnits(habits, log.habitId, date, Math.round(log.count));
+  }
+
+  return {
+    source: "units-backup",
+    fileName,
+    habits: collectImportedHabits(habits),
+    skippedRows,
+  };
+}
+
+function parseFile(fileName: string, text: string): ParsedImport {
+  const trimmed = text.trim();
+  if (!trimmed.startsWith("{")) return parseTrackerCsv(fileName, text);
+
+  let bundle: BackupFile;
+  try {
+    bundle = JSON.parse(trimmed);
+  } catch {
+    throw new Error("The file isn't valid JSON.");
+  }
+  if (bundle.format !== EXPORT_FORMAT) {
+    throw new Error("This JSON file isn't a Units export.");
+  }
+  return parseBackup(fileName, bundle);
+}
+
+// error is a message to show the user when the file can't be read
+export function parseImportFile(
+  fileName: string,
+  text: string,
+): { parsed: ParsedImport | null; error: string | null } {
+  try {
+    return { parsed: parseFile(fileName, text), error: null };
+  } catch (error) {
+    return {
+      parsed: null,
+      error: error instanceof Error ? error.message : String(error),
+    };
+  }
+}
+
+// ============================================================================
+// PREVIEW AND PLAN
+// ============================================================================
+
+export function buildImportPreview(
+  parsed: ParsedImport,
+  existingHabits: Habit[],
+): ImportPreviewItem[] {
+  const active = existingHabits.filter((h) => !h.isArchived);
+  return parsed.habits.map((habit) => {
+    const match =
+      active.find((h) => habit.sourceId !== null && h.id === habit.sourceId) ??
+      active.find((h) => normalizeName(h.name) === normalizeName(habit.name)) ??
+      null;
+    return {
+      habit,
+      match,
+      units: habit.days.reduce((sum, d) => sum + d.count, 0),
+      firstDate: habit.days[0]?.date ?? "",
+      lastDate: habit.days[habit.days.length - 1]?.date ?? "",
+    };
+  });
+}
+
+export function defaultImportResolution(
+  item: ImportPreviewItem,
+): ImportResolution {
+  return item.match ? "merge" : "create";
+}
+
+// Habit names are unique per user, so a kept-both copy gets a suffix
+function uniqueHabitName(name: string, taken: Set<string>): string {
+  let candidate = name;
+  for (let n = 1; taken.has(normalizeName(candidate)); n++) {
+    candidate = n === 1 ? `${name} (Imported)` : `${name} (Imported ${n})`;
+  }
+  taken.add(normalizeName(candidate));
+  return candidate;
+}
+
+export function buildImportPlan(
+  preview: ImportPreviewItem[],
+  resolutions: Record<string, ImportResolution>,
+  existingHabits: Habit[],
+  existingLogs: UnitLog[],
+): ImportPlan {
+  const now = new Date().toISOString();
+  const takenNames = new Set(
+    existingHabits
+      .filter((h) => !h.isArchived)
+      .map((h) => normalizeName(h.name)),
+  );
+  const newHabits: Habit[] = [];
+  const events: UnitEvent[] = [];
+
+  for (const item of preview) {
+    const resolution =
+      resolutions[item.habit.key] ?? defaultImportResolution(item);
+    if (resolution === "skip") continue;
+
+    let habitId: string;
+    let existingCounts = new Map<string, number>();
+    if (resolution === "merge" && item.match) {
+      habitId = item.match.id;
+      existingCounts = new Map(
+        existingLogs
+          .filter((l) => l.habitId === habitId)
+          .map((l) => [l.date, l.count]),
+      );
+    } else {
+      habitId = generateUuid();
+      newHabits.push({
+        ...item.habit.template,
+        name: uniqueHabitName(item.habit.template.name, takenNames),
+        id: habitId,
+        createdAt: now,
+        isArchived: false,
+        updatedAt: now,
+      });
+    }
+
+    for (const { date, count } of item.habit.days) {
+      const delta = count - (existingCounts.get(date) ?? 0);
+      if (delta <= 0) continue;
+      events.push({
+        id: generateUuid(),
+        habitId,
+        date,
+        delta,
+        source: "import",
+        timestamp: now,
+      });
+    }
+  }
+
+  return { newHabits, events };
+}
@@ -0,0 +1,270 @@
+import type { GoalPeriod, Habit, HabitSchedule } from "@/lib/storage";
+
+// ============================================================================
+// DAY BUCKETING
+// ============================================================================
+// habit_logs.date is a plain YYYY-MM-DD with no time zone, so every place that
+// turns a moment into a day has to agree on which zone and which hour the day
+// starts at. All of that lives here.
+//
+// Days follow the user's home time zone (stored on the profile), so flying
+// across zones neither double-counts nor skips a day. Travel mode switches
+// bucketing to the device's current zone until the user turns it off.
+// ============================================================================
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+// Set by UnitsProvider from settings and the user's profile. Kept at module
+// level so the helpers below stay argument-free.
+let dayStartHour = 0;
+let homeTimeZone: string | null = null;
+let travelMode = false;
+
+export function setDayStartHour(hour: number): void {
+  dayStartHour = Math.min(Math.max(Math.floor(hour), 0), 23);
+}
+
+export function getDayStartHour(): number {
+  return dayStartHour;
+}
+
+export function setHomeTimeZone(timeZone: string | null): void {
+  homeTimeZone = timeZone && isValidTimeZone(timeZone) ? timeZone : null;
+}
+
+export function getHomeTimeZone(): string | null {
+  return homeTimeZone;
+}
+
+export function setTravelMode(enabled: boolean): void {
+  travelMode = enabled;
+}
+
+export function isTravelModeEnabled(): boolean {
+  return travelMode;
+}
+
+// ============================================================================
+// TIME ZONES
+// ============================================================================
+
+export function getDeviceTimeZone(): string {
+  try {
+    return Intl.DateTimeFormat().resolvedOptions().timeZone || "UTC";
+  } catch {
+    return "UTC";
+  }
+}
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// Zone that days are currently bucketed in
+export function getActiveTimeZone(): string {
+  if (travelMode || !homeTimeZone) return getDeviceTimeZone();
+  return homeTimeZone;
+}
+
+// True when the device is somewhere other than home and days still follow home
+export function hasTimeZoneMismatch(): boolean {
+  return (
+    !travelMode && homeTimeZone !== null && getDeviceTimeZone() !== homeTimeZone
+  );
+}
+
+type ZonedParts = {
+  year: number;
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+};
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function getFormatter(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      year: "numeric",
+      month: "numeric",
+      day: "numeric",
+      hour: "numeric",
+      minute: "numeric",
+      second: "numeric",
+      hourCycle: "h23",
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+// Wall-clock fields of a moment in the given zone. Falls back to the device
+// clock if the runtime's Intl has no time zone data.
+function getZonedParts(date: Date, timeZone: string): ZonedParts {
+  try {
+    const parts: Record<string, number> = {};
+    for (const part of getFormatter(timeZone).formatToParts(date)) {
+      if (part.type !== "literal") parts[part.type] = Number(part.value);
+    }
+    return {
+      year: parts.year,
+      month: parts.month,
+      day: parts.day,
+      hour: parts.hour % 24,
+      minute: parts.minute,
+      second: parts.second,
+    };
+  } catch {
+    return {
+      year: date.getFullYear(),
+      month: date.getMonth() + 1,
+      day: date.getDate(),
+      hour: date.getHours(),
+      minute: date.getMinutes(),
+      second: date.getSeconds(),
+    };
+  }
+}
+
+// ============================================================================
+// CALENDAR ARITHMETIC
+// ============================================================================
+// Date strings are calendar days, not moments. Arithmetic runs in UTC so DST
+// transitions never shift a day.
+
+function formatDateParts(year: number, month: number, day: number): string {
+  return `${year}-${String(month).padStart(2, "0")}-${String(day).padStart(2, "0")}`;
+}
+
+function parseDate(dateStr: string): Date {
+  const [year, month, day] = dateStr.split("-").map(Number);
+  return new Date(Date.UTC(year, month - 1, day));
+}
+
+export function addDays(dateStr: string, days: number): string {
+  const date = parseDate(dateStr);
+  date.setUTCDate(date.getUTCDate() + days);
+  return formatDateParts(
+    date.getUTCFullYear(),
+    date.getUTCMonth() + 1,
+    date.getUTCDate(),
+  );
+}
+
+export function daysBetween(startDateStr: string, endDateStr: string): number {
+  return Math.round(
+    (parseDate(endDateStr).getTime() - parseDate(startDateStr).getTime()) /
+      DAY_MS,
+  );
+}
+
+// 0 = Sunday, matching Date.getDay()
+export function getDayOfWeek(dateStr: string): number {
+  return parseDate(dateStr).getUTCDay();
+}
+
+// Monday of the week containing the date
+export function getWeekStart(dateStr: string): string {
+  const dayOfWeek = getDayOfWeek(dateStr);
+  return addDays(dateStr, dayOfWeek === 0 ? -6 : 1 - dayOfWeek);
+}
+
+export function getMonthStart(dateStr: string): string {
+  return `${dateStr.slice(0, 7)}-01`;
+}
+
+// First day of the goal period containing the date
+export function getPeriodStart(period: GoalPeriod, dateStr: string): string {
+  if (period === "week") return getWeekStart(dateStr);
+  if (period === "month") return getMonthStart(dateStr);
+  return dateStr;
+}
+
+// Last day of the goal period containing the date
+export function getPeriodEnd(period: GoalPeriod, dateStr: string): string {
+  if (period === "week") return addDays(getWeekStart(dateStr), 6);
+  if (period === "month") {
+    const [year, month] = dateStr.split("-").map(Number);
+    const lastDay = new Date(Date.UTC(year, month, 0)).getUTCDate();
+    return formatDateParts(year, month, lastDay);
+  }
+  return dateStr;
+}
+
+// ============================================================================
+// SCHEDULES
+// ============================================================================
+
+export function isScheduledOn(
+  schedule: HabitSchedule | null | undefined,
+  dateStr: string,
+): boolean {
+  if (!schedule) return true;
+  switch (schedule.type) {
+    case "weekdays":
+      return schedule.days.includes(getDayOfWeek(dateStr));
+    case "interval": {
+      if (schedule.everyDays <= 1) return true;
+      const offset = daysBetween(schedule.startDate, dateStr);
+      return offset >= 0 && offset % schedule.everyDays === 0;
+    }
+    case "dates":
+      return schedule.dates.includes(dateStr);
+    default:
+      return true;
+  }
+}
+
+// Whether the habit's goal counts on this day. Schedules only apply to daily
+// goals; weekly and monthly goals are measured over the whole period.
+export function isHabitDueOn(
+  habit: Pick<Habit, "goalPeriod" | "schedule">,
+  dateStr: string,
+): boolean {
+  if ((habit.goalPeriod ?? "day") !== "day") return true;
+  return isScheduledOn(habit.schedule, dateStr);
+}
+
+// ============================================================================
+// BUCKETING
+// ============================================================================
+
+// Day (YYYY-MM-DD) a moment belongs to in the active zone, respecting the day start hour
+export function getDateForTimestamp(timestamp: Date | string): string {
+  const shifted = new Date(
+    new Date(timestamp).getTime() - dayStartHour * HOUR_MS,
+  );
+  const { year, month, day } = getZonedParts(shifted, getActiveTimeZone());
+  return formatDateParts(year, month, day);
+}
+
+export function getTodayDate(): string {
+  return getDateForTimestamp(new Date());
+}
+
+// Monday of the current week
+export function getStartOfWeek(): string {
+  return getWeekStart(getTodayDate());
+}
+
+// Milliseconds until the next day boundary in the active zone
+export function getMsUntilNextDay(): number {
+  const now = new Date();
+  const { hour, minute, second } = getZonedParts(now, getActiveTimeZone());
+  const elapsed =
+    ((hour - dayStartHour + 24) % 24) * HOUR_MS +
+    minute * 60 * 1000 +
+    second * 1000 +
+    now.getMilliseconds();
+  return Math.max(DAY_MS - elapsed, 1000);
+}
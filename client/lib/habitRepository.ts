@@ -0,0 +1,241 @@
+import type { GoalPeriod, HabitSchedule, UnitEvent } from "@/lib/storage";
+import type {
+  DbBadHabit,
+  DbBadHabitLog,
+  DbHabit,
+  DbHabitLog,
+  DbUnitEvent,
+} from "@/lib/habitService";
+import { supabaseHabitRepository } from "@/lib/supabaseHabitRepository";
+import { apiHabitRepository } from "@/lib/apiHabitRepository";
+import { localHabitRepository } from "@/lib/localHabitRepository";
+
+// ============================================================================
+// HABIT REPOSITORY
+// ============================================================================
+// The storage backend behind habitService. Everything above habitService
+// (sync engine, contexts, screens) is unaware of which one is in use.
+//
+//   supabase - the production backend (tables, RLS and RPCs in supabase/)
+//   api      - the Express data API (server/habitRoutes.ts), e.g. a local
+//              stand-in server backed by its own Postgres
+//   local    - rows kept in AsyncStorage on the device, for development and
+//              tests without a data server
+//
+// Only the data moves. Sign-in still goes through Supabase Auth on every
+// backend: AuthContext and the navigator gate on a Supabase session, and the
+// api backend sends its access token, which server/auth.ts verifies with
+// SUPABASE_JWT_SECRET. So each still needs a Supabase project for its users.
+//
+// Chosen at build time with EXPO_PUBLIC_BACKEND (default "supabase"). All
+// implementations use the Supabase row shapes (Db* types) and the same
+// semantics: creates upsert on the client-supplied id, unit writes are
+// idempotent per event id, and methods report failures as `error` strings
+// instead of throwing.
+// ============================================================================
+
+export type BackendKind = "supabase" | "api" | "local";
+
+// Fields accepted when creating a habit; everything else is set by the backend
+export interface HabitInput {
+  id?: string;
+  name: string;
+  icon: string;
+  color: string;
+  unit_name: string;
+  daily_goal: number;
+  goal_period?: GoalPeriod;
+  schedule?: HabitSchedule | null;
+  reminder_times?: string[];
+  tap_increment: number;
+  habit_type: "count" | "time";
+}
+
+export interface BadHabitLogInput {
+  bad_habit_id: string;
+  date: string;
+  count: number;
+  penalty_units: number;
+  is_undone: boolean;
+}
+
+export interface DateRange {
+  from?: string;
+  to?: string;
+}
+
+// Incremental sync asks only for rows written at or after updatedSince (an ISO
+// timestamp from the server's clock). Unit events are never updated, so they
+// match on created_at instead.
+export interface RowFilter extends DateRange {
+  updatedSince?: string;
+}
+
+export interface ListOptions {
+  includeArchived?: boolean;
+  updatedSince?: string;
+}
+
+// Sum of a day's habit logs, aggregated by the backend
+export interface DailyTotal {
+  date: string;
+  total: number;
+}
+
+// A bad habit log is addressed by its id, or by (bad habit, date) for taps
+// whose server id is not known yet
+export type BadHabitLogTarget =
+  | { logId: string }
+  | { badHabitId: string; date: string };
+
+// Returned by the server once an account and all of its data are deleted
+export interface AccountDeletionReceipt {
+  receiptId: string;
+  userId: string;
+  deletedAt: string;
+  /** Rows removed per table */
+  deleted: Record<string, number>;
+}
+
+// A row inserted or updated on the backend, by this device or any other. Rows
+// are archived or undone rather than deleted, so there is no delete variant.
+export type RemoteChange =
+  | { type: "upsert"; table: "habits"; row: DbHabit }
+  | { type: "upsert"; table: "habit_logs"; row: DbHabitLog }
+  | { type: "upsert"; table: "bad_habits"; row: DbBadHabit }
+  | { type: "upsert"; table: "bad_habit_logs"; row: DbBadHabitLog }
+  | { type: "upsert"; table: "unit_events"; row: DbUnitEvent };
+
+export type RemoteTable =
+  | "habits"
+  | "habit_logs"
+  | "bad_habits"
+  | "bad_habit_logs"
+  | "unit_events";
+
+export type RemoteChangeStatus = "connected" | "disconnected";
+
+export interface HabitRepository {
+  readonly kind: BackendKind;
+
+  fetchHabits(
+    userId: string,
+    options?: ListOptions,
+  ): Promise<{ habits: DbHabit[]; error: string | null }>;
+  upsertHabits(
+    userId: string,
+    habits: HabitInput[],
+  ): Promise<{ habits: DbHabit[]; error: string | null }>;
+  updateHabit(
+    habitId: string,
+    updates: Partial<DbHabit>,
+  ): Promise<{ success: boolean; error: string | null }>;
+
+  /** Newest date first */
+  fetchHabitLogs(
+    userId: string,
+    filter?: RowFilter,
+  ): Promise<{ logs: DbHabitLog[]; error: string | null }>;
+  /** Oldest date first, one entry per day with logs */
+  fetchDailyTotals(
+    userId: string,
+    range?: DateRange,
+  ): Promise<{ totals: DailyTotal[]; error: string | null }>;
+  /** Oldest first */
+  fetchUnitEvents(
+    userId: string,
+    filter?: RowFilter,
+  ): Promise<{ events: DbUnitEvent[]; error: string | null }>;
+  /** Adds delta to the day, floored at 0; returns the day's new count */
+  incrementHabitLog(
+    habitId: string,
+    date: string,
+    delta: number,
+    event?: UnitEvent,
+  ): Promise<{ newCount: number | null; error: string | null }>;
+  /** Sets the day's count and records the actual change as a unit event */
+  setHabitLogCount(
+    habitId: string,
+    date: string,
+    count: number,
+    event?: UnitEvent,
+  ): Promise<{ newCount: number | null; error: string | null }>;
+  /** One batch of import additions; returns how many were new */
+  importUnitEvents(
+    events: UnitEvent[],
+  ): Promise<{ imported: number; error: string | null }>;
+
+  fetchBadHabits(
+    userId: string,
+    options?: ListOptions,
+  ): Promise<{ badHabits: DbBadHabit[]; error: string | null }>;
+  upsertBadHabit(
+    userId: string,
+    badHabit: { id?: string; name: string },
+  ): Promise<{ badHabit: DbBadHabit | null; error: string | null }>;
+  updateBadHabit(
+    badHabitId: string,
+    updates: { is_archived: boolean },
+  ): Promise<{ success: boolean; error: string | null }>;
+
+  /** Newest first */
+  fetchBadHabitLogs(
+    userId: string,
+    filter?: RowFilter,
+  ): Promise<{ logs: DbBadHabitLog[]; error: string | null }>;
+  /** Creates or overwrites the log for (bad_habit_id, date) */
+  upsertBadHabitLog(
+    userId: string,
+    log: BadHabitLogInput,
+  ): Promise<{ log: DbBadHabitLog | null; error: string | null }>;
+  undoBadHabitLog(
+    target: BadHabitLogTarget,
+  ): Promise<{ success: boolean; error: string | null }>;
+
+  /**
+   * Streams changes to the user's rows as they happen, including this
+   * device's own writes. Returns the function that stops the stream; backends
+   * without push never call back.
+   */
+  subscribeToChanges(
+    userId: string,
+    onChange: (change: RemoteChange) => void,
+    onStatus?: (status: RemoteChangeStatus) => void,
+  ): () => void;
+
+  /**
+   * Permanently deletes the account and everything stored for it. notFound
+   * means it was already gone, e.g. a retry after the first response was lost.
+   */
+  deleteAccount(userId: string): Promise<{
+    receipt: AccountDeletionReceipt | null;
+    notFound: boolean;
+    error: string | null;
+  }>;
+}
+
+const repositories: Record<BackendKind, HabitRepository> = {
+  supabase: supabaseHabitRepository,
+  api: apiHabitRepository,
+  local: localHabitRepository,
+};
+
+function resolveBackendKind(value: string | undefined): BackendKind {
+  if (value === "api" || value === "local" || value === "supabase") {
+    return value;
+  }
+  if (value) {
+    console.warn(
+      `[HabitRepository] Unknown EXPO_PUBLIC_BACKEND "${value}", using supabase`,
+    );
+  }
+  return "supabase";
+}
+
+export const BACKEND_KIND: BackendKind = resolveBackendKind(
+  process.env.EXPO_PUBLIC_BACKEND,
+);
+
+export function getHabitRepository(): HabitRepository {
+  return repositories[BACKEND_KIND];
+}
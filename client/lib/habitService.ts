@@ -1,4 +1,14 @@
-import { supabase, isSupabaseConfigured } from "@/lib/supabase";
+import { getTodayDate, addDays } from "@/lib/dates";
+import {
+  getHabitRepository,
+  type AccountDeletionReceipt,
+  type HabitInput,
+  type ListOptions,
+  type RemoteChange,
+  type RemoteChangeStatus,
+  type RowFilter,
+} from "@/lib/habitRepository";
+import type { GoalPeriod, Habit, HabitSchedule, PendingMutation, UnitEvent, UnitEventSource } from "@/lib/storage";
 
 export interface DbHabit {
   id: string;
@@ -8,6 +18,9 @@ export interface DbHabit {
   color: string;
   unit_name: string;
   daily_goal: number;
+  goal_period: GoalPeriod | null;
+  schedule: HabitSchedule | null;
+  reminder_times: string[] | null;
   tap_increment: number;
   habit_type: "count" | "time";
   is_archived: boolean;
@@ -26,86 +39,47 @@ export interface DbHabitLog {
   updated_at: string;
 }
 
+export interface DbUnitEvent {
+  id: string;
+  habit_id: string;
+  user_id: string;
+  date: string;
+  delta: number;
+  source: UnitEventSource;
+  occurred_at: string;
+  created_at: string;
+}
+
 export interface HabitWithProgress extends DbHabit {
   todayCount: number;
   todayLogId: string | null;
 }
 
-export function getTodayDateLocal(): string {
-  const now = new Date();
-  const year = now.getFullYear();
-  const month = String(now.getMonth() + 1).padStart(2, "0");
-  const day = String(now.getDate()).padStart(2, "0");
-  return `${year}-${month}-${day}`;
-}
-
 export async function fetchHabitsWithTodayProgress(
   userId: string
 ): Promise<{ habits: HabitWithProgress[]; error: string | null }> {
-  if (!isSupabaseConfigured) {
-    return { habits: [], error: "Supabase not configured" };
-  }
-  
-  const today = getTodayDateLocal();
-
-  const { data: habits, error: habitsError } = await supabase
-    .from("habits")
-    .select("*")
-    .eq("user_id", userId)
-    .eq("is_archived", false)
-    .order("sort_order", { ascending: true });
+  const repository = getHabitRepository();
+  const today = getTodayDate();
 
+  const { habits, error: habitsError } = await repository.fetchHabits(userId);
   if (habitsError) {
-    return { habits: [], error: habitsError.message };
+    return { habits: [], error: habitsError };
   }
 
-  if (!habits || habits.length === 0) {
+  if (habits.length === 0) {
     return { habits: [], error: null };
   }
 
-  const habitIds = habits.map((h) => h.id);
-  const { data: todayLogs, error: logsError } = await supabase
-    .from("habit_logs")
-    .select("*")
-    .in("habit_id", habitIds)
-    .eq("date", today);
-
+  const { logs: todayLogs, error: logsError } = await repository.fetchHabitLogs(userId, { from: today, to: today });
   if (logsError) {
-    return { habits: [], error: logsError.message };
+    return { habits: [], error: logsError };
   }
 
   const logsByHabitId = new Map<string, DbHabitLog>();
-  (todayLogs || []).forEach((log) => {
+  todayLogs.forEach((log) => {
     logsByHabitId.set(log.habit_id, log);
   });
 
-  const habitsToCreateLogsFor: string[] = [];
-  habits.forEach((habit) => {
-    if (!logsByHabitId.has(habit.id)) {
-      habitsToCreateLogsFor.push(habit.id);
-    }
-  });
-
-  if (habitsToCreateLogsFor.length > 0) {
-    const newLogs = habitsToCreateLogsFor.map((habitId) => ({
-      habit_id: habitId,
-      user_id: userId,
-      date: today,
-      count: 0,
-    }));
-
-    const { data: insertedLogs, error: insertError } = await supabase
-      .from("habit_logs")
-      .upsert(newLogs, { onConflict: "habit_id,date" })
-      .select();
-
-    if (!insertError && insertedLogs) {
-      insertedLogs.forEach((log) => {
-        logsByHabitId.set(log.habit_id, log);
-      });
-    }
-  }
-
   const habitsWithProgress: HabitWithProgress[] = habits.map((habit) => {
     const log = logsByHabitId.get(habit.id);
     return {
@@ -118,73 +92,60 @@ export async function fetchHabitsWithTodayProgress(
   return { habits: habitsWithProgress, error: null };
 }
 
+// Atomic increment (increment_habit_log on Supabase), so concurrent taps or
+// devices can't lose units. The backend also appends the matching unit event;
+// passing the client event makes a retried call a no-op. The user comes from
+// the session; userId is kept for call-site symmetry.
 export async function addUnitsToHabit(
   habitId: string,
   userId: string,
   count: number,
-  date?: string
-): Promise<{ success: boolean; error: string | null }> {
-  if (!isSupabaseConfigured) {
-    return { success: false, error: "Supabase not configured" };
-  }
-  
-  const targetDate = date || getTodayDateLocal();
-
-  const { data: existingLog } = await supabase
-    .from("habit_logs")
-    .select("id, count")
-    .eq("habit_id", habitId)
-    .eq("date", targetDate)
-    .single();
-
-  if (existingLog) {
-    const { error } = await supabase
-      .from("habit_logs")
-      .update({
-        count: existingLog.count + count,
-        updated_at: new Date().toISOString(),
-      })
-      .eq("id", existingLog.id);
-
-    return { success: !error, error: error?.message ?? null };
-  } else {
-    const { error } = await supabase.from("habit_logs").insert({
-      habit_id: habitId,
-      user_id: userId,
-      date: targetDate,
-      count: count,
-    });
-
-    return { success: !error, error: error?.message ?? null };
-  }
+  date?: string,
+  event?: UnitEvent
+): Promise<{ success: boolean; newCount: number | null; error: string | null }> {
+  const { newCount, error } = await getHabitRepository().incrementHabitLog(habitId, date || getTodayDate(), count, event);
+  return { success: !error, newCount, error };
 }
 
+// Absolute write for removals and edits; the server records the actual delta as a unit event
 export async function setUnitsForHabit(
   habitId: string,
   userId: string,
   count: number,
-  date?: string
-): Promise<{ success: boolean; error: string | null }> {
-  if (!isSupabaseConfigured) {
-    return { success: false, error: "Supabase not configured" };
+  date?: string,
+  event?: UnitEvent
+): Promise<{ success: boolean; newCount: number | null; error: string | null }> {
+  const { newCount, error } = await getHabitRepository().setHabitLogCount(habitId, date || getTodayDate(), count, event);
+  return { success: !error, newCount, error };
+}
+
+// Entries per import call, to keep each request body small
+const IMPORT_BATCH_SIZE = 500;
+
+// Batch counterpart of addUnitsToHabit for imports: applies unit additions in
+// chunks (import_habit_logs on Supabase). Events keep their client ids, so
+// running the same import again after a partial failure skips what already landed.
+export async function importUnitEvents(
+  events: UnitEvent[]
+): Promise<{ success: boolean; imported: number; error: string | null }> {
+  let imported = 0;
+  for (let start = 0; start < events.length; start += IMPORT_BATCH_SIZE) {
+    const batch = events.slice(start, start + IMPORT_BATCH_SIZE);
+    const result = await getHabitRepository().importUnitEvents(batch);
+    if (result.error) {
+      return { success: false, imported, error: result.error };
+    }
+    imported += result.imported;
   }
-  
-  const targetDate = date || getTodayDateLocal();
 
-  const { error } = await supabase
-    .from("habit_logs")
-    .upsert(
-      {
-        habit_id: habitId,
-        user_id: userId,
-        date: targetDate,
-        count: Math.max(0, count),
-        updated_at: new Date().toISOString(),
-      },
-      { onConflict: "habit_id,date" }
-    );
+  return { success: true, imported, error: null };
+}
 
-  return { success: !error, error: error?.message ?? null };
+export async function fetchUnitEvents(
+  userId: string,
+  filter: RowFilter = {}
+): Promise<{ events: DbUnitEvent[]; error: string | null }> {
+  return getHabitRepository().fetchUnitEvents(userId, filter);
 }
 
 export async function fetchHabitLogsForDateRange(
@@ -192,114 +153,85 @@ export async function fetchHabitLogsForDateRange(
   startDate: string,
   endDate: string
 ): Promise<{ logs: DbHabitLog[]; error: string | null }> {
-  if (!isSupabaseConfigured) {
-    return { logs: [], error: "Supabase not configured" };
-  }
-  
-  const { data, error } = await supabase
-    .from("habit_logs")
-    .select("*")
-    .eq("user_id", userId)
-    .gte("date", startDate)
-    .lte("date", endDate)
-    .order("date", { ascending: false });
-
-  return { logs: data || [], error: error?.message ?? null };
+  return getHabitRepository().fetchHabitLogs(userId, { from: startDate, to: endDate });
 }
 
-export async function fetchAllHabitLogs(
-  userId: string
+// Sync narrows this to a window of dates or to rows changed since its cursor;
+// with no filter it returns the user's whole history
+export async function fetchHabitLogs(
+  userId: string,
+  filter: RowFilter = {}
 ): Promise<{ logs: DbHabitLog[]; error: string | null }> {
-  if (!isSupabaseConfigured) {
-    return { logs: [], error: "Supabase not configured" };
-  }
-  
-  const { data, error } = await supabase
-    .from("habit_logs")
-    .select("*")
-    .eq("user_id", userId)
-    .order("date", { ascending: false });
+  return getHabitRepository().fetchHabitLogs(userId, filter);
+}
 
-  return { logs: data || [], error: error?.message ?? null };
+// Oldest day with habit logs up to and including `to`. Daily totals come back
+// oldest first, so the first row is right even when the backend caps the rows.
+export async function fetchFirstLogDate(
+  userId: string,
+  to: string
+): Promise<{ date: string | null; error: string | null }> {
+  const { totals, error } = await getHabitRepository().fetchDailyTotals(userId, { to });
+  return { date: totals[0]?.date ?? null, error };
 }
 
+// includeArchived returns deleted habits too, so sync can see archive tombstones
 export async function fetchAllHabits(
-  userId: string
+  userId: string,
+  options: ListOptions = {}
 ): Promise<{ habits: DbHabit[]; error: string | null }> {
-  if (!isSupabaseConfigured) {
-    return { habits: [], error: "Supabase not configured" };
-  }
-  
-  const { data, error } = await supabase
-    .from("habits")
-    .select("*")
-    .eq("user_id", userId)
-    .eq("is_archived", false)
-    .order("sort_order", { ascending: true });
-
-  return { habits: data || [], error: error?.message ?? null };
+  return getHabitRepository().fetchHabits(userId, options);
 }
 
+// Upserts on id so a replayed offline create is idempotent
 export async function createHabit(
   userId: string,
-  habit: {
-    name: string;
-    icon: string;
-    color: string;
-    unit_name: string;
-    daily_goal: number;
-    tap_increment: number;
-    habit_type: "count" | "time";
-  }
+  habit: HabitInput
 ): Promise<{ habit: DbHabit | null; error: string | null }> {
-  if (!isSupabaseConfigured) {
-    return { habit: null, error: "Supabase not configured" };
+  const { habits, error } = await getHabitRepository().upsertHabits(userId, [habit]);
+  return { habit: habits[0] ?? null, error };
+}
+
+// Creates several habits in one request (used by import). Upserts on id like createHabit.
+export async function createHabitsBatch(
+  userId: string,
+  habits: Habit[]
+): Promise<{ success: boolean; error: string | null }> {
+  if (habits.length === 0) {
+    return { success: true, error: null };
   }
-  
-  const { data, error } = await supabase
-    .from("habits")
-    .insert({
-      user_id: userId,
-      ...habit,
-    })
-    .select()
-    .single();
 
-  return { habit: data, error: error?.message ?? null };
+  const { error } = await getHabitRepository().upsertHabits(
+    userId,
+    habits.map((habit) => ({
+      id: habit.id,
+      name: habit.name,
+      icon: habit.icon,
+      color: habit.color,
+      unit_name: habit.unitName,
+      daily_goal: habit.dailyGoal,
+      goal_period: habit.goalPeriod ?? "day",
+      schedule: habit.schedule ?? null,
+      reminder_times: habit.reminderTimes ?? [],
+      tap_increment: habit.tapIncrement,
+      habit_type: habit.habitType,
+    }))
+  );
+
+  return { success: !error, error };
 }
 
 export async function updateHabit(
   habitId: string,
   updates: Partial<DbHabit>
 ): Promise<{ success: boolean; error: string | null }> {
-  if (!isSupabaseConfigured) {
-    return { success: false, error: "Supabase not configured" };
-  }
-  
-  const { error } = await supabase
-    .from("habits")
-    .update({
-      ...updates,
-      updated_at: new Date().toISOString(),
-    })
-    .eq("id", habitId);
-
-  return { success: !error, error: error?.message ?? null };
+  return getHabitRepository().updateHabit(habitId, updates);
 }
 
 export async function deleteHabit(
   habitId: string
 ): Promise<{ success: boolean; error: string | null }> {
-  if (!isSupabaseConfigured) {
-    return { success: false, error: "Supabase not configured" };
-  }
-  
-  const { error } = await supabase
-    .from("habits")
-    .update({ is_archived: true, updated_at: new Date().toISOString() })
-    .eq("id", habitId);
-
-  return { success: !error, error: error?.message ?? null };
+  return getHabitRepository().updateHabit(habitId, { is_archived: true });
 }
 
 // Bad Habits
@@ -326,37 +258,23 @@ export interface DbBadHabitLog {
 
 export async function createBadHabit(
   userId: string,
-  name: string
+  name: string,
+  id?: string
 ): Promise<{ badHabit: DbBadHabit | null; error: string | null }> {
-  if (!isSupabaseConfigured) {
-    return { badHabit: null, error: "Supabase not configured" };
-  }
-  
-  const { data, error } = await supabase
-    .from("bad_habits")
-    .insert({
-      user_id: userId,
-      name,
-    })
-    .select()
-    .single();
-
-  return { badHabit: data, error: error?.message ?? null };
+  // Upserts on id so a replayed offline create is idempotent
+  return getHabitRepository().upsertBadHabit(userId, { id, name });
 }
 
 export async function deleteBadHabit(
   badHabitId: string
 ): Promise<{ success: boolean; error: string | null }> {
-  if (!isSupabaseConfigured) {
-    return { success: false, error: "Supabase not configured" };
-  }
-  
-  const { error } = await supabase
-    .from("bad_habits")
-    .update({ is_archived: true, updated_at: new Date().toISOString() })
-    .eq("id", badHabitId);
+  return getHabitRepository().updateBadHabit(badHabitId, { is_archived: true });
+}
 
-  return { success: !error, error: error?.message ?? null };
+export async function restoreBadHabit(
+  badHabitId: string
+): Promise<{ success: boolean; error: string | null }> {
+  return getHabitRepository().updateBadHabit(badHabitId, { is_archived: false });
 }
 
 export async function createBadHabitLog(
@@ -365,77 +283,58 @@ export async function createBadHabitLog(
   date: string,
   penaltyUnits: number
 ): Promise<{ log: DbBadHabitLog | null; error: string | null }> {
-  if (!isSupabaseConfigured) {
-    return { log: null, error: "Supabase not configured" };
-  }
-  
-  // Use upsert to handle case where log exists but was undone
-  // If a log exists for this bad_habit_id + date, update it instead of inserting
-  const { data, error } = await supabase
-    .from("bad_habit_logs")
-    .upsert({
-      bad_habit_id: badHabitId,
-      user_id: userId,
-      date,
-      count: 1,
-      penalty_units: penaltyUnits,
-      is_undone: false,
-      updated_at: new Date().toISOString(),
-    }, {
-      onConflict: 'bad_habit_id,date',
-    })
-    .select()
-    .single();
-
-  return { log: data, error: error?.message ?? null };
+  // Upsert on (bad_habit_id, date) so a log that was undone is reused
+  return getHabitRepository().upsertBadHabitLog(userId, {
+    bad_habit_id: badHabitId,
+    date,
+    count: 1,
+    penalty_units: penaltyUnits,
+    is_undone: false,
+  });
 }
 
 export async function undoBadHabitLog(
   logId: string
 ): Promise<{ success: boolean; error: string | null }> {
-  if (!isSupabaseConfigured) {
-    return { success: false, error: "Supabase not configured" };
-  }
-  
-  const { error } = await supabase
-    .from("bad_habit_logs")
-    .update({ is_undone: true, updated_at: new Date().toISOString() })
-    .eq("id", logId);
+  return getHabitRepository().undoBadHabitLog({ logId });
+}
 
-  return { success: !error, error: error?.message ?? null };
+// Undo keyed by (bad_habit_id, date) so it works for taps whose server id is not known yet
+export async function undoBadHabitLogForDate(
+  badHabitId: string,
+  date: string
+): Promise<{ success: boolean; error: string | null }> {
+  return getHabitRepository().undoBadHabitLog({ badHabitId, date });
 }
 
 export async function fetchBadHabits(
-  userId: string
+  userId: string,
+  options: ListOptions = {}
 ): Promise<{ badHabits: DbBadHabit[]; error: string | null }> {
-  if (!isSupabaseConfigured) {
-    return { badHabits: [], error: "Supabase not configured" };
-  }
-  
-  const { data, error } = await supabase
-    .from("bad_habits")
-    .select("*")
-    .eq("user_id", userId)
-    .eq("is_archived", false)
-    .order("created_at", { ascending: true });
-
-  return { badHabits: data || [], error: error?.message ?? null };
+  return getHabitRepository().fetchBadHabits(userId, options);
 }
 
 export async function fetchBadHabitLogs(
-  userId: string
+  userId: string,
+  filter: RowFilter = {}
 ): Promise<{ logs: DbBadHabitLog[]; error: string | null }> {
-  if (!isSupabaseConfigured) {
-    return { logs: [], error: "Supabase not configured" };
-  }
-  
-  const { data, error } = await supabase
-    .from("bad_habit_logs")
-    .select("*")
-    .eq("user_id", userId)
-    .order("created_at", { ascending: false });
+  return getHabitRepository().fetchBadHabitLogs(userId, filter);
+}
 
-  return { logs: data || [], error: error?.message ?? null };
+// Live changes to the user's rows from any device; returns the unsubscribe function
+export function subscribeToRemoteChanges(
+  userId: string,
+  onChange: (change: RemoteChange) => void,
+  onStatus?: (status: RemoteChangeStatus) => void
+): () => void {
+  return getHabitRepository().subscribeToChanges(userId, onChange, onStatus);
+}
+
+// Permanently deletes the account, including the sign-in, and all of its data
+export async function deleteAccount(
+  userId: string
+): Promise<{ receipt: AccountDeletionReceipt | null; notFound: boolean; error: string | null }> {
+  return getHabitRepository().deleteAccount(userId);
 }
 
 export interface DailyStats {
@@ -445,40 +344,22 @@ export interface DailyStats {
   sevenDayAverage: number;
 }
 
+// The backend sums logs per day, so this downloads one row per day rather than every log
 export async function fetchDailyStats(userId: string): Promise<{ stats: DailyStats; error: string | null }> {
-  if (!isSupabaseConfigured) {
-    return { stats: { todayTotal: 0, bestDayTotal: 0, bestDayDate: null, sevenDayAverage: 0 }, error: "Supabase not configured" };
-  }
-  
-  const today = getTodayDateLocal();
-  
-  const { data: todayLogs, error: todayError } = await supabase
-    .from("habit_logs")
-    .select("count")
-    .eq("user_id", userId)
-    .eq("date", today);
-
-  if (todayError) {
-    return { stats: { todayTotal: 0, bestDayTotal: 0, bestDayDate: null, sevenDayAverage: 0 }, error: todayError.message };
-  }
-
-  const todayTotal = (todayLogs || []).reduce((sum, log) => sum + (log.count || 0), 0);
-
-  const { data: allLogs, error: allError } = await supabase
-    .from("habit_logs")
-    .select("date, count")
-    .eq("user_id", userId);
+  const today = getTodayDate();
 
-  if (allError) {
-    return { stats: { todayTotal, bestDayTotal: 0, bestDayDate: null, sevenDayAverage: 0 }, error: allError.message };
+  const { totals, error } = await getHabitRepository().fetchDailyTotals(userId);
+  if (error) {
+    return { stats: { todayTotal: 0, bestDayTotal: 0, bestDayDate: null, sevenDayAverage: 0 }, error };
   }
 
   const dailyTotals = new Map<string, number>();
-  (allLogs || []).forEach((log) => {
-    const current = dailyTotals.get(log.date) || 0;
-    dailyTotals.set(log.date, current + (log.count || 0));
+  totals.forEach(({ date, total }) => {
+    dailyTotals.set(date, total);
   });
 
+  const todayTotal = dailyTotals.get(today) || 0;
+
   let bestDayTotal = 0;
   let bestDayDate: string | null = null;
   dailyTotals.forEach((total, date) => {
@@ -488,15 +369,9 @@ export async function fetchDailyStats(userId: string): Promise<{ stats: DailySta
     }
   });
 
-  const now = new Date();
-  const sevenDaysAgo = new Date(now.getFullYear(), now.getMonth(), now.getDate() - 6);
   const sevenDayDates: string[] = [];
-  for (let i = 0; i < 7; i++) {
-    const d = new Date(sevenDaysAgo.getFullYear(), sevenDaysAgo.getMonth(), sevenDaysAgo.getDate() + i);
-    const year = d.getFullYear();
-    const month = String(d.getMonth() + 1).padStart(2, "0");
-    const day = String(d.getDate()).padStart(2, "0");
-    sevenDayDates.push(`${year}-${month}-${day}`);
+  for (let i = 6; i >= 0; i--) {
+    sevenDayDates.push(addDays(today, -i));
   }
 
   let sevenDaySum = 0;
@@ -514,3 +389,90 @@ export async function fetchDailyStats(userId: string): Promise<{ stats: DailySta
     error: null,
   };
 }
+
+// Outbox replay
+function habitUpdatesToDb(updates: Partial<Habit>): Partial<DbHabit> {
+  const dbUpdates: Partial<DbHabit> = {};
+  if (updates.name !== undefined) dbUpdates.name = updates.name;
+  if (updates.icon !== undefined) dbUpdates.icon = updates.icon;
+  if (updates.color !== undefined) dbUpdates.color = updates.color;
+  if (updates.unitName !== undefined) dbUpdates.unit_name = updates.unitName;
+  if (updates.dailyGoal !== undefined) dbUpdates.daily_goal = updates.dailyGoal;
+  if (updates.goalPeriod !== undefined) dbUpdates.goal_period = updates.goalPeriod;
+  if (updates.schedule !== undefined) dbUpdates.schedule = updates.schedule;
+  if (updates.reminderTimes !== undefined) dbUpdates.reminder_times = updates.reminderTimes;
+  if (updates.tapIncrement !== undefined) dbUpdates.tap_increment = updates.tapIncrement;
+  if (updates.habitType !== undefined) dbUpdates.habit_type = updates.habitType;
+  if (updates.isArchived !== undefined) dbUpdates.is_archived = updates.isArchived;
+  return dbUpdates;
+}
+
+export function isNetworkError(error: string): boolean {
+  const message = error.toLowerCase();
+  return (
+    message.includes("network request failed") ||
+    message.includes("failed to fetch") ||
+    message.includes("fetch failed") ||
+    message.includes("network error") ||
+    message.includes("timed out")
+  );
+}
+
+// newCount is the server's count for the day after an add_units replay, so the
+// caller can reconcile its optimistic log with what actually landed.
+export async function replayPendingMutation(
+  userId: string,
+  mutation: PendingMutation
+): Promise<{ success: boolean; error: string | null; newCount?: number | null }> {
+  try {
+    switch (mutation.type) {
+      case "create_habit": {
+        const { habit } = mutation;
+        const { error } = await createHabit(userId, {
+          id: habit.id,
+          name: habit.name,
+          icon: habit.icon,
+          color: habit.color,
+          unit_name: habit.unitName,
+          daily_goal: habit.dailyGoal,
+          goal_period: habit.goalPeriod ?? "day",
+          schedule: habit.schedule ?? null,
+          reminder_times: habit.reminderTimes ?? [],
+          tap_increment: habit.tapIncrement,
+          habit_type: habit.habitType,
+        });
+        return { success: !error, error };
+      }
+      case "update_habit": {
+        const dbUpdates = habitUpdatesToDb(mutation.updates);
+        if (Object.keys(dbUpdates).length === 0) {
+          return { success: true, error: null };
+        }
+        return updateHabit(mutation.habitId, dbUpdates);
+      }
+      case "delete_habit":
+        return deleteHabit(mutation.habitId);
+      case "add_units":
+        return addUnitsToHabit(mutation.habitId, userId, mutation.count, mutation.date, mutation.event);
+      case "set_units":
+        return setUnitsForHabit(mutation.habitId, userId, mutation.count, mutation.date, mutation.event);
+      case "create_bad_habit": {
+        const { error } = await createBadHabit(userId, mutation.badHabit.name, mutation.badHabit.id);
+        return { success: !error, error };
+      }
+      case "delete_bad_habit":
+        return deleteBadHabit(mutation.badHabitId);
+      case "restore_bad_habit":
+        return restoreBadHabit(mutation.badHabitId);
+      case "tap_bad_habit": {
+        const { error } = await createBadHabitLog(userId, mutation.badHabitId, mutation.date, mutation.penaltyUnits);
+        return { success: !error, error };
+      }
+      case "undo_bad_habit_tap":
+        return undoBadHabitLogForDate(mutation.badHabitId, mutation.date);
+    }
+  } catch (error) {
+    // Backends (supabase-js, fetch) can surface network failures as thrown errors
+    return { success: false, error: error instanceof Error ? error.message : String(error) };
+  }
+}
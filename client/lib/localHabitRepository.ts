@@ -0,0 +1,490 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import { generateUuid } from "@/lib/storage";
+import type { HabitRepository, RowFilter } from "@/lib/habitRepository";
+import type {
+  DbBadHabit,
+  DbBadHabitLog,
+  DbHabit,
+  DbHabitLog,
+  DbUnitEvent,
+} from "@/lib/habitService";
+
+// HabitRepository that keeps the "server" tables on the device, in one
+// AsyncStorage entry, for development and tests without a backend. It follows
+// the Supabase semantics (upserts on id, per-event idempotency, counts floored
+// at 0) so sync behaves the same as against a real server. The entry is
+// separate from the app's own store and survives clearAllData, like a server
+// would survive reinstalling the app.
+
+const STORAGE_KEY = "@units/local_backend";
+
+interface LocalTables {
+  habits: DbHabit[];
+  habitLogs: DbHabitLog[];
+  unitEvents: DbUnitEvent[];
+  badHabits: DbBadHabit[];
+  badHabitLogs: DbBadHabitLog[];
+}
+
+function emptyTables(): LocalTables {
+  return {
+    habits: [],
+    habitLogs: [],
+    unitEvents: [],
+    badHabits: [],
+    badHabitLogs: [],
+  };
+}
+
+async function load(): Promise<LocalTables> {
+  const data = await AsyncStorage.getItem(STORAGE_KEY);
+  return data ? { ...emptyTables(), ...JSON.parse(data) } : emptyTables();
+}
+
+// Writes run one at a time so concurrent read-modify-write cycles can't drop
+// each other's changes
+let writeQueue: Promise<unknown> = Promise.resolve();
+
+function write<T>(mutate: (tables: LocalTables, now: string) => T): Promise<T> {
+  const result = writeQueue.then(async () => {
+    const tables = await load();
+    const value = mutate(tables, new Date().toISOString());
+    await AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(tables));
+    return value;
+  });
+  writeQueue = result.catch(() => undefined);
+  return result;
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+function findHabit(tables: LocalTables, habitId: string): DbHabit {
+  const habit = tables.habits.find((h) => h.id === habitId);
+  if (!habit) throw new Error("Habit not found");
+  return habit;
+}
+
+function getDayLog(
+  tables: LocalTables,
+  habit: DbHabit,
+  date: string,
+  now: string,
+): DbHabitLog {
+  let log = tables.habitLogs.find(
+    (l) => l.habit_id === habit.id && l.date === date,
+  );
+  if (!log) {
+    log = {
+      id: generateUuid(),
+      habit_id: habit.id,
+      user_id: habit.user_id,
+      date,
+      count: 0,
+      created_at: now,
+      updated_at: now,
+    };
+    tables.habitLogs.push(log);
+  }
+  return log;
+}
+
+function hasEvent(tables: LocalTables, eventId: string | undefined): boolean {
+  return !!eventId && tables.unitEvents.some((e) => e.id === eventId);
+}
+
+// `written` is the row's updated_at, or created_at for unit events
+function matchesFilter(
+  row: { date: string },
+  written: string,
+  filter: RowFilter,
+): boolean {
+  return (
+    (!filter.from || row.date >= filter.from) &&
+    (!filter.to || row.date <= filter.to) &&
+    (!filter.updatedSince || written >= filter.updatedSince)
+  );
+}
+
+export const localHabitRepository: HabitRepository = {
+  kind: "local",
+
+  async fetchHabits(userId, options = {}) {
+    try {
+      const { habits } = await load();
+      return {
+        habits: habits
+          .filter(
+            (h) =>
+              h.user_id === userId &&
+              (options.includeArchived || !h.is_archived) &&
+              (!options.updatedSince || h.updated_at >= options.updatedSince),
+          )
+          .sort((a, b) => a.sort_order - b.sort_order),
+        error: null,
+      };
+    } catch (error) {
+      return { habits: [], error: errorMessage(error) };
+    }
+  },
+
+  async upsertHabits(userId, habits) {
+    try {
+      const saved = await write((tables, now) =>
+        habits.map((input) => {
+          const existing = input.id
+            ? tables.habits.find((h) => h.id === input.id)
+            : undefined;
+          if (existing) {
+            if (existing.user_id !== userId) {
+              throw new Error("Habit belongs to another user");
+            }
+            Object.assign(existing, input, { updated_at: now });
+            return existing;
+          }
+          const habit: DbHabit = {
+            goal_period: "day",
+            schedule: null,
+            reminder_times: [],
+            is_archived: false,
+            sort_order: 0,
+            ...input,
+            id: input.id ?? generateUuid(),
+            user_id: userId,
+            created_at: now,
+            updated_at: now,
+          };
+          tables.habits.push(habit);
+          return habit;
+        }),
+      );
+      return { habits: saved, error: null };
+    } catch (error) {
+      return { habits: [], error: errorMessage(error) };
+    }
+  },
+
+  async updateHabit(habitId, updates) {
+    try {
+      await write((tables, now) => {
+        const habit = tables.habits.find((h) => h.id === habitId);
+        if (habit) Object.assign(habit, updates, { updated_at: now });
+      });
+      return { success: true, error: null };
+    } catch (error) {
+      return { success: false, error: errorMessage(error) };
+    }
+  },
+
+  async fetchHabitLogs(userId, filter = {}) {
+    try {
+      const { habitLogs } = await load();
+      return {
+        logs: habitLogs
+          .filter(
+            (l) =>
+              l.user_id === userId && matchesFilter(l, l.updated_at, filter),
+          )
+          .sort((a, b) => b.date.localeCompare(a.date)),
+        error: null,
+      };
+    } catch (error) {
+      return { logs: [], error: errorMessage(error) };
+    }
+  },
+
+  async fetchDailyTotals(userId, range = {}) {
+    try {
+      const { habitLogs } = await load();
+      const totals = new Map<string, number>();
+      for (const log of habitLogs) {
+        if (log.user_id !== userId) continue;
+        if (range.from && log.date < range.from) continue;
+        if (range.to && log.date > range.to) continue;
+        totals.set(log.date, (totals.get(log.date) ?? 0) + log.count);
+      }
+      return {
+        totals: Array.from(totals, ([date, total]) => ({ date, total })).sort(
+          (a, b) => a.date.localeCompare(b.date),
+        ),
+        error: null,
+      };
+    } catch (error) {
+      return { totals: [], error: errorMessage(error) };
+    }
+  },
+
+  async fetchUnitEvents(userId, filter = {}) {
+    try {
+      const { unitEvents } = await load();
+      return {
+        events: unitEvents
+          .filter(
+            (e) =>
+              e.user_id === userId && matchesFilter(e, e.created_at, filter),
+          )
+          .sort((a, b) => a.occurred_at.localeCompare(b.occurred_at)),
+        error: null,
+      };
+    } catch (error) {
+      return { events: [], error: errorMessage(error) };
+    }
+  },
+
+  async incrementHabitLog(habitId, date, delta, event) {
+    try {
+      const newCount = await write((tables, now) => {
+        const habit = findHabit(tables, habitId);
+        const log = getDayLog(tables, habit, date, now);
+        if (hasEvent(tables, event?.id)) return log.count;
+
+        const oldCount = log.count;
+        log.count = Math.max(log.count + delta, 0);
+        log.updated_at = now;
+        // Floored at 0, so record the change actually applied
+        if (log.count !== oldCount) {
+          tables.unitEvents.push({
+            id: event?.id ?? generateUuid(),
+            habit_id: habitId,
+            user_id: habit.user_id,
+            date,
+            delta: log.count - oldCount,
+            source: event?.source ?? "tap",
+            occurred_at: event?.timestamp ?? now,
+            created_at: now,
+          });
+        }
+        return log.count;
+      });
+      return { newCount, error: null };
+    } catch (error) {
+      return { newCount: null, error: errorMessage(error) };
+    }
+  },
+
+  async setHabitLogCount(habitId, date, count, event) {
+    try {
+      const newCount = await write((tables, now) => {
+        const habit = findHabit(tables, habitId);
+        const log = getDayLog(tables, habit, date, now);
+        if (hasEvent(tables, event?.id)) return log.count;
+
+        const oldCount = log.count;
+        log.count = Math.max(0, count);
+        log.updated_at = now;
+        if (log.count !== oldCount) {
+          tables.unitEvents.push({
+            id: event?.id ?? generateUuid(),
+            habit_id: habitId,
+            user_id: habit.user_id,
+            date,
+            delta: log.count - oldCount,
+            source: event?.source ?? "edit",
+            occurred_at: event?.timestamp ?? now,
+            created_at: now,
+          });
+        }
+        return log.count;
+      });
+      return { newCount, error: null };
+    } catch (error) {
+      return { newCount: null, error: errorMessage(error) };
+    }
+  },
+
+  async importUnitEvents(events) {
+    try {
+      const imported = await write((tables, now) => {
+        // Like import_habit_logs, reject the whole batch for an unknown habit
+        const habits = events.map((event) => findHabit(tables, event.habitId));
+
+        let applied = 0;
+        events.forEach((event, index) => {
+          if (event.delta <= 0 || hasEvent(tables, event.id)) return;
+          const habit = habits[index];
+          const log = getDayLog(tables, habit, event.date, now);
+          log.count += event.delta;
+          log.updated_at = now;
+          tables.unitEvents.push({
+            id: event.id,
+            habit_id: habit.id,
+            user_id: habit.user_id,
+            date: event.date,
+            delta: event.delta,
+            source: "import",
+            occurred_at: event.timestamp,
+            created_at: now,
+          });
+          applied++;
+        });
+        return applied;
+      });
+      return { imported, error: null };
+    } catch (error) {
+      return { imported: 0, error: errorMessage(error) };
+    }
+  },
+
+  async fetchBadHabits(userId, options = {}) {
+    try {
+      const { badHabits } = await load();
+      return {
+        badHabits: badHabits
+          .filter(
+            (b) =>
+              b.user_id === userId &&
+              (options.includeArchived || !b.is_archived) &&
+              (!options.updatedSince || b.updated_at >= options.updatedSince),
+          )
+          .sort((a, b) => a.created_at.localeCompare(b.created_at)),
+        error: null,
+      };
+    } catch (error) {
+      return { badHabits: [], error: errorMessage(error) };
+    }
+  },
+
+  async upsertBadHabit(userId, input) {
+    try {
+      const badHabit = await write((tables, now) => {
+        const existing = input.id
+          ? tables.badHabits.find((b) => b.id === input.id)
+          : undefined;
+        if (existing) {
+          if (existing.user_id !== userId) {
+            throw new Error("Bad habit belongs to another user");
+          }
+          existing.name = input.name;
+          existing.updated_at = now;
+          return existing;
+        }
+        const created: DbBadHabit = {
+          id: input.id ?? generateUuid(),
+          user_id: userId,
+          name: input.name,
+          is_archived: false,
+          created_at: now,
+          updated_at: now,
+        };
+        tables.badHabits.push(created);
+        return created;
+      });
+      return { badHabit, error: null };
+    } catch (error) {
+      return { badHabit: null, error: errorMessage(error) };
+    }
+  },
+
+  async updateBadHabit(badHabitId, updates) {
+    try {
+      await write((tables, now) => {
+        const badHabit = tables.badHabits.find((b) => b.id === badHabitId);
+        if (badHabit) Object.assign(badHabit, updates, { updated_at: now });
+      });
+      return { success: true, error: null };
+    } catch (error) {
+      return { success: false, error: errorMessage(error) };
+    }
+  },
+
+  async fetchBadHabitLogs(userId, filter = {}) {
+    try {
+      const { badHabitLogs } = await load();
+      return {
+        logs: badHabitLogs
+          .filter(
+            (l) =>
+              l.user_id === userId && matchesFilter(l, l.updated_at, filter),
+          )
+          .sort((a, b) => b.created_at.localeCompare(a.created_at)),
+        error: null,
+      };
+    } catch (error) {
+      return { logs: [], error: errorMessage(error) };
+    }
+  },
+
+  async upsertBadHabitLog(userId, input) {
+    try {
+      const log = await write((tables, now) => {
+        const badHabit = tables.badHabits.find(
+          (b) => b.id === input.bad_habit_id && b.user_id === userId,
+        );
+        if (!badHabit) throw new Error("Bad habit not found");
+
+        const existing = tables.badHabitLogs.find(
+          (l) => l.bad_habit_id === input.bad_habit_id && l.date === input.date,
+        );
+        if (existing) {
+          Object.assign(existing, input, { updated_at: now });
+          return existing;
+        }
+        const created: DbBadHabitLog = {
+          ...input,
+          id: generateUuid(),
+          user_id: userId,
+          created_at: now,
+          updated_at: now,
+        };
+        tables.badHabitLogs.push(created);
+        return created;
+      });
+      return { log, error: null };
+    } catch (error) {
+      return { log: null, error: errorMessage(error) };
+    }
+  },
+
+  async undoBadHabitLog(target) {
+    try {
+      await write((tables, now) => {
+        tables.badHabitLogs.forEach((log) => {
+          const matches =
+            "logId" in target
+              ? log.id === target.logId
+              : log.bad_habit_id === target.badHabitId &&
+                log.date === target.date;
+          if (matches) {
+            log.is_undone = true;
+            log.updated_at = now;
+          }
+        });
+      });
+      return { success: true, error: null };
+    } catch (error) {
+      return { success: false, error: errorMessage(error) };
+    }
+  },
+
+  // Only this device writes the local store, so there is nothing to stream
+  subscribeToChanges() {
+    return () => {};
+  },
+
+  async deleteAccount(userId) {
+    try {
+      const receipt = await write((tables, now) => {
+        const deleted: Record<string, number> = {};
+        const remove = <K extends keyof LocalTables>(
+          table: K,
+          name: string,
+        ) => {
+          const rows = tables[table] as { user_id: string }[];
+          const kept = rows.filter((row) => row.user_id !== userId);
+          deleted[name] = rows.length - kept.length;
+          tables[table] = kept as LocalTables[K];
+        };
+        remove("unitEvents", "unit_events");
+        remove("habitLogs", "habit_logs");
+        remove("habits", "habits");
+        remove("badHabitLogs", "bad_habit_logs");
+        remove("badHabits", "bad_habits");
+        return { receiptId: generateUuid(), userId, deletedAt: now, deleted };
+      });
+      return { receipt, notFound: false, error: null };
+    } catch (error) {
+      return { receipt: null, notFound: false, error: errorMessage(error) };
+    }
+  },
+};
@@ -0,0 +1,199 @@
+import { Platform } from "react-native";
+import * as Notifications from "expo-notifications";
+import * as TaskManager from "expo-task-manager";
+import {
+  UnitEvent,
+  generateUuid,
+  getHabits,
+  getSettings,
+  getUserDataOwner,
+  getPendingMutations,
+  enqueuePendingMutation,
+  appendNotificationUnitLog,
+} from "@/lib/storage";
+import { supabase } from "@/lib/supabase";
+import { addUnitsToHabit } from "@/lib/habitService";
+import {
+  getTodayDate,
+  setDayStartHour,
+  setHomeTimeZone,
+  setTravelMode,
+} from "@/lib/dates";
+
+// ============================================================================
+// NOTIFICATION ACTIONS
+// ============================================================================
+// Reminder and check-in notifications carry "+1" / "+tapIncrement" buttons that
+// log units without opening the app. The press can arrive with no React tree
+// mounted (Android runs a headless task; iOS launches the JS bundle in the
+// background), so the handler works from storage alone:
+//   1. authenticate with the Supabase session persisted in AsyncStorage
+//   2. write through addUnitsToHabit, or the outbox if earlier writes are queued
+//   3. leave a NotificationUnitLog for UnitsProvider to fold into its state
+// ============================================================================
+
+const BACKGROUND_TASK_NAME = "habit-notification-actions";
+const CATEGORY_PREFIX = "log-units-";
+const ACTION_PREFIX = "add-";
+
+const isSupported = Platform.OS !== "web";
+
+// ============================================================================
+// CATEGORIES
+// ============================================================================
+
+const registeredCategories = new Set<string>();
+
+// One category per tap increment, since button titles are fixed per category.
+// Returns the category id to put on a notification for a habit with this increment.
+export async function ensureLogUnitsCategory(
+  increment: number,
+): Promise<string> {
+  const categoryId = `${CATEGORY_PREFIX}${increment}`;
+  if (!isSupported || registeredCategories.has(categoryId)) return categoryId;
+
+  const amounts = increment > 1 ? [1, increment] : [1];
+  await Notifications.setNotificationCategoryAsync(
+    categoryId,
+    amounts.map((amount) => ({
+      identifier: `${ACTION_PREFIX}${amount}`,
+      buttonTitle: `+${amount}`,
+      options: { opensAppToForeground: false },
+    })),
+  );
+  registeredCategories.add(categoryId);
+  return categoryId;
+}
+
+// ============================================================================
+// LISTENERS
+// ============================================================================
+
+type UnitsLoggedListener = () => void;
+const unitsLoggedListeners = new Set<UnitsLoggedListener>();
+
+// Lets a mounted UnitsProvider pick up an action pressed while it is running
+export function addNotificationUnitsLoggedListener(
+  listener: UnitsLoggedListener,
+): () => void {
+  unitsLoggedListeners.add(listener);
+  return () => {
+    unitsLoggedListeners.delete(listener);
+  };
+}
+
+// Android can deliver the same press to both the task and the listener
+const handledResponses = new Set<string>();
+
+async function handleNotificationAction(
+  response: Notifications.NotificationResponse,
+): Promise<void> {
+  const { actionIdentifier, notification } = response;
+  if (!actionIdentifier.startsWith(ACTION_PREFIX)) return;
+
+  const responseKey = `${notification.request.identifier}:${actionIdentifier}`;
+  if (handledResponses.has(responseKey)) return;
+  handledResponses.add(responseKey);
+
+  const habitId = notification.request.content.data?.habitId;
+  const count = Number(actionIdentifier.slice(ACTION_PREFIX.length));
+  if (typeof habitId !== "string" || !(count > 0)) return;
+
+  try {
+    const {
+      data: { session },
+    } = await supabase.auth.getSession();
+    const userId = session?.user.id;
+    // Only write into the local store if it belongs to the signed-in user
+    if (!userId || (await getUserDataOwner()) !== userId) {
+      console.log("[Notifications] Action ignored - no matching session");
+      return;
+    }
+
+    const habit = (await getHabits()).find((h) => h.id === habitId);
+    if (!habit || habit.isArchived) return;
+
+    // Bucket the day the same way the app would
+    const settings = await getSettings();
+    setDayStartHour(settings.dayStartHour ?? 0);
+    setHomeTimeZone(settings.homeTimeZone ?? null);
+    setTravelMode(settings.travelMode ?? false);
+    const date = getTodayDate();
+
+    const event: UnitEvent = {
+      id: generateUuid(),
+      habitId,
+      date,
+      delta: count,
+      source: "tap",
+      timestamp: new Date().toISOString(),
+    };
+
+    // Writing directly would overtake anything still queued, so only do it when the outbox is empty
+    let confirmedCount: number | null = null;
+    const pending = await getPendingMutations();
+    const result =
+      pending.length === 0
+        ? await addUnitsToHabit(habitId, userId, count, date, event)
+        : null;
+    if (result?.success) {
+      confirmedCount = result.newCount;
+    } else {
+      await enqueuePendingMutation({
+        type: "add_units",
+        habitId,
+        count,
+        date,
+        event,
+      });
+    }
+
+    await appendNotificationUnitLog({
+      habitId,
+      date,
+      count,
+      event,
+      confirmedCount,
+    });
+    console.log(
+      "[Notifications] Logged",
+      count,
+      "units for",
+      habit.name,
+      result?.success ? "" : "(queued)",
+    );
+    unitsLoggedListeners.forEach((listener) => listener());
+  } catch (error) {
+    console.error("[Notifications] Failed to log units from action:", error);
+  } finally {
+    Notifications.dismissNotificationAsync(
+      notification.request.identifier,
+    ).catch(() => undefined);
+  }
+}
+
+// Called once from the entry file, before the app mounts, so presses that
+// launch the app in the background are handled
+export function registerNotificationActionHandlers(): void {
+  if (!isSupported) return;
+
+  TaskManager.defineTask<Notifications.NotificationTaskPayload>(
+    BACKGROUND_TASK_NAME,
+    async ({ data, error }) => {
+      if (error) {
+        console.error("[Notifications] Background task error:", error);
+        return;
+      }
+      if (data && "actionIdentifier" in data) {
+        await handleNotificationAction(data);
+      }
+    },
+  );
+  Notifications.registerTaskAsync(BACKGROUND_TASK_NAME).catch((error) => {
+    console.error("[Notifications] Failed to register background task:", error);
+  });
+
+  Notifications.addNotificationResponseReceivedListener((response) => {
+    handleNotificationAction(response);
+  });
+}
@@ -27,13 +27,16 @@ export async function apiRequest(
   method: string,
   route: string,
   data?: unknown | undefined,
+  headers: Record<string, string> = {},
 ): Promise<Response> {
   const baseUrl = getApiUrl();
   const url = new URL(route, baseUrl);
 
   const res = await fetch(url, {
     method,
-    headers: data ? { "Content-Type": "application/json" } : {},
+    headers: data
+      ? { ...headers, "Content-Type": "application/json" }
+      : headers,
     body: data ? JSON.stringify(data) : undefined,
     credentials: "include",
   });
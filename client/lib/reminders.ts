@@ -0,0 +1,228 @@
+import { Platform } from "react-native";
+import * as Notifications from "expo-notifications";
+import type { AppSettings, Habit, QuietHours } from "@/lib/storage";
+import { getDateForTimestamp, getPeriodEnd, isHabitDueOn } from "@/lib/dates";
+import { ensureLogUnitsCategory } from "@/lib/notificationActions";
+
+// ============================================================================
+// HABIT REMINDERS
+// ============================================================================
+// Reminders are one-off local notifications scheduled a week ahead and rebuilt
+// whenever habits, units or settings change. Scheduling individual days rather
+// than a repeating trigger lets us leave out reminders that would be noise:
+// the goal for that period is already met, the day is a rest day, or the time
+// falls in quiet hours. Each notification has "+1" / "+tapIncrement" buttons
+// (see notificationActions.ts).
+// ============================================================================
+
+const REMINDER_TYPE = "habit-reminder";
+const ANDROID_CHANNEL_ID = "reminders";
+const DAYS_AHEAD = 7;
+// iOS keeps at most 64 pending local notifications per app
+const MAX_SCHEDULED = 60;
+
+const isSupported = Platform.OS !== "web";
+
+// ============================================================================
+// REMINDER TIMES
+// ============================================================================
+
+// Accepts "8:30" or "20:30" and returns the stored "HH:MM" form
+export function parseReminderTime(text: string): string | null {
+  const match = text.trim().match(/^(\d{1,2}):(\d{2})$/);
+  if (!match) return null;
+  const hour = Number(match[1]);
+  const minute = Number(match[2]);
+  if (hour > 23 || minute > 59) return null;
+  return `${String(hour).padStart(2, "0")}:${match[2]}`;
+}
+
+// "20:30" -> "8:30 PM"
+export function formatReminderTime(time: string): string {
+  const [hour, minute] = time.split(":").map(Number);
+  const suffix = hour < 12 ? "AM" : "PM";
+  const displayHour = hour % 12 === 0 ? 12 : hour % 12;
+  return `${displayHour}:${String(minute).padStart(2, "0")} ${suffix}`;
+}
+
+export function isInQuietHours(
+  hour: number,
+  quietHours: QuietHours | null | undefined,
+): boolean {
+  if (!quietHours) return false;
+  const { startHour, endHour } = quietHours;
+  if (startHour === endHour) return false;
+  if (startHour < endHour) return hour >= startHour && hour < endHour;
+  return hour >= startHour || hour < endHour;
+}
+
+// ============================================================================
+// SETUP
+// ============================================================================
+
+let configured = false;
+
+export function configureReminderNotifications(): void {
+  if (!isSupported || configured) return;
+  configured = true;
+
+  Notifications.setNotificationHandler({
+    handleNotification: async () => ({
+      shouldShowBanner: true,
+      shouldShowList: true,
+      shouldPlaySound: true,
+      shouldSetBadge: false,
+    }),
+  });
+
+  if (Platform.OS === "android") {
+    Notifications.setNotificationChannelAsync(ANDROID_CHANNEL_ID, {
+      name: "Reminders",
+      importance: Notifications.AndroidImportance.DEFAULT,
+    }).catch((error) => {
+      console.error(
+        "[Reminders] Failed to create notification channel:",
+        error,
+      );
+    });
+  }
+}
+
+// Asks only when the user sets up a reminder, never on launch
+export async function requestReminderPermission(): Promise<boolean> {
+  if (!isSupported) return false;
+  try {
+    const current = await Notifications.getPermissionsAsync();
+    if (current.granted) return true;
+    if (!current.canAskAgain) return false;
+    const requested = await Notifications.requestPermissionsAsync();
+    return requested.granted;
+  } catch (error) {
+    console.error("[Reminders] Permission request failed:", error);
+    return false;
+  }
+}
+
+// ============================================================================
+// SCHEDULING
+// ============================================================================
+
+type PlannedReminder = {
+  identifier: string;
+  habit: Habit;
+  fireAt: Date;
+};
+
+// Next DAYS_AHEAD days of reminders, earliest first, after suppression
+function planReminders(
+  habits: Habit[],
+  settings: AppSettings,
+  today: string,
+  getPeriodUnits: (habitId: string) => number,
+): PlannedReminder[] {
+  const now = new Date();
+  const planned: PlannedReminder[] = [];
+
+  for (const habit of habits) {
+    // The daily check-in applies to every habit
+    const times = Array.from(
+      new Set([
+        ...(habit.reminderTimes ?? []),
+        ...(settings.checkInTime ? [settings.checkInTime] : []),
+      ]),
+    );
+    if (habit.isArchived || times.length === 0) continue;
+
+    // Goal already met: nothing more to remind about until the period ends
+    const goalPeriod = habit.goalPeriod ?? "day";
+    const suppressUntil =
+      getPeriodUnits(habit.id) >= habit.dailyGoal
+        ? getPeriodEnd(goalPeriod, today)
+        : null;
+
+    for (let offset = 0; offset < DAYS_AHEAD; offset++) {
+      for (const time of times) {
+        const [hour, minute] = time.split(":").map(Number);
+        if (isInQuietHours(hour, settings.quietHours)) continue;
+
+        const fireAt = new Date(now);
+        fireAt.setDate(now.getDate() + offset);
+        fireAt.setHours(hour, minute, 0, 0);
+        if (fireAt.getTime() <= now.getTime()) continue;
+
+        // Day the reminder nags about, in the app's day bucketing
+        const date = getDateForTimestamp(fireAt);
+        if (suppressUntil && date <= suppressUntil) continue;
+        if (!isHabitDueOn(habit, date)) continue;
+
+        planned.push({
+          identifier: `${REMINDER_TYPE}-${habit.id}-${date}-${time}`,
+          habit,
+          fireAt,
+        });
+      }
+    }
+  }
+
+  return planned
+    .sort((a, b) => a.fireAt.getTime() - b.fireAt.getTime())
+    .slice(0, MAX_SCHEDULED);
+}
+
+async function cancelHabitReminders(): Promise<void> {
+  const scheduled = await Notifications.getAllScheduledNotificationsAsync();
+  await Promise.all(
+    scheduled
+      .filter((request) => request.content.data?.type === REMINDER_TYPE)
+      .map((request) =>
+        Notifications.cancelScheduledNotificationAsync(request.identifier),
+      ),
+  );
+}
+
+// Replaces every scheduled habit reminder with a fresh plan. Returns how many
+// were scheduled. Never prompts for permission.
+export async function syncHabitReminders(
+  habits: Habit[],
+  settings: AppSettings,
+  today: string,
+  getPeriodUnits: (habitId: string) => number,
+): Promise<number> {
+  if (!isSupported) return 0;
+
+  try {
+    await cancelHabitReminders();
+
+    if (settings.remindersEnabled === false) return 0;
+    const permission = await Notifications.getPermissionsAsync();
+    if (!permission.granted) return 0;
+
+    const planned = planReminders(habits, settings, today, getPeriodUnits);
+    for (const reminder of planned) {
+      const { habit } = reminder;
+      const categoryIdentifier = await ensureLogUnitsCategory(
+        habit.tapIncrement || 1,
+      );
+      await Notifications.scheduleNotificationAsync({
+        identifier: reminder.identifier,
+        content: {
+          title: habit.name,
+          categoryIdentifier,
+          body: `Time to log your ${habit.unitName}.`,
+          data: { type: REMINDER_TYPE, habitId: habit.id },
+        },
+        trigger: {
+          type: Notifications.SchedulableTriggerInputTypes.DATE,
+          date: reminder.fireAt,
+          channelId: ANDROID_CHANNEL_ID,
+        },
+      });
+    }
+
+    console.log("[Reminders] Scheduled", planned.length, "reminders");
+    return planned.length;
+  } catch (error) {
+    console.error("[Reminders] Failed to schedule reminders:", error);
+    return 0;
+  }
+}
@@ -0,0 +1,260 @@
+import type { BadHabitLog, UnitLog } from "@/lib/storage";
+import type { DateRange } from "@/lib/habitRepository";
+
+// ============================================================================
+// STATS INDEX
+// ============================================================================
+// Logs rolled up by day and by habit. UnitsProvider builds it once whenever
+// logs, bad habit logs, habits or the day change, and the stats getters look
+// up a day or sum a date range instead of filtering every log on each call.
+//
+// Effective units are raw units minus the day's stored bad habit penalty,
+// spread evenly over the habits (see distributeEffectivePenalty). On past days
+// the penalty is spread over the habits with logs that day, which also covers
+// habits archived since. Today it is spread over the current habits, including
+// those without units yet.
+// ============================================================================
+
+export interface DayRollup {
+  // Raw units per habit with a log that day
+  habitUnits: Map<string, number>;
+  // Units per habit after the day's penalty
+  effectiveUnits: Map<string, number>;
+  effectiveTotal: number;
+  // Stored penalty units of the day's taps that were not undone
+  penalty: number;
+  badHabitTaps: number;
+}
+
+// Days a habit has units on, oldest first, with running totals so any date
+// range is summed with two binary searches
+interface HabitRollup {
+  dates: string[];
+  // rawSums[i] is the total of dates[0..i-1]
+  rawSums: number[];
+  effectiveSums: number[];
+}
+
+export interface StatsIndex {
+  days: Map<string, DayRollup>;
+  habits: Map<string, HabitRollup>;
+}
+
+// The habits today's penalty is spread over
+export interface TodayHabits {
+  date: string;
+  habitIds: string[];
+}
+
+const EMPTY_DAY: DayRollup = {
+  habitUnits: new Map(),
+  effectiveUnits: new Map(),
+  effectiveTotal: 0,
+  penalty: 0,
+  badHabitTaps: 0,
+};
+
+// Distribute a day's penalty EVENLY across habits
+// Each habit gets penalized by: floor(totalPenalty / habitCount)
+// Remainder distributed 1 each to habits in alphabetical order
+// Guarantees: sum(effectiveUnits) = max(0, totalRawUnits - totalPenalty)
+export function distributeEffectivePenalty(
+  habitRawUnits: Record<string, number>,
+  totalRawUnits: number,
+  totalPenalty: number,
+  habitIds: string[],
+): Record<string, number> {
+  if (totalPenalty === 0 || habitIds.length === 0) {
+    return { ...habitRawUnits };
+  }
+
+  // Calculate actual penalty that can be applied (capped at total raw units)
+  const actualPenalty = Math.min(totalPenalty, totalRawUnits);
+
+  // Sort habit IDs deterministically (alphabetically) for consistent results
+  const sortedHabitIds = [...habitIds].sort();
+  const habitCount = sortedHabitIds.length;
+
+  // Calculate EVEN share per habit
+  const baseShare = Math.floor(actualPenalty / habitCount);
+  let remainder = actualPenalty - baseShare * habitCount;
+
+  // Calculate penalty per habit, distributing remainder to first habits alphabetically
+  const shares: Record<string, number> = {};
+  for (const habitId of sortedHabitIds) {
+    const rawUnits = habitRawUnits[habitId] || 0;
+    let share = baseShare;
+
+    // Add 1 from remainder if available
+    if (remainder > 0) {
+      share += 1;
+      remainder -= 1;
+    }
+
+    // Cap share at the raw units available for this habit
+    shares[habitId] = Math.min(share, rawUnits);
+  }
+
+  // If some habits couldn't absorb their full share, redistribute to others
+  const totalAllocated = Object.values(shares).reduce((a, b) => a + b, 0);
+  let unallocated = actualPenalty - totalAllocated;
+
+  // Keep redistributing until all penalty is allocated or no more can be absorbed
+  while (unallocated > 0) {
+    let redistributed = false;
+    for (const habitId of sortedHabitIds) {
+      if (unallocated <= 0) break;
+      const rawUnits = habitRawUnits[habitId] || 0;
+      const canAbsorb = rawUnits - shares[habitId];
+      if (canAbsorb > 0) {
+        shares[habitId] += 1;
+        unallocated -= 1;
+        redistributed = true;
+      }
+    }
+    if (!redistributed) break;
+  }
+
+  // Build result
+  const result: Record<string, number> = {};
+  for (const habitId of habitIds) {
+    const rawUnits = habitRawUnits[habitId] || 0;
+    result[habitId] = Math.max(0, rawUnits - (shares[habitId] || 0));
+  }
+
+  return result;
+}
+
+function applyPenalty(day: DayRollup, habitIds: string[]): void {
+  const habitRawUnits: Record<string, number> = {};
+  let totalRawUnits = 0;
+  for (const habitId of habitIds) {
+    const raw = day.habitUnits.get(habitId) ?? 0;
+    habitRawUnits[habitId] = raw;
+    totalRawUnits += raw;
+  }
+
+  const effective = distributeEffectivePenalty(
+    habitRawUnits,
+    totalRawUnits,
+    day.penalty,
+    habitIds,
+  );
+  day.effectiveUnits = new Map(Object.entries(effective));
+  day.effectiveTotal = Math.max(0, totalRawUnits - day.penalty);
+}
+
+export function buildStatsIndex(
+  logs: UnitLog[],
+  badHabitLogs: BadHabitLog[],
+  today: TodayHabits,
+): StatsIndex {
+  const days = new Map<string, DayRollup>();
+  const dayFor = (date: string) => {
+    let day = days.get(date);
+    if (!day) {
+      day = { ...EMPTY_DAY, habitUnits: new Map(), effectiveUnits: new Map() };
+      days.set(date, day);
+    }
+    return day;
+  };
+
+  for (const log of logs) {
+    const day = dayFor(log.date);
+    day.habitUnits.set(
+      log.habitId,
+      (day.habitUnits.get(log.habitId) ?? 0) + log.count,
+    );
+  }
+  for (const log of badHabitLogs) {
+    if (log.isUndone) continue;
+    const day = dayFor(log.date);
+    day.penalty += log.penaltyUnits || 0;
+    day.badHabitTaps += log.count;
+  }
+
+  // Today always has a rollup, so current habits without units show up with 0
+  dayFor(today.date);
+  days.forEach((day, date) => {
+    applyPenalty(
+      day,
+      date === today.date ? today.habitIds : [...day.habitUnits.keys()],
+    );
+  });
+
+  const habitDates = new Map<string, string[]>();
+  days.forEach((day, date) => {
+    day.habitUnits.forEach((_, habitId) => {
+      const dates = habitDates.get(habitId);
+      if (dates) {
+        dates.push(date);
+      } else {
+        habitDates.set(habitId, [date]);
+      }
+    });
+  });
+
+  const habits = new Map<string, HabitRollup>();
+  habitDates.forEach((dates, habitId) => {
+    dates.sort();
+    const rawSums = [0];
+    const effectiveSums = [0];
+    for (const date of dates) {
+      const day = days.get(date) ?? EMPTY_DAY;
+      rawSums.push(
+        rawSums[rawSums.length - 1] + (day.habitUnits.get(habitId) ?? 0),
+      );
+      effectiveSums.push(
+        effectiveSums[effectiveSums.length - 1] +
+          (day.effectiveUnits.get(habitId) ?? 0),
+      );
+    }
+    habits.set(habitId, { dates, rawSums, effectiveSums });
+  });
+
+  return { days, habits };
+}
+
+export function getDayRollup(index: StatsIndex, date: string): DayRollup {
+  return index.days.get(date) ?? EMPTY_DAY;
+}
+
+// Days the habit has logs on, oldest first
+export function getHabitDates(index: StatsIndex, habitId: string): string[] {
+  return index.habits.get(habitId)?.dates ?? [];
+}
+
+// Position of the first date on or after date (strictly after it when after is set)
+function searchDates(dates: string[], date: string, after: boolean): number {
+  let low = 0;
+  let high = dates.length;
+  while (low < high) {
+    const mid = (low + high) >> 1;
+    if (dates[mid] < date || (after && dates[mid] === date)) {
+      low = mid + 1;
+    } else {
+      high = mid;
+    }
+  }
+  return low;
+}
+
+// Units logged for a habit within the range (both bounds optional and inclusive)
+export function sumHabitUnits(
+  index: StatsIndex,
+  habitId: string,
+  range: DateRange = {},
+  kind: "raw" | "effective" = "raw",
+): number {
+  const habit = index.habits.get(habitId);
+  if (!habit) return 0;
+
+  const start = range.from ? searchDates(habit.dates, range.from, false) : 0;
+  const end = range.to
+    ? searchDates(habit.dates, range.to, true)
+    : habit.dates.length;
+  if (end <= start) return 0;
+
+  const sums = kind === "raw" ? habit.rawSums : habit.effectiveSums;
+  return sums[end] - sums[start];
+}
@@ -8,9 +8,22 @@ const KEYS = {
   ONBOARDING_COMPLETE: "@units/onboarding_complete",
   BAD_HABITS: "@units/bad_habits",
   BAD_HABIT_LOGS: "@units/bad_habit_logs",
+  PENDING_MUTATIONS: "@units/pending_mutations",
+  DATA_OWNER: "@units/data_owner",
+  UNIT_EVENTS: "@units/unit_events",
+  TIMERS: "@units/timers",
+  NOTIFICATION_UNIT_LOGS: "@units/notification_unit_logs",
+  SYNC_STATE: "@units/sync_state",
 } as const;
 
 export type HabitType = "count" | "time";
+export type GoalPeriod = "day" | "week" | "month";
+
+// Days a daily goal is due. Habits without a schedule are due every day.
+export type HabitSchedule =
+  | { type: "weekdays"; days: number[] } // 0 = Sunday
+  | { type: "interval"; everyDays: number; startDate: string } // every N days counting from startDate
+  | { type: "dates"; dates: string[] }; // YYYY-MM-DD
 
 export interface Habit {
   id: string;
@@ -18,11 +31,15 @@ export interface Habit {
   icon: string;
   color: string;
   unitName: string;
-  dailyGoal: number;
+  dailyGoal: number; // Target per goal period (the name predates weekly/monthly goals)
+  goalPeriod?: GoalPeriod; // Defaults to "day"
+  schedule?: HabitSchedule | null; // Rest days for daily goals; null/undefined = every day
+  reminderTimes?: string[]; // "HH:MM" in device local time
   tapIncrement: number;
   habitType: HabitType;
   createdAt: string;
   isArchived: boolean;
+  updatedAt?: string; // Device clock until a pull adopts the server's updated_at
 }
 
 export interface UnitLog {
@@ -31,19 +48,54 @@ export interface UnitLog {
   count: number;
   date: string;
   createdAt: string;
+  updatedAt?: string;
+}
+
+export type UnitEventSource = "tap" | "quick-add" | "edit" | "undo" | "timer" | "import";
+
+// A single change to a habit's daily total; the UnitLog for that day is the rollup
+export interface UnitEvent {
+  id: string;
+  habitId: string;
+  date: string; // Day the units were credited to (differs from timestamp for past-day edits)
+  delta: number;
+  source: UnitEventSource;
+  timestamp: string; // When the change was made
+}
+
+// Start/stop timer for a time habit. Stored as timestamps rather than a ticking
+// count so it keeps running while the app is backgrounded or closed.
+export interface HabitTimer {
+  habitId: string;
+  startedAt: string | null; // Start of the current run; null while paused
+  accumulatedMs: number; // Time from earlier runs, before the last pause
 }
 
 export interface AppSettings {
   soundEnabled: boolean;
   hapticsEnabled: boolean;
   showGeneralEffort?: boolean;
+  // Hour (0-23) at which a new day begins; taps before it count toward the previous day
+  dayStartHour?: number;
+  // IANA zone days are bucketed in (see dates.ts); travel mode uses the device zone instead
+  homeTimeZone?: string;
+  travelMode?: boolean;
+  // Habit reminders (see reminders.ts); on unless turned off
+  remindersEnabled?: boolean;
+  // No reminders from startHour until endHour (wraps past midnight when start > end)
+  quietHours?: QuietHours | null;
+  // "HH:MM" daily check-in sent for every habit, on top of its own reminder times
+  checkInTime?: string | null;
 }
 
+export type QuietHours = { startHour: number; endHour: number };
+
 export interface BadHabit {
   id: string;
   name: string;
   createdAt: string;
   isArchived: boolean;
+  updatedAt?: string;
 }
 
 export interface PenaltyAdjustment {
@@ -60,6 +112,47 @@ export interface BadHabitLog {
   penaltyAdjustments?: PenaltyAdjustment[];
   penaltyUnits?: number; // Fixed penalty captured at tap time (10% of raw total at that moment)
   isUndone?: boolean;
+  updatedAt?: string;
+}
+
+// Everything the app knows about the signed-in user's habits, as persisted on device
+export interface UserDataSnapshot {
+  habits: Habit[];
+  logs: UnitLog[];
+  badHabits: BadHabit[];
+  badHabitLogs: BadHabitLog[];
+  unitEvents: UnitEvent[];
+}
+
+// Outbox entry for a write that has been applied locally but not yet confirmed by Supabase.
+// Entries are replayed in order through habitService.replayPendingMutation.
+export type PendingMutationPayload =
+  | { type: "create_habit"; habit: Habit }
+  | { type: "update_habit"; habitId: string; updates: Partial<Habit> }
+  | { type: "delete_habit"; habitId: string }
+  | { type: "add_units"; habitId: string; count: number; date: string; event?: UnitEvent }
+  | { type: "set_units"; habitId: string; count: number; date: string; event?: UnitEvent }
+  | { type: "create_bad_habit"; badHabit: BadHabit }
+  | { type: "delete_bad_habit"; badHabitId: string }
+  | { type: "restore_bad_habit"; badHabitId: string }
+  | { type: "tap_bad_habit"; badHabitId: string; date: string; penaltyUnits: number }
+  | { type: "undo_bad_habit_tap"; badHabitId: string; date: string };
+
+export type PendingMutation = PendingMutationPayload & {
+  id: string;
+  createdAt: string;
+  attempts: number;
+};
+
+// Units logged from a notification action while the app was in the background.
+// The write has already gone to Supabase (or the outbox); UnitsProvider folds the
+// entry into local state the next time it runs in the foreground.
+export interface NotificationUnitLog {
+  habitId: string;
+  date: string;
+  count: number;
+  event: UnitEvent;
+  confirmedCount: number | null; // Server total returned by the write, if it went through
 }
 
 const DEFAULT_SETTINGS: AppSettings = {
@@ -71,23 +164,13 @@ export function generateId(): string {
   return `${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
 }
 
-export function getTodayDate(): string {
-  const now = new Date();
-  const year = now.getFullYear();
-  const month = String(now.getMonth() + 1).padStart(2, "0");
-  const day = String(now.getDate()).padStart(2, "0");
-  return `${year}-${month}-${day}`;
-}
-
-export function getStartOfWeek(): string {
-  const now = new Date();
-  const dayOfWeek = now.getDay();
-  const diff = now.getDate() - dayOfWeek + (dayOfWeek === 0 ? -6 : 1);
-  const startOfWeek = new Date(now.getFullYear(), now.getMonth(), diff);
-  const year = startOfWeek.getFullYear();
-  const month = String(startOfWeek.getMonth() + 1).padStart(2, "0");
-  const day = String(startOfWeek.getDate()).padStart(2, "0");
-  return `${year}-${month}-${day}`;
+// RFC 4122 v4 UUID, used for rows created offline so the local id matches the Supabase primary key
+export function generateUuid(): string {
+  return "xxxxxxxx-xxxx-4xxx-yxxx-xxxxxxxxxxxx".replace(/[xy]/g, (c) => {
+    const r = (Math.random() * 16) | 0;
+    const v = c === "x" ? r : (r & 0x3) | 0x8;
+    return v.toString(16);
+  });
 }
 
 export async function getHabits(): Promise<Habit[]> {
@@ -120,6 +203,32 @@ export async function saveLogs(logs: UnitLog[]): Promise<void> {
   await AsyncStorage.setItem(KEYS.LOGS, JSON.stringify(logs));
 }
 
+export async function getUnitEvents(): Promise<UnitEvent[]> {
+  try {
+    const data = await AsyncStorage.getItem(KEYS.UNIT_EVENTS);
+    return data ? JSON.parse(data) : [];
+  } catch {
+    return [];
+  }
+}
+
+export async function saveUnitEvents(events: UnitEvent[]): Promise<void> {
+  await AsyncStorage.setItem(KEYS.UNIT_EVENTS, JSON.stringify(events));
+}
+
+export async function getTimers(): Promise<HabitTimer[]> {
+  try {
+    const data = await AsyncStorage.getItem(KEYS.TIMERS);
+    return data ? JSON.parse(data) : [];
+  } catch {
+    return [];
+  }
+}
+
+export async function saveTimers(timers: HabitTimer[]): Promise<void> {
+  await AsyncStorage.setItem(KEYS.TIMERS, JSON.stringify(timers));
+}
+
 export async function getSettings(): Promise<AppSettings> {
   try {
     const data = await AsyncStorage.getItem(KEYS.SETTINGS);
@@ -194,6 +303,146 @@ export async function saveBadHabitLogs(logs: BadHabitLog[]): Promise<void> {
   await AsyncStorage.setItem(KEYS.BAD_HABIT_LOGS, JSON.stringify(logs));
 }
 
+// The local store is the primary copy of user data. It is tagged with the owning
+// user id so a cold start never shows another account's cached habits.
+export async function loadUserDataSnapshot(userId: string): Promise<UserDataSnapshot | null> {
+  try {
+    const owner = await AsyncStorage.getItem(KEYS.DATA_OWNER);
+    if (owner !== userId) {
+      console.log("[Storage] loadUserDataSnapshot: No local data for this user");
+      return null;
+    }
+
+    const [habits, logs, badHabits, badHabitLogs, unitEvents] = await Promise.all([
+      getHabits(),
+      getLogs(),
+      getBadHabits(),
+      getBadHabitLogs(),
+      getUnitEvents(),
+    ]);
+    return { habits, logs, badHabits, badHabitLogs, unitEvents };
+  } catch (error) {
+    console.error("[Storage] loadUserDataSnapshot: Error reading local data", error);
+    return null;
+  }
+}
+
+export async function setUserDataOwner(userId: string): Promise<void> {
+  await AsyncStorage.setItem(KEYS.DATA_OWNER, userId);
+}
+
+export async function getUserDataOwner(): Promise<string | null> {
+  return AsyncStorage.getItem(KEYS.DATA_OWNER);
+}
+
+// How far the local store has caught up with the server. Belongs to the data owner
+// and is cleared with the rest of the user data.
+export interface SyncState {
+  // Latest server write seen (updated_at, server clock); the next pull only asks for rows written since
+  cursor: string | null;
+  // Logs dated before this day have not been downloaded yet; null when nothing older is
+  // missing, and before the first sync
+  historyStart: string | null;
+}
+
+export async function getSyncState(): Promise<SyncState> {
+  try {
+    const data = await AsyncStorage.getItem(KEYS.SYNC_STATE);
+    return data ? JSON.parse(data) : { cursor: null, historyStart: null };
+  } catch {
+    return { cursor: null, historyStart: null };
+  }
+}
+
+export async function saveSyncState(state: SyncState): Promise<void> {
+  await AsyncStorage.setItem(KEYS.SYNC_STATE, JSON.stringify(state));
+}
+
+// Outbox writes are serialized so an enqueue during a replay can never be lost
+let outboxQueue: Promise<unknown> = Promise.resolve();
+
+function withOutbox<T>(task: () => Promise<T>): Promise<T> {
+  const run = outboxQueue.then(task, task);
+  outboxQueue = run.catch(() => undefined);
+  return run;
+}
+
+async function readPendingMutations(): Promise<PendingMutation[]> {
+  try {
+    const data = await AsyncStorage.getItem(KEYS.PENDING_MUTATIONS);
+    return data ? JSON.parse(data) : [];
+  } catch {
+    return [];
+  }
+}
+
+export function getPendingMutations(): Promise<PendingMutation[]> {
+  return withOutbox(readPendingMutations);
+}
+
+export function enqueuePendingMutation(payload: PendingMutationPayload): Promise<PendingMutation> {
+  return withOutbox(async () => {
+    const mutation: PendingMutation = {
+      ...payload,
+      id: generateId(),
+      createdAt: new Date().toISOString(),
+      attempts: 0,
+    };
+    const pending = await readPendingMutations();
+    await AsyncStorage.setItem(KEYS.PENDING_MUTATIONS, JSON.stringify([...pending, mutation]));
+    console.log("[Storage] enqueuePendingMutation:", mutation.type, "-", pending.length + 1, "pending");
+    return mutation;
+  });
+}
+
+export function removePendingMutation(id: string): Promise<void> {
+  return withOutbox(async () => {
+    const pending = await readPendingMutations();
+    await AsyncStorage.setItem(
+      KEYS.PENDING_MUTATIONS,
+      JSON.stringify(pending.filter((m) => m.id !== id))
+    );
+  });
+}
+
+async function readNotificationUnitLogs(): Promise<NotificationUnitLog[]> {
+  try {
+    const data = await AsyncStorage.getItem(KEYS.NOTIFICATION_UNIT_LOGS);
+    return data ? JSON.parse(data) : [];
+  } catch {
+    return [];
+  }
+}
+
+// Shares the outbox queue so a background append and a foreground take never interleave
+export function appendNotificationUnitLog(entry: NotificationUnitLog): Promise<void> {
+  return withOutbox(async () => {
+    const entries = await readNotificationUnitLogs();
+    await AsyncStorage.setItem(KEYS.NOTIFICATION_UNIT_LOGS, JSON.stringify([...entries, entry]));
+  });
+}
+
+// Returns every waiting entry and clears the list
+export function takeNotificationUnitLogs(): Promise<NotificationUnitLog[]> {
+  return withOutbox(async () => {
+    const entries = await readNotificationUnitLogs();
+    if (entries.length > 0) {
+      await AsyncStorage.removeItem(KEYS.NOTIFICATION_UNIT_LOGS);
+    }
+    return entries;
+  });
+}
+
+export function incrementPendingMutationAttempts(id: string): Promise<void> {
+  return withOutbox(async () => {
+    const pending = await readPendingMutations();
+    await AsyncStorage.setItem(
+      KEYS.PENDING_MUTATIONS,
+      JSON.stringify(pending.map((m) => (m.id === id ? { ...m, attempts: m.attempts + 1 } : m)))
+    );
+  });
+}
+
 export async function clearAllData(): Promise<void> {
   console.log("[Storage] clearAllData: CLEARING ALL DATA!");
   await AsyncStorage.multiRemove([
@@ -204,17 +453,31 @@ export async function clearAllData(): Promise<void> {
     KEYS.ONBOARDING_COMPLETE,
     KEYS.BAD_HABITS,
     KEYS.BAD_HABIT_LOGS,
+    KEYS.PENDING_MUTATIONS,
+    KEYS.DATA_OWNER,
+    KEYS.UNIT_EVENTS,
+    KEYS.TIMERS,
+    KEYS.NOTIFICATION_UNIT_LOGS,
+    KEYS.SYNC_STATE,
   ]);
 }
 
 export async function clearUserData(): Promise<void> {
-  console.log("[Storage] clearUserData: Clearing user-specific data (habits, logs, bad habits)");
-  await AsyncStorage.multiRemove([
-    KEYS.HABITS,
-    KEYS.LOGS,
-    KEYS.BAD_HABITS,
-    KEYS.BAD_HABIT_LOGS,
-  ]);
+  console.log("[Storage] clearUserData: Clearing user-specific data (habits, logs, bad habits, pending changes, timers, sync state)");
+  await withOutbox(() =>
+    AsyncStorage.multiRemove([
+      KEYS.HABITS,
+      KEYS.LOGS,
+      KEYS.BAD_HABITS,
+      KEYS.BAD_HABIT_LOGS,
+      KEYS.PENDING_MUTATIONS,
+      KEYS.DATA_OWNER,
+      KEYS.UNIT_EVENTS,
+      KEYS.TIMERS,
+      KEYS.NOTIFICATION_UNIT_LOGS,
+      KEYS.SYNC_STATE,
+    ])
+  );
 }
 
 export type IconColorSuggestion = { icon: string; color: string };
@@ -15,6 +15,7 @@
  * - getSubscriptionProducts() - Fetches product info from App Store
  * - purchaseSubscription()    - Triggers Apple's native payment sheet
  * - restorePurchasesFromStore() - Restores previous purchases (App Store requirement)
+ * - bindSubscriptionToUser()  - Verifies a purchase on the server and binds it to the account
  * - validatePremiumAccess()   - Validates subscription status
  * 
  * EXPO GO LIMITATION:
@@ -29,6 +30,7 @@ import Constants from "expo-constants";
 import { supabase, isSupabaseConfigured } from "./supabase";
 import { setIsPro as setLocalIsPro, getIsPro as getLocalIsPro } from "./storage";
 import { isDemoUser } from "./demo-account";
+import { getApiUrl } from "./query-client";
 
 // ============================================================================
 // PRODUCT CONFIGURATION
@@ -511,124 +513,111 @@ export async function restorePurchasesFromStore(): Promise<RestoreResult> {
 // SUBSCRIPTION BINDING (Apple Compliance - Guideline 3.1.2)
 // ============================================================================
 
+export type ServerVerificationResult = {
+  success: boolean;
+  /** Whether the verified transaction is unexpired and not revoked */
+  active: boolean;
+  boundToAnotherUser: boolean;
+  productId?: string;
+  expiresDate?: string | null;
+  error?: string;
+};
+
 /**
- * Binds an Apple subscription to a specific user account.
- * 
- * COMPLIANCE: This creates a 1:1 relationship between an Apple transaction
- * and a Supabase user. A single Apple subscription can only unlock ONE account.
- * 
- * IMPORTANT: Uses originalTransactionIdentifierIos which remains STABLE across
- * subscription renewals. The regular transactionId changes on each renewal.
- * 
- * Called after:
- * 1. Successful purchase (purchaseSubscription)
- * 2. Successful restore + user sign-in
+ * Sends a StoreKit 2 signed transaction (JWS) to the API server, which checks
+ * Apple's signature and binds the subscription to the signed-in user.
  * 
- * @param originalTransactionId - The originalTransactionIdentifierIos from expo-iap (stable across renewals)
- * @returns Object with success status and whether binding was created or already exists
+ * The server is the ONLY writer of the subscriptions table. The client never
+ * reports transaction ids itself - they are read from the verified JWS.
  */
-export async function bindSubscriptionToUser(
-  userId: string,
-  productId: string,
-  originalTransactionId?: string
-): Promise<{ success: boolean; alreadyBound: boolean; boundToAnotherUser: boolean; error?: string }> {
+export async function verifyTransactionWithServer(
+  signedTransaction: string
+): Promise<ServerVerificationResult> {
   if (!isSupabaseConfigured) {
-    console.log("[StoreKit] Supabase not configured - cannot bind subscription");
-    return { success: false, alreadyBound: false, boundToAnotherUser: false, error: "Backend not configured" };
-  }
-  
-  // APPLE COMPLIANCE: Require originalTransactionId for binding to prevent multi-account reuse
-  // Without it, we cannot reliably detect if this subscription is already bound to another user
-  if (!originalTransactionId) {
-    console.log("[StoreKit] No originalTransactionId provided - cannot create reliable binding");
-    // For compliance, we should fail here - but for initial users we allow user-level binding
-    // This permits first-time purchase but blocks multi-account abuse on restore/reuse
+    return { success: false, active: false, boundToAnotherUser: false, error: "Backend not configured" };
   }
   
   try {
-    // Check if this original transaction is already bound to another user
-    if (originalTransactionId) {
-      const { data: existingBinding } = await supabase
-        .from("subscriptions")
-        .select("user_id")
-        .eq("original_transaction_id", originalTransactionId)
-        .single();
-      
-      if (existingBinding && existingBinding.user_id !== userId) {
-        console.log("[StoreKit] Subscription already bound to different user:", existingBinding.user_id);
-        return { 
-          success: false, 
-          alreadyBound: true, 
-          boundToAnotherUser: true,
-          error: "This subscription is already associated with another account."
-        };
-      }
-      
-      if (existingBinding && existingBinding.user_id === userId) {
-        console.log("[StoreKit] Subscription already bound to this user");
-        return { success: true, alreadyBound: true, boundToAnotherUser: false };
-      }
+    const { data: { session } } = await supabase.auth.getSession();
+    if (!session) {
+      return { success: false, active: false, boundToAnotherUser: false, error: "Not signed in" };
     }
     
-    // Check if user already has a subscription record
-    const { data: userSubscription } = await supabase
-      .from("subscriptions")
-      .select("*")
-      .eq("user_id", userId)
-      .single();
+    const response = await fetch(new URL("/api/subscriptions/verify", getApiUrl()), {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        Authorization: `Bearer ${session.access_token}`,
+      },
+      body: JSON.stringify({ signedTransaction }),
+    });
+    const body = await response.json().catch(() => ({}));
     
-    if (userSubscription) {
-      // Update existing record with original_transaction_id (stable identifier)
-      const updateData: Record<string, unknown> = {
-        product_id: productId,
-        is_active: true,
-        updated_at: new Date().toISOString(),
-      };
-      // Set original_transaction_id if we have one and record doesn't have one yet
-      if (originalTransactionId && !userSubscription.original_transaction_id) {
-        updateData.original_transaction_id = originalTransactionId;
-      } else if (originalTransactionId) {
-        updateData.original_transaction_id = originalTransactionId;
-      }
-      
-      await supabase
-        .from("subscriptions")
-        .update(updateData)
-        .eq("user_id", userId);
-      
-      console.log("[StoreKit] Updated subscription binding for user:", userId, "original_tx:", originalTransactionId);
-    } else {
-      // Create new binding with original_transaction_id
-      await supabase
-        .from("subscriptions")
-        .insert({
-          user_id: userId,
-          product_id: productId,
-          original_transaction_id: originalTransactionId || null,
-          is_active: true,
-          purchase_date: new Date().toISOString(),
-          created_at: new Date().toISOString(),
-          updated_at: new Date().toISOString(),
-        });
-      
-      console.log("[StoreKit] Created new subscription binding for user:", userId, "original_tx:", originalTransactionId);
+    if (response.status === 409) {
+      console.log("[StoreKit] Subscription already bound to another account");
+      return { success: false, active: false, boundToAnotherUser: true, error: body.error };
+    }
+    if (!response.ok) {
+      console.log("[StoreKit] Server rejected transaction:", response.status, body.reason ?? body.error);
+      return { success: false, active: false, boundToAnotherUser: false, error: body.error ?? "Verification failed" };
     }
     
-    return { success: true, alreadyBound: false, boundToAnotherUser: false };
+    console.log("[StoreKit] Server verified subscription:", body.productId, "active:", body.active);
+    return {
+      success: true,
+      active: body.active === true,
+      boundToAnotherUser: false,
+      productId: body.productId,
+      expiresDate: body.expiresDate,
+    };
   } catch (error) {
-    console.error("[StoreKit] Failed to bind subscription:", error);
-    // CRITICAL: Do not allow access if binding fails
-    return { success: false, alreadyBound: false, boundToAnotherUser: false, error: "Failed to verify subscription ownership" };
+    console.error("[StoreKit] Failed to reach verification server:", error);
+    return { success: false, active: false, boundToAnotherUser: false, error: "Unable to reach server" };
   }
 }
 
+/**
+ * Binds an Apple subscription to the signed-in user's account.
+ * 
+ * COMPLIANCE: This creates a 1:1 relationship between an Apple subscription
+ * and a Supabase user. A single Apple subscription can only unlock ONE account.
+ * The server enforces this using the originalTransactionId from the verified
+ * JWS, which remains STABLE across subscription renewals.
+ * 
+ * Called after:
+ * 1. Successful purchase (purchaseSubscription)
+ * 2. Successful restore + user sign-in
+ * 
+ * @param signedTransaction - The purchase's JWS (purchaseToken from expo-iap)
+ * @returns Object with success status and whether the subscription is currently active
+ */
+export async function bindSubscriptionToUser(
+  signedTransaction?: string | null
+): Promise<{ success: boolean; active: boolean; boundToAnotherUser: boolean; error?: string }> {
+  // APPLE COMPLIANCE: Without Apple's signed transaction we cannot prove
+  // ownership, so there is nothing to bind
+  if (!signedTransaction) {
+    console.log("[StoreKit] No signed transaction on purchase - cannot bind subscription");
+    return { success: false, active: false, boundToAnotherUser: false, error: "Missing signed transaction" };
+  }
+  
+  const result = await verifyTransactionWithServer(signedTransaction);
+  return {
+    success: result.success,
+    active: result.active,
+    boundToAnotherUser: result.boundToAnotherUser,
+    error: result.error,
+  };
+}
+
 /**
  * Verifies if a user owns a subscription and grants access if valid.
  * 
  * COMPLIANCE: Premium access is ONLY granted if:
  * 1. App Store confirms active subscription on this device
  * 2. User is authenticated
- * 3. Subscription is bound to THIS user (not another account)
+ * 3. The server verified Apple's signature and bound the subscription to
+ *    THIS user (not another account)
  * 
  * @returns Whether premium access was granted
  */
@@ -670,22 +659,14 @@ export async function validateAndGrantAccess(
     });
     
     if (!validPurchase) {
-      // No App Store subscription - revoke access
+      // No App Store subscription on this device - the server record is
+      // kept in sync by Apple's notifications, so only clear the local cache
       await setLocalIsPro(false);
-      await revokeSupabasePremiumStatus(userId);
       return { granted: false, reason: "no_app_store_subscription" };
     }
     
-    // CRITICAL: Extract originalTransactionIdentifierIos for stable binding
-    // This identifier stays constant across subscription renewals
-    const originalTxId = (validPurchase as any).originalTransactionIdentifierIos || validPurchase.transactionId;
-    
-    // App Store has subscription - verify ownership and bind to user
-    const bindResult = await bindSubscriptionToUser(
-      userId, 
-      validPurchase.productId, 
-      originalTxId ?? undefined
-    );
+    // App Store has subscription - verify with server and bind to user
+    const bindResult = await bindSubscriptionToUser(validPurchase.purchaseToken);
     
     // APPLE COMPLIANCE: Require successful binding before granting access
     if (bindResult.boundToAnotherUser) {
@@ -695,16 +676,21 @@ export async function validateAndGrantAccess(
     }
     
     if (!bindResult.success) {
-      // Binding failed (network error, database error, etc.)
+      // Binding failed (network error, invalid signature, etc.)
       // Do NOT grant access without verified binding
       await setLocalIsPro(false);
       console.log("[StoreKit] Binding failed - denying access:", bindResult.error);
       return { granted: false, reason: "binding_failed" };
     }
     
+    if (!bindResult.active) {
+      // Verified, but expired or refunded
+      await setLocalIsPro(false);
+      return { granted: false, reason: "subscription_inactive" };
+    }
+    
     // Subscription valid and successfully bound to this user
     await setLocalIsPro(true);
-    await updateSupabasePremiumStatus(userId, validPurchase.productId);
     return { granted: true, reason: "validated" };
     
   } catch (error) {
@@ -732,8 +718,9 @@ export async function validateAndGrantAccess(
  * 
  * Validation order:
  * 0. Demo account check (dev/TestFlight ONLY - see demo-account.ts)
- * 1. App Store (authoritative source - if available)
- * 2. Supabase profile (if authenticated)
+ * 1. App Store (authoritative source - if available), verified by the server
+ *    when signed in
+ * 2. Supabase subscriptions table (if authenticated)
  * 3. Local storage (fallback only when App Store unavailable)
  * 
  * @param userId - Optional Supabase user ID
@@ -762,30 +749,41 @@ export async function validatePremiumAccess(
       await initializeIAP();
       const purchases = await module.getAvailablePurchases();
       
-      const hasValidSubscription = purchases.some((purchase) => {
+      const validPurchase = purchases.find((purchase) => {
         return (
           purchase.productId === PRODUCT_IDS.MONTHLY ||
           purchase.productId === PRODUCT_IDS.YEARLY
         );
       });
       
-      if (hasValidSubscription) {
-        // Valid subscription - update all sources
+      if (!validPurchase) {
+        // No valid subscription - REVOKE local premium
+        await setLocalIsPro(false);
+        console.log("[StoreKit] Premium REVOKED - no active App Store subscription");
+        return false;
+      }
+      
+      if (!userId) {
         await setLocalIsPro(true);
-        if (userId) {
-          await updateSupabasePremiumStatus(userId);
-        }
         console.log("[StoreKit] Premium VALIDATED from App Store");
         return true;
-      } else {
-        // No valid subscription - REVOKE premium from all sources
+      }
+      
+      // Signed in - the server must verify the transaction and confirm it
+      // belongs to this account
+      const result = validPurchase.purchaseToken
+        ? await verifyTransactionWithServer(validPurchase.purchaseToken)
+        : null;
+      if (result?.success) {
+        await setLocalIsPro(result.active);
+        console.log("[StoreKit] Premium", result.active ? "VALIDATED" : "REVOKED", "by server verification");
+        return result.active;
+      }
+      if (result?.boundToAnotherUser) {
         await setLocalIsPro(false);
-        if (userId) {
-          await revokeSupabasePremiumStatus(userId);
-        }
-        console.log("[StoreKit] Premium REVOKED - no active App Store subscription");
         return false;
       }
+      // Server unreachable - fall through to the stored subscription
     } catch (error) {
       console.log("[StoreKit] Error validating with App Store:", error);
       // On error, fall through to other validation methods
@@ -794,32 +792,19 @@ export async function validatePremiumAccess(
   
   // Fallback: Check Supabase subscriptions table if authenticated (for when App Store unavailable)
   if (userId && isSupabaseConfigured) {
-    try {
-      const { data } = await supabase
-        .from("subscriptions")
-        .select("is_active, expires_date")
-        .eq("user_id", userId)
-        .single();
-      
-      if (data?.is_active) {
-        // Check if subscription hasn't expired
-        const isExpired = data.expires_date && new Date(data.expires_date) < new Date();
-        if (!isExpired) {
-          // Sync to local storage
-          await setLocalIsPro(true);
-          console.log("[StoreKit] Premium validated from Supabase subscriptions (App Store unavailable)");
-          return true;
-        }
-      }
-    } catch (error) {
-      console.log("[StoreKit] Error checking Supabase subscription:", error);
+    const hasVerifiedSubscription = await checkSupabaseVerifiedSubscription(userId);
+    if (hasVerifiedSubscription) {
+      // Sync to local storage
+      await setLocalIsPro(true);
+      console.log("[StoreKit] Premium validated from Supabase subscriptions (App Store unavailable)");
+      return true;
     }
   }
   
   // NOTE: Local storage is NOT used as a fallback for validation.
   // Premium access requires either:
   // 1. Valid App Store subscription (when available)
-  // 2. Active subscription record in Supabase (when App Store unavailable)
+  // 2. Verified subscription record in Supabase (when App Store unavailable)
   // This prevents local storage manipulation from granting premium access.
   
   console.log("[StoreKit] No premium access found - requires server validation");
@@ -827,53 +812,11 @@ export async function validatePremiumAccess(
   return false;
 }
 
-/**
- * Revokes premium status in Supabase subscriptions table
- */
-export async function revokeSupabasePremiumStatus(userId: string): Promise<void> {
-  if (!isSupabaseConfigured) return;
-  
-  try {
-    await supabase
-      .from("subscriptions")
-      .update({ 
-        is_active: false, 
-        updated_at: new Date().toISOString() 
-      })
-      .eq("user_id", userId);
-    console.log("[StoreKit] Revoked premium status in Supabase subscriptions");
-  } catch (error) {
-    console.error("[StoreKit] Failed to revoke Supabase premium status:", error);
-  }
-}
-
 // ============================================================================
-// SUPABASE SYNC
+// SUPABASE READS
 // ============================================================================
-
-/**
- * Updates/creates subscription record in Supabase subscriptions table
- * Called after successful App Store purchase validation
- */
-export async function updateSupabasePremiumStatus(userId: string, productId?: string): Promise<void> {
-  if (!isSupabaseConfigured) return;
-  
-  try {
-    // Upsert subscription record
-    await supabase
-      .from("subscriptions")
-      .upsert({ 
-        user_id: userId,
-        product_id: productId || "unknown",
-        is_active: true, 
-        updated_at: new Date().toISOString(),
-        purchase_date: new Date().toISOString(),
-      }, { onConflict: "user_id" });
-    console.log("[StoreKit] Synced premium status to Supabase subscriptions");
-  } catch (error) {
-    console.error("[StoreKit] Failed to update Supabase premium status:", error);
-  }
-}
+// Subscription rows are written only by the API server (see
+// server/subscriptions.ts). The client may read its own row under RLS.
 
 /**
  * Checks Supabase subscriptions table for premium status
@@ -28,6 +28,9 @@ export type Profile = {
   id: string;
   email: string;
   onboarding_answers: Record<string, unknown> | null;
+  day_start_hour: number | null;
+  home_time_zone: string | null;
+  travel_mode: boolean | null;
   created_at: string;
   updated_at: string;
 };
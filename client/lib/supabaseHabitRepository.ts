@@ -0,0 +1,400 @@
+import { supabase, isSupabaseConfigured } from "@/lib/supabase";
+import { requestAccountDeletion } from "@/lib/apiHabitRepository";
+import type {
+  DailyTotal,
+  HabitRepository,
+  RemoteChange,
+  RemoteTable,
+} from "@/lib/habitRepository";
+
+// HabitRepository on the Supabase tables, with RLS scoping every query to the
+// signed-in user. Unit writes go through the increment_habit_log,
+// set_habit_log_count and import_habit_logs RPCs (see supabase/migrations).
+
+const NOT_CONFIGURED = "Supabase not configured";
+
+// Must be in the supabase_realtime publication (migration 016)
+const REALTIME_TABLES: RemoteTable[] = [
+  "habits",
+  "habit_logs",
+  "bad_habits",
+  "bad_habit_logs",
+  "unit_events",
+];
+
+// PostgREST caps every response (1000 rows by default on Supabase) without
+// saying so, so row reads ask for one page at a time until a short page comes
+// back. Each query orders on a unique column last to keep the pages stable.
+const PAGE_SIZE = 1000;
+
+async function fetchAllPages<T>(
+  fetchPage: (
+    from: number,
+    to: number,
+  ) => PromiseLike<{ data: T[] | null; error: { message: string } | null }>,
+): Promise<{ rows: T[]; error: string | null }> {
+  const rows: T[] = [];
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await fetchPage(from, from + PAGE_SIZE - 1);
+    if (error) {
+      return { rows: [], error: error.message };
+    }
+    rows.push(...(data ?? []));
+    if (!data || data.length < PAGE_SIZE) {
+      return { rows, error: null };
+    }
+  }
+}
+
+export const supabaseHabitRepository: HabitRepository = {
+  kind: "supabase",
+
+  async fetchHabits(userId, options = {}) {
+    if (!isSupabaseConfigured) {
+      return { habits: [], error: NOT_CONFIGURED };
+    }
+
+    const { rows, error } = await fetchAllPages((from, to) => {
+      let query = supabase.from("habits").select("*").eq("user_id", userId);
+      if (!options.includeArchived) {
+        query = query.eq("is_archived", false);
+      }
+      if (options.updatedSince) {
+        query = query.gte("updated_at", options.updatedSince);
+      }
+      return query
+        .order("sort_order", { ascending: true })
+        .order("id")
+        .range(from, to);
+    });
+
+    return { habits: rows, error };
+  },
+
+  async upsertHabits(userId, habits) {
+    if (!isSupabaseConfigured) {
+      return { habits: [], error: NOT_CONFIGURED };
+    }
+    if (habits.length === 0) {
+      return { habits: [], error: null };
+    }
+
+    // Upsert on id so a replayed offline create is idempotent
+    const { data, error } = await supabase
+      .from("habits")
+      .upsert(
+        habits.map((habit) => ({ user_id: userId, ...habit })),
+        { onConflict: "id" },
+      )
+      .select();
+
+    return { habits: data || [], error: error?.message ?? null };
+  },
+
+  async updateHabit(habitId, updates) {
+    if (!isSupabaseConfigured) {
+      return { success: false, error: NOT_CONFIGURED };
+    }
+
+    const { error } = await supabase
+      .from("habits")
+      .update({
+        ...updates,
+        updated_at: new Date().toISOString(),
+      })
+      .eq("id", habitId);
+
+    return { success: !error, error: error?.message ?? null };
+  },
+
+  async fetchHabitLogs(userId, filter = {}) {
+    if (!isSupabaseConfigured) {
+      return { logs: [], error: NOT_CONFIGURED };
+    }
+
+    const { rows, error } = await fetchAllPages((from, to) => {
+      let query = supabase.from("habit_logs").select("*").eq("user_id", userId);
+      if (filter.from) query = query.gte("date", filter.from);
+      if (filter.to) query = query.lte("date", filter.to);
+      if (filter.updatedSince) {
+        query = query.gte("updated_at", filter.updatedSince);
+      }
+      return query
+        .order("date", { ascending: false })
+        .order("id")
+        .range(from, to);
+    });
+
+    return { logs: rows, error };
+  },
+
+  // Summed in Postgres (get_daily_totals, migration 017) instead of
+  // downloading every log
+  async fetchDailyTotals(_userId, range = {}) {
+    if (!isSupabaseConfigured) {
+      return { totals: [], error: NOT_CONFIGURED };
+    }
+
+    const { rows, error } = await fetchAllPages<DailyTotal>((from, to) =>
+      supabase
+        .rpc("get_daily_totals", {
+          p_from: range.from ?? null,
+          p_to: range.to ?? null,
+        })
+        .range(from, to),
+    );
+
+    return { totals: rows, error };
+  },
+
+  async fetchUnitEvents(userId, filter = {}) {
+    if (!isSupabaseConfigured) {
+      return { events: [], error: NOT_CONFIGURED };
+    }
+
+    const { rows, error } = await fetchAllPages((from, to) => {
+      let query = supabase
+        .from("unit_events")
+        .select("*")
+        .eq("user_id", userId);
+      if (filter.from) query = query.gte("date", filter.from);
+      if (filter.to) query = query.lte("date", filter.to);
+      if (filter.updatedSince) {
+        query = query.gte("created_at", filter.updatedSince);
+      }
+      return query
+        .order("occurred_at", { ascending: true })
+        .order("id")
+        .range(from, to);
+    });
+
+    return { events: rows, error };
+  },
+
+  // The RPCs resolve the user from the session and also append the matching
+  // unit_events row; passing the client event makes a retried call a no-op
+  async incrementHabitLog(habitId, date, delta, event) {
+    if (!isSupabaseConfigured) {
+      return { newCount: null, error: NOT_CONFIGURED };
+    }
+
+    const { data, error } = await supabase.rpc("increment_habit_log", {
+      p_habit_id: habitId,
+      p_date: date,
+      p_delta: delta,
+      p_source: event?.source ?? "tap",
+      p_event_id: event?.id ?? null,
+      p_occurred_at: event?.timestamp ?? null,
+    });
+
+    if (error) {
+      return { newCount: null, error: error.message };
+    }
+    return { newCount: typeof data === "number" ? data : null, error: null };
+  },
+
+  async setHabitLogCount(habitId, date, count, event) {
+    if (!isSupabaseConfigured) {
+      return { newCount: null, error: NOT_CONFIGURED };
+    }
+
+    const { data, error } = await supabase.rpc("set_habit_log_count", {
+      p_habit_id: habitId,
+      p_date: date,
+      p_count: Math.max(0, count),
+      p_source: event?.source ?? "edit",
+      p_event_id: event?.id ?? null,
+      p_occurred_at: event?.timestamp ?? null,
+    });
+
+    if (error) {
+      return { newCount: null, error: error.message };
+    }
+    return { newCount: typeof data === "number" ? data : null, error: null };
+  },
+
+  async importUnitEvents(events) {
+    if (!isSupabaseConfigured) {
+      return { imported: 0, error: NOT_CONFIGURED };
+    }
+
+    const { data, error } = await supabase.rpc("import_habit_logs", {
+      p_entries: events.map((event) => ({
+        event_id: event.id,
+        habit_id: event.habitId,
+        date: event.date,
+        delta: event.delta,
+        occurred_at: event.timestamp,
+      })),
+    });
+
+    if (error) {
+      return { imported: 0, error: error.message };
+    }
+    return { imported: typeof data === "number" ? data : 0, error: null };
+  },
+
+  async fetchBadHabits(userId, options = {}) {
+    if (!isSupabaseConfigured) {
+      return { badHabits: [], error: NOT_CONFIGURED };
+    }
+
+    const { rows, error } = await fetchAllPages((from, to) => {
+      let query = supabase.from("bad_habits").select("*").eq("user_id", userId);
+      if (!options.includeArchived) {
+        query = query.eq("is_archived", false);
+      }
+      if (options.updatedSince) {
+        query = query.gte("updated_at", options.updatedSince);
+      }
+      return query
+        .order("created_at", { ascending: true })
+        .order("id")
+        .range(from, to);
+    });
+
+    return { badHabits: rows, error };
+  },
+
+  async upsertBadHabit(userId, badHabit) {
+    if (!isSupabaseConfigured) {
+      return { badHabit: null, error: NOT_CONFIGURED };
+    }
+
+    // Upsert on id so a replayed offline create is idempotent
+    const { data, error } = await supabase
+      .from("bad_habits")
+      .upsert(
+        {
+          ...(badHabit.id ? { id: badHabit.id } : {}),
+          user_id: userId,
+          name: badHabit.name,
+        },
+        { onConflict: "id" },
+      )
+      .select()
+      .single();
+
+    return { badHabit: data, error: error?.message ?? null };
+  },
+
+  async updateBadHabit(badHabitId, updates) {
+    if (!isSupabaseConfigured) {
+      return { success: false, error: NOT_CONFIGURED };
+    }
+
+    const { error } = await supabase
+      .from("bad_habits")
+      .update({ ...updates, updated_at: new Date().toISOString() })
+      .eq("id", badHabitId);
+
+    return { success: !error, error: error?.message ?? null };
+  },
+
+  async fetchBadHabitLogs(userId, filter = {}) {
+    if (!isSupabaseConfigured) {
+      return { logs: [], error: NOT_CONFIGURED };
+    }
+
+    const { rows, error } = await fetchAllPages((from, to) => {
+      let query = supabase
+        .from("bad_habit_logs")
+        .select("*")
+        .eq("user_id", userId);
+      if (filter.from) query = query.gte("date", filter.from);
+      if (filter.to) query = query.lte("date", filter.to);
+      if (filter.updatedSince) {
+        query = query.gte("updated_at", filter.updatedSince);
+      }
+      return query
+        .order("created_at", { ascending: false })
+        .order("id")
+        .range(from, to);
+    });
+
+    return { logs: rows, error };
+  },
+
+  async upsertBadHabitLog(userId, log) {
+    if (!isSupabaseConfigured) {
+      return { log: null, error: NOT_CONFIGURED };
+    }
+
+    // Upsert so a log that exists but was undone is reused for the day
+    const { data, error } = await supabase
+      .from("bad_habit_logs")
+      .upsert(
+        {
+          ...log,
+          user_id: userId,
+          updated_at: new Date().toISOString(),
+        },
+        { onConflict: "bad_habit_id,date" },
+      )
+      .select()
+      .single();
+
+    return { log: data, error: error?.message ?? null };
+  },
+
+  async undoBadHabitLog(target) {
+    if (!isSupabaseConfigured) {
+      return { success: false, error: NOT_CONFIGURED };
+    }
+
+    let query = supabase
+      .from("bad_habit_logs")
+      .update({ is_undone: true, updated_at: new Date().toISOString() });
+    query =
+      "logId" in target
+        ? query.eq("id", target.logId)
+        : query.eq("bad_habit_id", target.badHabitId).eq("date", target.date);
+    const { error } = await query;
+
+    return { success: !error, error: error?.message ?? null };
+  },
+
+  // One Realtime channel for all tables. RLS already limits the stream to the
+  // user's rows; the filter saves the server from checking everyone else's.
+  // Realtime can't filter deletes, but the app archives instead of deleting.
+  subscribeToChanges(userId, onChange, onStatus) {
+    if (!isSupabaseConfigured) {
+      return () => {};
+    }
+
+    // Realtime cannot filter DELETE events by user_id, and the app never
+    // deletes rows outside account deletion, so only writes are streamed
+    const channel = supabase.channel(`user-data:${userId}`);
+    for (const table of REALTIME_TABLES) {
+      const filter = {
+        schema: "public",
+        table,
+        filter: `user_id=eq.${userId}`,
+      };
+      const forward = (payload: { new: object }) => {
+        onChange({ type: "upsert", table, row: payload.new } as RemoteChange);
+      };
+      channel
+        .on("postgres_changes", { event: "INSERT", ...filter }, forward)
+        .on("postgres_changes", { event: "UPDATE", ...filter }, forward);
+    }
+
+    channel.subscribe((status, error) => {
+      if (status === "SUBSCRIBED") {
+        onStatus?.("connected");
+      } else {
+        if (error) console.log("[Realtime] Channel", status, error.message);
+        onStatus?.("disconnected");
+      }
+    });
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  },
+
+  // Needs the service role (to remove the auth user), so it runs on the server
+  async deleteAccount() {
+    return requestAccountDeletion();
+  },
+};
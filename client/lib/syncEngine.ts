@@ -0,0 +1,1076 @@
+import {
+  Habit,
+  UnitLog,
+  BadHabit,
+  BadHabitLog,
+  UnitEvent,
+  UserDataSnapshot,
+  PendingMutation,
+  NotificationUnitLog,
+  SyncState,
+  generateId,
+  getPendingMutations,
+  removePendingMutation,
+  incrementPendingMutationAttempts,
+} from "@/lib/storage";
+import {
+  fetchAllHabits,
+  fetchHabitLogs,
+  fetchBadHabits,
+  fetchBadHabitLogs,
+  fetchUnitEvents,
+  replayPendingMutation,
+  isNetworkError,
+  HabitWithProgress,
+  DbHabit,
+  DbHabitLog,
+  DbBadHabit,
+  DbBadHabitLog,
+  DbUnitEvent,
+} from "@/lib/habitService";
+import { addDays, getTodayDate } from "@/lib/dates";
+import type { DateRange, RemoteChange, RowFilter } from "@/lib/habitRepository";
+
+// The device store (AsyncStorage) is the primary copy of user data. Sync is two steps:
+//   push - replay the outbox of local writes to Supabase, in order
+//   pull - fetch the server rows written since the last sync and merge them into the
+//          local store, row by row. The server copy wins unless the row still has a
+//          write in the outbox, so the last write to reach the server wins no matter
+//          how the device clocks are set
+
+// A queued write that keeps failing for non-network reasons is dropped after this many tries
+const MAX_REPLAY_ATTEMPTS = 5;
+
+// ============================================================================
+// DB ROW CONVERTERS
+// ============================================================================
+
+export function dbHabitToLocal(dbHabit: DbHabit | HabitWithProgress): Habit {
+  return {
+    id: dbHabit.id,
+    name: dbHabit.name,
+    icon: dbHabit.icon,
+    color: dbHabit.color,
+    unitName: dbHabit.unit_name,
+    dailyGoal: dbHabit.daily_goal,
+    goalPeriod: dbHabit.goal_period ?? "day",
+    schedule: dbHabit.schedule ?? null,
+    reminderTimes: dbHabit.reminder_times ?? [],
+    tapIncrement: dbHabit.tap_increment,
+    habitType: dbHabit.habit_type,
+    createdAt: dbHabit.created_at,
+    isArchived: dbHabit.is_archived,
+    updatedAt: dbHabit.updated_at,
+  };
+}
+
+export function dbLogToLocal(dbLog: DbHabitLog): UnitLog {
+  return {
+    id: dbLog.id,
+    habitId: dbLog.habit_id,
+    count: dbLog.count,
+    date: dbLog.date,
+    createdAt: dbLog.created_at,
+    updatedAt: dbLog.updated_at,
+  };
+}
+
+export function dbBadHabitToLocal(dbBadHabit: DbBadHabit): BadHabit {
+  return {
+    id: dbBadHabit.id,
+    name: dbBadHabit.name,
+    createdAt: dbBadHabit.created_at,
+    isArchived: dbBadHabit.is_archived,
+    updatedAt: dbBadHabit.updated_at,
+  };
+}
+
+export function dbBadHabitLogToLocal(dbLog: DbBadHabitLog): BadHabitLog {
+  return {
+    id: dbLog.id,
+    badHabitId: dbLog.bad_habit_id,
+    count: dbLog.count,
+    date: dbLog.date,
+    createdAt: dbLog.created_at,
+    penaltyAdjustments: [],
+    penaltyUnits: dbLog.penalty_units,
+    isUndone: dbLog.is_undone,
+    updatedAt: dbLog.updated_at,
+  };
+}
+
+export function dbUnitEventToLocal(dbEvent: DbUnitEvent): UnitEvent {
+  return {
+    id: dbEvent.id,
+    habitId: dbEvent.habit_id,
+    date: dbEvent.date,
+    delta: dbEvent.delta,
+    source: dbEvent.source,
+    timestamp: dbEvent.occurred_at,
+  };
+}
+
+// ============================================================================
+// PUSH
+// ============================================================================
+
+// Daily rows are unique per (habit, date)
+const logKey = (habitId: string, date: string) => `${habitId}|${date}`;
+
+// Events are append-only, so merging is a union by id. The server copy wins for
+// ids both sides have (it holds the delta that was actually applied); local-only
+// events survive while the write that carries them is still queued.
+function mergeUnitEvents(
+  local: UnitEvent[],
+  remote: UnitEvent[],
+  pendingEventIds: Set<string>,
+): UnitEvent[] {
+  const remoteIds = new Set(remote.map((event) => event.id));
+  const localOnly = local.filter(
+    (event) => !remoteIds.has(event.id) && pendingEventIds.has(event.id),
+  );
+  return [...remote, ...localOnly].sort((a, b) =>
+    a.timestamp.localeCompare(b.timestamp),
+  );
+}
+
+// Server-side count for a habit/day returned by the increment/set RPCs
+export interface ConfirmedCount {
+  habitId: string;
+  date: string;
+  count: number;
+}
+
+export interface PushResult {
+  remaining: number;
+  // Only days with no further queued writes, so the count is safe to adopt as-is
+  confirmedCounts: ConfirmedCount[];
+}
+
+let activePush: Promise<PushResult> | null = null;
+
+/**
+ * Replay the outbox in order. Stops at the first failure so later writes never
+ * overtake earlier ones; network failures are retried later without counting
+ * as an attempt. Resolves with the number of changes still pending.
+ */
+export function pushPendingMutations(userId: string): Promise<PushResult> {
+  if (activePush) return activePush;
+
+  const push = async (): Promise<PushResult> => {
+    const confirmed = new Map<string, ConfirmedCount>();
+    try {
+      while (true) {
+        const [next] = await getPendingMutations();
+        if (!next) break;
+
+        const { success, error, newCount } = await replayPendingMutation(
+          userId,
+          next,
+        );
+        if (success) {
+          await removePendingMutation(next.id);
+          if (
+            (next.type === "add_units" || next.type === "set_units") &&
+            typeof newCount === "number"
+          ) {
+            // Later writes to the same day overwrite earlier results
+            confirmed.set(logKey(next.habitId, next.date), {
+              habitId: next.habitId,
+              date: next.date,
+              count: newCount,
+            });
+          }
+          continue;
+        }
+
+        if (error && isNetworkError(error)) {
+          console.log("[Sync] Push paused - offline:", error);
+          break;
+        }
+
+        if (next.attempts + 1 >= MAX_REPLAY_ATTEMPTS) {
+          console.error(
+            "[Sync] Dropping pending change after",
+            MAX_REPLAY_ATTEMPTS,
+            "attempts:",
+            next.type,
+            error,
+          );
+          await removePendingMutation(next.id);
+          continue;
+        }
+
+        console.warn(
+          "[Sync] Pending change failed, will retry:",
+          next.type,
+          error,
+        );
+        await incrementPendingMutationAttempts(next.id);
+        break;
+      }
+    } catch (error) {
+      console.error("[Sync] Error pushing pending changes:", error);
+    } finally {
+      activePush = null;
+    }
+    const remaining = await getPendingMutations();
+    for (const mutation of remaining) {
+      if (mutation.type === "add_units" || mutation.type === "set_units") {
+        confirmed.delete(logKey(mutation.habitId, mutation.date));
+      }
+    }
+    return {
+      remaining: remaining.length,
+      confirmedCounts: Array.from(confirmed.values()),
+    };
+  };
+
+  activePush = push();
+  return activePush;
+}
+
+/**
+ * Adopt server counts returned by the atomic increment. Units added from another
+ * device in the meantime show up here instead of waiting for the next full pull.
+ */
+export function reconcileConfirmedCounts(
+  logs: UnitLog[],
+  confirmed: ConfirmedCount[],
+): UnitLog[] {
+  let result = logs;
+  for (const { habitId, date, count } of confirmed) {
+    const dayLogs = result.filter(
+      (l) => l.habitId === habitId && l.date === date,
+    );
+    const localCount = dayLogs.reduce((sum, l) => sum + l.count, 0);
+    if (localCount === count) continue;
+
+    console.log(
+      "[Sync] Reconciling",
+      habitId,
+      date,
+      "local",
+      localCount,
+      "-> server",
+      count,
+    );
+    const now = new Date().toISOString();
+    const [first] = dayLogs;
+    result = [
+      ...result.filter((l) => !(l.habitId === habitId && l.date === date)),
+      first
+        ? { ...first, count, updatedAt: now }
+        : {
+            id: generateId(),
+            habitId,
+            date,
+            count,
+            createdAt: now,
+            updatedAt: now,
+          },
+    ];
+  }
+  return result;
+}
+
+/**
+ * Fold units logged from notification actions into the local store. Each entry
+ * adds its count and event; entries whose write already went through then adopt
+ * the server total, like the counts confirmed by a push.
+ */
+export function applyNotificationUnitLogs(
+  logs: UnitLog[],
+  unitEvents: UnitEvent[],
+  entries: NotificationUnitLog[],
+): { logs: UnitLog[]; unitEvents: UnitEvent[] } {
+  let nextLogs = logs;
+  const confirmed = new Map<string, ConfirmedCount>();
+  for (const { habitId, date, count, confirmedCount } of entries) {
+    const now = new Date().toISOString();
+    const existing = nextLogs.find(
+      (l) => l.habitId === habitId && l.date === date,
+    );
+    nextLogs = existing
+      ? nextLogs.map((l) =>
+          l === existing ? { ...l, count: l.count + count, updatedAt: now } : l,
+        )
+      : [
+          ...nextLogs,
+          { id: generateId(), habitId, date, count, createdAt: now },
+        ];
+    if (confirmedCount !== null) {
+      confirmed.set(logKey(habitId, date), {
+        habitId,
+        date,
+        count: confirmedCount,
+      });
+    }
+  }
+
+  const knownEventIds = new Set(unitEvents.map((event) => event.id));
+  const newEvents = entries
+    .map((entry) => entry.event)
+    .filter((event) => !knownEventIds.has(event.id));
+
+  return {
+    logs: reconcileConfirmedCounts(nextLogs, Array.from(confirmed.values())),
+    unitEvents: [...unitEvents, ...newEvents],
+  };
+}
+
+/**
+ * Fold a completed bulk import into the local store. Imports can cover years
+ * of history, so logs are indexed once rather than searched per event.
+ */
+export function applyImportedUnitEvents(
+  logs: UnitLog[],
+  unitEvents: UnitEvent[],
+  events: UnitEvent[],
+): { logs: UnitLog[]; unitEvents: UnitEvent[] } {
+  const now = new Date().toISOString();
+  const byKey = new Map(logs.map((l) => [logKey(l.habitId, l.date), l]));
+  for (const { habitId, date, delta } of events) {
+    const key = logKey(habitId, date);
+    const existing = byKey.get(key);
+    byKey.set(
+      key,
+      existing
+        ? { ...existing, count: existing.count + delta, updatedAt: now }
+        : { id: generateId(), habitId, date, count: delta, createdAt: now },
+    );
+  }
+
+  const knownEventIds = new Set(unitEvents.map((event) => event.id));
+  return {
+    logs: Array.from(byKey.values()),
+    unitEvents: [
+      ...unitEvents,
+      ...events.filter((event) => !knownEventIds.has(event.id)),
+    ],
+  };
+}
+
+// ============================================================================
+// PULL
+// ============================================================================
+// The first sync of a store downloads every habit and bad habit but only the
+// most recent days of logs and events. After that each pull asks for the rows
+// written since the sync cursor, the latest server timestamp seen so far. Logs
+// older than the first window are fetched a page at a time when a screen
+// needs them (pullHistoryPage).
+
+export const INITIAL_HISTORY_DAYS = 90;
+export const HISTORY_PAGE_DAYS = 90;
+
+// Rows are stamped with the time their transaction started, so one committed
+// just after a pull can carry a time before the cursor. Re-reading a few
+// minutes costs little; the merge ignores rows the store already has.
+const CURSOR_OVERLAP_MS = 5 * 60 * 1000;
+
+export type HistoryPage = Pick<
+  UserDataSnapshot,
+  "logs" | "badHabitLogs" | "unitEvents"
+>;
+
+export interface HistoryRange {
+  from: string;
+  to: string;
+}
+
+// Tables may not exist yet on a fresh Supabase project
+function isTableNotFoundError(error: string): boolean {
+  return error.includes("Could not find") || error.includes("does not exist");
+}
+
+// The first real failure, or null when every fetch succeeded (or hit a missing table)
+function firstFetchError(
+  results: { label: string; error: string | null }[],
+): string | null {
+  for (const { label, error } of results) {
+    if (!error) continue;
+    if (isTableNotFoundError(error)) {
+      console.log(`[Sync] ${label} table not found - using empty data`);
+    } else {
+      console.warn(`[Sync] Error fetching ${label}:`, error);
+      return error;
+    }
+  }
+  return null;
+}
+
+// Server clock, so a device with a wrong clock can't skip rows
+function latestWrite(
+  timestamps: string[],
+  previous: string | null,
+): string | null {
+  let latest = previous ? Date.parse(previous) : 0;
+  for (const timestamp of timestamps) {
+    const time = Date.parse(timestamp);
+    if (time > latest) latest = time;
+  }
+  return latest > 0 ? new Date(latest).toISOString() : null;
+}
+
+/**
+ * Fetch the user's rows, including archived habits so deletions made on
+ * another device win over a stale local copy. filter.updatedSince limits every
+ * table to rows written since then; a date range only applies to logs and
+ * events. cursor is the latest server write among the rows, null when there
+ * were none. Returns a null snapshot when the server can't be reached.
+ */
+export async function pullRemoteSnapshot(
+  userId: string,
+  filter: RowFilter = {},
+): Promise<{
+  snapshot: UserDataSnapshot | null;
+  cursor: string | null;
+  error: string | null;
+}> {
+  const listOptions = {
+    includeArchived: true,
+    updatedSince: filter.updatedSince,
+  };
+  const [
+    habitsResult,
+    logsResult,
+    badHabitsResult,
+    badHabitLogsResult,
+    unitEventsResult,
+  ] = await Promise.all([
+    fetchAllHabits(userId, listOptions),
+    fetchHabitLogs(userId, filter),
+    fetchBadHabits(userId, listOptions),
+    fetchBadHabitLogs(userId, filter),
+    fetchUnitEvents(userId, filter),
+  ]);
+
+  const error = firstFetchError([
+    { label: "habits", error: habitsResult.error },
+    { label: "habit logs", error: logsResult.error },
+    { label: "bad habits", error: badHabitsResult.error },
+    { label: "bad habit logs", error: badHabitLogsResult.error },
+    { label: "unit events", error: unitEventsResult.error },
+  ]);
+  if (error) {
+    return { snapshot: null, cursor: null, error };
+  }
+
+  return {
+    snapshot: {
+      habits: habitsResult.habits.map(dbHabitToLocal),
+      logs: logsResult.logs.map(dbLogToLocal),
+      badHabits: badHabitsResult.badHabits.map(dbBadHabitToLocal),
+      badHabitLogs: badHabitLogsResult.logs.map(dbBadHabitLogToLocal),
+      unitEvents: unitEventsResult.events.map(dbUnitEventToLocal),
+    },
+    cursor: latestWrite(
+      [
+        ...habitsResult.habits.map((row) => row.updated_at),
+        ...logsResult.logs.map((row) => row.updated_at),
+        ...badHabitsResult.badHabits.map((row) => row.updated_at),
+        ...badHabitLogsResult.logs.map((row) => row.updated_at),
+        ...unitEventsResult.events.map((row) => row.created_at),
+      ],
+      null,
+    ),
+    error: null,
+  };
+}
+
+/** Logs, bad habit logs and unit events dated within the range */
+export async function pullHistoryPage(
+  userId: string,
+  range: HistoryRange,
+): Promise<{ page: HistoryPage | null; error: string | null }> {
+  const [logsResult, badHabitLogsResult, unitEventsResult] = await Promise.all([
+    fetchHabitLogs(userId, range),
+    fetchBadHabitLogs(userId, range),
+    fetchUnitEvents(userId, range),
+  ]);
+
+  const error = firstFetchError([
+    { label: "habit logs", error: logsResult.error },
+    { label: "bad habit logs", error: badHabitLogsResult.error },
+    { label: "unit events", error: unitEventsResult.error },
+  ]);
+  if (error) {
+    return { page: null, error };
+  }
+
+  return {
+    page: {
+      logs: logsResult.logs.map(dbLogToLocal),
+      badHabitLogs: badHabitLogsResult.logs.map(dbBadHabitLogToLocal),
+      unitEvents: unitEventsResult.events.map(dbUnitEventToLocal),
+    },
+    error: null,
+  };
+}
+
+// ============================================================================
+// MERGE (server copy wins unless a write is still queued)
+// ============================================================================
+// Optimistic writes stamp updatedAt with the device clock, while the server
+// stamps updated_at itself (migration 017), so the two can't be compared: a
+// device running ahead would keep stale rows forever. Once a write has landed
+// the server copy includes it, so every row without a queued write adopts the
+// server's version, timestamp included.
+
+function clock(row: { updatedAt?: string; createdAt: string }): number {
+  return Date.parse(row.updatedAt ?? row.createdAt) || 0;
+}
+
+// Rows with a write still in the outbox keep their local version - the server
+// copy is stale by definition until the push lands.
+function mergeEntities<
+  T extends {
+    id: string;
+    isArchived: boolean;
+    updatedAt?: string;
+    createdAt: string;
+  },
+>(
+  local: T[],
+  remote: T[],
+  pendingWrites: Set<string>,
+  pendingDeletes: Set<string>,
+): T[] {
+  const localById = new Map(local.map((row) => [row.id, row]));
+  const remoteIds = new Set(remote.map((row) => row.id));
+  const merged: T[] = [];
+
+  for (const remoteRow of remote) {
+    const localRow = localById.get(remoteRow.id);
+    let winner: T | null;
+    if (localRow) {
+      winner = pendingWrites.has(localRow.id) ? localRow : remoteRow;
+    } else {
+      // Missing locally: either deleted here (delete still queued) or new from another device
+      winner = pendingDeletes.has(remoteRow.id) ? null : remoteRow;
+    }
+    if (winner && !winner.isArchived) merged.push(winner);
+  }
+
+  // Rows the server has never seen survive only while their create is still queued
+  for (const localRow of local) {
+    if (!remoteIds.has(localRow.id) && pendingWrites.has(localRow.id)) {
+      merged.push(localRow);
+    }
+  }
+
+  return merged;
+}
+
+// The tables hold one row per (habit, date); the local store may hold several
+// entries for a day, so they are folded into one before comparing.
+function mergeDailyRows<
+  T extends { updatedAt?: string; createdAt: string; date: string },
+>(
+  local: T[],
+  remote: T[],
+  keyOf: (row: T) => string,
+  fold: (existing: T, row: T) => T,
+  pendingKeys: Set<string>,
+): T[] {
+  const localByKey = new Map<string, T>();
+  for (const row of local) {
+    const key = keyOf(row);
+    const existing = localByKey.get(key);
+    localByKey.set(key, existing ? fold(existing, row) : row);
+  }
+
+  const merged = new Map<string, T>();
+  for (const remoteRow of remote) {
+    const key = keyOf(remoteRow);
+    const localRow = localByKey.get(key);
+    if (pendingKeys.has(key)) {
+      // Removing every unit drops the local entry; the queued write zeroes the row
+      if (localRow) merged.set(key, localRow);
+    } else {
+      merged.set(key, remoteRow);
+    }
+  }
+
+  for (const [key, localRow] of localByKey) {
+    if (!merged.has(key) && pendingKeys.has(key)) {
+      merged.set(key, localRow);
+    }
+  }
+
+  return Array.from(merged.values());
+}
+
+// Rows and days with a write still in the outbox
+interface PendingKeys {
+  habitWrites: Set<string>;
+  habitDeletes: Set<string>;
+  badHabitWrites: Set<string>;
+  badHabitDeletes: Set<string>;
+  logKeys: Set<string>;
+  badLogKeys: Set<string>;
+  eventIds: Set<string>;
+}
+
+function collectPendingKeys(pending: PendingMutation[]): PendingKeys {
+  const pendingHabitWrites = new Set<string>();
+  const pendingHabitDeletes = new Set<string>();
+  const pendingBadHabitWrites = new Set<string>();
+  const pendingBadHabitDeletes = new Set<string>();
+  const pendingLogKeys = new Set<string>();
+  const pendingBadLogKeys = new Set<string>();
+  const pendingEventIds = new Set<string>();
+
+  for (const mutation of pending) {
+    switch (mutation.type) {
+      case "create_habit":
+        pendingHabitWrites.add(mutation.habit.id);
+        break;
+      case "update_habit":
+        pendingHabitWrites.add(mutation.habitId);
+        break;
+      case "delete_habit":
+        pendingHabitDeletes.add(mutation.habitId);
+        break;
+      case "add_units":
+      case "set_units":
+        pendingLogKeys.add(logKey(mutation.habitId, mutation.date));
+        if (mutation.event) pendingEventIds.add(mutation.event.id);
+        break;
+      case "create_bad_habit":
+        pendingBadHabitWrites.add(mutation.badHabit.id);
+        break;
+      case "delete_bad_habit":
+        pendingBadHabitDeletes.add(mutation.badHabitId);
+        break;
+      case "restore_bad_habit":
+        pendingBadHabitWrites.add(mutation.badHabitId);
+        pendingBadHabitDeletes.delete(mutation.badHabitId);
+        break;
+      case "tap_bad_habit":
+      case "undo_bad_habit_tap":
+        pendingBadLogKeys.add(logKey(mutation.badHabitId, mutation.date));
+        break;
+    }
+  }
+
+  return {
+    habitWrites: pendingHabitWrites,
+    habitDeletes: pendingHabitDeletes,
+    badHabitWrites: pendingBadHabitWrites,
+    badHabitDeletes: pendingBadHabitDeletes,
+    logKeys: pendingLogKeys,
+    badLogKeys: pendingBadLogKeys,
+    eventIds: pendingEventIds,
+  };
+}
+
+function foldLogs(existing: UnitLog, log: UnitLog): UnitLog {
+  return {
+    ...existing,
+    count: existing.count + log.count,
+    updatedAt:
+      clock(log) > clock(existing)
+        ? (log.updatedAt ?? log.createdAt)
+        : existing.updatedAt,
+  };
+}
+
+function foldBadHabitLogs(
+  existing: BadHabitLog,
+  log: BadHabitLog,
+): BadHabitLog {
+  return clock(log) > clock(existing) ? log : existing;
+}
+
+const habitLogKey = (log: UnitLog) => logKey(log.habitId, log.date);
+const badHabitLogKey = (log: BadHabitLog) => logKey(log.badHabitId, log.date);
+
+const byTimestamp = (a: UnitEvent, b: UnitEvent) =>
+  a.timestamp.localeCompare(b.timestamp);
+
+function isInWindow(row: { date: string }, window: DateRange): boolean {
+  return (
+    (!window.from || row.date >= window.from) &&
+    (!window.to || row.date <= window.to)
+  );
+}
+
+// A pull covers every row dated within its window. Local rows outside it were
+// not part of the pull and are kept as they are.
+function mergeDailyTables(
+  local: HistoryPage,
+  remote: HistoryPage,
+  keys: PendingKeys,
+  window: DateRange,
+): HistoryPage {
+  const outside = {
+    logs: local.logs.filter((row) => !isInWindow(row, window)),
+    badHabitLogs: local.badHabitLogs.filter((row) => !isInWindow(row, window)),
+    unitEvents: local.unitEvents.filter((row) => !isInWindow(row, window)),
+  };
+
+  return {
+    logs: [
+      ...outside.logs,
+      ...mergeDailyRows(
+        local.logs.filter((row) => isInWindow(row, window)),
+        remote.logs,
+        habitLogKey,
+        foldLogs,
+        keys.logKeys,
+      ),
+    ],
+    badHabitLogs: [
+      ...outside.badHabitLogs,
+      ...mergeDailyRows(
+        local.badHabitLogs.filter((row) => isInWindow(row, window)),
+        remote.badHabitLogs,
+        badHabitLogKey,
+        foldBadHabitLogs,
+        keys.badLogKeys,
+      ),
+    ],
+    unitEvents: [
+      ...outside.unitEvents,
+      ...mergeUnitEvents(
+        local.unitEvents.filter((row) => isInWindow(row, window)),
+        remote.unitEvents,
+        keys.eventIds,
+      ),
+    ].sort(byTimestamp),
+  };
+}
+
+/**
+ * Merge a full pull into the local store. `window` is the date range the
+ * pull's logs and events were fetched for; without one the remote copy is
+ * taken to hold the user's whole history.
+ */
+export function mergeSnapshots(
+  local: UserDataSnapshot,
+  remote: UserDataSnapshot,
+  pending: PendingMutation[],
+  window: DateRange = {},
+): UserDataSnapshot {
+  const keys = collectPendingKeys(pending);
+
+  return {
+    habits: mergeEntities(
+      local.habits,
+      remote.habits,
+      keys.habitWrites,
+      keys.habitDeletes,
+    ),
+    badHabits: mergeEntities(
+      local.badHabits,
+      remote.badHabits,
+      keys.badHabitWrites,
+      keys.badHabitDeletes,
+    ),
+    ...mergeDailyTables(local, remote, keys, window),
+  };
+}
+
+/** Merge one page of older history into the local store */
+export function mergeHistoryPage(
+  local: UserDataSnapshot,
+  page: HistoryPage,
+  range: HistoryRange,
+  pending: PendingMutation[],
+): UserDataSnapshot {
+  return {
+    ...local,
+    ...mergeDailyTables(local, page, collectPendingKeys(pending), range),
+  };
+}
+
+// ============================================================================
+// CHANGES
+// ============================================================================
+// Rows written since the cursor (an incremental pull) or streamed by Realtime.
+// They are a subset of the server's rows, so nothing is dropped for being
+// absent; each row is merged by the same rules as a full pull. This device's
+// own writes come back too; they are skipped while still in the outbox (the
+// local copy is ahead of them) and once landed they only carry the values the
+// device already shows. The functions return their input array itself when
+// nothing changed, so callers can skip the state update.
+
+function mergeChangedEntities<
+  T extends {
+    id: string;
+    isArchived: boolean;
+    updatedAt?: string;
+    createdAt: string;
+  },
+>(
+  rows: T[],
+  changed: T[],
+  pendingWrites: Set<string>,
+  pendingDeletes: Set<string>,
+): T[] {
+  const byId = new Map(rows.map((row) => [row.id, row]));
+  let modified = false;
+  for (const remoteRow of changed) {
+    if (pendingWrites.has(remoteRow.id) || pendingDeletes.has(remoteRow.id)) {
+      continue;
+    }
+    const localRow = byId.get(remoteRow.id);
+    // Archived rows are not kept locally, as in mergeEntities
+    if (remoteRow.isArchived) {
+      if (localRow) {
+        byId.delete(remoteRow.id);
+        modified = true;
+      }
+    } else {
+      byId.set(remoteRow.id, remoteRow);
+      modified = true;
+    }
+  }
+  return modified ? Array.from(byId.values()) : rows;
+}
+
+function mergeChangedDailyRows<
+  T extends { updatedAt?: string; createdAt: string; date: string },
+>(
+  rows: T[],
+  changed: T[],
+  keyOf: (row: T) => string,
+  pendingKeys: Set<string>,
+): T[] {
+  const byKey = new Map<string, T[]>();
+  for (const row of rows) {
+    const dayRows = byKey.get(keyOf(row));
+    if (dayRows) {
+      dayRows.push(row);
+    } else {
+      byKey.set(keyOf(row), [row]);
+    }
+  }
+
+  let modified = false;
+  for (const remoteRow of changed) {
+    const key = keyOf(remoteRow);
+    if (pendingKeys.has(key)) continue;
+    byKey.set(key, [remoteRow]);
+    modified = true;
+  }
+  return modified ? Array.from(byKey.values()).flat() : rows;
+}
+
+function insertUnitEvents(
+  events: UnitEvent[],
+  added: UnitEvent[],
+): UnitEvent[] {
+  const knownIds = new Set(events.map((event) => event.id));
+  const newEvents = added.filter((event) => !knownIds.has(event.id));
+  // Both lists are already in order, which the sort handles in linear time
+  return newEvents.length > 0
+    ? [...events, ...newEvents].sort(byTimestamp)
+    : events;
+}
+
+/**
+ * Merge the rows of an incremental pull into the local store. Returns `local`
+ * itself when nothing changed.
+ */
+export function mergeRemoteChanges(
+  local: UserDataSnapshot,
+  changes: UserDataSnapshot,
+  pending: PendingMutation[],
+): UserDataSnapshot {
+  const keys = collectPendingKeys(pending);
+  const merged: UserDataSnapshot = {
+    habits: mergeChangedEntities(
+      local.habits,
+      changes.habits,
+      keys.habitWrites,
+      keys.habitDeletes,
+    ),
+    logs: mergeChangedDailyRows(
+      local.logs,
+      changes.logs,
+      habitLogKey,
+      keys.logKeys,
+    ),
+    badHabits: mergeChangedEntities(
+      local.badHabits,
+      changes.badHabits,
+      keys.badHabitWrites,
+      keys.badHabitDeletes,
+    ),
+    badHabitLogs: mergeChangedDailyRows(
+      local.badHabitLogs,
+      changes.badHabitLogs,
+      badHabitLogKey,
+      keys.badLogKeys,
+    ),
+    unitEvents: insertUnitEvents(local.unitEvents, changes.unitEvents),
+  };
+  const unchanged = (Object.keys(merged) as (keyof UserDataSnapshot)[]).every(
+    (table) => merged[table] === local[table],
+  );
+  return unchanged ? local : merged;
+}
+
+// ============================================================================
+// REALTIME
+// ============================================================================
+
+/**
+ * Merge one streamed change into the local store. Returns `local` itself when
+ * nothing changed, so callers can skip the state update.
+ */
+export function applyRemoteChange(
+  local: UserDataSnapshot,
+  change: RemoteChange,
+  pending: PendingMutation[],
+): UserDataSnapshot {
+  const keys = collectPendingKeys(pending);
+  const withTable = <K extends keyof UserDataSnapshot>(
+    table: K,
+    rows: UserDataSnapshot[K],
+  ): UserDataSnapshot =>
+    rows === local[table] ? local : { ...local, [table]: rows };
+
+  switch (change.table) {
+    case "habits":
+      return withTable(
+        "habits",
+        mergeChangedEntities(
+          local.habits,
+          [dbHabitToLocal(change.row)],
+          keys.habitWrites,
+          keys.habitDeletes,
+        ),
+      );
+    case "habit_logs":
+      return withTable(
+        "logs",
+        mergeChangedDailyRows(
+          local.logs,
+          [dbLogToLocal(change.row)],
+          habitLogKey,
+          keys.logKeys,
+        ),
+      );
+    case "bad_habits":
+      return withTable(
+        "badHabits",
+        mergeChangedEntities(
+          local.badHabits,
+          [dbBadHabitToLocal(change.row)],
+          keys.badHabitWrites,
+          keys.badHabitDeletes,
+        ),
+      );
+    case "bad_habit_logs":
+      return withTable(
+        "badHabitLogs",
+        mergeChangedDailyRows(
+          local.badHabitLogs,
+          [dbBadHabitLogToLocal(change.row)],
+          badHabitLogKey,
+          keys.badLogKeys,
+        ),
+      );
+    case "unit_events":
+      return withTable(
+        "unitEvents",
+        insertUnitEvents(local.unitEvents, [dbUnitEventToLocal(change.row)]),
+      );
+  }
+}
+
+// ============================================================================
+// SYNC
+// ============================================================================
+
+function logMerge(
+  kind: string,
+  snapshot: UserDataSnapshot,
+  pending: PendingMutation[],
+) {
+  console.log(
+    `[Sync] Merged ${kind}:`,
+    snapshot.habits.length,
+    "habits,",
+    snapshot.logs.length,
+    "logs,",
+    snapshot.badHabits.length,
+    "bad habits,",
+    snapshot.badHabitLogs.length,
+    "bad habit logs,",
+    snapshot.unitEvents.length,
+    "unit events",
+    pending.length > 0 ? `(${pending.length} pending changes)` : "",
+  );
+}
+
+/**
+ * Push queued writes, pull what changed on the server and merge it with the
+ * current local store. Without a cursor (a new store) the pull covers every
+ * habit and the last INITIAL_HISTORY_DAYS of logs; otherwise only rows written
+ * since the cursor. getLocal is read after the network round trip so taps made
+ * while the sync was in flight are part of the merge. A null snapshot means
+ * the pull failed (usually offline) and the local store should be left as it
+ * is. syncState holds the fields of the sync state this sync moved forward.
+ */
+export async function syncUserData(
+  userId: string,
+  getLocal: () => UserDataSnapshot,
+  state: SyncState,
+): Promise<{
+  snapshot: UserDataSnapshot | null;
+  syncState: Partial<SyncState>;
+  pendingCount: number;
+  error: string | null;
+}> {
+  const { remaining: pendingCount } = await pushPendingMutations(userId);
+
+  if (state.cursor) {
+    const updatedSince = new Date(
+      Date.parse(state.cursor) - CURSOR_OVERLAP_MS,
+    ).toISOString();
+    const {
+      snapshot: changes,
+      cursor,
+      error,
+    } = await pullRemoteSnapshot(userId, { updatedSince });
+    if (!changes) {
+      return { snapshot: null, syncState: {}, pendingCount, error };
+    }
+
+    const pending = await getPendingMutations();
+    const snapshot = mergeRemoteChanges(getLocal(), changes, pending);
+    logMerge("changes", snapshot, pending);
+    return {
+      snapshot,
+      syncState: { cursor: latestWrite(cursor ? [cursor] : [], state.cursor) },
+      pendingCount: pending.length,
+      error: null,
+    };
+  }
+
+  const historyStart = addDays(getTodayDate(), 1 - INITIAL_HISTORY_DAYS);
+  const {
+    snapshot: remote,
+    cursor,
+    error,
+  } = await pullRemoteSnapshot(userId, { from: historyStart });
+  if (!remote) {
+    return { snapshot: null, syncState: {}, pendingCount, error };
+  }
+
+  const pending = await getPendingMutations();
+  const snapshot = mergeSnapshots(getLocal(), remote, pending, {
+    from: historyStart,
+  });
+  logMerge("snapshot", snapshot, pending);
+  return {
+    snapshot,
+    syncState: { cursor, historyStart },
+    pendingCount: pending.length,
+    error: null,
+  };
+}
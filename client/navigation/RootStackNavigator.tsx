@@ -29,18 +29,26 @@
  *    - Show Auth screen (Sign In) first
  *    - After sign in → validate subscription → allow if active, else paywall
  * 
+ * F. Password recovery link opened:
+ *    - The link signs the user in → Set New Password before anything else
+ *    - After saving (or "Not Now") → continue with the checks above
+ * 
  * ============================================================================
  */
 
 import React, { useEffect, useState, useCallback, useRef } from "react";
-import { View, ActivityIndicator, AppState, AppStateStatus } from "react-native";
+import { View, ActivityIndicator, AppState, AppStateStatus, Alert } from "react-native";
 import { createNativeStackNavigator } from "@react-navigation/native-stack";
 import MainTabNavigator from "@/navigation/MainTabNavigator";
 import NewHabitScreen from "@/screens/NewHabitScreen";
 import QuickAddScreen from "@/screens/QuickAddScreen";
+import ImportDataScreen from "@/screens/ImportDataScreen";
 import PaywallScreen from "@/screens/PaywallScreen";
 import OnboardingScreen from "@/screens/OnboardingScreen";
 import AuthScreen from "@/screens/AuthScreen";
+import ForgotPasswordScreen from "@/screens/ForgotPasswordScreen";
+import SetNewPasswordScreen from "@/screens/SetNewPasswordScreen";
+import ChangeEmailScreen from "@/screens/ChangeEmailScreen";
 import { useScreenOptions } from "@/hooks/useScreenOptions";
 import { useUnits } from "@/lib/UnitsContext";
 import { useAuth } from "@/lib/AuthContext";
@@ -49,10 +57,14 @@ import { validateAndGrantAccess } from "@/lib/storekit";
 
 export type RootStackParamList = {
   Auth: { fromPaywall?: boolean; signInOnly?: boolean };
+  ForgotPassword: { email?: string };
+  SetNewPassword: undefined;
+  ChangeEmail: undefined;
   Main: undefined;
   Onboarding: undefined;
   NewHabit: undefined;
   QuickAdd: { habitId: string; mode?: "add" | "remove" };
+  ImportData: undefined;
   Paywall: { reason?: string; isFirstPaywall?: boolean };
 };
 
@@ -68,7 +80,14 @@ export default function RootStackNavigator() {
     loading: unitsLoading, 
     clearAllHabitData 
   } = useUnits();
-  const { session, user, loading: authLoading } = useAuth();
+  const {
+    session,
+    user,
+    loading: authLoading,
+    passwordRecovery,
+    authLinkNotice,
+    clearAuthLinkNotice,
+  } = useAuth();
   const { theme } = useTheme();
   
   // Validation state
@@ -162,6 +181,15 @@ export default function RootStackNavigator() {
     return () => subscription.remove();
   }, [user, runValidation]);
 
+  // Results of links from auth emails; shown here because they can arrive on
+  // any screen, signed in or not
+  useEffect(() => {
+    if (authLinkNotice) {
+      Alert.alert(authLinkNotice.title, authLinkNotice.message);
+      clearAuthLinkNotice();
+    }
+  }, [authLinkNotice, clearAuthLinkNotice]);
+
   const loading = unitsLoading || authLoading;
 
   // Debug logging
@@ -219,6 +247,14 @@ export default function RootStackNavigator() {
             }}
             initialParams={{ fromPaywall: true, signInOnly: true }}
           />
+          <Stack.Screen
+            name="ForgotPassword"
+            component={ForgotPasswordScreen}
+            options={{ 
+              headerShown: false,
+              gestureEnabled: true,
+            }}
+          />
         </Stack.Navigator>
       );
     }
@@ -236,12 +272,39 @@ export default function RootStackNavigator() {
           }}
           initialParams={{ fromPaywall: false, signInOnly: false }}
         />
+        <Stack.Screen
+          name="ForgotPassword"
+          component={ForgotPasswordScreen}
+          options={{ 
+            headerShown: false,
+            gestureEnabled: true,
+          }}
+        />
+      </Stack.Navigator>
+    );
+  }
+
+  // ============================================================================
+  // GATE 2: SIGNED IN FROM A PASSWORD RECOVERY LINK
+  // ============================================================================
+
+  if (passwordRecovery) {
+    return (
+      <Stack.Navigator screenOptions={screenOptions}>
+        <Stack.Screen
+          name="SetNewPassword"
+          component={SetNewPasswordScreen}
+          options={{ 
+            headerShown: false,
+            gestureEnabled: false,
+          }}
+        />
       </Stack.Navigator>
     );
   }
 
   // ============================================================================
-  // GATE 2: AUTHENTICATED - CHECK SUBSCRIPTION
+  // GATE 3: AUTHENTICATED - CHECK SUBSCRIPTION
   // ============================================================================
   
   // Show loading while validating subscription after login
@@ -297,6 +360,22 @@ export default function RootStackNavigator() {
           headerTitle: "Quick Add",
         }}
       />
+      <Stack.Screen
+        name="ImportData"
+        component={ImportDataScreen}
+        options={{
+          presentation: "modal",
+          headerTitle: "Import Data",
+        }}
+      />
+      <Stack.Screen
+        name="ChangeEmail"
+        component={ChangeEmailScreen}
+        options={{
+          presentation: "modal",
+          headerTitle: "Change Email",
+        }}
+      />
     </Stack.Navigator>
   );
 }
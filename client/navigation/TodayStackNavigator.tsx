@@ -4,12 +4,13 @@ import { useNavigation } from "@react-navigation/native";
 import { NativeStackNavigationProp } from "@react-navigation/native-stack";
 import { HeaderButton } from "@react-navigation/elements";
 import { Feather } from "@expo/vector-icons";
-import { View, Text, StyleSheet } from "react-native";
+import { View, Text, Pressable, StyleSheet } from "react-native";
 import TodayScreen from "@/screens/TodayScreen";
 import HabitDetailScreen from "@/screens/HabitDetailScreen";
 import { HeaderTitle } from "@/components/HeaderTitle";
 import { useScreenOptions } from "@/hooks/useScreenOptions";
 import { useTheme } from "@/hooks/useTheme";
+import { useTimers, formatTimerElapsed } from "@/lib/TimerContext";
 import { RootStackParamList } from "@/navigation/RootStackNavigator";
 
 export type TodayStackParamList = {
@@ -37,7 +38,51 @@ function AddHabitButton() {
   );
 }
 
+// Shows the running timer (or how many are running) next to the title; tapping
+// opens that habit
+function TodayHeaderTitle() {
+  const { theme } = useTheme();
+  const navigation = useNavigation<NativeStackNavigationProp<TodayStackParamList>>();
+  const { timers, getElapsedMs } = useTimers();
+  const running = timers.filter((t) => t.startedAt !== null);
+
+  return (
+    <View style={styles.titleRow}>
+      <HeaderTitle title="Units" />
+      {running.length > 0 ? (
+        <Pressable
+          onPress={() => navigation.navigate("HabitDetail", { habitId: running[0].habitId })}
+          style={[styles.timerBadge, { backgroundColor: theme.accent + "20" }]}
+        >
+          <Feather name="clock" size={12} color={theme.accent} />
+          <Text style={[styles.timerBadgeText, { color: theme.accent }]}>
+            {running.length === 1 ? formatTimerElapsed(getElapsedMs(running[0].habitId)) : `${running.length} timers`}
+          </Text>
+        </Pressable>
+      ) : null}
+    </View>
+  );
+}
+
 const styles = StyleSheet.create({
+  titleRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+  },
+  timerBadge: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 4,
+    paddingHorizontal: 8,
+    paddingVertical: 4,
+    borderRadius: 10,
+  },
+  timerBadgeText: {
+    fontSize: 13,
+    fontWeight: "600",
+    fontVariant: ["tabular-nums"],
+  },
   addButton: {
     flexDirection: "row",
     alignItems: "center",
@@ -58,7 +103,7 @@ export default function TodayStackNavigator() {
         name="Today"
         component={TodayScreen}
         options={{
-          headerTitle: () => <HeaderTitle title="Units" />,
+          headerTitle: () => <TodayHeaderTitle />,
           headerRight: () => <AddHabitButton />,
         }}
       />
@@ -1,11 +1,14 @@
-import React, { useState } from "react";
+import React, { useState, useEffect } from "react";
 import { View, StyleSheet, TextInput, Pressable, Alert, Modal, Linking } from "react-native";
 import { useSafeAreaInsets } from "react-native-safe-area-context";
 import { useNavigation, useRoute, RouteProp } from "@react-navigation/native";
+import { NativeStackNavigationProp } from "@react-navigation/native-stack";
 import { LinearGradient } from "expo-linear-gradient";
+import * as AppleAuthentication from "expo-apple-authentication";
 import { Feather } from "@expo/vector-icons";
 import Animated, { FadeIn, FadeInDown, FadeInUp } from "react-native-reanimated";
 import { useAuth } from "@/lib/AuthContext";
+import { isAppleSignInAvailable } from "@/lib/appleAuth";
 import { ThemedText } from "@/components/ThemedText";
 import { Button } from "@/components/Button";
 import { Spacing, BorderRadius } from "@/constants/theme";
@@ -19,9 +22,15 @@ type ScreenRouteProp = RouteProp<RootStackParamList, "Auth">;
 
 export default function AuthScreen() {
   const insets = useSafeAreaInsets();
-  const navigation = useNavigation();
+  const navigation = useNavigation<NativeStackNavigationProp<RootStackParamList>>();
   const route = useRoute<ScreenRouteProp>();
-  const { signIn, signUp } = useAuth();
+  const {
+    signIn,
+    signUp,
+    signInWithApple,
+    sendMagicLink,
+    completingAuthLink,
+  } = useAuth();
   
   const fromPaywall = route.params?.fromPaywall ?? false;
   const signInOnly = route.params?.signInOnly ?? false;
@@ -33,6 +42,11 @@ export default function AuthScreen() {
   const [loading, setLoading] = useState(false);
   const [showPassword, setShowPassword] = useState(false);
   const [showTermsModal, setShowTermsModal] = useState(false);
+  const [appleAvailable, setAppleAvailable] = useState(false);
+
+  useEffect(() => {
+    isAppleSignInAvailable().then(setAppleAvailable);
+  }, []);
 
   const validateForm = (): boolean => {
     if (!email.trim() || !password.trim()) {
@@ -90,6 +104,16 @@ export default function AuthScreen() {
               "Email Not Confirmed",
               "Your email address has not been confirmed. Please ask the developer to disable email confirmation in Supabase, or check your email for a confirmation link."
             );
+          } else if (error.message.toLowerCase().includes("invalid login credentials")) {
+            // Accounts created with Apple or a magic link have no password
+            Alert.alert(
+              "Couldn't Sign In",
+              "The email or password is incorrect. If you usually sign in with Apple or an email link, use that instead.",
+              [
+                { text: "OK", style: "cancel" },
+                { text: "Email Me a Link", onPress: handleMagicLink },
+              ]
+            );
           } else {
             Alert.alert("Error", error.message);
           }
@@ -106,6 +130,53 @@ export default function AuthScreen() {
     }
   };
 
+  const handleMagicLink = async () => {
+    const trimmedEmail = email.trim();
+    if (!trimmedEmail) {
+      Alert.alert("Missing Information", "Please enter your email address.");
+      return;
+    }
+
+    setLoading(true);
+    try {
+      // Before a purchase the link may only sign into an existing account
+      const { error } = await sendMagicLink(trimmedEmail, { createUser: !signInOnly });
+      if (error) {
+        if (error.message.toLowerCase().includes("signups not allowed")) {
+          Alert.alert("No Account Found", "There is no account for this email yet. Subscribe first, then create your account.");
+        } else {
+          Alert.alert("Error", error.message);
+        }
+      } else {
+        Alert.alert(
+          "Check Your Email",
+          `We sent a sign-in link to ${trimmedEmail}. Open it on this device to continue.`
+        );
+      }
+    } catch {
+      Alert.alert("Error", "An unexpected error occurred. Please try again.");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleAppleSignIn = async () => {
+    setLoading(true);
+    try {
+      const { error, cancelled } = await signInWithApple();
+      if (cancelled) return;
+      if (error) {
+        Alert.alert("Error", error.message);
+      } else if (navigation.canGoBack()) {
+        navigation.goBack();
+      }
+    } catch {
+      Alert.alert("Error", "An unexpected error occurred. Please try again.");
+    } finally {
+      setLoading(false);
+    }
+  };
+
   const handleAgreeToTerms = async () => {
     setShowTermsModal(false);
     await performAuth();
@@ -187,6 +258,17 @@ export default function AuthScreen() {
             </Pressable>
           </View>
 
+          {mode === "signin" ? (
+            <Pressable
+              onPress={() => navigation.navigate("ForgotPassword", { email: email.trim() })}
+              style={styles.forgotPasswordButton}
+            >
+              <ThemedText type="small" style={styles.forgotPasswordText}>
+                Forgot password?
+              </ThemedText>
+            </Pressable>
+          ) : null}
+
           {mode === "signup" ? (
             <Animated.View entering={FadeInDown} style={styles.inputContainer}>
               <Feather name="lock" size={20} color="rgba(255,255,255,0.7)" style={styles.inputIcon} />
@@ -204,13 +286,43 @@ export default function AuthScreen() {
 
           <Button
             onPress={handleSubmit}
-            disabled={loading}
+            disabled={loading || completingAuthLink}
             variant="light"
             style={styles.submitButton}
           >
-            {loading ? "Please wait..." : mode === "signup" ? "Create Account" : "Sign In"}
+            {completingAuthLink ? "Signing you in..." : loading ? "Please wait..." : mode === "signup" ? "Create Account" : "Sign In"}
           </Button>
 
+          {mode === "signin" ? (
+            <Pressable onPress={handleMagicLink} disabled={loading || completingAuthLink} style={styles.magicLinkButton}>
+              <Feather name="send" size={16} color="rgba(255,255,255,0.9)" />
+              <ThemedText type="body" style={styles.toggleText}>
+                Email me a sign-in link instead
+              </ThemedText>
+            </Pressable>
+          ) : null}
+
+          {appleAvailable ? (
+            <>
+              <View style={styles.dividerRow}>
+                <View style={styles.dividerLine} />
+                <ThemedText type="small" style={styles.dividerText}>or</ThemedText>
+                <View style={styles.dividerLine} />
+              </View>
+              <AppleAuthentication.AppleAuthenticationButton
+                buttonType={
+                  mode === "signup"
+                    ? AppleAuthentication.AppleAuthenticationButtonType.SIGN_UP
+                    : AppleAuthentication.AppleAuthenticationButtonType.SIGN_IN
+                }
+                buttonStyle={AppleAuthentication.AppleAuthenticationButtonStyle.WHITE}
+                cornerRadius={BorderRadius.lg}
+                style={styles.appleButton}
+                onPress={handleAppleSignIn}
+              />
+            </>
+          ) : null}
+
           {!signInOnly ? (
             <Pressable onPress={toggleMode} style={styles.toggleButton}>
               <ThemedText type="body" style={styles.toggleText}>
@@ -353,10 +465,40 @@ const styles = StyleSheet.create({
   eyeButton: {
     padding: Spacing.sm,
   },
+  forgotPasswordButton: {
+    alignSelf: "flex-end",
+    paddingVertical: Spacing.xs,
+  },
+  forgotPasswordText: {
+    color: "rgba(255,255,255,0.9)",
+  },
   submitButton: {
     marginTop: Spacing.md,
     height: 56,
   },
+  magicLinkButton: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "center",
+    gap: Spacing.sm,
+    paddingVertical: Spacing.sm,
+  },
+  dividerRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: Spacing.md,
+  },
+  dividerLine: {
+    flex: 1,
+    height: StyleSheet.hairlineWidth,
+    backgroundColor: "rgba(255,255,255,0.4)",
+  },
+  dividerText: {
+    color: "rgba(255,255,255,0.7)",
+  },
+  appleButton: {
+    height: 56,
+  },
   toggleButton: {
     alignItems: "center",
     paddingVertical: Spacing.md,
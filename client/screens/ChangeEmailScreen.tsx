@@ -0,0 +1,151 @@
+import React, { useState } from "react";
+import { View, StyleSheet, TextInput, Alert } from "react-native";
+import { useSafeAreaInsets } from "react-native-safe-area-context";
+import { useHeaderHeight } from "@react-navigation/elements";
+import { useNavigation } from "@react-navigation/native";
+import { useTheme } from "@/hooks/useTheme";
+import { Spacing, BorderRadius } from "@/constants/theme";
+import { ThemedText } from "@/components/ThemedText";
+import { Button } from "@/components/Button";
+import { KeyboardAwareScrollViewCompat } from "@/components/KeyboardAwareScrollViewCompat";
+import { useAuth } from "@/lib/AuthContext";
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+export default function ChangeEmailScreen() {
+  const insets = useSafeAreaInsets();
+  const headerHeight = useHeaderHeight();
+  const { theme } = useTheme();
+  const navigation = useNavigation();
+  const { user, changeEmail } = useAuth();
+
+  const [email, setEmail] = useState("");
+  const [saving, setSaving] = useState(false);
+
+  const pendingEmail = user?.new_email ?? null;
+
+  const handleSave = async () => {
+    const trimmedEmail = email.trim();
+    if (!EMAIL_PATTERN.test(trimmedEmail)) {
+      Alert.alert("Invalid Email", "Please enter a valid email address.");
+      return;
+    }
+    if (trimmedEmail.toLowerCase() === user?.email?.toLowerCase()) {
+      Alert.alert("Same Email", "This is already your account email.");
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const { error } = await changeEmail(trimmedEmail);
+      if (error) {
+        Alert.alert("Error", error.message);
+        return;
+      }
+      Alert.alert(
+        "Confirm Your New Email",
+        `We sent a confirmation link to ${trimmedEmail}. Your email changes once you open it${
+          user?.email ? ` (and the one sent to ${user.email})` : ""
+        }.`,
+        [{ text: "OK", onPress: () => navigation.goBack() }],
+      );
+    } catch {
+      Alert.alert("Error", "An unexpected error occurred. Please try again.");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <KeyboardAwareScrollViewCompat
+      style={[styles.container, { backgroundColor: theme.backgroundRoot }]}
+      contentContainerStyle={[
+        styles.content,
+        {
+          paddingTop: headerHeight + Spacing.xl,
+          paddingBottom: insets.bottom + Spacing.xl,
+        },
+      ]}
+    >
+      <View style={[styles.card, { backgroundColor: theme.backgroundDefault }]}>
+        <ThemedText type="small" style={{ color: theme.textSecondary }}>
+          Current email
+        </ThemedText>
+        <ThemedText type="body" style={styles.currentEmail}>
+          {user?.email ?? "Not signed in"}
+        </ThemedText>
+        {pendingEmail ? (
+          <ThemedText type="small" style={{ color: theme.textSecondary }}>
+            Waiting for confirmation of {pendingEmail}
+          </ThemedText>
+        ) : null}
+      </View>
+
+      <ThemedText
+        type="small"
+        style={[styles.label, { color: theme.textSecondary }]}
+      >
+        New email
+      </ThemedText>
+      <TextInput
+        value={email}
+        onChangeText={setEmail}
+        placeholder="you@example.com"
+        placeholderTextColor={theme.textSecondary}
+        keyboardType="email-address"
+        autoCapitalize="none"
+        autoCorrect={false}
+        autoComplete="email"
+        textContentType="emailAddress"
+        spellCheck={false}
+        style={[
+          styles.input,
+          { backgroundColor: theme.backgroundDefault, color: theme.text },
+        ]}
+        autoFocus
+      />
+      <ThemedText
+        type="small"
+        style={[styles.hint, { color: theme.textSecondary }]}
+      >
+        You keep signing in with your current email until the change is
+        confirmed. Your habits and subscription stay with your account.
+      </ThemedText>
+
+      <Button onPress={handleSave} disabled={saving || !user}>
+        {saving ? "Sending..." : "Send Confirmation Link"}
+      </Button>
+    </KeyboardAwareScrollViewCompat>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  content: {
+    paddingHorizontal: Spacing.lg,
+  },
+  card: {
+    padding: Spacing.md,
+    borderRadius: BorderRadius.md,
+    gap: Spacing.xs,
+    marginBottom: Spacing.xl,
+  },
+  currentEmail: {
+    fontWeight: "600",
+  },
+  label: {
+    marginBottom: Spacing.sm,
+  },
+  input: {
+    height: 52,
+    borderRadius: 12,
+    paddingHorizontal: Spacing.md,
+    fontSize: 16,
+  },
+  hint: {
+    marginTop: Spacing.sm,
+    marginBottom: Spacing.xl,
+  },
+});
@@ -0,0 +1,194 @@
+import React, { useState } from "react";
+import { View, StyleSheet, TextInput, Pressable, Alert } from "react-native";
+import { useSafeAreaInsets } from "react-native-safe-area-context";
+import { useNavigation, useRoute, RouteProp } from "@react-navigation/native";
+import { LinearGradient } from "expo-linear-gradient";
+import { Feather } from "@expo/vector-icons";
+import Animated, { FadeIn, FadeInDown } from "react-native-reanimated";
+import { useAuth } from "@/lib/AuthContext";
+import { ThemedText } from "@/components/ThemedText";
+import { Button } from "@/components/Button";
+import { Spacing, BorderRadius } from "@/constants/theme";
+import { KeyboardAwareScrollViewCompat } from "@/components/KeyboardAwareScrollViewCompat";
+import { RootStackParamList } from "@/navigation/RootStackNavigator";
+
+type ScreenRouteProp = RouteProp<RootStackParamList, "ForgotPassword">;
+
+// Sends the Supabase recovery email. Its link opens the app signed in, where
+// RootStackNavigator shows SetNewPasswordScreen before anything else.
+export default function ForgotPasswordScreen() {
+  const insets = useSafeAreaInsets();
+  const navigation = useNavigation();
+  const route = useRoute<ScreenRouteProp>();
+  const { requestPasswordReset } = useAuth();
+
+  const [email, setEmail] = useState(route.params?.email ?? "");
+  const [loading, setLoading] = useState(false);
+  const [sentTo, setSentTo] = useState<string | null>(null);
+
+  const handleSend = async () => {
+    const trimmedEmail = email.trim();
+    if (!trimmedEmail) {
+      Alert.alert("Missing Information", "Please enter your email address.");
+      return;
+    }
+
+    setLoading(true);
+    try {
+      const { error } = await requestPasswordReset(trimmedEmail);
+      if (error) {
+        Alert.alert("Error", error.message);
+      } else {
+        setSentTo(trimmedEmail);
+      }
+    } catch {
+      Alert.alert("Error", "An unexpected error occurred. Please try again.");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleBack = () => {
+    if (navigation.canGoBack()) {
+      navigation.goBack();
+    }
+  };
+
+  return (
+    <LinearGradient colors={["#667eea", "#764ba2"]} style={styles.container}>
+      <KeyboardAwareScrollViewCompat
+        contentContainerStyle={[
+          styles.scrollContent,
+          {
+            paddingTop: insets.top + Spacing.xl,
+            paddingBottom: insets.bottom + Spacing.xl,
+          },
+        ]}
+      >
+        <Animated.View entering={FadeInDown.delay(100)} style={styles.header}>
+          <View style={styles.iconContainer}>
+            <Feather name="key" size={40} color="#FFFFFF" />
+          </View>
+          <ThemedText type="h2" style={styles.title}>
+            Reset Password
+          </ThemedText>
+          <ThemedText type="body" style={styles.subtitle}>
+            {sentTo
+              ? `We sent a reset link to ${sentTo}. Open it on this device to choose a new password.`
+              : "Enter your account email and we'll send you a link to choose a new password."}
+          </ThemedText>
+        </Animated.View>
+
+        <Animated.View entering={FadeIn.delay(200)} style={styles.form}>
+          {sentTo ? null : (
+            <View style={styles.inputContainer}>
+              <Feather
+                name="mail"
+                size={20}
+                color="rgba(255,255,255,0.7)"
+                style={styles.inputIcon}
+              />
+              <TextInput
+                style={styles.input}
+                placeholder="Email"
+                placeholderTextColor="rgba(255,255,255,0.5)"
+                value={email}
+                onChangeText={setEmail}
+                keyboardType="email-address"
+                autoCapitalize="none"
+                autoCorrect={false}
+                autoComplete="email"
+                textContentType="emailAddress"
+                spellCheck={false}
+              />
+            </View>
+          )}
+
+          <Button
+            onPress={sentTo ? () => setSentTo(null) : handleSend}
+            disabled={loading}
+            variant="light"
+            style={styles.submitButton}
+          >
+            {loading
+              ? "Please wait..."
+              : sentTo
+                ? "Use a Different Email"
+                : "Send Reset Link"}
+          </Button>
+
+          <Pressable onPress={handleBack} style={styles.backButton}>
+            <ThemedText type="body" style={styles.backText}>
+              Back to Sign In
+            </ThemedText>
+          </Pressable>
+        </Animated.View>
+      </KeyboardAwareScrollViewCompat>
+    </LinearGradient>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  scrollContent: {
+    flexGrow: 1,
+    paddingHorizontal: Spacing.xl,
+    justifyContent: "center",
+  },
+  header: {
+    alignItems: "center",
+    marginBottom: Spacing["2xl"],
+  },
+  iconContainer: {
+    width: 80,
+    height: 80,
+    borderRadius: 40,
+    backgroundColor: "rgba(255,255,255,0.2)",
+    alignItems: "center",
+    justifyContent: "center",
+    marginBottom: Spacing.lg,
+  },
+  title: {
+    color: "#FFFFFF",
+    fontWeight: "bold",
+    marginBottom: Spacing.sm,
+  },
+  subtitle: {
+    color: "rgba(255,255,255,0.8)",
+    textAlign: "center",
+  },
+  form: {
+    gap: Spacing.md,
+  },
+  inputContainer: {
+    flexDirection: "row",
+    alignItems: "center",
+    backgroundColor: "rgba(255,255,255,0.15)",
+    borderRadius: BorderRadius.lg,
+    paddingHorizontal: Spacing.md,
+    height: 56,
+  },
+  inputIcon: {
+    marginRight: Spacing.sm,
+  },
+  input: {
+    flex: 1,
+    color: "#FFFFFF",
+    fontSize: 16,
+    height: "100%",
+  },
+  submitButton: {
+    marginTop: Spacing.md,
+    height: 56,
+  },
+  backButton: {
+    alignItems: "center",
+    paddingVertical: Spacing.md,
+  },
+  backText: {
+    color: "rgba(255,255,255,0.9)",
+    fontSize: 15,
+  },
+});
@@ -8,16 +8,32 @@ import { NativeStackNavigationProp } from "@react-navigation/native-stack";
 import { Feather } from "@expo/vector-icons";
 import Animated, { FadeIn } from "react-native-reanimated";
 import { useTheme } from "@/hooks/useTheme";
-import { Spacing } from "@/constants/theme";
+import { Spacing, GOAL_PERIOD_LABELS } from "@/constants/theme";
 import { ThemedText } from "@/components/ThemedText";
 import { KeyboardAwareScrollViewCompat } from "@/components/KeyboardAwareScrollViewCompat";
 import { useUnits } from "@/lib/UnitsContext";
+import { useTimers, formatTimerElapsed } from "@/lib/TimerContext";
+import { parseReminderTime, formatReminderTime, requestReminderPermission } from "@/lib/reminders";
+import { addDays, getDayOfWeek } from "@/lib/dates";
+import { GoalPeriod, HabitSchedule } from "@/lib/storage";
 import { TodayStackParamList } from "@/navigation/TodayStackNavigator";
 import { RootStackParamList } from "@/navigation/RootStackNavigator";
 
 type ScreenRouteProp = RouteProp<TodayStackParamList, "HabitDetail">;
 type NavigationProp = NativeStackNavigationProp<RootStackParamList>;
 
+type ScheduleMode = HabitSchedule["type"] | "everyday";
+
+const SCHEDULE_MODES: { mode: ScheduleMode; label: string }[] = [
+  { mode: "everyday", label: "Every day" },
+  { mode: "weekdays", label: "Weekdays" },
+  { mode: "interval", label: "Every N" },
+  { mode: "dates", label: "Dates" },
+];
+
+// Indexed by day of week, 0 = Sunday
+const WEEKDAY_LABELS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
 export default function HabitDetailScreen() {
   const insets = useSafeAreaInsets();
   const headerHeight = useHeaderHeight();
@@ -36,7 +52,11 @@ export default function HabitDetailScreen() {
     updateHabit,
     getEffectiveTodayUnits,
     getYearUnits,
+    getEffectivePeriodUnits,
+    currentDate,
+    settings,
   } = useUnits();
+  const { getTimer, getElapsedMs, startTimer, pauseTimer, stopTimer, discardTimer } = useTimers();
 
   const habit = useMemo(
     () => habits.find((h) => h.id === habitId),
@@ -45,6 +65,11 @@ export default function HabitDetailScreen() {
 
   const [goalText, setGoalText] = useState(habit ? String(habit.dailyGoal) : "1");
   const [tapText, setTapText] = useState(habit ? String(habit.tapIncrement || 1) : "1");
+  const [reminderText, setReminderText] = useState("");
+  const [stoppingTimer, setStoppingTimer] = useState(false);
+  const [intervalText, setIntervalText] = useState(
+    habit?.schedule?.type === "interval" ? String(habit.schedule.everyDays) : "2"
+  );
 
   const habitLogs = useMemo(
     () => logs.filter((l) => l.habitId === habitId),
@@ -52,6 +77,9 @@ export default function HabitDetailScreen() {
   );
 
   const todayUnits = habit ? getEffectiveTodayUnits(habit.id) : 0;
+  // Progress toward the goal: today for daily goals, the week or month so far otherwise
+  const goalPeriod: GoalPeriod = habit?.goalPeriod ?? "day";
+  const periodUnits = habit ? getEffectivePeriodUnits(habit.id) : 0;
   const yearUnits = habit ? getYearUnits(habit.id) : 0;
 
   const allTimeUnits = useMemo(() => {
@@ -60,17 +88,11 @@ export default function HabitDetailScreen() {
 
   const avg7d = useMemo(() => {
     if (!habit) return 0;
-    const now = new Date();
-    const sevenDaysAgo = new Date(now);
-    sevenDaysAgo.setDate(sevenDaysAgo.getDate() - 7);
-    const y = sevenDaysAgo.getFullYear();
-    const m = String(sevenDaysAgo.getMonth() + 1).padStart(2, "0");
-    const d = String(sevenDaysAgo.getDate()).padStart(2, "0");
-    const dateStr = `${y}-${m}-${d}`;
+    const dateStr = addDays(currentDate, -7);
     const recentLogs = habitLogs.filter((l) => l.date >= dateStr);
     const total = recentLogs.reduce((sum, l) => sum + l.count, 0);
     return Math.round((total / 7) * 10) / 10;
-  }, [habit, habitLogs]);
+  }, [habit, habitLogs, currentDate]);
 
   const bestDay = useMemo(() => {
     const dailyTotals: Record<string, number> = {};
@@ -82,10 +104,10 @@ export default function HabitDetailScreen() {
 
   const statusColor = useMemo(() => {
     if (!habit) return theme.textSecondary;
-    if (todayUnits === 0) return "#FF4444";
-    if (todayUnits < habit.dailyGoal) return "#FFB800";
+    if (periodUnits === 0) return "#FF4444";
+    if (periodUnits < habit.dailyGoal) return "#FFB800";
     return "#34C759";
-  }, [todayUnits, habit, theme.textSecondary]);
+  }, [periodUnits, habit, theme.textSecondary]);
 
   const handleAddUnits = useCallback(
     async (count: number) => {
@@ -107,6 +129,104 @@ export default function HabitDetailScreen() {
     [habit, todayUnits, removeUnits]
   );
 
+  const schedule = habit?.schedule ?? null;
+
+  // Custom dates are picked from the next two weeks; dates already chosen stay as they are
+  const upcomingDates = useMemo(
+    () => Array.from({ length: 14 }, (_, i) => addDays(currentDate, i)),
+    [currentDate]
+  );
+
+  const handleSetScheduleMode = useCallback(
+    (mode: ScheduleMode) => {
+      if (!habit || (schedule?.type ?? "everyday") === mode) return;
+      let next: HabitSchedule | null = null;
+      if (mode === "weekdays") {
+        next = { type: "weekdays", days: [1, 2, 3, 4, 5] };
+      } else if (mode === "interval") {
+        const everyDays = Math.max(parseInt(intervalText, 10) || 2, 2);
+        next = { type: "interval", everyDays, startDate: currentDate };
+        setIntervalText(String(everyDays));
+      } else if (mode === "dates") {
+        next = { type: "dates", dates: [currentDate] };
+      }
+      updateHabit(habit.id, { schedule: next });
+    },
+    [habit, schedule, intervalText, currentDate, updateHabit]
+  );
+
+  const handleToggleWeekday = useCallback(
+    (day: number) => {
+      if (!habit || schedule?.type !== "weekdays") return;
+      const days = schedule.days.includes(day)
+        ? schedule.days.filter((d) => d !== day)
+        : [...schedule.days, day].sort();
+      if (days.length === 0) {
+        Alert.alert("Pick a Day", "A weekday schedule needs at least one day.");
+        return;
+      }
+      updateHabit(habit.id, { schedule: { type: "weekdays", days } });
+    },
+    [habit, schedule, updateHabit]
+  );
+
+  const handleToggleDate = useCallback(
+    (dateStr: string) => {
+      if (!habit || schedule?.type !== "dates") return;
+      const dates = schedule.dates.includes(dateStr)
+        ? schedule.dates.filter((d) => d !== dateStr)
+        : [...schedule.dates, dateStr].sort();
+      updateHabit(habit.id, { schedule: { type: "dates", dates } });
+    },
+    [habit, schedule, updateHabit]
+  );
+
+  const handleAddReminder = useCallback(async () => {
+    if (!habit) return;
+    const time = parseReminderTime(reminderText);
+    if (!time) {
+      Alert.alert("Invalid Time", "Enter a 24-hour time like 8:30 or 20:30.");
+      return;
+    }
+    const reminderTimes = habit.reminderTimes ?? [];
+    setReminderText("");
+    if (reminderTimes.includes(time)) return;
+    await updateHabit(habit.id, { reminderTimes: [...reminderTimes, time].sort() });
+
+    const granted = await requestReminderPermission();
+    if (!granted) {
+      Alert.alert("Notifications Off", "Allow notifications for Units in your device settings to get this reminder.");
+    } else if (settings.remindersEnabled === false) {
+      Alert.alert("Reminders Off", "Turn on Habit Reminders in Settings to get this reminder.");
+    }
+  }, [habit, reminderText, updateHabit, settings.remindersEnabled]);
+
+  const handleRemoveReminder = useCallback(
+    (time: string) => {
+      if (!habit) return;
+      updateHabit(habit.id, { reminderTimes: (habit.reminderTimes ?? []).filter((t) => t !== time) });
+    },
+    [habit, updateHabit]
+  );
+
+  const handleStopTimer = useCallback(async () => {
+    if (!habit) return;
+    // Anything under half a minute rounds to nothing
+    if (getElapsedMs(habit.id) < 30 * 1000) {
+      Alert.alert("Under a Minute", "Nothing will be logged for this timer.", [
+        { text: "Keep Timing", style: "cancel" },
+        { text: "Discard", style: "destructive", onPress: () => discardTimer(habit.id) },
+      ]);
+      return;
+    }
+    setStoppingTimer(true);
+    try {
+      await stopTimer(habit.id);
+    } finally {
+      setStoppingTimer(false);
+    }
+  }, [habit, getElapsedMs, stopTimer, discardTimer]);
+
   const handleMenuPress = useCallback(() => {
     if (!habit) return;
 
@@ -137,7 +257,8 @@ export default function HabitDetailScreen() {
     );
   }
 
-  const isGoalMet = todayUnits >= habit.dailyGoal && habit.dailyGoal > 0;
+  const isGoalMet = periodUnits >= habit.dailyGoal && habit.dailyGoal > 0;
+  const timer = getTimer(habit.id);
 
   return (
     <KeyboardAwareScrollViewCompat
@@ -158,7 +279,7 @@ export default function HabitDetailScreen() {
         <View style={styles.headerText}>
           <ThemedText type="h3">{habit.name}</ThemedText>
           <ThemedText type="small" style={{ color: theme.textSecondary }}>
-            Goal: {habit.dailyGoal} {habit.habitType === "time" ? `min of ${habit.unitName}` : habit.unitName} per day
+            Goal: {habit.dailyGoal} {habit.habitType === "time" ? `min of ${habit.unitName}` : habit.unitName} per {GOAL_PERIOD_LABELS[goalPeriod].noun}
           </ThemedText>
         </View>
         <Pressable onPress={handleMenuPress} style={styles.menuButton}>
@@ -178,10 +299,11 @@ export default function HabitDetailScreen() {
         <View style={styles.progressRow}>
           <View style={styles.progressMain}>
             <ThemedText type="h1" style={{ color: statusColor, fontSize: 48 }}>
-              {todayUnits}
+              {periodUnits}
             </ThemedText>
             <ThemedText type="body" style={{ color: theme.textSecondary }}>
               / {habit.dailyGoal} {habit.habitType === "time" ? "min" : habit.unitName}
+              {goalPeriod !== "day" ? ` this ${GOAL_PERIOD_LABELS[goalPeriod].noun}` : ""}
             </ThemedText>
           </View>
           {isGoalMet ? (
@@ -192,6 +314,67 @@ export default function HabitDetailScreen() {
         </View>
       </Animated.View>
 
+      {habit.habitType === "time" ? (
+        <>
+          <ThemedText type="h4" style={styles.sectionTitle}>
+            Timer
+          </ThemedText>
+          <View style={[styles.timerCard, { backgroundColor: theme.backgroundDefault }]}>
+            <ThemedText type="h2" style={{ color: timer?.startedAt ? habit.color : theme.text }}>
+              {formatTimerElapsed(getElapsedMs(habit.id))}
+            </ThemedText>
+            <ThemedText type="small" style={{ color: theme.textSecondary }}>
+              {timer ? (timer.startedAt ? "Running" : "Paused") : "Logs minutes when stopped"}
+            </ThemedText>
+          </View>
+          <View style={styles.actionRow}>
+            {!timer ? (
+              <Pressable
+                onPress={() => startTimer(habit.id)}
+                style={[styles.actionButton, { backgroundColor: habit.color }]}
+              >
+                <ThemedText type="body" style={{ color: "white", fontWeight: "600" }}>
+                  Start
+                </ThemedText>
+              </Pressable>
+            ) : (
+              <>
+                <Pressable
+                  onPress={() => (timer.startedAt ? pauseTimer(habit.id) : startTimer(habit.id))}
+                  style={[styles.actionButton, { backgroundColor: habit.color + "CC" }]}
+                >
+                  <ThemedText type="body" style={{ color: "white", fontWeight: "600" }}>
+                    {timer.startedAt ? "Pause" : "Resume"}
+                  </ThemedText>
+                </Pressable>
+                <Pressable
+                  onPress={handleStopTimer}
+                  disabled={stoppingTimer}
+                  style={[styles.actionButton, { backgroundColor: habit.color }, stoppingTimer && { opacity: 0.5 }]}
+                >
+                  <ThemedText type="body" style={{ color: "white", fontWeight: "600" }}>
+                    Stop & Log
+                  </ThemedText>
+                </Pressable>
+                {!timer.startedAt ? (
+                  <Pressable
+                    onPress={() => discardTimer(habit.id)}
+                    style={[styles.actionButton, styles.removeButton, { 
+                      backgroundColor: theme.backgroundDefault,
+                      borderColor: theme.border,
+                    }]}
+                  >
+                    <ThemedText type="body" style={{ color: theme.textSecondary, fontWeight: "600" }}>
+                      Discard
+                    </ThemedText>
+                  </Pressable>
+                ) : null}
+              </>
+            )}
+          </View>
+        </>
+      ) : null}
+
       <ThemedText type="h4" style={styles.sectionTitle}>
         Add Units
       </ThemedText>
@@ -271,8 +454,30 @@ export default function HabitDetailScreen() {
       </View>
 
       <ThemedText type="h4" style={styles.sectionTitle}>
-        Daily Goal
+        Goal
       </ThemedText>
+      <View style={styles.periodRow}>
+        {(Object.keys(GOAL_PERIOD_LABELS) as GoalPeriod[]).map((period) => (
+          <Pressable
+            key={period}
+            onPress={() => updateHabit(habit.id, { goalPeriod: period })}
+            style={[
+              styles.periodButton,
+              {
+                backgroundColor: goalPeriod === period ? habit.color : theme.backgroundDefault,
+                borderColor: goalPeriod === period ? habit.color : theme.border,
+              },
+            ]}
+          >
+            <ThemedText
+              type="small"
+              style={{ color: goalPeriod === period ? "white" : theme.text, fontWeight: "600" }}
+            >
+              Per {GOAL_PERIOD_LABELS[period].noun}
+            </ThemedText>
+          </Pressable>
+        ))}
+      </View>
       <View style={styles.inputRow}>
         <TextInput
           style={[styles.numberInput, { 
@@ -299,7 +504,174 @@ export default function HabitDetailScreen() {
           selectTextOnFocus
         />
         <ThemedText type="body" style={{ marginLeft: Spacing.sm, color: theme.textSecondary }}>
-          {habit.habitType === "time" ? "min" : habit.unitName} per day
+          {habit.habitType === "time" ? "min" : habit.unitName} per {GOAL_PERIOD_LABELS[goalPeriod].noun}
+        </ThemedText>
+      </View>
+
+      {goalPeriod === "day" ? (
+        <>
+          <ThemedText type="h4" style={styles.sectionTitle}>
+            Schedule
+          </ThemedText>
+          <View style={styles.periodRow}>
+            {SCHEDULE_MODES.map(({ mode, label }) => {
+              const selected = (schedule?.type ?? "everyday") === mode;
+              return (
+                <Pressable
+                  key={mode}
+                  onPress={() => handleSetScheduleMode(mode)}
+                  style={[
+                    styles.periodButton,
+                    {
+                      backgroundColor: selected ? habit.color : theme.backgroundDefault,
+                      borderColor: selected ? habit.color : theme.border,
+                    },
+                  ]}
+                >
+                  <ThemedText
+                    type="small"
+                    style={{ color: selected ? "white" : theme.text, fontWeight: "600" }}
+                  >
+                    {label}
+                  </ThemedText>
+                </Pressable>
+              );
+            })}
+          </View>
+          {schedule?.type === "weekdays" ? (
+            <View style={styles.scheduleChips}>
+              {WEEKDAY_LABELS.map((label, day) => {
+                const selected = schedule.days.includes(day);
+                return (
+                  <Pressable
+                    key={day}
+                    onPress={() => handleToggleWeekday(day)}
+                    style={[
+                      styles.scheduleChip,
+                      {
+                        backgroundColor: selected ? habit.color : theme.backgroundDefault,
+                        borderColor: selected ? habit.color : theme.border,
+                      },
+                    ]}
+                  >
+                    <ThemedText
+                      type="small"
+                      style={{ color: selected ? "white" : theme.text, fontWeight: "600" }}
+                    >
+                      {label}
+                    </ThemedText>
+                  </Pressable>
+                );
+              })}
+            </View>
+          ) : null}
+          {schedule?.type === "interval" ? (
+            <View style={styles.inputRow}>
+              <ThemedText type="body" style={{ marginRight: Spacing.sm, color: theme.textSecondary }}>
+                Every
+              </ThemedText>
+              <TextInput
+                style={[styles.numberInput, { 
+                  backgroundColor: theme.backgroundDefault, 
+                  color: theme.text,
+                  borderColor: theme.border,
+                }]}
+                value={intervalText}
+                onChangeText={(text) => {
+                  setIntervalText(text.replace(/[^0-9]/g, ""));
+                }}
+                onBlur={() => {
+                  const num = Math.min(Math.max(parseInt(intervalText, 10) || 2, 2), 365);
+                  updateHabit(habit.id, { schedule: { ...schedule, everyDays: num } });
+                  setIntervalText(String(num));
+                }}
+                keyboardType="number-pad"
+                maxLength={3}
+                selectTextOnFocus
+              />
+              <ThemedText type="body" style={{ marginLeft: Spacing.sm, color: theme.textSecondary }}>
+                days from {schedule.startDate}
+              </ThemedText>
+            </View>
+          ) : null}
+          {schedule?.type === "dates" ? (
+            <View style={styles.scheduleChips}>
+              {upcomingDates.map((dateStr) => {
+                const selected = schedule.dates.includes(dateStr);
+                return (
+                  <Pressable
+                    key={dateStr}
+                    onPress={() => handleToggleDate(dateStr)}
+                    style={[
+                      styles.scheduleChip,
+                      {
+                        backgroundColor: selected ? habit.color : theme.backgroundDefault,
+                        borderColor: selected ? habit.color : theme.border,
+                      },
+                    ]}
+                  >
+                    <ThemedText
+                      type="small"
+                      style={{ color: selected ? "white" : theme.text, fontWeight: "600" }}
+                    >
+                      {WEEKDAY_LABELS[getDayOfWeek(dateStr)]} {Number(dateStr.slice(8))}
+                    </ThemedText>
+                  </Pressable>
+                );
+              })}
+            </View>
+          ) : null}
+          <ThemedText type="small" style={[styles.scheduleHint, { color: theme.textSecondary }]}>
+            Unscheduled days are rest days and are left out of your goals.
+          </ThemedText>
+        </>
+      ) : null}
+
+      <ThemedText type="h4" style={styles.sectionTitle}>
+        Reminders
+      </ThemedText>
+      {habit.reminderTimes?.length ? (
+        <View style={styles.scheduleChips}>
+          {habit.reminderTimes.map((time) => (
+            <Pressable
+              key={time}
+              onPress={() => handleRemoveReminder(time)}
+              style={[styles.scheduleChip, styles.reminderChip, { backgroundColor: habit.color, borderColor: habit.color }]}
+            >
+              <ThemedText type="small" style={{ color: "white", fontWeight: "600" }}>
+                {formatReminderTime(time)}
+              </ThemedText>
+              <Feather name="x" size={14} color="white" />
+            </Pressable>
+          ))}
+        </View>
+      ) : null}
+      <View style={styles.inputRow}>
+        <TextInput
+          style={[styles.numberInput, { 
+            backgroundColor: theme.backgroundDefault, 
+            color: theme.text,
+            borderColor: theme.border,
+          }]}
+          value={reminderText}
+          onChangeText={(text) => setReminderText(text.replace(/[^0-9:]/g, ""))}
+          onSubmitEditing={handleAddReminder}
+          placeholder="20:30"
+          placeholderTextColor={theme.textSecondary}
+          keyboardType="numbers-and-punctuation"
+          maxLength={5}
+          returnKeyType="done"
+        />
+        <Pressable
+          onPress={handleAddReminder}
+          style={[styles.reminderAddButton, { backgroundColor: habit.color }]}
+        >
+          <ThemedText type="body" style={{ color: "white", fontWeight: "600" }}>
+            Add
+          </ThemedText>
+        </Pressable>
+        <ThemedText type="small" style={{ flex: 1, marginLeft: Spacing.sm, color: theme.textSecondary }}>
+          Skipped once the goal is met
         </ThemedText>
       </View>
 
@@ -358,7 +730,7 @@ export default function HabitDetailScreen() {
       <View style={styles.statsRow}>
         <View style={[styles.statChip, { backgroundColor: theme.backgroundDefault }]}>
           <ThemedText type="small" style={{ color: theme.textSecondary }}>
-            {new Date().getFullYear()} Total
+            {currentDate.slice(0, 4)} Total
           </ThemedText>
           <ThemedText type="h3" style={{ color: habit.color }}>{yearUnits.toLocaleString()}</ThemedText>
         </View>
@@ -449,6 +821,12 @@ const styles = StyleSheet.create({
   removeButton: {
     borderWidth: 1,
   },
+  timerCard: {
+    alignItems: "center",
+    paddingVertical: Spacing.lg,
+    borderRadius: 14,
+    marginBottom: Spacing.md,
+  },
   incrementRow: {
     flexDirection: "row",
     alignItems: "center",
@@ -475,6 +853,49 @@ const styles = StyleSheet.create({
     alignItems: "center",
     marginBottom: Spacing.xl,
   },
+  periodRow: {
+    flexDirection: "row",
+    gap: Spacing.sm,
+    marginBottom: Spacing.md,
+  },
+  periodButton: {
+    flex: 1,
+    height: 36,
+    borderRadius: 10,
+    borderWidth: 1,
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  scheduleChips: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: Spacing.sm,
+    marginBottom: Spacing.md,
+  },
+  scheduleChip: {
+    minWidth: 44,
+    height: 36,
+    paddingHorizontal: Spacing.sm,
+    borderRadius: 10,
+    borderWidth: 1,
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  reminderChip: {
+    flexDirection: "row",
+    gap: Spacing.xs,
+  },
+  reminderAddButton: {
+    height: 48,
+    paddingHorizontal: Spacing.lg,
+    borderRadius: 12,
+    alignItems: "center",
+    justifyContent: "center",
+    marginLeft: Spacing.sm,
+  },
+  scheduleHint: {
+    marginBottom: Spacing.xl,
+  },
   numberInput: {
     width: 80,
     height: 48,
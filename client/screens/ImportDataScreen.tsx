@@ -0,0 +1,417 @@
+import React, { useState, useCallback, useMemo } from "react";
+import { View, ScrollView, StyleSheet, Pressable, Alert } from "react-native";
+import { useSafeAreaInsets } from "react-native-safe-area-context";
+import { useHeaderHeight, HeaderButton } from "@react-navigation/elements";
+import { useNavigation } from "@react-navigation/native";
+import { NativeStackNavigationProp } from "@react-navigation/native-stack";
+import { Feather } from "@expo/vector-icons";
+import { useTheme } from "@/hooks/useTheme";
+import { Spacing, BorderRadius } from "@/constants/theme";
+import { ThemedText } from "@/components/ThemedText";
+import { Button } from "@/components/Button";
+import { useUnits } from "@/lib/UnitsContext";
+import {
+  ParsedImport,
+  ImportPreviewItem,
+  ImportResolution,
+  pickImportFile,
+  parseImportFile,
+  buildImportPreview,
+  buildImportPlan,
+  defaultImportResolution,
+} from "@/lib/dataImport";
+import { RootStackParamList } from "@/navigation/RootStackNavigator";
+
+type NavigationProp = NativeStackNavigationProp<RootStackParamList>;
+
+const RESOLUTION_LABELS: Record<ImportResolution, string> = {
+  merge: "Merge",
+  create: "Keep Both",
+  skip: "Skip",
+};
+
+function getResolutionOptions(item: ImportPreviewItem): ImportResolution[] {
+  return item.match ? ["merge", "create", "skip"] : ["create", "skip"];
+}
+
+function getResolutionLabel(
+  item: ImportPreviewItem,
+  resolution: ImportResolution,
+): string {
+  return resolution === "create" && !item.match
+    ? "Create"
+    : RESOLUTION_LABELS[resolution];
+}
+
+function describeItem(item: ImportPreviewItem): string {
+  const days = item.habit.days.length;
+  if (days === 0) return "No logged days";
+  const range =
+    item.firstDate === item.lastDate
+      ? item.firstDate
+      : `${item.firstDate} – ${item.lastDate}`;
+  return `${item.units} units over ${days} day${days === 1 ? "" : "s"} (${range})`;
+}
+
+export default function ImportDataScreen() {
+  const insets = useSafeAreaInsets();
+  const headerHeight = useHeaderHeight();
+  const { theme } = useTheme();
+  const navigation = useNavigation<NavigationProp>();
+  const { habits, logs, importData, loadHistory } = useUnits();
+  const [parsed, setParsed] = useState<ParsedImport | null>(null);
+  const [resolutions, setResolutions] = useState<
+    Record<string, ImportResolution>
+  >({});
+  const [picking, setPicking] = useState(false);
+  const [importing, setImporting] = useState(false);
+
+  const preview = useMemo(
+    () => (parsed ? buildImportPreview(parsed, habits) : []),
+    [parsed, habits],
+  );
+
+  const getResolution = useCallback(
+    (item: ImportPreviewItem) =>
+      resolutions[item.habit.key] ?? defaultImportResolution(item),
+    [resolutions],
+  );
+
+  const selectedCount = preview.filter(
+    (item) => getResolution(item) !== "skip",
+  ).length;
+
+  const handleChooseFile = useCallback(async () => {
+    setPicking(true);
+    try {
+      const file = await pickImportFile();
+      if (!file) return;
+      const { parsed: result, error } = parseImportFile(file.name, file.text);
+      if (!result) {
+        Alert.alert("Can't Import File", error ?? "The file couldn't be read.");
+        return;
+      }
+      if (result.habits.length === 0) {
+        Alert.alert(
+          "Nothing to Import",
+          "No habits with logged units were found in this file.",
+        );
+        return;
+      }
+      setParsed(result);
+      setResolutions({});
+    } catch (error) {
+      console.error("[Import] Failed to read file:", error);
+      Alert.alert(
+        "Can't Import File",
+        "The file couldn't be opened. Please try again.",
+      );
+    } finally {
+      setPicking(false);
+    }
+  }, []);
+
+  const handleImport = useCallback(async () => {
+    if (!parsed || importing) return;
+    setImporting(true);
+    try {
+      // Sync keeps only recent logs on the device. A merge only adds what the
+      // file has beyond the existing counts, so it needs the older days too.
+      const history = await loadHistory();
+      const merging = preview.some(
+        (item) => item.match && getResolution(item) === "merge",
+      );
+      if (!history && merging) {
+        Alert.alert(
+          "Can't Merge Right Now",
+          "Your older history couldn't be loaded, so merging could count some units twice. Connect to the internet and try again, or choose Keep Both.",
+        );
+        return;
+      }
+
+      const plan = buildImportPlan(
+        preview,
+        resolutions,
+        habits,
+        history ? history.logs : logs,
+      );
+      if (plan.newHabits.length === 0 && plan.events.length === 0) {
+        Alert.alert(
+          "Already Up to Date",
+          "Everything in this file is already in Units.",
+        );
+        return;
+      }
+
+      const { success, error } = await importData(plan);
+      if (!success) {
+        Alert.alert(
+          "Import Failed",
+          error ?? "Please check your connection and try again.",
+        );
+        return;
+      }
+      const days = plan.events.length;
+      Alert.alert(
+        "Import Complete",
+        `Imported ${days} day${days === 1 ? "" : "s"} of units${plan.newHabits.length > 0 ? ` and ${plan.newHabits.length} new habit${plan.newHabits.length === 1 ? "" : "s"}` : ""}.`,
+        [{ text: "Done", onPress: () => navigation.goBack() }],
+      );
+    } finally {
+      setImporting(false);
+    }
+  }, [
+    parsed,
+    importing,
+    preview,
+    resolutions,
+    getResolution,
+    habits,
+    logs,
+    importData,
+    loadHistory,
+    navigation,
+  ]);
+
+  React.useLayoutEffect(() => {
+    navigation.setOptions({
+      headerLeft: () => (
+        <HeaderButton onPress={() => navigation.goBack()}>
+          <ThemedText type="body" style={{ color: theme.link }}>
+            Cancel
+          </ThemedText>
+        </HeaderButton>
+      ),
+    });
+  }, [navigation, theme]);
+
+  return (
+    <ScrollView
+      style={[styles.container, { backgroundColor: theme.backgroundRoot }]}
+      contentContainerStyle={[
+        styles.content,
+        {
+          paddingTop: headerHeight + Spacing.xl,
+          paddingBottom: insets.bottom + Spacing.xl,
+        },
+      ]}
+    >
+      {!parsed ? (
+        <View>
+          <ThemedText type="body" style={styles.intro}>
+            Import a Units backup (JSON) or a CSV exported from another habit
+            tracker.
+          </ThemedText>
+          <ThemedText
+            type="small"
+            style={[styles.intro, { color: theme.textSecondary }]}
+          >
+            CSV files need a date column, plus either a habit and value column,
+            or one column per habit.
+          </ThemedText>
+          <Button onPress={handleChooseFile} disabled={picking}>
+            {picking ? "Opening..." : "Choose File"}
+          </Button>
+        </View>
+      ) : (
+        <View>
+          <View
+            style={[
+              styles.fileCard,
+              { backgroundColor: theme.backgroundDefault },
+            ]}
+          >
+            <Feather name="file-text" size={20} color={theme.accent} />
+            <View style={styles.fileInfo}>
+              <ThemedText
+                type="body"
+                style={{ fontWeight: "600" }}
+                numberOfLines={1}
+              >
+                {parsed.fileName}
+              </ThemedText>
+              <ThemedText type="small" style={{ color: theme.textSecondary }}>
+                {parsed.source === "units-backup" ? "Units backup" : "CSV"} ·{" "}
+                {preview.length} habit{preview.length === 1 ? "" : "s"}
+                {parsed.skippedRows > 0
+                  ? ` · ${parsed.skippedRows} unreadable row${parsed.skippedRows === 1 ? "" : "s"} skipped`
+                  : ""}
+              </ThemedText>
+            </View>
+            <Pressable
+              onPress={handleChooseFile}
+              disabled={picking || importing}
+              hitSlop={8}
+            >
+              <ThemedText type="small" style={{ color: theme.link }}>
+                Change
+              </ThemedText>
+            </Pressable>
+          </View>
+
+          <ThemedText
+            type="small"
+            style={[styles.hint, { color: theme.textSecondary }]}
+          >
+            Merge tops up days that have fewer units than the file. Keep Both
+            imports into a separate copy of the habit.
+          </ThemedText>
+
+          {preview.map((item) => {
+            const resolution = getResolution(item);
+            const color = item.match?.color ?? item.habit.template.color;
+            return (
+              <View
+                key={item.habit.key}
+                style={[
+                  styles.itemCard,
+                  { backgroundColor: theme.backgroundDefault },
+                ]}
+              >
+                <View style={styles.itemHeader}>
+                  <View
+                    style={[styles.itemIcon, { backgroundColor: color + "20" }]}
+                  >
+                    <Feather
+                      name={
+                        (item.match?.icon ?? item.habit.template.icon) as any
+                      }
+                      size={18}
+                      color={color}
+                    />
+                  </View>
+                  <View style={styles.itemInfo}>
+                    <ThemedText type="body" style={{ fontWeight: "600" }}>
+                      {item.habit.name}
+                    </ThemedText>
+                    <ThemedText
+                      type="small"
+                      style={{ color: theme.textSecondary }}
+                    >
+                      {describeItem(item)}
+                    </ThemedText>
+                    <ThemedText
+                      type="small"
+                      style={{
+                        color: item.match ? theme.accent : theme.textSecondary,
+                      }}
+                    >
+                      {item.match
+                        ? `Matches your habit "${item.match.name}"`
+                        : "New habit"}
+                    </ThemedText>
+                  </View>
+                </View>
+                <View style={styles.optionRow}>
+                  {getResolutionOptions(item).map((option) => (
+                    <Pressable
+                      key={option}
+                      onPress={() =>
+                        setResolutions((prev) => ({
+                          ...prev,
+                          [item.habit.key]: option,
+                        }))
+                      }
+                      style={[
+                        styles.optionButton,
+                        {
+                          backgroundColor:
+                            resolution === option
+                              ? color
+                              : theme.backgroundRoot,
+                          borderColor:
+                            resolution === option ? color : theme.border,
+                        },
+                      ]}
+                    >
+                      <ThemedText
+                        type="small"
+                        style={{
+                          color: resolution === option ? "white" : theme.text,
+                          fontWeight: "600",
+                        }}
+                      >
+                        {getResolutionLabel(item, option)}
+                      </ThemedText>
+                    </Pressable>
+                  ))}
+                </View>
+              </View>
+            );
+          })}
+
+          <Button
+            onPress={handleImport}
+            disabled={importing || selectedCount === 0}
+            style={styles.importButton}
+          >
+            {importing
+              ? "Importing..."
+              : `Import ${selectedCount} Habit${selectedCount === 1 ? "" : "s"}`}
+          </Button>
+        </View>
+      )}
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  content: {
+    paddingHorizontal: Spacing.lg,
+  },
+  intro: {
+    marginBottom: Spacing.lg,
+  },
+  fileCard: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: Spacing.md,
+    padding: Spacing.md,
+    borderRadius: BorderRadius.md,
+    marginBottom: Spacing.md,
+  },
+  fileInfo: {
+    flex: 1,
+  },
+  hint: {
+    marginBottom: Spacing.lg,
+  },
+  itemCard: {
+    padding: Spacing.md,
+    borderRadius: BorderRadius.md,
+    marginBottom: Spacing.md,
+  },
+  itemHeader: {
+    flexDirection: "row",
+    gap: Spacing.md,
+    marginBottom: Spacing.md,
+  },
+  itemIcon: {
+    width: 36,
+    height: 36,
+    borderRadius: 18,
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  itemInfo: {
+    flex: 1,
+  },
+  optionRow: {
+    flexDirection: "row",
+    gap: Spacing.sm,
+  },
+  optionButton: {
+    flex: 1,
+    height: 36,
+    borderRadius: 10,
+    borderWidth: 1,
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  importButton: {
+    marginTop: Spacing.md,
+  },
+});
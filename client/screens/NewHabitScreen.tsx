@@ -6,14 +6,16 @@ import { useNavigation } from "@react-navigation/native";
 import { HeaderButton } from "@react-navigation/elements";
 import { Feather } from "@expo/vector-icons";
 import { useTheme } from "@/hooks/useTheme";
-import { Spacing } from "@/constants/theme";
+import { Spacing, GOAL_PERIOD_LABELS } from "@/constants/theme";
 import { ThemedText } from "@/components/ThemedText";
 import { KeyboardAwareScrollViewCompat } from "@/components/KeyboardAwareScrollViewCompat";
 import { useUnits } from "@/lib/UnitsContext";
-import { HABIT_COLORS, HABIT_ICONS, HabitType, suggestIconAndColor } from "@/lib/storage";
+import { HABIT_COLORS, HABIT_ICONS, HabitType, GoalPeriod, suggestIconAndColor } from "@/lib/storage";
 
 type CreationMode = "count" | "time" | "bad";
 
+const GOAL_PERIOD_OPTIONS = Object.keys(GOAL_PERIOD_LABELS) as GoalPeriod[];
+
 export default function NewHabitScreen() {
   const insets = useSafeAreaInsets();
   const headerHeight = useHeaderHeight();
@@ -24,6 +26,7 @@ export default function NewHabitScreen() {
   const [creationMode, setCreationMode] = useState<CreationMode>("count");
   const [unitName, setUnitName] = useState("");
   const [dailyGoal, setDailyGoal] = useState("5");
+  const [goalPeriod, setGoalPeriod] = useState<GoalPeriod>("day");
   const [tapIncrement, setTapIncrement] = useState("1");
   const [selectedIcon, setSelectedIcon] = useState<string>(HABIT_ICONS[0]);
   const [selectedColor, setSelectedColor] = useState<string>(HABIT_COLORS[0]);
@@ -125,6 +128,7 @@ export default function NewHabitScreen() {
           color: selectedColor,
           unitName: unitName.trim(),
           dailyGoal: parseInt(dailyGoal) || 5,
+          goalPeriod,
           tapIncrement: tapIncrementValue,
           habitType,
         });
@@ -144,6 +148,7 @@ export default function NewHabitScreen() {
     badHabits,
     unitName,
     dailyGoal,
+    goalPeriod,
     tapIncrement,
     habitType,
     selectedIcon,
@@ -292,8 +297,29 @@ export default function NewHabitScreen() {
         <>
           <View style={styles.inputGroup}>
             <ThemedText type="small" style={[styles.label, { color: theme.textSecondary }]}>
-              Daily goal
+              Goal
             </ThemedText>
+            <View style={[styles.typeToggle, styles.periodToggle]}>
+              {GOAL_PERIOD_OPTIONS.map((period) => (
+                <Pressable
+                  key={period}
+                  onPress={() => setGoalPeriod(period)}
+                  style={[
+                    styles.periodButton,
+                    {
+                      backgroundColor: goalPeriod === period ? theme.accent : theme.backgroundDefault,
+                    },
+                  ]}
+                >
+                  <ThemedText
+                    type="small"
+                    style={{ color: goalPeriod === period ? theme.buttonText : theme.text, fontWeight: "600" }}
+                  >
+                    Per {GOAL_PERIOD_LABELS[period].noun}
+                  </ThemedText>
+                </Pressable>
+              ))}
+            </View>
             <View style={styles.goalRow}>
               <Pressable
                 onPress={() => setDailyGoal(String(Math.max(1, parseInt(dailyGoal) - 1)))}
@@ -320,7 +346,7 @@ export default function NewHabitScreen() {
                 <Feather name="plus" size={20} color={theme.text} />
               </Pressable>
               <ThemedText type="body" style={{ marginLeft: Spacing.sm, color: theme.textSecondary }}>
-                {creationMode === "time" ? "minutes" : unitName || "units"} per day
+                {creationMode === "time" ? "minutes" : unitName || "units"} per {GOAL_PERIOD_LABELS[goalPeriod].noun}
               </ThemedText>
             </View>
           </View>
@@ -415,7 +441,7 @@ export default function NewHabitScreen() {
                   {capitalizeWords(unitName) || "Your Habit"}
                 </ThemedText>
                 <ThemedText type="small" style={{ color: theme.textSecondary }}>
-                  Goal: {dailyGoal} {creationMode === "time" ? "min" : unitName || "units"}/day | +{tapIncrement} {creationMode === "time" ? "min" : unitName || "units"} per tap
+                  Goal: {dailyGoal} {creationMode === "time" ? "min" : unitName || "units"}/{GOAL_PERIOD_LABELS[goalPeriod].suffix} | +{tapIncrement} {creationMode === "time" ? "min" : unitName || "units"} per tap
                 </ThemedText>
               </View>
             </View>
@@ -539,6 +565,16 @@ const styles = StyleSheet.create({
     height: 48,
     borderRadius: 12,
   },
+  periodToggle: {
+    marginBottom: Spacing.sm,
+  },
+  periodButton: {
+    flex: 1,
+    alignItems: "center",
+    justifyContent: "center",
+    height: 36,
+    borderRadius: 10,
+  },
   input: {
     height: 52,
     borderRadius: 12,
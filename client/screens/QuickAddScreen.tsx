@@ -114,7 +114,7 @@ export default function QuickAddScreen() {
       }
       setIsSubmitting(true);
       try {
-        const success = await removeUnits(habitId, count);
+        const success = await removeUnits(habitId, count, "quick-add");
         if (success) {
           navigation.goBack();
         }
@@ -126,7 +126,7 @@ export default function QuickAddScreen() {
     } else {
       setIsSubmitting(true);
       try {
-        const success = await addUnits(habitId, count);
+        const success = await addUnits(habitId, count, "quick-add");
         if (success) {
           navigation.goBack();
         }
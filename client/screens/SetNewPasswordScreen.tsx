@@ -0,0 +1,223 @@
+import React, { useState } from "react";
+import { View, StyleSheet, TextInput, Pressable, Alert } from "react-native";
+import { useSafeAreaInsets } from "react-native-safe-area-context";
+import { LinearGradient } from "expo-linear-gradient";
+import { Feather } from "@expo/vector-icons";
+import Animated, { FadeIn, FadeInDown } from "react-native-reanimated";
+import { useAuth } from "@/lib/AuthContext";
+import { ThemedText } from "@/components/ThemedText";
+import { Button } from "@/components/Button";
+import { Spacing, BorderRadius } from "@/constants/theme";
+import { KeyboardAwareScrollViewCompat } from "@/components/KeyboardAwareScrollViewCompat";
+
+const MIN_PASSWORD_LENGTH = 6;
+
+// Shown after a password recovery link signed the user in. The session is
+// already valid, so leaving without a new password just continues into the app.
+export default function SetNewPasswordScreen() {
+  const insets = useSafeAreaInsets();
+  const { user, updatePassword, finishPasswordRecovery } = useAuth();
+
+  const [password, setPassword] = useState("");
+  const [confirmPassword, setConfirmPassword] = useState("");
+  const [showPassword, setShowPassword] = useState(false);
+  const [loading, setLoading] = useState(false);
+
+  const handleSave = async () => {
+    if (password.length < MIN_PASSWORD_LENGTH) {
+      Alert.alert(
+        "Weak Password",
+        `Password must be at least ${MIN_PASSWORD_LENGTH} characters.`,
+      );
+      return;
+    }
+    if (password !== confirmPassword) {
+      Alert.alert("Password Mismatch", "Passwords do not match.");
+      return;
+    }
+
+    setLoading(true);
+    try {
+      const { error } = await updatePassword(password);
+      if (error) {
+        Alert.alert("Error", error.message);
+      } else {
+        Alert.alert(
+          "Password Updated",
+          "Use your new password the next time you sign in.",
+        );
+      }
+    } catch {
+      Alert.alert("Error", "An unexpected error occurred. Please try again.");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <LinearGradient colors={["#667eea", "#764ba2"]} style={styles.container}>
+      <KeyboardAwareScrollViewCompat
+        contentContainerStyle={[
+          styles.scrollContent,
+          {
+            paddingTop: insets.top + Spacing.xl,
+            paddingBottom: insets.bottom + Spacing.xl,
+          },
+        ]}
+      >
+        <Animated.View entering={FadeInDown.delay(100)} style={styles.header}>
+          <View style={styles.iconContainer}>
+            <Feather name="lock" size={40} color="#FFFFFF" />
+          </View>
+          <ThemedText type="h2" style={styles.title}>
+            Choose a New Password
+          </ThemedText>
+          {user?.email ? (
+            <ThemedText type="body" style={styles.subtitle}>
+              For {user.email}
+            </ThemedText>
+          ) : null}
+        </Animated.View>
+
+        <Animated.View entering={FadeIn.delay(200)} style={styles.form}>
+          <View style={styles.inputContainer}>
+            <Feather
+              name="lock"
+              size={20}
+              color="rgba(255,255,255,0.7)"
+              style={styles.inputIcon}
+            />
+            <TextInput
+              style={styles.input}
+              placeholder="New Password"
+              placeholderTextColor="rgba(255,255,255,0.5)"
+              value={password}
+              onChangeText={setPassword}
+              secureTextEntry={!showPassword}
+              autoCapitalize="none"
+              autoComplete="new-password"
+              textContentType="newPassword"
+            />
+            <Pressable
+              onPress={() => setShowPassword(!showPassword)}
+              style={styles.eyeButton}
+            >
+              <Feather
+                name={showPassword ? "eye-off" : "eye"}
+                size={20}
+                color="rgba(255,255,255,0.7)"
+              />
+            </Pressable>
+          </View>
+
+          <View style={styles.inputContainer}>
+            <Feather
+              name="lock"
+              size={20}
+              color="rgba(255,255,255,0.7)"
+              style={styles.inputIcon}
+            />
+            <TextInput
+              style={styles.input}
+              placeholder="Confirm New Password"
+              placeholderTextColor="rgba(255,255,255,0.5)"
+              value={confirmPassword}
+              onChangeText={setConfirmPassword}
+              secureTextEntry={!showPassword}
+              autoCapitalize="none"
+              textContentType="newPassword"
+            />
+          </View>
+
+          <Button
+            onPress={handleSave}
+            disabled={loading}
+            variant="light"
+            style={styles.submitButton}
+          >
+            {loading ? "Please wait..." : "Save Password"}
+          </Button>
+
+          <Pressable
+            onPress={finishPasswordRecovery}
+            disabled={loading}
+            style={styles.skipButton}
+          >
+            <ThemedText type="body" style={styles.skipText}>
+              Not Now
+            </ThemedText>
+          </Pressable>
+        </Animated.View>
+      </KeyboardAwareScrollViewCompat>
+    </LinearGradient>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  scrollContent: {
+    flexGrow: 1,
+    paddingHorizontal: Spacing.xl,
+    justifyContent: "center",
+  },
+  header: {
+    alignItems: "center",
+    marginBottom: Spacing["2xl"],
+  },
+  iconContainer: {
+    width: 80,
+    height: 80,
+    borderRadius: 40,
+    backgroundColor: "rgba(255,255,255,0.2)",
+    alignItems: "center",
+    justifyContent: "center",
+    marginBottom: Spacing.lg,
+  },
+  title: {
+    color: "#FFFFFF",
+    fontWeight: "bold",
+    marginBottom: Spacing.sm,
+    textAlign: "center",
+  },
+  subtitle: {
+    color: "rgba(255,255,255,0.8)",
+    textAlign: "center",
+  },
+  form: {
+    gap: Spacing.md,
+  },
+  inputContainer: {
+    flexDirection: "row",
+    alignItems: "center",
+    backgroundColor: "rgba(255,255,255,0.15)",
+    borderRadius: BorderRadius.lg,
+    paddingHorizontal: Spacing.md,
+    height: 56,
+  },
+  inputIcon: {
+    marginRight: Spacing.sm,
+  },
+  input: {
+    flex: 1,
+    color: "#FFFFFF",
+    fontSize: 16,
+    height: "100%",
+  },
+  eyeButton: {
+    padding: Spacing.sm,
+  },
+  submitButton: {
+    marginTop: Spacing.md,
+    height: 56,
+  },
+  skipButton: {
+    alignItems: "center",
+    paddingVertical: Spacing.md,
+  },
+  skipText: {
+    color: "rgba(255,255,255,0.9)",
+    fontSize: 15,
+  },
+});
@@ -1,9 +1,11 @@
-import React, { useState, useCallback } from "react";
+import React, { useState, useCallback, useEffect } from "react";
 import { View, ScrollView, StyleSheet, Alert, Linking, Platform, Pressable } from "react-native";
 import { useSafeAreaInsets } from "react-native-safe-area-context";
 import { useHeaderHeight } from "@react-navigation/elements";
 import { useBottomTabBarHeight } from "@react-navigation/bottom-tabs";
 import Constants from "expo-constants";
+import { useNavigation } from "@react-navigation/native";
+import { NativeStackNavigationProp } from "@react-navigation/native-stack";
 import { useTheme } from "@/hooks/useTheme";
 import { Spacing, BorderRadius } from "@/constants/theme";
 import { ThemedText } from "@/components/ThemedText";
@@ -11,22 +13,64 @@ import { SettingsRow } from "@/components/SettingsRow";
 import { useUnits } from "@/lib/UnitsContext";
 import { useAuth } from "@/lib/AuthContext";
 import { useStoreKit } from "@/hooks/useStoreKit";
-import { clearAllData } from "@/lib/storage";
-import { supabase, isSupabaseConfigured } from "@/lib/supabase";
+import { isAppleSignInAvailable } from "@/lib/appleAuth";
+import { clearAllData, QuietHours } from "@/lib/storage";
+import { getDeviceTimeZone, getActiveTimeZone } from "@/lib/dates";
+import { requestReminderPermission, formatReminderTime } from "@/lib/reminders";
+import { deleteAccount } from "@/lib/habitService";
 import { validatePremiumAccess, validateAndGrantAccess } from "@/lib/storekit";
+import {
+  ExportBundle,
+  ExportTable,
+  EXPORT_TABLE_LABELS,
+  buildExportBundle,
+  isExportSharingAvailable,
+  shareExportJson,
+  shareExportCsv,
+} from "@/lib/dataExport";
+import { RootStackParamList } from "@/navigation/RootStackNavigator";
 
 const APPLE_SUBSCRIPTION_URL = "https://apps.apple.com/account/subscriptions";
+// Night owls can push the rollover past midnight so late taps count toward the day they started
+const DAY_START_OPTIONS = [0, 1, 2, 3, 4, 5, 6];
+const QUIET_HOURS_OPTIONS: QuietHours[] = [
+  { startHour: 21, endHour: 7 },
+  { startHour: 22, endHour: 7 },
+  { startHour: 22, endHour: 8 },
+  { startHour: 23, endHour: 8 },
+];
+const CHECK_IN_OPTIONS = ["12:00", "18:00", "20:00", "21:00"];
+
+function formatHour(hour: number): string {
+  if (hour === 0) return "Midnight";
+  if (hour === 12) return "Noon";
+  return hour < 12 ? `${hour}:00 AM` : `${hour - 12}:00 PM`;
+}
+
+function formatQuietHours({ startHour, endHour }: QuietHours): string {
+  return `${formatHour(startHour)} - ${formatHour(endHour)}`;
+}
 
 export default function SettingsScreen() {
   const insets = useSafeAreaInsets();
   const headerHeight = useHeaderHeight();
   const tabBarHeight = useBottomTabBarHeight();
   const { theme } = useTheme();
-  const { settings, updateSettings, setIsPro, isPro } = useUnits();
-  const { user, signOut } = useAuth();
+  const navigation = useNavigation<NativeStackNavigationProp<RootStackParamList>>();
+  const { habits, logs, badHabits, badHabitLogs, settings, updateSettings, setIsPro, isPro, loadHistory } = useUnits();
+  const { user, signOut, linkAppleId } = useAuth();
   const { restore, purchasing, iapAvailable } = useStoreKit();
   const [restoring, setRestoring] = useState(false);
   const [cancelling, setCancelling] = useState(false);
+  const [exporting, setExporting] = useState(false);
+  const [appleAvailable, setAppleAvailable] = useState(false);
+  const [linkingApple, setLinkingApple] = useState(false);
+
+  const hasAppleIdentity = user?.identities?.some((identity) => identity.provider === "apple") ?? false;
+
+  useEffect(() => {
+    isAppleSignInAvailable().then(setAppleAvailable);
+  }, []);
 
   const handleHapticsToggle = useCallback(
     (value: boolean) => {
@@ -35,6 +79,95 @@ export default function SettingsScreen() {
     [updateSettings]
   );
 
+  const handleDayStartPress = useCallback(() => {
+    Alert.alert(
+      "Day Starts At",
+      "Units logged before this time count toward the previous day.",
+      [
+        ...DAY_START_OPTIONS.map((hour) => ({
+          text: formatHour(hour),
+          onPress: () => updateSettings({ dayStartHour: hour }),
+        })),
+        { text: "Cancel", style: "cancel" as const },
+      ]
+    );
+  }, [updateSettings]);
+
+  const handleTravelModeToggle = useCallback(
+    (value: boolean) => {
+      updateSettings({ travelMode: value });
+    },
+    [updateSettings]
+  );
+
+  const handleHomeTimeZonePress = useCallback(() => {
+    const deviceTimeZone = getDeviceTimeZone();
+    if (settings.homeTimeZone === deviceTimeZone) {
+      Alert.alert("Home Time Zone", `Your days are counted in ${deviceTimeZone}.`);
+      return;
+    }
+    Alert.alert(
+      "Home Time Zone",
+      `Count your days in ${deviceTimeZone} from now on?`,
+      [
+        { text: "Cancel", style: "cancel" },
+        { text: "Use Current Time Zone", onPress: () => updateSettings({ homeTimeZone: deviceTimeZone }) },
+      ]
+    );
+  }, [settings.homeTimeZone, updateSettings]);
+
+  const handleRemindersToggle = useCallback(
+    async (value: boolean) => {
+      if (value && !(await requestReminderPermission())) {
+        Alert.alert(
+          "Notifications Off",
+          "Allow notifications for Units in your device settings to get habit reminders.",
+          [
+            { text: "Cancel", style: "cancel" },
+            { text: "Open Settings", onPress: () => Linking.openSettings() },
+          ]
+        );
+      }
+      updateSettings({ remindersEnabled: value });
+    },
+    [updateSettings]
+  );
+
+  const handleQuietHoursPress = useCallback(() => {
+    Alert.alert(
+      "Quiet Hours",
+      "Habit reminders are never sent during quiet hours.",
+      [
+        ...QUIET_HOURS_OPTIONS.map((quietHours) => ({
+          text: formatQuietHours(quietHours),
+          onPress: () => updateSettings({ quietHours }),
+        })),
+        { text: "Off", onPress: () => updateSettings({ quietHours: null }) },
+        { text: "Cancel", style: "cancel" as const },
+      ]
+    );
+  }, [updateSettings]);
+
+  const handleCheckInPress = useCallback(() => {
+    Alert.alert(
+      "Daily Check-In",
+      "A notification for each habit not yet at its goal, with buttons to log units without opening the app.",
+      [
+        ...CHECK_IN_OPTIONS.map((time) => ({
+          text: formatReminderTime(time),
+          onPress: async () => {
+            updateSettings({ checkInTime: time });
+            if (!(await requestReminderPermission())) {
+              Alert.alert("Notifications Off", "Allow notifications for Units in your device settings to get check-ins.");
+            }
+          },
+        })),
+        { text: "Off", onPress: () => updateSettings({ checkInTime: null }) },
+        { text: "Cancel", style: "cancel" as const },
+      ]
+    );
+  }, [updateSettings]);
+
   const handleManageSubscription = useCallback(() => {
     if (Platform.OS === "ios") {
       Linking.openURL(APPLE_SUBSCRIPTION_URL);
@@ -104,20 +237,23 @@ export default function SettingsScreen() {
           onPress: async () => {
             setCancelling(true);
             try {
-              // Step 1: Delete user data from Supabase
-              if (user?.id && isSupabaseConfigured) {
-                // Delete user's habit logs first (foreign key constraint)
-                await supabase.from("habit_logs").delete().eq("user_id", user.id);
-                // Delete user's habits
-                await supabase.from("habits").delete().eq("user_id", user.id);
-                // Delete user's bad habit logs first (foreign key constraint)
-                await supabase.from("bad_habit_logs").delete().eq("user_id", user.id);
-                // Delete user's bad habits
-                await supabase.from("bad_habits").delete().eq("user_id", user.id);
-                // Delete user's subscription
-                await supabase.from("subscriptions").delete().eq("user_id", user.id);
-                // Delete user's profile
-                await supabase.from("profiles").delete().eq("id", user.id);
+              let deletionReceiptId: string | null = null;
+
+              // Step 1: Delete the account and all of its data on the server, in one
+              // transaction. Nothing local is touched unless that succeeded, or an
+              // earlier attempt whose response was lost already deleted it.
+              if (user?.id) {
+                const { receipt, notFound, error: deleteError } = await deleteAccount(user.id);
+                if (notFound) {
+                  console.log("[Settings] Account was already deleted");
+                } else if (!receipt) {
+                  console.error("Delete account error:", deleteError);
+                  Alert.alert("Error", "Failed to delete account. Please try again or contact support.");
+                  return;
+                } else {
+                  console.log("[Settings] Account deleted, receipt:", receipt.receiptId);
+                  deletionReceiptId = receipt.receiptId;
+                }
               }
 
               // Step 2: Clear all local data
@@ -129,7 +265,7 @@ export default function SettingsScreen() {
               // Step 4: Redirect to Apple subscription management
               Alert.alert(
                 "Account Deleted",
-                "Your account has been deleted. You will now be redirected to Apple to cancel your subscription billing.",
+                `Your account has been deleted.${deletionReceiptId ? ` Deletion reference: ${deletionReceiptId}.` : ""} You will now be redirected to Apple to cancel your subscription billing.`,
                 [
                   {
                     text: "Continue",
@@ -151,6 +287,60 @@ export default function SettingsScreen() {
     );
   }, [user?.id, signOut]);
 
+  const runExport = useCallback(async (share: (bundle: ExportBundle) => Promise<void>) => {
+    setExporting(true);
+    try {
+      if (!(await isExportSharingAvailable())) {
+        Alert.alert("Export Unavailable", "Sharing is not available on this device.");
+        return;
+      }
+      // Sync keeps only recent logs on the device; fetch the rest so the export has everything
+      const history = await loadHistory();
+      const exportLogs = history ? history.logs : logs;
+      const exportBadHabitLogs = history ? history.badHabitLogs : badHabitLogs;
+      const bundle = await buildExportBundle(user?.id ?? null, { habits, logs: exportLogs, badHabits, badHabitLogs: exportBadHabitLogs, settings });
+      await share(bundle);
+      const gaps: string[] = [];
+      if (!bundle.includesArchived) gaps.push("Deleted habits could not be loaded, so only your current habits were exported.");
+      if (!history) gaps.push("Older history could not be loaded, so only the logs on this device were exported.");
+      if (gaps.length > 0) {
+        Alert.alert("Export Incomplete", `${gaps.join(" ")} Connect to the internet to include them.`);
+      }
+    } catch (error) {
+      console.error("[Export] Failed to export data:", error);
+      Alert.alert("Export Failed", "Your data could not be exported. Please try again.");
+    } finally {
+      setExporting(false);
+    }
+  }, [user?.id, habits, logs, badHabits, badHabitLogs, settings, loadHistory]);
+
+  const handleExportCsv = useCallback(() => {
+    const tables = Object.keys(EXPORT_TABLE_LABELS) as ExportTable[];
+    Alert.alert(
+      "Export CSV",
+      "Choose a table to export",
+      [
+        ...tables.map((table) => ({
+          text: EXPORT_TABLE_LABELS[table],
+          onPress: () => runExport((bundle) => shareExportCsv(bundle, table)),
+        })),
+        { text: "Cancel", style: "cancel" as const },
+      ]
+    );
+  }, [runExport]);
+
+  const handleExportData = useCallback(() => {
+    Alert.alert(
+      "Export Data",
+      "Includes deleted habits and bad habit penalties",
+      [
+        { text: "JSON (Everything)", onPress: () => runExport(shareExportJson) },
+        { text: "CSV", onPress: handleExportCsv },
+        { text: "Cancel", style: "cancel" },
+      ]
+    );
+  }, [runExport, handleExportCsv]);
+
   const handleTermsOfService = useCallback(() => {
     Linking.openURL("https://1betterwithunits.info/");
   }, []);
@@ -180,6 +370,20 @@ export default function SettingsScreen() {
     );
   }, [signOut]);
 
+  const handleLinkApple = useCallback(async () => {
+    if (linkingApple) return;
+    setLinkingApple(true);
+    const { error, cancelled } = await linkAppleId();
+    setLinkingApple(false);
+
+    if (cancelled) return;
+    if (error) {
+      Alert.alert("Couldn't Link Apple ID", error.message);
+    } else {
+      Alert.alert("Apple ID Linked", "You can now sign in with Apple or with your email.");
+    }
+  }, [linkingApple, linkAppleId]);
+
   return (
     <ScrollView
       style={[styles.container, { backgroundColor: theme.backgroundRoot }]}
@@ -206,6 +410,22 @@ export default function SettingsScreen() {
             </ThemedText>
           </View>
         </View>
+        {user ? (
+          <SettingsRow
+            icon="at-sign"
+            title="Change Email"
+            subtitle={user.new_email ? `Confirm ${user.new_email} from your inbox` : undefined}
+            onPress={() => navigation.navigate("ChangeEmail")}
+          />
+        ) : null}
+        {appleAvailable && user && !hasAppleIdentity ? (
+          <SettingsRow
+            icon="link"
+            title="Link Apple ID"
+            subtitle={linkingApple ? "Linking..." : "Also sign in with Apple"}
+            onPress={handleLinkApple}
+          />
+        ) : null}
         <SettingsRow
           icon="log-out"
           title="Sign Out"
@@ -250,6 +470,70 @@ export default function SettingsScreen() {
           toggleValue={settings.hapticsEnabled}
           onToggle={handleHapticsToggle}
         />
+        <SettingsRow
+          icon="moon"
+          title="Day Starts At"
+          subtitle={formatHour(settings.dayStartHour ?? 0)}
+          onPress={handleDayStartPress}
+        />
+        <SettingsRow
+          icon="home"
+          title="Home Time Zone"
+          subtitle={settings.homeTimeZone ?? getDeviceTimeZone()}
+          onPress={handleHomeTimeZonePress}
+        />
+        <SettingsRow
+          icon="globe"
+          title="Travel Mode"
+          subtitle={`Days follow ${getActiveTimeZone()}`}
+          toggle
+          toggleValue={settings.travelMode ?? false}
+          onToggle={handleTravelModeToggle}
+        />
+      </View>
+
+      <View style={styles.section}>
+        <ThemedText type="small" style={[styles.sectionTitle, { color: theme.textSecondary }]}>
+          Reminders
+        </ThemedText>
+        <SettingsRow
+          icon="bell"
+          title="Habit Reminders"
+          subtitle="Set reminder times on each habit"
+          toggle
+          toggleValue={settings.remindersEnabled ?? true}
+          onToggle={handleRemindersToggle}
+        />
+        <SettingsRow
+          icon="check-circle"
+          title="Daily Check-In"
+          subtitle={settings.checkInTime ? formatReminderTime(settings.checkInTime) : "Off"}
+          onPress={handleCheckInPress}
+        />
+        <SettingsRow
+          icon="moon"
+          title="Quiet Hours"
+          subtitle={settings.quietHours ? formatQuietHours(settings.quietHours) : "Off"}
+          onPress={handleQuietHoursPress}
+        />
+      </View>
+
+      <View style={styles.section}>
+        <ThemedText type="small" style={[styles.sectionTitle, { color: theme.textSecondary }]}>
+          Data
+        </ThemedText>
+        <SettingsRow
+          icon="download"
+          title="Export Data"
+          subtitle={exporting ? "Exporting..." : "JSON or CSV"}
+          onPress={exporting ? undefined : handleExportData}
+        />
+        <SettingsRow
+          icon="upload"
+          title="Import Data"
+          subtitle="Units backup or CSV from another tracker"
+          onPress={() => navigation.navigate("ImportData")}
+        />
       </View>
 
       <View style={styles.section}>
@@ -1,4 +1,4 @@
-import React, { useMemo, useState, useCallback } from "react";
+import React, { useMemo, useState, useCallback, useEffect } from "react";
 import { View, ScrollView, StyleSheet, Pressable, Dimensions, Modal } from "react-native";
 import { useSafeAreaInsets } from "react-native-safe-area-context";
 import { useHeaderHeight } from "@react-navigation/elements";
@@ -6,9 +6,11 @@ import { useBottomTabBarHeight } from "@react-navigation/bottom-tabs";
 import { Feather } from "@expo/vector-icons";
 import Animated, { FadeIn, FadeInDown } from "react-native-reanimated";
 import { useTheme } from "@/hooks/useTheme";
-import { Spacing, BorderRadius } from "@/constants/theme";
+import { Spacing, BorderRadius, GOAL_PERIOD_LABELS } from "@/constants/theme";
 import { ThemedText } from "@/components/ThemedText";
 import { useUnits } from "@/lib/UnitsContext";
+import { getDateForTimestamp, addDays, daysBetween as daysBetweenDates, getPeriodEnd, isHabitDueOn } from "@/lib/dates";
+import { getDayRollup, getHabitDates, sumHabitUnits } from "@/lib/statsIndex";
 
 type TimeRange = "week" | "month" | "year";
 
@@ -18,23 +20,20 @@ const RED = "#FF3B30"; // Bright red (no pink)
 const GOLD = "#FFD700";
 const YELLOW = "#FFD93D";
 
-// Convert UTC ISO timestamp to local date string (YYYY-MM-DD)
-const getLocalDateFromISO = (isoString: string): string => {
-  const date = new Date(isoString);
-  const y = date.getFullYear();
-  const m = String(date.getMonth() + 1).padStart(2, "0");
-  const d = String(date.getDate()).padStart(2, "0");
-  return `${y}-${m}-${d}`;
-};
+// Convert UTC ISO timestamp to the day it belongs to (YYYY-MM-DD), respecting the home time zone and day start hour
+const getLocalDateFromISO = (isoString: string): string => getDateForTimestamp(isoString);
 
 export default function StatsScreen() {
   const insets = useSafeAreaInsets();
   const headerHeight = useHeaderHeight();
   const tabBarHeight = useBottomTabBarHeight();
   const { theme } = useTheme();
-  const { habits, logs, badHabits, badHabitLogs, currentDate, addUnitsForDate, removeUnitsForDate, getDailyProgress, tapBadHabitForDate, undoBadHabitTapForDate, getBadHabitTapsForDate, getEffectiveTotalForDate, getEffectiveHabitUnitsForDate } = useUnits();
+  const { habits, logs, badHabits, badHabitLogs, currentDate, addUnitsForDate, removeUnitsForDate, getDailyProgress, tapBadHabitForDate, undoBadHabitTapForDate, getBadHabitTapsForDate, getEffectiveTotalForDate, getEffectiveHabitUnitsForDate, getEffectivePeriodUnits, historyStart, loadHistory, statsIndex } = useUnits();
   
   const [timeRange, setTimeRange] = useState<TimeRange>("week");
+  // How many periods back from the current one the progress grid shows
+  const [periodOffset, setPeriodOffset] = useState(0);
+  const [loadingHistory, setLoadingHistory] = useState(false);
   const [selectedDate, setSelectedDate] = useState<string | null>(null);
 
   const activeHabits = useMemo(
@@ -59,23 +58,12 @@ export default function StatsScreen() {
   }, [habits, badHabits, currentDate]);
 
   const getDateString = useCallback((daysAgo: number) => {
-    const [year, month, day] = currentDate.split("-").map(Number);
-    const date = new Date(year, month - 1, day);
-    date.setDate(date.getDate() - daysAgo);
-    const y = date.getFullYear();
-    const m = String(date.getMonth() + 1).padStart(2, "0");
-    const d = String(date.getDate()).padStart(2, "0");
-    return `${y}-${m}-${d}`;
+    return addDays(currentDate, -daysAgo);
   }, [currentDate]);
 
   const getDayStats = useMemo(() => {
-    // Create set of active habit IDs for efficient lookup
-    const habitIds = new Set(activeHabits.map((h) => h.id));
-    
     return (dateStr: string) => {
-      // Only count logs for habits that still exist
-      const dayLogs = logs.filter((l) => l.date === dateStr && habitIds.has(l.habitId));
-      const dayBadLogs = badHabitLogs.filter((l) => l.date === dateStr && !l.isUndone);
+      const day = getDayRollup(statsIndex, dateStr);
       
       // Use effective (penalty-adjusted) total for the day
       const total = getEffectiveTotalForDate(dateStr);
@@ -90,17 +78,32 @@ export default function StatsScreen() {
         const createdDate = getLocalDateFromISO(h.createdAt);
         return createdDate <= dateStr;
       });
+      // Habits resting on this day (per their schedule) have no goal to meet
+      const dueHabits = dayActiveHabits.filter((h) => isHabitDueOn(h, dateStr));
+      
+      // Weekly/monthly goals count as met for every day of their period once the period total
+      // reaches them; days in the current period are judged on the total so far
+      const goalTotals: Record<string, number> = {};
+      dueHabits.forEach((h) => {
+        const period = h.goalPeriod ?? "day";
+        if (period === "day") {
+          goalTotals[h.id] = habitTotals[h.id] || 0;
+        } else {
+          const periodEnd = getPeriodEnd(period, dateStr);
+          goalTotals[h.id] = getEffectivePeriodUnits(h.id, periodEnd < currentDate ? periodEnd : currentDate);
+        }
+      });
       
-      const totalGoal = dayActiveHabits.reduce((sum, h) => sum + h.dailyGoal, 0);
-      const allGoalsMet = dayActiveHabits.length > 0 && dayActiveHabits.every(
-        (h) => (habitTotals[h.id] || 0) >= h.dailyGoal
+      const totalGoal = dueHabits.reduce((sum, h) => sum + h.dailyGoal, 0);
+      const allGoalsMet = dayActiveHabits.length > 0 && dueHabits.every(
+        (h) => (goalTotals[h.id] || 0) >= h.dailyGoal
       );
-      const noBadHabits = dayBadLogs.length === 0;
+      const noBadHabits = day.badHabitTaps === 0;
       const isGoodDay = allGoalsMet && noBadHabits;
       
       return { total, totalGoal, allGoalsMet, isGoodDay, habitTotals };
     };
-  }, [logs, badHabitLogs, activeHabits, getEffectiveTotalForDate, getEffectiveHabitUnitsForDate]);
+  }, [statsIndex, activeHabits, currentDate, getEffectiveTotalForDate, getEffectiveHabitUnitsForDate, getEffectivePeriodUnits]);
 
   const overviewStats = useMemo(() => {
     const today = getDayStats(currentDate);
@@ -147,14 +150,12 @@ export default function StatsScreen() {
     
     // Get all unique dates from logs of active habits only
     const allDates = new Set<string>();
-    logs.forEach((l) => {
-      if (activeHabitIds.has(l.habitId)) {
-        allDates.add(l.date);
-      }
+    activeHabitIds.forEach((habitId) => {
+      getHabitDates(statsIndex, habitId).forEach((date) => allDates.add(date));
     });
+    const activeBadHabitIds = new Set(badHabits.filter((b) => !b.isArchived).map((b) => b.id));
     badHabitLogs.forEach((l) => {
-      const bh = badHabits.find((b) => b.id === l.badHabitId);
-      if (bh && !bh.isArchived) {
+      if (activeBadHabitIds.has(l.badHabitId)) {
         allDates.add(l.date);
       }
     });
@@ -208,7 +209,7 @@ export default function StatsScreen() {
     
     // Motivational message based on cumulative score
     let message = "";
-    if (progress.totalGoal === 0) {
+    if (activeHabits.length === 0) {
       message = "Start tracking to see progress!";
     } else if (cumulativeScore >= 5) {
       message = "Incredible journey!";
@@ -225,26 +226,16 @@ export default function StatsScreen() {
     }
     
     return { displayPercent, isPositive, message, goodDays, trackedDays, hasBadHabits };
-  }, [getDailyProgress, getDayStats, logs, badHabitLogs, currentDate, activeHabits, badHabits]);
+  }, [getDailyProgress, getDayStats, statsIndex, badHabitLogs, currentDate, activeHabits, badHabits]);
 
   // Helper to calculate days between two date strings
   const daysBetween = useCallback((startDateStr: string, endDateStr: string): number => {
-    const [sy, sm, sd] = startDateStr.split("-").map(Number);
-    const [ey, em, ed] = endDateStr.split("-").map(Number);
-    const start = new Date(sy, sm - 1, sd);
-    const end = new Date(ey, em - 1, ed);
-    return Math.floor((end.getTime() - start.getTime()) / (1000 * 60 * 60 * 24));
+    return daysBetweenDates(startDateStr, endDateStr);
   }, []);
 
   // Helper to add days to a date string
   const addDaysToDate = useCallback((dateStr: string, daysToAdd: number): string => {
-    const [y, m, d] = dateStr.split("-").map(Number);
-    const date = new Date(y, m - 1, d);
-    date.setDate(date.getDate() + daysToAdd);
-    const ny = date.getFullYear();
-    const nm = String(date.getMonth() + 1).padStart(2, "0");
-    const nd = String(date.getDate()).padStart(2, "0");
-    return `${ny}-${nm}-${nd}`;
+    return addDays(dateStr, daysToAdd);
   }, []);
 
   const trendData = useMemo(() => {
@@ -258,13 +249,18 @@ export default function StatsScreen() {
     const currentPeriodIndex = Math.floor(daysSinceStart / periodLength);
     const dayInPeriod = daysSinceStart % periodLength; // 0 = first day of period
     
-    // Calculate the start date of the current period
-    const periodStartDate = addDaysToDate(accountStartDate, currentPeriodIndex * periodLength);
+    // Step back from the current period, but not before the first one
+    const periodIndex = Math.max(0, currentPeriodIndex - periodOffset);
+    const isCurrentPeriod = periodIndex === currentPeriodIndex;
+    
+    // Calculate the start date of the period being shown
+    const periodStartDate = addDaysToDate(accountStartDate, periodIndex * periodLength);
+    const periodEndDate = addDaysToDate(periodStartDate, periodLength - 1);
     
     // Build data for each day in the period
     for (let i = 0; i < periodLength; i++) {
       const dateStr = addDaysToDate(periodStartDate, i);
-      const isFuture = i > dayInPeriod; // Days after today in this period
+      const isFuture = isCurrentPeriod && i > dayInPeriod; // Days after today in the current period
       
       if (isFuture) {
         // Future days in the current period - show as empty placeholder
@@ -282,11 +278,11 @@ export default function StatsScreen() {
       } else {
         // Past days or today - check if there's any actual activity
         const stats = getDayStats(dateStr);
-        const dayBadLogs = badHabitLogs.filter((l) => l.date === dateStr && !l.isUndone);
+        const day = getDayRollup(statsIndex, dateStr);
         
         // Check if there are any logs (positive or negative) for this day
-        const dayHasLogs = logs.some((l) => l.date === dateStr);
-        const dayHasBadLogs = dayBadLogs.length > 0;
+        const dayHasLogs = day.habitUnits.size > 0;
+        const dayHasBadLogs = day.badHabitTaps > 0;
         
         // A day is "empty" (no activity) if no one logged any units AND no bad habits were tapped
         // Even if habits exist with goals, if no one worked on them, show as empty
@@ -313,45 +309,58 @@ export default function StatsScreen() {
     const successRate = totalDays > 0 ? Math.round((goodDays / totalDays) * 100) : 0;
     const totalUnits = activeDays.reduce((sum, d) => sum + d.total, 0);
     
-    return { data, goodDays, totalDays, successRate, totalUnits, periodStartDate, dayInPeriod };
-  }, [timeRange, getDayStats, badHabitLogs, logs, accountStartDate, currentDate, daysBetween, addDaysToDate]);
+    return { data, goodDays, totalDays, successRate, totalUnits, periodStartDate, periodEndDate, dayInPeriod, isCurrentPeriod, isFirstPeriod: periodIndex === 0 };
+  }, [timeRange, periodOffset, getDayStats, statsIndex, accountStartDate, currentDate, daysBetween, addDaysToDate]);
+
+  const startOfYear = `${currentDate.slice(0, 4)}-01-01`;
+
+  // Only recent history is kept on the device. Fetch older logs when the grid (or this
+  // year's totals) reach back past them.
+  const historyNeededFrom = trendData.periodStartDate < startOfYear ? trendData.periodStartDate : startOfYear;
+  const isHistoryMissing = historyStart !== null && historyNeededFrom < historyStart;
+  useEffect(() => {
+    if (!isHistoryMissing) return;
+    let cancelled = false;
+    setLoadingHistory(true);
+    loadHistory(historyNeededFrom).finally(() => {
+      if (!cancelled) setLoadingHistory(false);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [isHistoryMissing, historyNeededFrom, loadHistory]);
+
+  const formatShortDate = (dateStr: string) =>
+    new Date(dateStr + "T12:00:00").toLocaleDateString("en-US", { month: "short", day: "numeric", year: "numeric" });
 
   const habitStats = useMemo(() => {
-    const now = new Date();
-    const startOfYear = `${now.getFullYear()}-01-01`;
-    
     return activeHabits.map((habit) => {
       // Use effective (penalty-adjusted) today units
       const todayUnits = getEffectiveHabitUnitsForDate(habit.id, currentDate);
       
-      // Get all unique dates for this habit (excluding current date for bestDay calculation)
-      const habitLogs = logs.filter((l) => l.habitId === habit.id);
-      const uniqueDates = [...new Set(habitLogs.map((l) => l.date))];
-      const historicalDates = uniqueDates.filter((d) => d !== currentDate);
+      // Get all dates with logs for this habit (excluding current date for bestDay calculation)
+      const historicalDates = getHabitDates(statsIndex, habit.id).filter((d) => d !== currentDate);
       
       // Calculate effective day totals for each historical date (excluding today)
-      const dayTotals: Record<string, number> = {};
-      historicalDates.forEach((date) => {
-        dayTotals[date] = getEffectiveHabitUnitsForDate(habit.id, date);
-      });
-      const dayValues = Object.values(dayTotals);
+      const dayValues = historicalDates.map((date) => getEffectiveHabitUnitsForDate(habit.id, date));
       const bestDay = dayValues.length > 0 ? Math.max(...dayValues) : 0;
       // avgDay also uses historical data only (excluding current day)
       const avgDay = dayValues.length > 0 ? Math.round(dayValues.reduce((a, b) => a + b, 0) / dayValues.length) : 0;
       
       // Year and all-time totals using effective units
-      const yearDates = uniqueDates.filter((d) => d >= startOfYear);
-      const yearTotal = yearDates.reduce((sum, date) => sum + getEffectiveHabitUnitsForDate(habit.id, date), 0);
-      const allTimeTotal = uniqueDates.reduce((sum, date) => sum + getEffectiveHabitUnitsForDate(habit.id, date), 0);
+      const yearTotal = sumHabitUnits(statsIndex, habit.id, { from: startOfYear }, "effective");
+      const allTimeTotal = sumHabitUnits(statsIndex, habit.id, {}, "effective");
       
-      const isGoalMet = todayUnits >= habit.dailyGoal;
-      const progress = habit.dailyGoal > 0 ? Math.min(todayUnits / habit.dailyGoal, 1) : 0;
+      // Goal progress covers the habit's goal period (today, this week or this month)
+      const periodUnits = getEffectivePeriodUnits(habit.id, currentDate);
+      const isGoalMet = periodUnits >= habit.dailyGoal;
+      const progress = habit.dailyGoal > 0 ? Math.min(periodUnits / habit.dailyGoal, 1) : 0;
       
       const unitLabel = habit.habitType === "time" ? "min" : "";
       
-      return { habit, todayUnits, isGoalMet, progress, bestDay, avgDay, yearTotal, allTimeTotal, unitLabel };
+      return { habit, todayUnits, periodUnits, isGoalMet, progress, bestDay, avgDay, yearTotal, allTimeTotal, unitLabel };
     });
-  }, [activeHabits, logs, currentDate, getEffectiveHabitUnitsForDate]);
+  }, [activeHabits, statsIndex, currentDate, startOfYear, getEffectiveHabitUnitsForDate, getEffectivePeriodUnits]);
 
   const badHabitStats = useMemo(() => {
     const activeBadHabits = badHabits.filter(bh => !bh.isArchived);
@@ -466,7 +475,10 @@ export default function StatsScreen() {
         {(["week", "month", "year"] as TimeRange[]).map((range) => (
           <Pressable
             key={range}
-            onPress={() => setTimeRange(range)}
+            onPress={() => {
+              setTimeRange(range);
+              setPeriodOffset(0);
+            }}
             style={[
               styles.tab,
               {
@@ -500,6 +512,29 @@ export default function StatsScreen() {
             </ThemedText>
           </View>
         </View>
+        <View style={styles.periodNav}>
+          <Pressable
+            onPress={() => setPeriodOffset((offset) => offset + 1)}
+            disabled={trendData.isFirstPeriod}
+            hitSlop={8}
+            style={trendData.isFirstPeriod && styles.periodNavDisabled}
+          >
+            <Feather name="chevron-left" size={20} color={theme.textSecondary} />
+          </Pressable>
+          <ThemedText type="small" style={{ color: theme.textSecondary }}>
+            {trendData.isCurrentPeriod
+              ? `This ${timeRange}`
+              : `${formatShortDate(trendData.periodStartDate)} - ${formatShortDate(trendData.periodEndDate)}`}
+          </ThemedText>
+          <Pressable
+            onPress={() => setPeriodOffset((offset) => Math.max(0, offset - 1))}
+            disabled={trendData.isCurrentPeriod}
+            hitSlop={8}
+            style={trendData.isCurrentPeriod && styles.periodNavDisabled}
+          >
+            <Feather name="chevron-right" size={20} color={theme.textSecondary} />
+          </Pressable>
+        </View>
         <View style={[
           styles.heatmapGrid,
           timeRange === "week" && styles.heatmapWeek,
@@ -549,6 +584,11 @@ export default function StatsScreen() {
             );
           })}
         </View>
+        {isHistoryMissing && historyStart ? (
+          <ThemedText type="small" style={[styles.historyNote, { color: theme.textSecondary }]}>
+            {loadingHistory ? "Loading older history..." : `Couldn't load history before ${formatShortDate(historyStart)}`}
+          </ThemedText>
+        ) : null}
       </Animated.View>
 
       <ThemedText type="h4" style={styles.sectionTitle}>Habits</ThemedText>
@@ -599,7 +639,7 @@ export default function StatsScreen() {
                 />
               </View>
               <ThemedText type="small" style={{ color: theme.textSecondary, minWidth: 45, textAlign: "right" }}>
-                {stat.todayUnits}/{stat.habit.dailyGoal}
+                {stat.periodUnits}/{stat.habit.dailyGoal}{(stat.habit.goalPeriod ?? "day") !== "day" ? ` ${GOAL_PERIOD_LABELS[stat.habit.goalPeriod ?? "day"].suffix}` : ""}
               </ThemedText>
             </View>
             
@@ -620,7 +660,7 @@ export default function StatsScreen() {
                 <ThemedText type="body" style={{ fontWeight: "600", color: stat.habit.color }}>
                   {stat.yearTotal.toLocaleString()}
                 </ThemedText>
-                <ThemedText type="small" style={{ color: theme.textSecondary }}>{new Date().getFullYear()}</ThemedText>
+                <ThemedText type="small" style={{ color: theme.textSecondary }}>{currentDate.slice(0, 4)}</ThemedText>
               </View>
               <View style={styles.habitStatItem}>
                 <ThemedText type="body" style={{ fontWeight: "600", color: stat.habit.color }}>
@@ -720,7 +760,7 @@ export default function StatsScreen() {
                     <View style={{ flex: 1 }}>
                       <ThemedText type="body" style={{ fontWeight: "500" }}>{habit.name}</ThemedText>
                       <ThemedText type="small" style={{ color: theme.textSecondary }}>
-                        {units} / {habit.dailyGoal} {habit.unitName}
+                        {units} / {habit.dailyGoal} {habit.unitName}{(habit.goalPeriod ?? "day") !== "day" ? ` per ${GOAL_PERIOD_LABELS[habit.goalPeriod ?? "day"].noun}` : ""}
                       </ThemedText>
                     </View>
                     <View style={styles.editButtons}>
@@ -871,6 +911,19 @@ const styles = StyleSheet.create({
     alignItems: "center",
     marginBottom: Spacing.md,
   },
+  periodNav: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    marginBottom: Spacing.md,
+  },
+  periodNavDisabled: {
+    opacity: 0.3,
+  },
+  historyNote: {
+    marginTop: Spacing.md,
+    textAlign: "center",
+  },
   heatmapGrid: {
     flexDirection: "row",
     flexWrap: "wrap",
@@ -1,5 +1,5 @@
-import React, { useMemo } from "react";
-import { View, ScrollView, StyleSheet } from "react-native";
+import React, { useMemo, useCallback } from "react";
+import { View, ScrollView, StyleSheet, Pressable, Alert } from "react-native";
 import { useSafeAreaInsets } from "react-native-safe-area-context";
 import { useHeaderHeight } from "@react-navigation/elements";
 import { useBottomTabBarHeight } from "@react-navigation/bottom-tabs";
@@ -35,8 +35,26 @@ export default function TodayScreen() {
     getHighestDailyTotal,
     getDailyProgress,
     getEffectiveUnitsDistribution,
+    pendingChanges,
+    timeZoneNotice,
+    dismissTimeZoneNotice,
+    updateSettings,
   } = useUnits();
 
+  const handleTimeZoneNoticePress = useCallback(() => {
+    if (!timeZoneNotice) return;
+    const { homeTimeZone, deviceTimeZone } = timeZoneNotice;
+    Alert.alert(
+      "Time Zone Changed",
+      `You're in ${deviceTimeZone}, but your days are counted in ${homeTimeZone}.`,
+      [
+        { text: "Use Local Time (Travel Mode)", onPress: () => updateSettings({ travelMode: true }) },
+        { text: `Make ${deviceTimeZone} Home`, onPress: () => updateSettings({ homeTimeZone: deviceTimeZone }) },
+        { text: `Keep ${homeTimeZone}`, style: "cancel", onPress: dismissTimeZoneNotice },
+      ]
+    );
+  }, [timeZoneNotice, updateSettings, dismissTimeZoneNotice]);
+
   const activeHabits = useMemo(
     () => habits.filter((h) => !h.isArchived),
     [habits]
@@ -120,9 +138,30 @@ export default function TodayScreen() {
         ]}
         scrollIndicatorInsets={{ bottom: overlayHeight + bottomOffset }}
       >
+        {timeZoneNotice ? (
+          <Pressable
+            onPress={handleTimeZoneNoticePress}
+            style={[styles.timeZoneNotice, { backgroundColor: theme.backgroundDefault }]}
+          >
+            <Feather name="globe" size={16} color={theme.accent} />
+            <ThemedText type="small" style={styles.timeZoneNoticeText}>
+              New time zone ({timeZoneNotice.deviceTimeZone}). Days still follow {timeZoneNotice.homeTimeZone}.
+            </ThemedText>
+            <Feather name="chevron-right" size={16} color={theme.textSecondary} />
+          </Pressable>
+        ) : null}
+
         <View style={styles.section}>
           <View style={styles.sectionHeader}>
             <ThemedText type="h4">My Habits</ThemedText>
+            {pendingChanges > 0 ? (
+              <View style={[styles.pendingBadge, { backgroundColor: theme.backgroundDefault }]}>
+                <Feather name="cloud-off" size={12} color={theme.textSecondary} />
+                <ThemedText type="small" style={{ color: theme.textSecondary }}>
+                  {pendingChanges} {pendingChanges === 1 ? "change" : "changes"} pending
+                </ThemedText>
+              </View>
+            ) : null}
           </View>
 
           {activeHabits.length === 0 ? (
@@ -251,6 +290,25 @@ const styles = StyleSheet.create({
     alignItems: "center",
     marginBottom: Spacing.md,
   },
+  pendingBadge: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: Spacing.xs,
+    paddingHorizontal: Spacing.sm,
+    paddingVertical: Spacing.xs,
+    borderRadius: 12,
+  },
+  timeZoneNotice: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: Spacing.sm,
+    padding: Spacing.md,
+    borderRadius: 12,
+    marginBottom: Spacing.lg,
+  },
+  timeZoneNoticeText: {
+    flex: 1,
+  },
   emptyState: {
     padding: Spacing["2xl"],
     borderRadius: 20,
@@ -0,0 +1,476 @@
+/**
+ * Generates signed StoreKit 2 transactions for testing App Store verification
+ * offline.
+ *
+ * Apple signs transactions as ES256 JWS with an x5c chain of
+ * leaf -> intermediate -> Apple Root CA. This script builds the same shape of
+ * chain from a throwaway test root (including the Apple marker OIDs the
+ * verifier checks for), signs a set of transactions with it, and writes:
+ *
+ *   server/fixtures/storekit/test-root-ca.cer         DER test root
+ *   server/fixtures/storekit/signed-transactions.json fixture transactions
+ *   server/fixtures/storekit/signed-notifications.json App Store Server
+ *     Notifications v2 about the activeMonthly and expired transactions
+ *
+ * The server only trusts the test root when APP_STORE_TRUST_TEST_ROOT=true and
+ * NODE_ENV is not production.
+ *
+ * Usage: npx tsx scripts/generate-storekit-fixtures.ts
+ * Requires the openssl CLI.
+ */
+import { execFileSync } from "child_process";
+import * as crypto from "crypto";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+
+const BUNDLE_ID = "com.1betterwithunits.app";
+const MONTHLY = "1better.subscription.monthly";
+const YEARLY = "1better.subscription.yearly";
+
+const OUTPUT_DIR = path.resolve(
+  process.cwd(),
+  "server",
+  "fixtures",
+  "storekit",
+);
+
+const APPLE_INTERMEDIATE_OID = "1.2.840.113635.100.6.2.1";
+const APPLE_RECEIPT_SIGNER_OID = "1.2.840.113635.100.6.11.1";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+interface Chain {
+  leafKey: string;
+  x5c: string[];
+  rootDer: Buffer;
+}
+
+function openssl(args: string[], cwd: string): void {
+  execFileSync("openssl", args, { cwd, stdio: "pipe" });
+}
+
+function derBase64(pemPath: string): string {
+  return fs
+    .readFileSync(pemPath, "utf8")
+    .replace(/-----(BEGIN|END) CERTIFICATE-----/g, "")
+    .replace(/\s+/g, "");
+}
+
+function createChain(workDir: string): Chain {
+  fs.writeFileSync(
+    path.join(workDir, "ext.cnf"),
+    [
+      "[root]",
+      "basicConstraints = critical, CA:true",
+      "keyUsage = critical, keyCertSign, cRLSign",
+      "subjectKeyIdentifier = hash",
+      "",
+      "[intermediate]",
+      "basicConstraints = critical, CA:true, pathlen:0",
+      "keyUsage = critical, keyCertSign, cRLSign",
+      "subjectKeyIdentifier = hash",
+      "authorityKeyIdentifier = keyid",
+      `${APPLE_INTERMEDIATE_OID} = ASN1:NULL`,
+      "",
+      "[leaf]",
+      "basicConstraints = critical, CA:false",
+      "keyUsage = critical, digitalSignature",
+      "subjectKeyIdentifier = hash",
+      "authorityKeyIdentifier = keyid",
+      `${APPLE_RECEIPT_SIGNER_OID} = ASN1:NULL`,
+      "",
+    ].join("\n"),
+  );
+
+  const certs: [string, string, string | null][] = [
+    ["root", "/CN=Units Test Root CA/O=Units Test", null],
+    ["intermediate", "/CN=Units Test WWDR CA/O=Units Test", "root"],
+    ["leaf", "/CN=Units Test StoreKit Signer/O=Units Test", "intermediate"],
+  ];
+
+  for (const [name, subject, issuer] of certs) {
+    openssl(
+      [
+        "ecparam",
+        "-name",
+        "prime256v1",
+        "-genkey",
+        "-noout",
+        "-out",
+        `${name}.key`,
+      ],
+      workDir,
+    );
+    if (issuer) {
+      openssl(
+        [
+          "req",
+          "-new",
+          "-key",
+          `${name}.key`,
+          "-subj",
+          subject,
+          "-out",
+          `${name}.csr`,
+        ],
+        workDir,
+      );
+    }
+    // Issued before any fixture is signed, so every signedDate falls inside it
+    const validity = [
+      "-days",
+      "7300",
+      "-sha256",
+      "-extfile",
+      "ext.cnf",
+      "-extensions",
+      name,
+      "-set_serial",
+      String(Date.now() + certs.findIndex(([n]) => n === name)),
+    ];
+    if (issuer) {
+      openssl(
+        [
+          "x509",
+          "-req",
+          "-in",
+          `${name}.csr`,
+          "-CA",
+          `${issuer}.pem`,
+          "-CAkey",
+          `${issuer}.key`,
+          "-out",
+          `${name}.pem`,
+          ...validity,
+        ],
+        workDir,
+      );
+    } else {
+      openssl(
+        [
+          "req",
+          "-new",
+          "-key",
+          "root.key",
+          "-subj",
+          subject,
+          "-out",
+          "root.csr",
+        ],
+        workDir,
+      );
+      openssl(
+        [
+          "x509",
+          "-req",
+          "-in",
+          "root.csr",
+          "-signkey",
+          "root.key",
+          "-out",
+          "root.pem",
+          ...validity,
+        ],
+        workDir,
+      );
+    }
+  }
+
+  return {
+    leafKey: fs.readFileSync(path.join(workDir, "leaf.key"), "utf8"),
+    x5c: ["leaf", "intermediate", "root"].map((name) =>
+      derBase64(path.join(workDir, `${name}.pem`)),
+    ),
+    rootDer: Buffer.from(derBase64(path.join(workDir, "root.pem")), "base64"),
+  };
+}
+
+function base64url(value: Buffer | string): string {
+  return Buffer.from(value).toString("base64url");
+}
+
+function signJws(
+  payload: object,
+  chain: Chain,
+  key: crypto.KeyObject = crypto.createPrivateKey(chain.leafKey),
+): string {
+  const header = base64url(JSON.stringify({ alg: "ES256", x5c: chain.x5c }));
+  const body = base64url(JSON.stringify(payload));
+  const signature = crypto.sign("sha256", Buffer.from(`${header}.${body}`), {
+    key,
+    dsaEncoding: "ieee-p1363",
+  });
+  return `${header}.${body}.${base64url(signature)}`;
+}
+
+function transaction(
+  now: number,
+  id: string,
+  overrides: Record<string, unknown>,
+): Record<string, unknown> {
+  return {
+    transactionId: `${id}0001`,
+    originalTransactionId: id,
+    webOrderLineItemId: `${id}9001`,
+    bundleId: BUNDLE_ID,
+    productId: MONTHLY,
+    subscriptionGroupIdentifier: "21500000",
+    purchaseDate: now - DAY_MS,
+    originalPurchaseDate: now - DAY_MS,
+    expiresDate: now + 29 * DAY_MS,
+    quantity: 1,
+    type: "Auto-Renewable Subscription",
+    inAppOwnershipType: "PURCHASED",
+    signedDate: now,
+    environment: "Sandbox",
+    transactionReason: "PURCHASE",
+    storefront: "USA",
+    storefrontId: "143441",
+    price: 4990,
+    currency: "USD",
+    ...overrides,
+  };
+}
+
+function renewalInfo(
+  now: number,
+  id: string,
+  overrides: Record<string, unknown>,
+): Record<string, unknown> {
+  return {
+    originalTransactionId: id,
+    autoRenewProductId: MONTHLY,
+    productId: MONTHLY,
+    autoRenewStatus: 1,
+    signedDate: now,
+    environment: "Sandbox",
+    recentSubscriptionStartDate: now - DAY_MS,
+    ...overrides,
+  };
+}
+
+function notification(
+  now: number,
+  chain: Chain,
+  notificationType: string,
+  subtype: string | undefined,
+  status: number,
+  signedTransaction: string,
+  signedRenewal: string,
+): string {
+  return signJws(
+    {
+      notificationType,
+      subtype,
+      notificationUUID: crypto.randomUUID(),
+      data: {
+        bundleId: BUNDLE_ID,
+        bundleVersion: "1",
+        environment: "Sandbox",
+        signedTransactionInfo: signedTransaction,
+        signedRenewalInfo: signedRenewal,
+        status,
+      },
+      version: "2.0",
+      signedDate: now,
+    },
+    chain,
+  );
+}
+
+function writeJson(name: string, now: number, fixtures: object): void {
+  fs.writeFileSync(
+    path.join(OUTPUT_DIR, name),
+    JSON.stringify(
+      {
+        bundleId: BUNDLE_ID,
+        generatedAt: new Date(now).toISOString(),
+        fixtures,
+      },
+      null,
+      2,
+    ) + "\n",
+  );
+}
+
+function main() {
+  const workDir = fs.mkdtempSync(path.join(os.tmpdir(), "storekit-fixtures-"));
+  try {
+    const chain = createChain(workDir);
+    const now = Date.now();
+    // Far enough out that "active" fixtures stay active for the life of the chain
+    const farFuture = now + 7000 * DAY_MS;
+
+    const active = transaction(now, "2000000000000001", {
+      expiresDate: farFuture,
+    });
+    const expired = transaction(now, "2000000000000003", {
+      purchaseDate: now - 31 * DAY_MS,
+      originalPurchaseDate: now - 31 * DAY_MS,
+      expiresDate: now - DAY_MS,
+    });
+    const fixtures = {
+      activeMonthly: {
+        description: "Active monthly subscription",
+        expected: "active",
+        signedTransaction: signJws(active, chain),
+      },
+      activeYearly: {
+        description: "Active yearly subscription",
+        expected: "active",
+        signedTransaction: signJws(
+          transaction(now, "2000000000000002", {
+            productId: YEARLY,
+            expiresDate: farFuture,
+            price: 39990,
+          }),
+          chain,
+        ),
+      },
+      expired: {
+        description: "Monthly subscription that expired yesterday",
+        expected: "inactive",
+        signedTransaction: signJws(expired, chain),
+      },
+      revoked: {
+        description: "Subscription refunded through Apple",
+        expected: "inactive",
+        signedTransaction: signJws(
+          transaction(now, "2000000000000004", {
+            expiresDate: farFuture,
+            revocationDate: now,
+            revocationReason: 0,
+          }),
+          chain,
+        ),
+      },
+      wrongBundle: {
+        description: "Transaction for another app",
+        expected: "rejected",
+        signedTransaction: signJws(
+          transaction(now, "2000000000000005", {
+            bundleId: "com.example.other",
+            expiresDate: farFuture,
+          }),
+          chain,
+        ),
+      },
+      unknownProduct: {
+        description: "Transaction for a product Units does not sell",
+        expected: "rejected",
+        signedTransaction: signJws(
+          transaction(now, "2000000000000006", {
+            productId: "1better.consumable.tip",
+            type: "Consumable",
+            expiresDate: undefined,
+          }),
+          chain,
+        ),
+      },
+      badSignature: {
+        description: "Active transaction signed with a key outside the chain",
+        expected: "rejected",
+        signedTransaction: signJws(
+          active,
+          chain,
+          crypto.generateKeyPairSync("ec", { namedCurve: "prime256v1" })
+            .privateKey,
+        ),
+      },
+    };
+
+    // Notifications apply to a subscription once it has been bound through
+    // the verify endpoint with the matching transaction fixture
+    const renewed = transaction(now, "2000000000000001", {
+      transactionId: "20000000000000010002",
+      purchaseDate: now,
+      expiresDate: farFuture + 30 * DAY_MS,
+      transactionReason: "RENEWAL",
+    });
+    const notifications = {
+      didRenew: {
+        description: "activeMonthly renewed for another period",
+        expected: "active",
+        signedPayload: notification(
+          now,
+          chain,
+          "DID_RENEW",
+          undefined,
+          1,
+          signJws(renewed, chain),
+          signJws(renewalInfo(now, "2000000000000001", {}), chain),
+        ),
+      },
+      refund: {
+        description: "activeMonthly refunded",
+        expected: "inactive",
+        signedPayload: notification(
+          now,
+          chain,
+          "REFUND",
+          undefined,
+          5,
+          signJws(
+            { ...renewed, revocationDate: now, revocationReason: 0 },
+            chain,
+          ),
+          signJws(
+            renewalInfo(now, "2000000000000001", { autoRenewStatus: 0 }),
+            chain,
+          ),
+        ),
+      },
+      expired: {
+        description: "expired lapsed after auto-renew was turned off",
+        expected: "inactive",
+        signedPayload: notification(
+          now,
+          chain,
+          "EXPIRED",
+          "VOLUNTARY",
+          2,
+          signJws(expired, chain),
+          signJws(
+            renewalInfo(now, "2000000000000003", {
+              autoRenewStatus: 0,
+              expirationIntent: 1,
+            }),
+            chain,
+          ),
+        ),
+      },
+      billingGracePeriod: {
+        description: "expired failed to renew but is in a billing grace period",
+        expected: "active",
+        signedPayload: notification(
+          now,
+          chain,
+          "DID_FAIL_TO_RENEW",
+          "GRACE_PERIOD",
+          4,
+          signJws(expired, chain),
+          signJws(
+            renewalInfo(now, "2000000000000003", {
+              isInBillingRetryPeriod: true,
+              gracePeriodExpiresDate: farFuture,
+            }),
+            chain,
+          ),
+        ),
+      },
+    };
+
+    fs.mkdirSync(OUTPUT_DIR, { recursive: true });
+    fs.writeFileSync(path.join(OUTPUT_DIR, "test-root-ca.cer"), chain.rootDer);
+    writeJson("signed-transactions.json", now, fixtures);
+    writeJson("signed-notifications.json", now, notifications);
+    console.log(
+      `Wrote ${Object.keys(fixtures).length} signed transactions and ${Object.keys(notifications).length} notifications to ${path.relative(process.cwd(), OUTPUT_DIR)}`,
+    );
+  } finally {
+    fs.rmSync(workDir, { recursive: true, force: true });
+  }
+}
+
+main();
@@ -0,0 +1,83 @@
+import { storage } from "./storage";
+import { supabaseAdmin } from "./supabaseAdmin";
+
+// ============================================================================
+// ACCOUNT DELETION
+// ============================================================================
+// Deleting an account removes the auth user and every row that belongs to it.
+// The Supabase side runs in one transaction inside the delete_user_account
+// function (supabase/migrations/014_delete_user_account.sql), which only the
+// service role may call, and returns a receipt that is also kept in
+// public.account_deletions.
+//
+// When the server has its own Postgres (the data API), the user's copy there
+// is removed afterwards. It lives in a different database, so it can't join
+// the Supabase transaction; a failure is logged and leaves only rows that no
+// token can reach anymore.
+// ============================================================================
+
+const USER_NOT_FOUND = "P0002";
+
+export interface AccountDeletionReceipt {
+  receiptId: string;
+  userId: string;
+  deletedAt: string;
+  /** Rows removed per table */
+  deleted: Record<string, number>;
+}
+
+export interface AccountDeletionResult {
+  receipt: AccountDeletionReceipt | null;
+  /** The user no longer exists (e.g. a retried request) */
+  notFound: boolean;
+  error: string | null;
+}
+
+export async function deleteUserAccount(
+  userId: string,
+): Promise<AccountDeletionResult> {
+  if (!supabaseAdmin) {
+    return {
+      receipt: null,
+      notFound: false,
+      error: "Account deletion is not configured",
+    };
+  }
+
+  const { data, error } = await supabaseAdmin.rpc("delete_user_account", {
+    p_user_id: userId,
+  });
+
+  if (error) {
+    if (error.code === USER_NOT_FOUND) {
+      return { receipt: null, notFound: true, error: null };
+    }
+    console.error("[Account] Deletion failed:", error);
+    return { receipt: null, notFound: false, error: "Deletion failed" };
+  }
+
+  const receipt: AccountDeletionReceipt = {
+    receiptId: data.receipt_id,
+    userId: data.user_id,
+    deletedAt: data.deleted_at,
+    deleted: data.deleted,
+  };
+
+  if (storage) {
+    try {
+      await storage.deleteUser(userId);
+    } catch (storageError) {
+      console.error(
+        "[Account] Failed to delete Postgres data for",
+        userId,
+        storageError,
+      );
+    }
+  }
+
+  console.log(
+    `[Account] Deleted ${userId} (receipt ${receipt.receiptId})`,
+    receipt.deleted,
+  );
+  return { receipt, notFound: false, error: null };
+}
@@ -0,0 +1,233 @@
+import * as fs from "fs";
+import * as path from "path";
+import {
+  Environment,
+  SignedDataVerifier,
+  VerificationException,
+  VerificationStatus,
+  type JWSRenewalInfoDecodedPayload,
+  type JWSTransactionDecodedPayload,
+  type ResponseBodyV2DecodedPayload,
+} from "@apple/app-store-server-library";
+
+// ============================================================================
+// APP STORE SIGNED DATA VERIFICATION
+// ============================================================================
+// StoreKit 2 transactions are JWS signed by Apple with an x5c certificate
+// chain. We only trust a transaction once its chain has been verified up to
+// one of Apple's root certificates and its bundle id and environment match
+// this app.
+//
+// Apple's roots (AppleRootCA-G3.cer etc. from
+// https://www.apple.com/certificateauthority/) are loaded as DER files from
+// server/certs, or from APPLE_ROOT_CERTS_DIR. Without any roots every
+// verification fails closed.
+//
+// For offline testing, APP_STORE_TRUST_TEST_ROOT=true additionally trusts the
+// fixture root in server/fixtures/storekit (see
+// scripts/generate-storekit-fixtures.ts). This is ignored in production.
+// ============================================================================
+
+export const APP_BUNDLE_ID =
+  process.env.APPLE_BUNDLE_ID || "com.1betterwithunits.app";
+
+export const SUBSCRIPTION_PRODUCT_IDS = [
+  "1better.subscription.monthly",
+  "1better.subscription.yearly",
+];
+
+const APPLE_ROOT_CERTS_DIR = path.resolve(
+  process.cwd(),
+  process.env.APPLE_ROOT_CERTS_DIR || path.join("server", "certs"),
+);
+
+const TEST_ROOT_CERT_PATH = path.resolve(
+  process.cwd(),
+  "server",
+  "fixtures",
+  "storekit",
+  "test-root-ca.cer",
+);
+
+const trustTestRoot =
+  process.env.APP_STORE_TRUST_TEST_ROOT === "true" &&
+  process.env.NODE_ENV !== "production";
+
+export interface VerificationResult<T> {
+  payload: T | null;
+  error: string | null;
+  retryable: boolean;
+}
+
+function loadRootCertificates(): Buffer[] {
+  const roots: Buffer[] = [];
+
+  if (fs.existsSync(APPLE_ROOT_CERTS_DIR)) {
+    for (const file of fs.readdirSync(APPLE_ROOT_CERTS_DIR)) {
+      if (file.endsWith(".cer") || file.endsWith(".der")) {
+        roots.push(fs.readFileSync(path.join(APPLE_ROOT_CERTS_DIR, file)));
+      }
+    }
+  }
+
+  if (trustTestRoot && fs.existsSync(TEST_ROOT_CERT_PATH)) {
+    console.warn("[AppStore] Trusting StoreKit test root certificate");
+    roots.push(fs.readFileSync(TEST_ROOT_CERT_PATH));
+  }
+
+  return roots;
+}
+
+let verifiers: SignedDataVerifier[] | null = null;
+
+/**
+ * Verifiers to try in order: Production (only when APPLE_APP_ID is set, Apple
+ * requires it), then Sandbox for TestFlight and development builds.
+ */
+function getVerifiers(): SignedDataVerifier[] {
+  if (verifiers) return verifiers;
+
+  const roots = loadRootCertificates();
+  verifiers = [];
+  if (roots.length === 0) {
+    console.error(
+      `[AppStore] No Apple root certificates found in ${APPLE_ROOT_CERTS_DIR}`,
+    );
+    return verifiers;
+  }
+
+  // OCSP checks need Apple's responders, which the test chain doesn't have
+  const enableOnlineChecks = !trustTestRoot;
+  const appAppleId = Number(process.env.APPLE_APP_ID);
+
+  if (appAppleId) {
+    verifiers.push(
+      new SignedDataVerifier(
+        roots,
+        enableOnlineChecks,
+        Environment.PRODUCTION,
+        APP_BUNDLE_ID,
+        appAppleId,
+      ),
+    );
+  }
+  verifiers.push(
+    new SignedDataVerifier(
+      roots,
+      enableOnlineChecks,
+      Environment.SANDBOX,
+      APP_BUNDLE_ID,
+    ),
+  );
+
+  return verifiers;
+}
+
+export function isAppStoreVerificationConfigured(): boolean {
+  return getVerifiers().length > 0;
+}
+
+/**
+ * Runs a verification against each environment until one accepts the data.
+ * Only an environment mismatch moves on to the next verifier; any other
+ * failure means the signature or chain is bad.
+ */
+export async function verifySignedData<T>(
+  verify: (verifier: SignedDataVerifier) => Promise<T>,
+): Promise<VerificationResult<T>> {
+  const available = getVerifiers();
+  if (available.length === 0) {
+    return {
+      payload: null,
+      error: "App Store verification is not configured",
+      retryable: true,
+    };
+  }
+
+  for (const verifier of available) {
+    try {
+      return { payload: await verify(verifier), error: null, retryable: false };
+    } catch (error) {
+      if (!(error instanceof VerificationException)) {
+        console.error("[AppStore] Unexpected verification error:", error);
+        return { payload: null, error: "Verification failed", retryable: true };
+      }
+      if (error.status === VerificationStatus.INVALID_ENVIRONMENT) {
+        continue;
+      }
+      return {
+        payload: null,
+        error: VerificationStatus[error.status],
+        retryable:
+          error.status === VerificationStatus.RETRYABLE_VERIFICATION_FAILURE,
+      };
+    }
+  }
+
+  return {
+    payload: null,
+    error: VerificationStatus[VerificationStatus.INVALID_ENVIRONMENT],
+    retryable: false,
+  };
+}
+
+export function verifySignedTransaction(
+  signedTransaction: string,
+): Promise<VerificationResult<JWSTransactionDecodedPayload>> {
+  return verifySignedData((verifier) =>
+    verifier.verifyAndDecodeTransaction(signedTransaction),
+  );
+}
+
+export function verifySignedRenewalInfo(
+  signedRenewalInfo: string,
+): Promise<VerificationResult<JWSRenewalInfoDecodedPayload>> {
+  return verifySignedData((verifier) =>
+    verifier.verifyAndDecodeRenewalInfo(signedRenewalInfo),
+  );
+}
+
+/**
+ * Verifies an App Store Server Notification v2 `signedPayload`. The signed
+ * transaction and renewal info inside `data` are separate JWS and must be
+ * verified on their own.
+ */
+export function verifySignedNotification(
+  signedPayload: string,
+): Promise<VerificationResult<ResponseBodyV2DecodedPayload>> {
+  return verifySignedData((verifier) =>
+    verifier.verifyAndDecodeNotification(signedPayload),
+  );
+}
+
+/**
+ * When access ends: the transaction's expiry, extended by a billing grace
+ * period if Apple is still retrying the renewal.
+ */
+export function getAccessExpiresDate(
+  transaction: JWSTransactionDecodedPayload,
+  renewalInfo?: JWSRenewalInfoDecodedPayload | null,
+): number | undefined {
+  const gracePeriodExpiresDate = renewalInfo?.gracePeriodExpiresDate;
+  if (
+    gracePeriodExpiresDate &&
+    gracePeriodExpiresDate > (transaction.expiresDate ?? 0)
+  ) {
+    return gracePeriodExpiresDate;
+  }
+  return transaction.expiresDate;
+}
+
+/**
+ * A subscription transaction grants access until it expires (including any
+ * billing grace period), unless Apple has revoked it (refund or Family
+ * Sharing removal).
+ */
+export function isTransactionActive(
+  transaction: JWSTransactionDecodedPayload,
+  now: number = Date.now(),
+  renewalInfo?: JWSRenewalInfoDecodedPayload | null,
+): boolean {
+  if (transaction.revocationDate) return false;
+  return (getAccessExpiresDate(transaction, renewalInfo) ?? 0) > now;
+}
@@ -0,0 +1,106 @@
+import type { NextFunction, Request, Response } from "express";
+import jwt from "jsonwebtoken";
+import { storage } from "./storage";
+
+// ============================================================================
+// SUPABASE JWT AUTH
+// ============================================================================
+// The REST API accepts the same access token the app already holds for
+// Supabase. Tokens are verified locally with the project's JWT secret, so no
+// round trip to Supabase Auth is needed per request. The first request from a
+// Supabase user creates a matching row in the users table, which the Postgres
+// data is keyed on.
+// ============================================================================
+
+const SUPABASE_JWT_SECRET = process.env.SUPABASE_JWT_SECRET;
+const SUPABASE_JWT_AUDIENCE = "authenticated";
+
+if (!SUPABASE_JWT_SECRET) {
+  console.warn(
+    "[Supabase] SUPABASE_JWT_SECRET is not set; data API endpoints are disabled",
+  );
+}
+
+export interface AuthUser {
+  id: string;
+  email: string | null;
+}
+
+// Users already present in the users table, so ensureUser runs once per process
+const knownUserIds = new Set<string>();
+const deletedUserIds = new Set<string>();
+
+/**
+ * Verifies a Supabase access token. Returns null if it is malformed, expired,
+ * signed with another secret or not issued to a signed-in user.
+ */
+export function verifySupabaseJwt(token: string): AuthUser | null {
+  if (!SUPABASE_JWT_SECRET) return null;
+
+  try {
+    const payload = jwt.verify(token, SUPABASE_JWT_SECRET, {
+      algorithms: ["HS256"],
+      audience: SUPABASE_JWT_AUDIENCE,
+    });
+    if (typeof payload === "string" || !payload.sub) return null;
+    return {
+      id: payload.sub,
+      email: typeof payload.email === "string" ? payload.email : null,
+    };
+  } catch {
+    return null;
+  }
+}
+
+/** The user named by the request's `Authorization: Bearer <token>` header */
+export function getBearerUser(req: Request): AuthUser | null {
+  const match = req.header("authorization")?.match(/^Bearer\s+(.+)$/i);
+  return match ? verifySupabaseJwt(match[1]) : null;
+}
+
+/**
+ * Middleware for routes that need a signed-in user. Responds 503 when the
+ * database or JWT secret is missing and 401 for a missing or invalid token;
+ * otherwise the user is available through getAuthUser(res).
+ */
+export async function requireUser(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+) {
+  if (!storage || !SUPABASE_JWT_SECRET) {
+    return res.status(503).json({ error: "Data API is not configured" });
+  }
+
+  const user = getBearerUser(req);
+  if (!user || deletedUserIds.has(user.id)) {
+    return res.status(401).json({ error: "Not signed in" });
+  }
+
+  if (!knownUserIds.has(user.id)) {
+    try {
+      // The uid doubles as the username: emails can change, the uid can't
+      await storage.ensureUser(user.id, user.id);
+      knownUserIds.add(user.id);
+    } catch (error) {
+      return next(error);
+    }
+  }
+
+  res.locals.authUser = user;
+  return next();
+}
+
+/**
+ * Call after deleting a user. Their access tokens stay valid until they expire
+ * (an hour by default), so without this the next request would recreate them.
+ */
+export function markUserDeleted(userId: string): void {
+  knownUserIds.delete(userId);
+  deletedUserIds.add(userId);
+}
+
+/** The user set by requireUser */
+export function getAuthUser(res: Response): AuthUser {
+  return res.locals.authUser as AuthUser;
+}
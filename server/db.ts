@@ -0,0 +1,19 @@
+import { drizzle, type NodePgDatabase } from "drizzle-orm/node-postgres";
+import { Pool } from "pg";
+import * as schema from "@shared/schema";
+
+// ============================================================================
+// POSTGRES CONNECTION
+// ============================================================================
+// Used when the Express server acts as the backend instead of Supabase. Create
+// the tables with `npm run db:push` (drizzle-kit, schema in shared/schema.ts).
+// Without DATABASE_URL the server runs without a database.
+// ============================================================================
+
+export type Database = NodePgDatabase<typeof schema>;
+
+export const pool: Pool | null = process.env.DATABASE_URL
+  ? new Pool({ connectionString: process.env.DATABASE_URL })
+  : null;
+
+export const db: Database | null = pool ? drizzle(pool, { schema }) : null;
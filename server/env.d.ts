@@ -0,0 +1,8 @@
+// expo-notifications' typings widen process.env to `any` for the whole project;
+// declaring the variables the server reads keeps them typed as strings.
+declare namespace NodeJS {
+  interface ProcessEnv {
+    REPLIT_DEV_DOMAIN?: string;
+    REPLIT_DOMAINS?: string;
+  }
+}
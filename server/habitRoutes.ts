@@ -0,0 +1,392 @@
+import {
+  Router,
+  type Express,
+  type Request,
+  type RequestHandler,
+  type Response,
+} from "express";
+import { z } from "zod";
+import { fromZodError } from "zod-validation-error";
+import {
+  badHabitLogChangeSchema,
+  dateRangeQuerySchema,
+  habitLogChangeSchema,
+  habitLogImportSchema,
+  insertBadHabitSchema,
+  insertHabitSchema,
+  syncQuerySchema,
+  updateBadHabitSchema,
+  updateHabitSchema,
+} from "@shared/schema";
+import { getAuthUser, requireUser } from "./auth";
+import { storage, type DailyTotal, type IStorage } from "./storage";
+
+// ============================================================================
+// DATA API
+// ============================================================================
+// REST access to the Postgres copy of a user's habits, logs and bad habits for
+// scripts and power users. Every route needs a Supabase access token (see
+// auth.ts) and only ever sees the token owner's rows. Bodies are validated with
+// the drizzle-zod schemas in shared/schema.ts.
+//
+// As in the app, deleting a habit or bad habit archives it; PATCH
+// { "isArchived": false } restores it.
+// ============================================================================
+
+const uuidSchema = z.string().uuid();
+const dateSchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/);
+
+const listQuerySchema = z.object({
+  includeArchived: z
+    .enum(["true", "false"])
+    .optional()
+    .transform((value) => value === "true"),
+  updatedSince: z.coerce.date().optional(),
+});
+
+const statsQuerySchema = z.object({
+  /** The caller's local "today"; defaults to the server's UTC date */
+  date: dateSchema.optional(),
+});
+
+// requireUser has already returned 503 when storage is null
+function db(): IStorage {
+  return storage!;
+}
+
+// Express 4 doesn't forward rejected promises to the error handler
+function handle(
+  handler: (req: Request, res: Response) => Promise<unknown>,
+): RequestHandler {
+  return (req, res, next) => {
+    handler(req, res).catch(next);
+  };
+}
+
+/** Parses `data`, or responds 400 and returns undefined */
+function parse<T extends z.ZodTypeAny>(
+  schema: T,
+  data: unknown,
+  res: Response,
+): z.infer<T> | undefined {
+  const result = schema.safeParse(data);
+  if (!result.success) {
+    res.status(400).json({ error: fromZodError(result.error).message });
+    return undefined;
+  }
+  return result.data;
+}
+
+function addDays(date: string, days: number): string {
+  const next = new Date(`${date}T00:00:00Z`);
+  next.setUTCDate(next.getUTCDate() + days);
+  return next.toISOString().slice(0, 10);
+}
+
+/** Same numbers as fetchDailyStats in client/lib/habitService.ts */
+function computeDailyStats(totals: DailyTotal[], today: string) {
+  const byDate = new Map(totals.map(({ date, total }) => [date, total]));
+
+  let bestDayTotal = 0;
+  let bestDayDate: string | null = null;
+  for (const { date, total } of totals) {
+    if (total > bestDayTotal) {
+      bestDayTotal = total;
+      bestDayDate = date;
+    }
+  }
+
+  let sevenDaySum = 0;
+  let daysWithData = 0;
+  for (let i = 6; i >= 0; i--) {
+    const total = byDate.get(addDays(today, -i)) ?? 0;
+    sevenDaySum += total;
+    if (total > 0) daysWithData++;
+  }
+
+  return {
+    date: today,
+    todayTotal: byDate.get(today) ?? 0,
+    bestDayTotal,
+    bestDayDate,
+    sevenDayAverage:
+      daysWithData > 0 ? Math.round((sevenDaySum / 7) * 10) / 10 : 0,
+  };
+}
+
+export function registerHabitRoutes(app: Express): void {
+  const router = Router();
+
+  router.use(
+    ["/habits", "/habit-logs", "/unit-events", "/bad-habits", "/stats"],
+    requireUser,
+  );
+
+  // Ids that aren't UUIDs can't match a row (and would make Postgres throw)
+  router.param("id", (_req, res, next, id) => {
+    if (!uuidSchema.safeParse(id).success) {
+      return res.status(404).json({ error: "Not found" });
+    }
+    return next();
+  });
+
+  // ==========================================================================
+  // HABITS
+  // ==========================================================================
+
+  router.get(
+    "/habits",
+    handle(async (req, res) => {
+      const query = parse(listQuerySchema, req.query, res);
+      if (!query) return;
+      res.json(await db().getHabits(getAuthUser(res).id, query));
+    }),
+  );
+
+  // Sending the app's client-generated id makes retries safe
+  router.post(
+    "/habits",
+    handle(async (req, res) => {
+      const body = parse(insertHabitSchema, req.body, res);
+      if (!body) return;
+      const habit = await db().createHabit(getAuthUser(res).id, body);
+      if (!habit) {
+        return res.status(409).json({ error: "Habit id is already in use" });
+      }
+      res.status(201).json(habit);
+    }),
+  );
+
+  router.get(
+    "/habits/:id",
+    handle(async (req, res) => {
+      const habit = await db().getHabit(getAuthUser(res).id, req.params.id);
+      if (!habit) return res.status(404).json({ error: "Not found" });
+      res.json(habit);
+    }),
+  );
+
+  router.patch(
+    "/habits/:id",
+    handle(async (req, res) => {
+      const body = parse(updateHabitSchema, req.body, res);
+      if (!body) return;
+      const habit = await db().updateHabit(
+        getAuthUser(res).id,
+        req.params.id,
+        body,
+      );
+      if (!habit) return res.status(404).json({ error: "Not found" });
+      res.json(habit);
+    }),
+  );
+
+  router.delete(
+    "/habits/:id",
+    handle(async (req, res) => {
+      const habit = await db().updateHabit(getAuthUser(res).id, req.params.id, {
+        isArchived: true,
+      });
+      if (!habit) return res.status(404).json({ error: "Not found" });
+      res.status(204).end();
+    }),
+  );
+
+  // ==========================================================================
+  // HABIT LOGS
+  // ==========================================================================
+
+  router.get(
+    "/habits/:id/logs",
+    handle(async (req, res) => {
+      const range = parse(dateRangeQuerySchema, req.query, res);
+      if (!range) return;
+      const userId = getAuthUser(res).id;
+      if (!(await db().getHabit(userId, req.params.id))) {
+        return res.status(404).json({ error: "Not found" });
+      }
+      res.json(
+        await db().getHabitLogs(userId, { ...range, habitId: req.params.id }),
+      );
+    }),
+  );
+
+  // { date, delta } adds to the day (floored at 0); { date, count } sets it.
+  // An eventId makes the call idempotent, like the app's outbox replays.
+  router.post(
+    "/habits/:id/logs",
+    handle(async (req, res) => {
+      const body = parse(habitLogChangeSchema, req.body, res);
+      if (!body) return;
+      const userId = getAuthUser(res).id;
+      const { delta, count: newCount, ...change } = body;
+      const count =
+        delta !== undefined
+          ? await db().incrementHabitLog(userId, {
+              ...change,
+              habitId: req.params.id,
+              delta,
+            })
+          : await db().setHabitLogCount(userId, {
+              ...change,
+              habitId: req.params.id,
+              count: newCount!,
+            });
+      if (count === undefined) {
+        return res.status(404).json({ error: "Not found" });
+      }
+      res.json({ habitId: req.params.id, date: body.date, count });
+    }),
+  );
+
+  // Logs and unit events across all habits, for syncing a whole account.
+  // ?updatedSince= limits them to rows written since the app's last sync.
+  router.get(
+    "/habit-logs",
+    handle(async (req, res) => {
+      const query = parse(syncQuerySchema, req.query, res);
+      if (!query) return;
+      res.json(await db().getHabitLogs(getAuthUser(res).id, query));
+    }),
+  );
+
+  router.get(
+    "/unit-events",
+    handle(async (req, res) => {
+      const query = parse(syncQuerySchema, req.query, res);
+      if (!query) return;
+      res.json(await db().getUnitEvents(getAuthUser(res).id, query));
+    }),
+  );
+
+  router.post(
+    "/habit-logs/import",
+    handle(async (req, res) => {
+      const body = parse(habitLogImportSchema, req.body, res);
+      if (!body) return;
+      const imported = await db().importUnitEvents(
+        getAuthUser(res).id,
+        body.entries,
+      );
+      if (imported === undefined) {
+        return res.status(404).json({ error: "Habit not found" });
+      }
+      res.json({ imported });
+    }),
+  );
+
+  // ==========================================================================
+  // BAD HABITS
+  // ==========================================================================
+
+  router.get(
+    "/bad-habits",
+    handle(async (req, res) => {
+      const query = parse(listQuerySchema, req.query, res);
+      if (!query) return;
+      res.json(await db().getBadHabits(getAuthUser(res).id, query));
+    }),
+  );
+
+  router.post(
+    "/bad-habits",
+    handle(async (req, res) => {
+      const body = parse(insertBadHabitSchema, req.body, res);
+      if (!body) return;
+      const badHabit = await db().createBadHabit(getAuthUser(res).id, body);
+      if (!badHabit) {
+        return res
+          .status(409)
+          .json({ error: "Bad habit id is already in use" });
+      }
+      res.status(201).json(badHabit);
+    }),
+  );
+
+  router.patch(
+    "/bad-habits/:id",
+    handle(async (req, res) => {
+      const body = parse(updateBadHabitSchema, req.body, res);
+      if (!body) return;
+      const badHabit = await db().updateBadHabit(
+        getAuthUser(res).id,
+        req.params.id,
+        body,
+      );
+      if (!badHabit) return res.status(404).json({ error: "Not found" });
+      res.json(badHabit);
+    }),
+  );
+
+  router.delete(
+    "/bad-habits/:id",
+    handle(async (req, res) => {
+      const badHabit = await db().updateBadHabit(
+        getAuthUser(res).id,
+        req.params.id,
+        { isArchived: true },
+      );
+      if (!badHabit) return res.status(404).json({ error: "Not found" });
+      res.status(204).end();
+    }),
+  );
+
+  // Logs across all bad habits, filtered to one with ?badHabitId=
+  router.get(
+    "/bad-habits/logs",
+    handle(async (req, res) => {
+      const query = parse(
+        syncQuerySchema.extend({ badHabitId: uuidSchema.optional() }),
+        req.query,
+        res,
+      );
+      if (!query) return;
+      res.json(await db().getBadHabitLogs(getAuthUser(res).id, query));
+    }),
+  );
+
+  router.put(
+    "/bad-habits/:id/logs/:date",
+    handle(async (req, res) => {
+      if (!dateSchema.safeParse(req.params.date).success) {
+        return res.status(400).json({ error: "Date must be YYYY-MM-DD" });
+      }
+      const body = parse(badHabitLogChangeSchema, req.body, res);
+      if (!body) return;
+      const log = await db().upsertBadHabitLog(getAuthUser(res).id, {
+        ...body,
+        badHabitId: req.params.id,
+        date: req.params.date,
+      });
+      if (!log) return res.status(404).json({ error: "Not found" });
+      res.json(log);
+    }),
+  );
+
+  // ==========================================================================
+  // STATS
+  // ==========================================================================
+
+  router.get(
+    "/stats/daily",
+    handle(async (req, res) => {
+      const query = parse(statsQuerySchema, req.query, res);
+      if (!query) return;
+      const today = query.date ?? new Date().toISOString().slice(0, 10);
+      const totals = await db().getDailyTotals(getAuthUser(res).id);
+      res.json(computeDailyStats(totals, today));
+    }),
+  );
+
+  // One { date, total } per day with logs, oldest first
+  router.get(
+    "/stats/daily-totals",
+    handle(async (req, res) => {
+      const range = parse(dateRangeQuerySchema, req.query, res);
+      if (!range) return;
+      res.json(await db().getDailyTotals(getAuthUser(res).id, range));
+    }),
+  );
+
+  app.use("/api", router);
+}
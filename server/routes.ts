@@ -1,10 +1,178 @@
 import type { Express } from "express";
 import { createServer, type Server } from "node:http";
+import { deleteUserAccount } from "./accountDeletion";
+import {
+  SUBSCRIPTION_PRODUCT_IDS,
+  isAppStoreVerificationConfigured,
+  verifySignedNotification,
+  verifySignedRenewalInfo,
+  verifySignedTransaction,
+} from "./appStore";
+import { getBearerUser, markUserDeleted } from "./auth";
+import { registerHabitRoutes } from "./habitRoutes";
+import { getRequestUser, supabaseAdmin } from "./supabaseAdmin";
+import {
+  applySubscriptionNotification,
+  bindTransactionToUser,
+} from "./subscriptions";
 
 export async function registerRoutes(app: Express): Promise<Server> {
   // put application routes here
   // prefix all routes with /api
 
+  // Verifies a StoreKit 2 signed transaction (JWS) and binds the subscription
+  // to the signed-in user. Together with the notifications webhook below, this
+  // is the only path that writes subscriptions.
+  app.post("/api/subscriptions/verify", async (req, res) => {
+    if (!supabaseAdmin || !isAppStoreVerificationConfigured()) {
+      return res
+        .status(503)
+        .json({ error: "Subscription verification is not configured" });
+    }
+
+    const user = await getRequestUser(req);
+    if (!user) {
+      return res.status(401).json({ error: "Not signed in" });
+    }
+
+    const signedTransaction = req.body?.signedTransaction;
+    if (typeof signedTransaction !== "string" || !signedTransaction) {
+      return res.status(400).json({ error: "signedTransaction is required" });
+    }
+
+    const {
+      payload: transaction,
+      error,
+      retryable,
+    } = await verifySignedTransaction(signedTransaction);
+    if (!transaction) {
+      console.log("[Subscriptions] Transaction rejected:", error);
+      return res
+        .status(retryable ? 503 : 422)
+        .json({ error: "Transaction could not be verified", reason: error });
+    }
+
+    if (
+      !transaction.productId ||
+      !SUBSCRIPTION_PRODUCT_IDS.includes(transaction.productId)
+    ) {
+      return res.status(422).json({
+        error: "Transaction is not for a Units subscription",
+        reason: "UNKNOWN_PRODUCT",
+      });
+    }
+
+    const result = await bindTransactionToUser(user.id, transaction);
+    if (result.boundToAnotherUser) {
+      return res.status(409).json({
+        error: "This subscription is already linked to another account",
+        boundToAnotherUser: true,
+      });
+    }
+    if (!result.status) {
+      return res.status(500).json({ error: result.error });
+    }
+
+    return res.json(result.status);
+  });
+
+  // App Store Server Notifications v2. Apple signs the payload, so there is no
+  // user auth; anything that fails verification is rejected. Non-2xx responses
+  // make Apple retry, which we want for transient failures only.
+  app.post("/api/app-store/notifications", async (req, res) => {
+    if (!supabaseAdmin || !isAppStoreVerificationConfigured()) {
+      return res
+        .status(503)
+        .json({ error: "Subscription verification is not configured" });
+    }
+
+    const signedPayload = req.body?.signedPayload;
+    if (typeof signedPayload !== "string" || !signedPayload) {
+      return res.status(400).json({ error: "signedPayload is required" });
+    }
+
+    const {
+      payload: notification,
+      error,
+      retryable,
+    } = await verifySignedNotification(signedPayload);
+    if (!notification) {
+      console.log("[Subscriptions] Notification rejected:", error);
+      return res
+        .status(retryable ? 503 : 400)
+        .json({ error: "Notification could not be verified", reason: error });
+    }
+
+    let transaction = null;
+    if (notification.data?.signedTransactionInfo) {
+      const verified = await verifySignedTransaction(
+        notification.data.signedTransactionInfo,
+      );
+      if (!verified.payload) {
+        return res
+          .status(verified.retryable ? 503 : 400)
+          .json({ error: "Transaction could not be verified" });
+      }
+      transaction = verified.payload;
+    }
+
+    let renewalInfo = null;
+    if (notification.data?.signedRenewalInfo) {
+      const verified = await verifySignedRenewalInfo(
+        notification.data.signedRenewalInfo,
+      );
+      if (!verified.payload) {
+        return res
+          .status(verified.retryable ? 503 : 400)
+          .json({ error: "Renewal info could not be verified" });
+      }
+      renewalInfo = verified.payload;
+    }
+
+    const result = await applySubscriptionNotification(
+      notification,
+      transaction,
+      renewalInfo,
+    );
+    if (result.error) {
+      return res.status(500).json({ error: result.error });
+    }
+
+    return res.json({ received: true, updated: result.updated });
+  });
+
+  // Permanently deletes the signed-in user's account and all of their data,
+  // then returns the deletion receipt. The App Store subscription itself can
+  // only be cancelled by the user in their Apple account settings.
+  app.delete("/api/account", async (req, res) => {
+    if (!supabaseAdmin) {
+      return res
+        .status(503)
+        .json({ error: "Account deletion is not configured" });
+    }
+
+    // Read from the token itself where the JWT secret is set: Supabase Auth
+    // can't resolve a user it has deleted, so a retry after a lost response
+    // would get 401 instead of reaching the 404 below
+    const user = getBearerUser(req) ?? (await getRequestUser(req));
+    if (!user) {
+      return res.status(401).json({ error: "Not signed in" });
+    }
+
+    const result = await deleteUserAccount(user.id);
+    if (result.notFound) {
+      return res.status(404).json({ error: "Account not found" });
+    }
+    if (!result.receipt) {
+      return res.status(500).json({ error: result.error });
+    }
+
+    markUserDeleted(user.id);
+    return res.json(result.receipt);
+  });
+
+  registerHabitRoutes(app);
+
   const httpServer = createServer(app);
 
   return httpServer;
@@ -1,38 +1,639 @@
-import { type User, type InsertUser } from "@shared/schema";
-import { randomUUID } from "crypto";
+import { and, asc, eq, gte, inArray, lte, sql, type SQL } from "drizzle-orm";
+import {
+  badHabitLogs,
+  badHabits,
+  habitLogs,
+  habits,
+  unitEvents,
+  users,
+  type BadHabit,
+  type BadHabitLog,
+  type Habit,
+  type HabitLog,
+  type HabitLogImportEntry,
+  type InsertBadHabit,
+  type InsertBadHabitLog,
+  type InsertHabit,
+  type UnitEvent,
+  type User,
+} from "@shared/schema";
+import { db, type Database } from "./db";
 
-// modify the interface with any CRUD methods
-// you might need
+export interface DateRange {
+  /** Inclusive YYYY-MM-DD */
+  from?: string;
+  /** Inclusive YYYY-MM-DD */
+  to?: string;
+}
+
+/** For incremental sync: rows created or updated at or after this time */
+export interface ChangedSince {
+  updatedSince?: Date;
+}
+
+export interface HabitLogQuery extends DateRange, ChangedSince {
+  habitId?: string;
+}
+
+export interface BadHabitLogQuery extends DateRange, ChangedSince {
+  badHabitId?: string;
+}
+
+export interface DailyTotal {
+  date: string;
+  total: number;
+}
+
+export interface ArchivedOption {
+  includeArchived?: boolean;
+}
+
+/**
+ * A change to one habit's day. Carrying the client's event id makes the write
+ * idempotent, like the Supabase increment_habit_log / set_habit_log_count RPCs.
+ */
+export interface UnitChange {
+  habitId: string;
+  date: string;
+  source?: string;
+  eventId?: string;
+  occurredAt?: Date;
+}
 
 export interface IStorage {
   getUser(id: string): Promise<User | undefined>;
   getUserByUsername(username: string): Promise<User | undefined>;
-  createUser(user: InsertUser): Promise<User>;
+  /** Creates the user for an externally authenticated id if missing */
+  ensureUser(id: string, username: string): Promise<User>;
+  /** Deletes the user and, by cascade, all of their rows */
+  deleteUser(id: string): Promise<boolean>;
+
+  getHabits(
+    userId: string,
+    options?: ArchivedOption & ChangedSince,
+  ): Promise<Habit[]>;
+  getHabit(userId: string, id: string): Promise<Habit | undefined>;
+  /**
+   * Inserts the habit, or returns it unchanged if the user already has one with
+   * the same id. Undefined if the id belongs to another user's habit.
+   */
+  createHabit(userId: string, habit: InsertHabit): Promise<Habit | undefined>;
+  updateHabit(
+    userId: string,
+    id: string,
+    updates: Partial<InsertHabit>,
+  ): Promise<Habit | undefined>;
+  deleteHabit(userId: string, id: string): Promise<boolean>;
+
+  getHabitLogs(userId: string, query?: HabitLogQuery): Promise<HabitLog[]>;
+  /** Sum of all habit counts per day, oldest first */
+  getDailyTotals(userId: string, range?: DateRange): Promise<DailyTotal[]>;
+  getUnitEvents(
+    userId: string,
+    range?: DateRange & ChangedSince,
+  ): Promise<UnitEvent[]>;
+  /** Adds delta to the day (floored at 0). Undefined if the habit isn't the user's */
+  incrementHabitLog(
+    userId: string,
+    change: UnitChange & { delta: number },
+  ): Promise<number | undefined>;
+  /** Sets the day's count. Undefined if the habit isn't the user's */
+  setHabitLogCount(
+    userId: string,
+    change: UnitChange & { count: number },
+  ): Promise<number | undefined>;
+  /**
+   * Applies positive deltas as "import" events, skipping event ids that already
+   * exist. Returns how many were applied, or undefined (and applies nothing) if
+   * any entry names a habit that isn't the user's.
+   */
+  importUnitEvents(
+    userId: string,
+    entries: HabitLogImportEntry[],
+  ): Promise<number | undefined>;
+
+  getBadHabits(
+    userId: string,
+    options?: ArchivedOption & ChangedSince,
+  ): Promise<BadHabit[]>;
+  /** Same semantics as createHabit */
+  createBadHabit(
+    userId: string,
+    badHabit: InsertBadHabit,
+  ): Promise<BadHabit | undefined>;
+  updateBadHabit(
+    userId: string,
+    id: string,
+    updates: Partial<InsertBadHabit>,
+  ): Promise<BadHabit | undefined>;
+  deleteBadHabit(userId: string, id: string): Promise<boolean>;
+
+  getBadHabitLogs(
+    userId: string,
+    query?: BadHabitLogQuery,
+  ): Promise<BadHabitLog[]>;
+  /** Undefined if the bad habit isn't the user's */
+  upsertBadHabitLog(
+    userId: string,
+    log: InsertBadHabitLog,
+  ): Promise<BadHabitLog | undefined>;
 }
 
-export class MemStorage implements IStorage {
-  private users: Map<string, User>;
+function dateRangeConditions(
+  column:
+    | typeof habitLogs.date
+    | typeof unitEvents.date
+    | typeof badHabitLogs.date,
+  range?: DateRange,
+): SQL[] {
+  const conditions: SQL[] = [];
+  if (range?.from) conditions.push(gte(column, range.from));
+  if (range?.to) conditions.push(lte(column, range.to));
+  return conditions;
+}
 
-  constructor() {
-    this.users = new Map();
-  }
+function changedSinceCondition(
+  column:
+    | typeof habits.updatedAt
+    | typeof habitLogs.updatedAt
+    | typeof unitEvents.createdAt
+    | typeof badHabits.updatedAt
+    | typeof badHabitLogs.updatedAt,
+  query?: ChangedSince,
+): SQL | undefined {
+  return query?.updatedSince ? gte(column, query.updatedSince) : undefined;
+}
+
+export class DatabaseStorage implements IStorage {
+  constructor(private readonly db: Database) {}
+
+  // ==========================================================================
+  // USERS
+  // ==========================================================================
 
   async getUser(id: string): Promise<User | undefined> {
-    return this.users.get(id);
+    const [user] = await this.db.select().from(users).where(eq(users.id, id));
+    return user;
   }
 
   async getUserByUsername(username: string): Promise<User | undefined> {
-    return Array.from(this.users.values()).find(
-      (user) => user.username === username,
-    );
+    const [user] = await this.db
+      .select()
+      .from(users)
+      .where(eq(users.username, username));
+    return user;
   }
 
-  async createUser(insertUser: InsertUser): Promise<User> {
-    const id = randomUUID();
-    const user: User = { ...insertUser, id };
-    this.users.set(id, user);
-    return user;
+  async ensureUser(id: string, username: string): Promise<User> {
+    const [created] = await this.db
+      .insert(users)
+      .values({ id, username })
+      .onConflictDoNothing({ target: users.id })
+      .returning();
+    return created ?? (await this.getUser(id))!;
+  }
+
+  async deleteUser(id: string): Promise<boolean> {
+    const deleted = await this.db
+      .delete(users)
+      .where(eq(users.id, id))
+      .returning({ id: users.id });
+    return deleted.length > 0;
+  }
+
+  // ==========================================================================
+  // HABITS
+  // ==========================================================================
+
+  async getHabits(
+    userId: string,
+    options?: ArchivedOption & ChangedSince,
+  ): Promise<Habit[]> {
+    return this.db
+      .select()
+      .from(habits)
+      .where(
+        and(
+          eq(habits.userId, userId),
+          options?.includeArchived ? undefined : eq(habits.isArchived, false),
+          changedSinceCondition(habits.updatedAt, options),
+        ),
+      )
+      .orderBy(asc(habits.sortOrder), asc(habits.createdAt));
+  }
+
+  async getHabit(userId: string, id: string): Promise<Habit | undefined> {
+    const [habit] = await this.db
+      .select()
+      .from(habits)
+      .where(and(eq(habits.id, id), eq(habits.userId, userId)));
+    return habit;
+  }
+
+  async createHabit(
+    userId: string,
+    habit: InsertHabit,
+  ): Promise<Habit | undefined> {
+    const [created] = await this.db
+      .insert(habits)
+      .values({ ...habit, userId })
+      .onConflictDoNothing({ target: habits.id })
+      .returning();
+    if (created) return created;
+    // Replayed create: the id is already taken, by this user or someone else
+    return habit.id ? this.getHabit(userId, habit.id) : undefined;
+  }
+
+  async updateHabit(
+    userId: string,
+    id: string,
+    updates: Partial<InsertHabit>,
+  ): Promise<Habit | undefined> {
+    const { id: _id, ...changes } = updates;
+    const [updated] = await this.db
+      .update(habits)
+      .set(changes)
+      .where(and(eq(habits.id, id), eq(habits.userId, userId)))
+      .returning();
+    return updated;
+  }
+
+  async deleteHabit(userId: string, id: string): Promise<boolean> {
+    const deleted = await this.db
+      .delete(habits)
+      .where(and(eq(habits.id, id), eq(habits.userId, userId)))
+      .returning({ id: habits.id });
+    return deleted.length > 0;
+  }
+
+  // ==========================================================================
+  // HABIT LOGS & UNIT EVENTS
+  // ==========================================================================
+
+  async getHabitLogs(
+    userId: string,
+    query?: HabitLogQuery,
+  ): Promise<HabitLog[]> {
+    return this.db
+      .select()
+      .from(habitLogs)
+      .where(
+        and(
+          eq(habitLogs.userId, userId),
+          query?.habitId ? eq(habitLogs.habitId, query.habitId) : undefined,
+          ...dateRangeConditions(habitLogs.date, query),
+          changedSinceCondition(habitLogs.updatedAt, query),
+        ),
+      )
+      .orderBy(asc(habitLogs.date));
+  }
+
+  async getDailyTotals(
+    userId: string,
+    range?: DateRange,
+  ): Promise<DailyTotal[]> {
+    return this.db
+      .select({
+        date: habitLogs.date,
+        total: sql<number>`coalesce(sum(${habitLogs.count}), 0)::int`,
+      })
+      .from(habitLogs)
+      .where(
+        and(
+          eq(habitLogs.userId, userId),
+          ...dateRangeConditions(habitLogs.date, range),
+        ),
+      )
+      .groupBy(habitLogs.date)
+      .orderBy(asc(habitLogs.date));
+  }
+
+  // Events are never updated, so changes since a time are the ones created since
+  async getUnitEvents(
+    userId: string,
+    range?: DateRange & ChangedSince,
+  ): Promise<UnitEvent[]> {
+    return this.db
+      .select()
+      .from(unitEvents)
+      .where(
+        and(
+          eq(unitEvents.userId, userId),
+          ...dateRangeConditions(unitEvents.date, range),
+          changedSinceCondition(unitEvents.createdAt, range),
+        ),
+      )
+      .orderBy(asc(unitEvents.occurredAt));
+  }
+
+  async incrementHabitLog(
+    userId: string,
+    change: UnitChange & { delta: number },
+  ): Promise<number | undefined> {
+    return this.db.transaction(async (tx) => {
+      const [habit] = await tx
+        .select({ id: habits.id })
+        .from(habits)
+        .where(and(eq(habits.id, change.habitId), eq(habits.userId, userId)));
+      if (!habit) return undefined;
+
+      // Already applied (retried after a lost response): report the current count
+      if (change.eventId) {
+        const [applied] = await tx
+          .select({ id: unitEvents.id })
+          .from(unitEvents)
+          .where(eq(unitEvents.id, change.eventId));
+        if (applied) {
+          const [log] = await tx
+            .select({ count: habitLogs.count })
+            .from(habitLogs)
+            .where(
+              and(
+                eq(habitLogs.habitId, change.habitId),
+                eq(habitLogs.date, change.date),
+              ),
+            );
+          return log?.count ?? 0;
+        }
+      }
+
+      // The count is floored at 0, so the event records the change actually
+      // applied; the lock keeps oldCount current until the write
+      const [existing] = await tx
+        .select({ count: habitLogs.count })
+        .from(habitLogs)
+        .where(
+          and(
+            eq(habitLogs.habitId, change.habitId),
+            eq(habitLogs.date, change.date),
+          ),
+        )
+        .for("update");
+      const oldCount = existing?.count ?? 0;
+
+      const [log] = await tx
+        .insert(habitLogs)
+        .values({
+          habitId: change.habitId,
+          userId,
+          date: change.date,
+          count: Math.max(change.delta, 0),
+        })
+        .onConflictDoUpdate({
+          target: [habitLogs.habitId, habitLogs.date],
+          set: {
+            count: sql`GREATEST(${habitLogs.count} + ${change.delta}, 0)`,
+            updatedAt: new Date(),
+          },
+        })
+        .returning({ count: habitLogs.count });
+
+      if (log.count !== oldCount) {
+        await tx.insert(unitEvents).values({
+          id: change.eventId,
+          habitId: change.habitId,
+          userId,
+          date: change.date,
+          delta: log.count - oldCount,
+          source: change.source ?? "tap",
+          occurredAt: change.occurredAt,
+        });
+      }
+
+      return log.count;
+    });
+  }
+
+  async setHabitLogCount(
+    userId: string,
+    change: UnitChange & { count: number },
+  ): Promise<number | undefined> {
+    const newCount = Math.max(change.count, 0);
+
+    return this.db.transaction(async (tx) => {
+      const [habit] = await tx
+        .select({ id: habits.id })
+        .from(habits)
+        .where(and(eq(habits.id, change.habitId), eq(habits.userId, userId)));
+      if (!habit) return undefined;
+
+      const dayCondition = and(
+        eq(habitLogs.habitId, change.habitId),
+        eq(habitLogs.date, change.date),
+      );
+
+      if (change.eventId) {
+        const [applied] = await tx
+          .select({ id: unitEvents.id })
+          .from(unitEvents)
+          .where(eq(unitEvents.id, change.eventId));
+        if (applied) {
+          const [log] = await tx
+            .select({ count: habitLogs.count })
+            .from(habitLogs)
+            .where(dayCondition);
+          return log?.count ?? 0;
+        }
+      }
+
+      // Lock the row so the event's delta reflects what actually changed
+      const [existing] = await tx
+        .select({ count: habitLogs.count })
+        .from(habitLogs)
+        .where(dayCondition)
+        .for("update");
+      const oldCount = existing?.count ?? 0;
+
+      await tx
+        .insert(habitLogs)
+        .values({
+          habitId: change.habitId,
+          userId,
+          date: change.date,
+          count: newCount,
+        })
+        .onConflictDoUpdate({
+          target: [habitLogs.habitId, habitLogs.date],
+          set: { count: newCount, updatedAt: new Date() },
+        });
+
+      if (newCount !== oldCount) {
+        await tx.insert(unitEvents).values({
+          id: change.eventId,
+          habitId: change.habitId,
+          userId,
+          date: change.date,
+          delta: newCount - oldCount,
+          source: change.source ?? "edit",
+          occurredAt: change.occurredAt,
+        });
+      }
+
+      return newCount;
+    });
+  }
+
+  async importUnitEvents(
+    userId: string,
+    entries: HabitLogImportEntry[],
+  ): Promise<number | undefined> {
+    const habitIds = Array.from(new Set(entries.map((e) => e.habitId)));
+    if (habitIds.length === 0) return 0;
+
+    return this.db.transaction(async (tx) => {
+      const owned = await tx
+        .select({ id: habits.id })
+        .from(habits)
+        .where(and(eq(habits.userId, userId), inArray(habits.id, habitIds)));
+      if (owned.length !== habitIds.length) return undefined;
+
+      let applied = 0;
+      for (const entry of entries) {
+        if (entry.delta <= 0) continue;
+
+        const [existing] = await tx
+          .select({ id: unitEvents.id })
+          .from(unitEvents)
+          .where(eq(unitEvents.id, entry.eventId));
+        if (existing) continue;
+
+        await tx
+          .insert(habitLogs)
+          .values({
+            habitId: entry.habitId,
+            userId,
+            date: entry.date,
+            count: entry.delta,
+          })
+          .onConflictDoUpdate({
+            target: [habitLogs.habitId, habitLogs.date],
+            set: {
+              count: sql`${habitLogs.count} + ${entry.delta}`,
+              updatedAt: new Date(),
+            },
+          });
+
+        await tx.insert(unitEvents).values({
+          id: entry.eventId,
+          habitId: entry.habitId,
+          userId,
+          date: entry.date,
+          delta: entry.delta,
+          source: "import",
+          occurredAt: entry.occurredAt,
+        });
+        applied++;
+      }
+      return applied;
+    });
+  }
+
+  // ==========================================================================
+  // BAD HABITS
+  // ==========================================================================
+
+  async getBadHabits(
+    userId: string,
+    options?: ArchivedOption & ChangedSince,
+  ): Promise<BadHabit[]> {
+    return this.db
+      .select()
+      .from(badHabits)
+      .where(
+        and(
+          eq(badHabits.userId, userId),
+          options?.includeArchived
+            ? undefined
+            : eq(badHabits.isArchived, false),
+          changedSinceCondition(badHabits.updatedAt, options),
+        ),
+      )
+      .orderBy(asc(badHabits.createdAt));
+  }
+
+  async createBadHabit(
+    userId: string,
+    badHabit: InsertBadHabit,
+  ): Promise<BadHabit | undefined> {
+    const [created] = await this.db
+      .insert(badHabits)
+      .values({ ...badHabit, userId })
+      .onConflictDoNothing({ target: badHabits.id })
+      .returning();
+    if (created) return created;
+    if (!badHabit.id) return undefined;
+    const [existing] = await this.db
+      .select()
+      .from(badHabits)
+      .where(and(eq(badHabits.id, badHabit.id), eq(badHabits.userId, userId)));
+    return existing;
+  }
+
+  async updateBadHabit(
+    userId: string,
+    id: string,
+    updates: Partial<InsertBadHabit>,
+  ): Promise<BadHabit | undefined> {
+    const { id: _id, ...changes } = updates;
+    const [updated] = await this.db
+      .update(badHabits)
+      .set(changes)
+      .where(and(eq(badHabits.id, id), eq(badHabits.userId, userId)))
+      .returning();
+    return updated;
+  }
+
+  async deleteBadHabit(userId: string, id: string): Promise<boolean> {
+    const deleted = await this.db
+      .delete(badHabits)
+      .where(and(eq(badHabits.id, id), eq(badHabits.userId, userId)))
+      .returning({ id: badHabits.id });
+    return deleted.length > 0;
+  }
+
+  async getBadHabitLogs(
+    userId: string,
+    query?: BadHabitLogQuery,
+  ): Promise<BadHabitLog[]> {
+    return this.db
+      .select()
+      .from(badHabitLogs)
+      .where(
+        and(
+          eq(badHabitLogs.userId, userId),
+          query?.badHabitId
+            ? eq(badHabitLogs.badHabitId, query.badHabitId)
+            : undefined,
+          ...dateRangeConditions(badHabitLogs.date, query),
+          changedSinceCondition(badHabitLogs.updatedAt, query),
+        ),
+      )
+      .orderBy(asc(badHabitLogs.date));
+  }
+
+  async upsertBadHabitLog(
+    userId: string,
+    log: InsertBadHabitLog,
+  ): Promise<BadHabitLog | undefined> {
+    const [badHabit] = await this.db
+      .select({ id: badHabits.id })
+      .from(badHabits)
+      .where(
+        and(eq(badHabits.id, log.badHabitId), eq(badHabits.userId, userId)),
+      );
+    if (!badHabit) return undefined;
+
+    const { id: _id, badHabitId: _badHabitId, date: _date, ...changes } = log;
+    const [saved] = await this.db
+      .insert(badHabitLogs)
+      .values({ ...log, userId })
+      .onConflictDoUpdate({
+        target: [badHabitLogs.badHabitId, badHabitLogs.date],
+        set: { ...changes, updatedAt: new Date() },
+      })
+      .returning();
+    return saved;
   }
 }
 
-export const storage = new MemStorage();
+export const storage: IStorage | null = db ? new DatabaseStorage(db) : null;
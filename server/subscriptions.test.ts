@@ -0,0 +1,155 @@
+import assert from "node:assert/strict";
+import { before, beforeEach, describe, it } from "node:test";
+import transactionFixtures from "./fixtures/storekit/signed-transactions.json";
+import notificationFixtures from "./fixtures/storekit/signed-notifications.json";
+
+// Runs the StoreKit fixtures (scripts/generate-storekit-fixtures.ts) through
+// verification and binding. Only the fixture root is trusted, and Supabase is
+// replaced by an in-memory subscriptions table behind a stubbed fetch, so the
+// tests need neither Apple's certificates nor a network.
+
+process.env.APP_STORE_TRUST_TEST_ROOT = "true";
+process.env.APPLE_ROOT_CERTS_DIR = "server/fixtures/storekit/no-apple-roots";
+process.env.APPLE_APP_ID = "";
+process.env.SUPABASE_URL = "http://supabase.test";
+process.env.SUPABASE_SERVICE_ROLE_KEY = "test-service-role-key";
+
+type Expected = "active" | "inactive" | "rejected";
+
+interface SubscriptionRow {
+  user_id: string;
+  original_transaction_id: string;
+  is_active: boolean;
+  [column: string]: unknown;
+}
+
+let subscriptionRows: SubscriptionRow[] = [];
+
+function json(status: number, body: unknown): Response {
+  return new Response(body === undefined ? null : JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json" },
+  });
+}
+
+// Just enough of PostgREST for bindTransactionToUser: a filtered select and an
+// upsert on user_id, with original_transaction_id unique as in Supabase
+async function fakeSupabaseFetch(
+  input: string | URL | Request,
+  init?: RequestInit,
+): Promise<Response> {
+  const url = new URL(input instanceof Request ? input.url : input);
+  if (url.pathname !== "/rest/v1/subscriptions") {
+    return json(404, { message: `Unexpected request to ${url.pathname}` });
+  }
+
+  if ((init?.method ?? "GET") === "GET") {
+    const filter = url.searchParams.get("original_transaction_id");
+    const id = filter?.replace(/^eq\./, "");
+    return json(
+      200,
+      subscriptionRows
+        .filter((row) => row.original_transaction_id === id)
+        .map((row) => ({ user_id: row.user_id })),
+    );
+  }
+
+  const body = JSON.parse(String(init?.body));
+  const row = (Array.isArray(body) ? body[0] : body) as SubscriptionRow;
+  const taken = subscriptionRows.find(
+    (other) =>
+      other.original_transaction_id === row.original_transaction_id &&
+      other.user_id !== row.user_id,
+  );
+  if (taken) {
+    return json(409, {
+      code: "23505",
+      message: "duplicate key value violates unique constraint",
+    });
+  }
+  subscriptionRows = [
+    ...subscriptionRows.filter((other) => other.user_id !== row.user_id),
+    row,
+  ];
+  return json(201, undefined);
+}
+
+describe("StoreKit fixtures", () => {
+  let appStore: typeof import("./appStore");
+  let subscriptions: typeof import("./subscriptions");
+
+  before(async () => {
+    globalThis.fetch = fakeSupabaseFetch as typeof fetch;
+    // Both modules read the environment when they load
+    appStore = await import("./appStore");
+    subscriptions = await import("./subscriptions");
+  });
+
+  beforeEach(() => {
+    subscriptionRows = [];
+  });
+
+  for (const [name, fixture] of Object.entries(transactionFixtures.fixtures)) {
+    const expected = fixture.expected as Expected;
+
+    it(`${name}: ${fixture.description} is ${expected}`, async () => {
+      const { payload, error } = await appStore.verifySignedTransaction(
+        fixture.signedTransaction,
+      );
+
+      // Rejected fixtures fail verification or, like the verify route, are
+      // turned away for not being a Units subscription
+      const isSubscription =
+        !!payload?.productId &&
+        appStore.SUBSCRIPTION_PRODUCT_IDS.includes(payload.productId);
+      if (expected === "rejected") {
+        assert.ok(!payload || !isSubscription, "expected to be rejected");
+        return;
+      }
+      assert.equal(error, null);
+      assert.ok(payload && isSubscription);
+
+      const result = await subscriptions.bindTransactionToUser(
+        "user-a",
+        payload,
+      );
+      assert.equal(result.error, null);
+      assert.equal(result.boundToAnotherUser, false);
+      assert.equal(result.status?.active, expected === "active");
+      assert.equal(subscriptionRows.length, 1);
+      assert.equal(subscriptionRows[0].user_id, "user-a");
+      assert.equal(subscriptionRows[0].is_active, expected === "active");
+
+      // The same Apple subscription can't unlock a second account
+      const other = await subscriptions.bindTransactionToUser(
+        "user-b",
+        payload,
+      );
+      assert.equal(other.boundToAnotherUser, true);
+      assert.equal(other.status, null);
+    });
+  }
+
+  it("rebinding to the same user updates the row", async () => {
+    const { payload } = await appStore.verifySignedTransaction(
+      transactionFixtures.fixtures.activeMonthly.signedTransaction,
+    );
+    assert.ok(payload);
+
+    await subscriptions.bindTransactionToUser("user-a", payload);
+    const again = await subscriptions.bindTransactionToUser("user-a", payload);
+    assert.equal(again.boundToAnotherUser, false);
+    assert.equal(again.status?.active, true);
+    assert.equal(subscriptionRows.length, 1);
+  });
+
+  for (const [name, fixture] of Object.entries(notificationFixtures.fixtures)) {
+    it(`${name}: notification verifies`, async () => {
+      const { payload, error } = await appStore.verifySignedNotification(
+        fixture.signedPayload,
+      );
+      assert.equal(error, null);
+      assert.ok(payload?.notificationType);
+    });
+  }
+});
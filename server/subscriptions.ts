@@ -0,0 +1,238 @@
+import type {
+  JWSRenewalInfoDecodedPayload,
+  JWSTransactionDecodedPayload,
+  ResponseBodyV2DecodedPayload,
+} from "@apple/app-store-server-library";
+import { getAccessExpiresDate, isTransactionActive } from "./appStore";
+import { supabaseAdmin } from "./supabaseAdmin";
+
+// ============================================================================
+// SUBSCRIPTION BINDING
+// ============================================================================
+// The server is the only writer of public.subscriptions. A verified Apple
+// subscription (identified by its originalTransactionId, which stays the same
+// across renewals) is bound to exactly one Units account; the unique index on
+// original_transaction_id enforces this in the database as well.
+//
+// After binding, App Store Server Notifications keep the row current: each
+// renewal, expiry, refund or revocation updates expires_date/is_active and is
+// recorded in public.subscription_events.
+// ============================================================================
+
+const UNIQUE_VIOLATION = "23505";
+
+export interface SubscriptionStatus {
+  active: boolean;
+  productId: string;
+  originalTransactionId: string;
+  expiresDate: string | null;
+  environment: string | null;
+}
+
+export interface BindResult {
+  status: SubscriptionStatus | null;
+  boundToAnotherUser: boolean;
+  error: string | null;
+}
+
+export interface NotificationResult {
+  /** Whether a bound subscription row was updated */
+  updated: boolean;
+  error: string | null;
+}
+
+function toIsoDate(timestamp: number | undefined): string | null {
+  return timestamp ? new Date(timestamp).toISOString() : null;
+}
+
+/**
+ * Records a verified transaction as the user's subscription. Fails with
+ * boundToAnotherUser if the same Apple subscription already unlocks a
+ * different account.
+ */
+export async function bindTransactionToUser(
+  userId: string,
+  transaction: JWSTransactionDecodedPayload,
+): Promise<BindResult> {
+  if (!supabaseAdmin) {
+    return {
+      status: null,
+      boundToAnotherUser: false,
+      error: "Subscriptions are not configured",
+    };
+  }
+
+  const originalTransactionId = transaction.originalTransactionId;
+  if (!originalTransactionId || !transaction.productId) {
+    return {
+      status: null,
+      boundToAnotherUser: false,
+      error: "Transaction is missing identifiers",
+    };
+  }
+
+  const { data: existing, error: lookupError } = await supabaseAdmin
+    .from("subscriptions")
+    .select("user_id")
+    .eq("original_transaction_id", originalTransactionId)
+    .maybeSingle();
+
+  if (lookupError) {
+    console.error("[Subscriptions] Lookup failed:", lookupError);
+    return { status: null, boundToAnotherUser: false, error: "Lookup failed" };
+  }
+
+  if (existing && existing.user_id !== userId) {
+    console.log(
+      "[Subscriptions] Transaction already bound to another user:",
+      originalTransactionId,
+    );
+    return { status: null, boundToAnotherUser: true, error: null };
+  }
+
+  const status: SubscriptionStatus = {
+    active: isTransactionActive(transaction),
+    productId: transaction.productId,
+    originalTransactionId,
+    expiresDate: toIsoDate(transaction.expiresDate),
+    environment: transaction.environment ?? null,
+  };
+
+  const { error: upsertError } = await supabaseAdmin
+    .from("subscriptions")
+    .upsert(
+      {
+        user_id: userId,
+        product_id: status.productId,
+        transaction_id: transaction.transactionId ?? null,
+        original_transaction_id: originalTransactionId,
+        purchase_date: toIsoDate(transaction.purchaseDate),
+        expires_date: status.expiresDate,
+        is_active: status.active,
+        environment: status.environment,
+      },
+      { onConflict: "user_id" },
+    );
+
+  if (upsertError) {
+    // Lost a race with another account binding the same subscription
+    if (upsertError.code === UNIQUE_VIOLATION) {
+      return { status: null, boundToAnotherUser: true, error: null };
+    }
+    console.error("[Subscriptions] Upsert failed:", upsertError);
+    return { status: null, boundToAnotherUser: false, error: "Save failed" };
+  }
+
+  console.log(
+    `[Subscriptions] Bound ${originalTransactionId} to ${userId} (active: ${status.active})`,
+  );
+  return { status, boundToAnotherUser: false, error: null };
+}
+
+/**
+ * Applies a verified App Store Server Notification to the bound subscription
+ * (if any) and records it in the event history.
+ *
+ * Apple retries notifications and does not guarantee their order, so the
+ * history insert is keyed on notificationUUID, and a notification whose
+ * expiry is older than the stored one is only recorded, not applied (unless
+ * it revokes the subscription).
+ */
+export async function applySubscriptionNotification(
+  notification: ResponseBodyV2DecodedPayload,
+  transaction: JWSTransactionDecodedPayload | null,
+  renewalInfo: JWSRenewalInfoDecodedPayload | null,
+): Promise<NotificationResult> {
+  if (!supabaseAdmin) {
+    return { updated: false, error: "Subscriptions are not configured" };
+  }
+
+  const originalTransactionId = transaction?.originalTransactionId ?? null;
+  const accessExpiresDate = transaction
+    ? getAccessExpiresDate(transaction, renewalInfo)
+    : undefined;
+  const active = transaction
+    ? isTransactionActive(transaction, Date.now(), renewalInfo)
+    : null;
+
+  let userId: string | null = null;
+  let updated = false;
+
+  if (transaction && originalTransactionId) {
+    const { data: existing, error: lookupError } = await supabaseAdmin
+      .from("subscriptions")
+      .select("user_id, expires_date")
+      .eq("original_transaction_id", originalTransactionId)
+      .maybeSingle();
+
+    if (lookupError) {
+      console.error("[Subscriptions] Lookup failed:", lookupError);
+      return { updated: false, error: "Lookup failed" };
+    }
+
+    if (existing) {
+      userId = existing.user_id;
+      const storedExpiresDate = existing.expires_date
+        ? new Date(existing.expires_date).getTime()
+        : 0;
+      const isStale =
+        !transaction.revocationDate &&
+        (accessExpiresDate ?? 0) < storedExpiresDate;
+
+      if (isStale) {
+        console.log(
+          "[Subscriptions] Ignoring out-of-order notification:",
+          notification.notificationUUID,
+        );
+      } else {
+        const { error: updateError } = await supabaseAdmin
+          .from("subscriptions")
+          .update({
+            product_id: transaction.productId,
+            transaction_id: transaction.transactionId ?? null,
+            expires_date: toIsoDate(accessExpiresDate),
+            is_active: active,
+            environment: transaction.environment ?? null,
+          })
+          .eq("original_transaction_id", originalTransactionId);
+
+        if (updateError) {
+          console.error("[Subscriptions] Update failed:", updateError);
+          return { updated: false, error: "Save failed" };
+        }
+        updated = true;
+      }
+    }
+  }
+
+  const { error: eventError } = await supabaseAdmin
+    .from("subscription_events")
+    .upsert(
+      {
+        notification_uuid: notification.notificationUUID,
+        notification_type: notification.notificationType,
+        subtype: notification.subtype ?? null,
+        user_id: userId,
+        original_transaction_id: originalTransactionId,
+        transaction_id: transaction?.transactionId ?? null,
+        product_id: transaction?.productId ?? null,
+        expires_date: toIsoDate(accessExpiresDate),
+        revocation_date: toIsoDate(transaction?.revocationDate),
+        is_active: active,
+        environment:
+          notification.data?.environment ?? transaction?.environment ?? null,
+        signed_date: toIsoDate(notification.signedDate),
+      },
+      { onConflict: "notification_uuid", ignoreDuplicates: true },
+    );
+
+  if (eventError) {
+    console.error("[Subscriptions] Failed to record event:", eventError);
+    return { updated, error: "Save failed" };
+  }
+
+  console.log(
+    `[Subscriptions] ${notification.notificationType}${notification.subtype ? `/${notification.subtype}` : ""} for ${originalTransactionId ?? "no transaction"} (updated: ${updated})`,
+  );
+  return { updated, error: null };
+}
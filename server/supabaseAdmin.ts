@@ -0,0 +1,50 @@
+import type { Request } from "express";
+import {
+  createClient,
+  type SupabaseClient,
+  type User,
+} from "@supabase/supabase-js";
+
+// ============================================================================
+// SERVICE ROLE CLIENT
+// ============================================================================
+// The service role key bypasses RLS, so this client is only used for writes
+// the app is not allowed to make itself (e.g. subscriptions). Never expose
+// SUPABASE_SERVICE_ROLE_KEY to the client bundle.
+// ============================================================================
+
+const SUPABASE_URL =
+  process.env.SUPABASE_URL || "https://rleheeagukbgovoywnlb.supabase.co";
+const SUPABASE_SERVICE_ROLE_KEY = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+export const supabaseAdmin: SupabaseClient | null = SUPABASE_SERVICE_ROLE_KEY
+  ? createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY, {
+      auth: {
+        autoRefreshToken: false,
+        persistSession: false,
+      },
+    })
+  : null;
+
+if (!supabaseAdmin) {
+  console.warn(
+    "[Supabase] SUPABASE_SERVICE_ROLE_KEY is not set; subscription endpoints are disabled",
+  );
+}
+
+/**
+ * Resolves the signed-in user from the request's `Authorization: Bearer
+ * <access token>` header. Returns null if the header is missing or the token
+ * is invalid or expired.
+ */
+export async function getRequestUser(req: Request): Promise<User | null> {
+  if (!supabaseAdmin) return null;
+
+  const header = req.header("authorization");
+  const match = header?.match(/^Bearer\s+(.+)$/i);
+  if (!match) return null;
+
+  const { data, error } = await supabaseAdmin.auth.getUser(match[1]);
+  if (error || !data.user) return null;
+  return data.user;
+}
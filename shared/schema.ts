@@ -1,20 +1,321 @@
 import { sql } from "drizzle-orm";
-import { pgTable, text, varchar } from "drizzle-orm/pg-core";
+import {
+  boolean,
+  check,
+  date,
+  index,
+  integer,
+  jsonb,
+  pgTable,
+  text,
+  timestamp,
+  unique,
+  uuid,
+  varchar,
+} from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
+// Mirrors the Supabase tables in supabase/migrations so the Express server can
+// act as an alternative backend. Column names match the Supabase ones. Users
+// sign in through Supabase Auth; a users row keyed by their Supabase uid owns
+// their data here.
+
 export const users = pgTable("users", {
   id: varchar("id")
     .primaryKey()
     .default(sql`gen_random_uuid()`),
   username: text("username").notNull().unique(),
-  password: text("password").notNull(),
+  createdAt: timestamp("created_at", { withTimezone: true })
+    .notNull()
+    .defaultNow(),
 });
 
+export const habits = pgTable(
+  "habits",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    userId: varchar("user_id")
+      .notNull()
+      .references(() => users.id, { onDelete: "cascade" }),
+    name: text("name").notNull(),
+    icon: text("icon").notNull().default("target"),
+    color: text("color").notNull().default("#6366F1"),
+    unitName: text("unit_name").notNull().default("units"),
+    dailyGoal: integer("daily_goal").notNull().default(10),
+    goalPeriod: text("goal_period").notNull().default("day"),
+    schedule: jsonb("schedule"),
+    reminderTimes: text("reminder_times")
+      .array()
+      .notNull()
+      .default(sql`'{}'`),
+    tapIncrement: integer("tap_increment").notNull().default(1),
+    habitType: text("habit_type").notNull().default("count"),
+    isArchived: boolean("is_archived").notNull().default(false),
+    sortOrder: integer("sort_order").notNull().default(0),
+    createdAt: timestamp("created_at", { withTimezone: true })
+      .notNull()
+      .defaultNow(),
+    updatedAt: timestamp("updated_at", { withTimezone: true })
+      .notNull()
+      .defaultNow()
+      .$onUpdate(() => new Date()),
+  },
+  (table) => [
+    index("idx_habits_user_id").on(table.userId),
+    index("idx_habits_user_updated").on(table.userId, table.updatedAt),
+    check(
+      "habits_habit_type_check",
+      sql`${table.habitType} IN ('count', 'time')`,
+    ),
+    check(
+      "habits_goal_period_check",
+      sql`${table.goalPeriod} IN ('day', 'week', 'month')`,
+    ),
+  ],
+);
+
+export const habitLogs = pgTable(
+  "habit_logs",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    habitId: uuid("habit_id")
+      .notNull()
+      .references(() => habits.id, { onDelete: "cascade" }),
+    userId: varchar("user_id")
+      .notNull()
+      .references(() => users.id, { onDelete: "cascade" }),
+    date: date("date").notNull(),
+    count: integer("count").notNull().default(0),
+    createdAt: timestamp("created_at", { withTimezone: true })
+      .notNull()
+      .defaultNow(),
+    updatedAt: timestamp("updated_at", { withTimezone: true })
+      .notNull()
+      .defaultNow()
+      .$onUpdate(() => new Date()),
+  },
+  (table) => [
+    unique("habit_logs_habit_id_date_key").on(table.habitId, table.date),
+    index("idx_habit_logs_user_id").on(table.userId),
+    index("idx_habit_logs_user_updated").on(table.userId, table.updatedAt),
+  ],
+);
+
+// Append-only history behind habit_logs: one row per change to a day's count
+export const unitEvents = pgTable(
+  "unit_events",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    habitId: uuid("habit_id")
+      .notNull()
+      .references(() => habits.id, { onDelete: "cascade" }),
+    userId: varchar("user_id")
+      .notNull()
+      .references(() => users.id, { onDelete: "cascade" }),
+    date: date("date").notNull(),
+    delta: integer("delta").notNull(),
+    source: text("source").notNull(),
+    occurredAt: timestamp("occurred_at", { withTimezone: true })
+      .notNull()
+      .defaultNow(),
+    createdAt: timestamp("created_at", { withTimezone: true })
+      .notNull()
+      .defaultNow(),
+  },
+  (table) => [
+    index("idx_unit_events_user_occurred").on(table.userId, table.occurredAt),
+    index("idx_unit_events_habit_date").on(table.habitId, table.date),
+    index("idx_unit_events_user_created").on(table.userId, table.createdAt),
+    check(
+      "unit_events_source_check",
+      sql`${table.source} IN ('tap', 'quick-add', 'edit', 'undo', 'timer', 'import')`,
+    ),
+  ],
+);
+
+export const badHabits = pgTable(
+  "bad_habits",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    userId: varchar("user_id")
+      .notNull()
+      .references(() => users.id, { onDelete: "cascade" }),
+    name: text("name").notNull(),
+    isArchived: boolean("is_archived").notNull().default(false),
+    createdAt: timestamp("created_at", { withTimezone: true })
+      .notNull()
+      .defaultNow(),
+    updatedAt: timestamp("updated_at", { withTimezone: true })
+      .notNull()
+      .defaultNow()
+      .$onUpdate(() => new Date()),
+  },
+  (table) => [
+    index("idx_bad_habits_user_id").on(table.userId),
+    index("idx_bad_habits_user_updated").on(table.userId, table.updatedAt),
+  ],
+);
+
+export const badHabitLogs = pgTable(
+  "bad_habit_logs",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    badHabitId: uuid("bad_habit_id")
+      .notNull()
+      .references(() => badHabits.id, { onDelete: "cascade" }),
+    userId: varchar("user_id")
+      .notNull()
+      .references(() => users.id, { onDelete: "cascade" }),
+    date: date("date").notNull(),
+    count: integer("count").notNull().default(1),
+    penaltyUnits: integer("penalty_units").notNull().default(0),
+    isUndone: boolean("is_undone").notNull().default(false),
+    createdAt: timestamp("created_at", { withTimezone: true })
+      .notNull()
+      .defaultNow(),
+    updatedAt: timestamp("updated_at", { withTimezone: true })
+      .notNull()
+      .defaultNow()
+      .$onUpdate(() => new Date()),
+  },
+  (table) => [
+    unique("bad_habit_logs_bad_habit_id_date_key").on(
+      table.badHabitId,
+      table.date,
+    ),
+    index("idx_bad_habit_logs_user_id").on(table.userId),
+    index("idx_bad_habit_logs_user_updated").on(table.userId, table.updatedAt),
+  ],
+);
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const dateString = z.string().regex(DATE_PATTERN, "Expected YYYY-MM-DD");
+
+export const UNIT_EVENT_SOURCES = [
+  "tap",
+  "quick-add",
+  "edit",
+  "undo",
+  "timer",
+  "import",
+] as const;
+
 export const insertUserSchema = createInsertSchema(users).pick({
   username: true,
-  password: true,
+});
+
+// Zod overrides replace the generated schema, so columns with defaults have to
+// be marked optional again
+export const insertHabitSchema = createInsertSchema(habits, {
+  name: (schema) => schema.trim().min(1),
+  dailyGoal: (schema) => schema.min(1),
+  goalPeriod: z.enum(["day", "week", "month"]).optional(),
+  reminderTimes: z.array(z.string().regex(/^\d{2}:\d{2}$/)).optional(),
+  tapIncrement: (schema) => schema.min(1),
+  habitType: z.enum(["count", "time"]).optional(),
+}).omit({
+  userId: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const updateHabitSchema = insertHabitSchema.omit({ id: true }).partial();
+
+export const insertBadHabitSchema = createInsertSchema(badHabits, {
+  name: (schema) => schema.trim().min(1),
+}).omit({
+  userId: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const updateBadHabitSchema = insertBadHabitSchema
+  .omit({ id: true })
+  .partial();
+
+export const insertBadHabitLogSchema = createInsertSchema(badHabitLogs, {
+  date: dateString,
+}).omit({
+  userId: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+/** Body of PUT /api/bad-habits/:id/logs/:date */
+export const badHabitLogChangeSchema = insertBadHabitLogSchema.pick({
+  count: true,
+  penaltyUnits: true,
+  isUndone: true,
+});
+
+/**
+ * Body of POST /api/habits/:id/logs: either a relative `delta` or an absolute
+ * `count` for the day. Sending the client's `eventId` makes retries safe.
+ */
+export const habitLogChangeSchema = createInsertSchema(unitEvents, {
+  date: dateString,
+  occurredAt: z.coerce.date(),
+})
+  .pick({ date: true, occurredAt: true })
+  .extend({
+    delta: z.number().int().optional(),
+    count: z.number().int().min(0).optional(),
+    source: z.enum(UNIT_EVENT_SOURCES).optional(),
+    eventId: z.string().uuid().optional(),
+  })
+  .refine(
+    (change) => (change.delta === undefined) !== (change.count === undefined),
+    {
+      message: "Provide either delta or count",
+    },
+  );
+
+export const dateRangeQuerySchema = z.object({
+  from: dateString.optional(),
+  to: dateString.optional(),
+});
+
+/**
+ * Date range plus the incremental sync cursor: only rows written at or after
+ * updatedSince (an ISO timestamp) are returned.
+ */
+export const syncQuerySchema = dateRangeQuerySchema.extend({
+  updatedSince: z.coerce.date().optional(),
+});
+
+/**
+ * Body of POST /api/habit-logs/import, mirroring the Supabase import_habit_logs
+ * RPC: unit additions applied in one request, skipping event ids already seen.
+ */
+export const habitLogImportSchema = z.object({
+  entries: z
+    .array(
+      z.object({
+        eventId: z.string().uuid(),
+        habitId: z.string().uuid(),
+        date: dateString,
+        delta: z.number().int(),
+        occurredAt: z.coerce.date().optional(),
+      }),
+    )
+    .max(500),
 });
 
 export type InsertUser = z.infer<typeof insertUserSchema>;
 export type User = typeof users.$inferSelect;
+export type InsertHabit = z.infer<typeof insertHabitSchema>;
+export type UpdateHabit = z.infer<typeof updateHabitSchema>;
+export type HabitLogChange = z.infer<typeof habitLogChangeSchema>;
+export type HabitLogImportEntry = z.infer<
+  typeof habitLogImportSchema
+>["entries"][number];
+export type Habit = typeof habits.$inferSelect;
+export type HabitLog = typeof habitLogs.$inferSelect;
+export type UnitEvent = typeof unitEvents.$inferSelect;
+export type InsertBadHabit = z.infer<typeof insertBadHabitSchema>;
+export type UpdateBadHabit = z.infer<typeof updateBadHabitSchema>;
+export type BadHabit = typeof badHabits.$inferSelect;
+export type InsertBadHabitLog = z.infer<typeof insertBadHabitLogSchema>;
+export type BadHabitLogChange = z.infer<typeof badHabitLogChangeSchema>;
+export type BadHabitLog = typeof badHabitLogs.$inferSelect;
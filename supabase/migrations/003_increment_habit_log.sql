@@ -0,0 +1,50 @@
+-- ============================================================================
+-- ATOMIC HABIT LOG INCREMENT
+-- ============================================================================
+-- addUnitsToHabit used to read the day's row and write back count + n. Two fast
+-- taps (or two devices) could both read the same count and one increment was
+-- lost. This function does the upsert and the addition in a single statement,
+-- so concurrent calls serialize on the (habit_id, date) row.
+--
+-- Runs as the caller (SECURITY INVOKER), so the habit_logs RLS policies still
+-- apply and a user can only touch their own rows.
+--
+-- Returns the day's count after the increment (never below 0).
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION public.increment_habit_log(
+  p_habit_id UUID,
+  p_date DATE,
+  p_delta INTEGER
+)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  new_count INTEGER;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  -- The habit must belong to the caller (habit_logs RLS only checks user_id)
+  IF NOT EXISTS (
+    SELECT 1 FROM public.habits WHERE id = p_habit_id AND user_id = auth.uid()
+  ) THEN
+    RAISE EXCEPTION 'Habit not found';
+  END IF;
+
+  INSERT INTO public.habit_logs (habit_id, user_id, date, count)
+  VALUES (p_habit_id, auth.uid(), p_date, GREATEST(p_delta, 0))
+  ON CONFLICT (habit_id, date)
+  DO UPDATE SET count = GREATEST(public.habit_logs.count + p_delta, 0)
+  RETURNING count INTO new_count;
+
+  RETURN new_count;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.increment_habit_log(UUID, DATE, INTEGER) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.increment_habit_log(UUID, DATE, INTEGER) TO authenticated;
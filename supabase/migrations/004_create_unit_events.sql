@@ -0,0 +1,170 @@
+-- ============================================================================
+-- PER-TAP UNIT EVENTS
+-- ============================================================================
+-- habit_logs keeps one rollup row per habit per day, which loses when during
+-- the day work happened and what each change was. unit_events is an append-only
+-- log of every change to a rollup:
+--   occurred_at - wall-clock time of the change
+--   date        - the day the units were credited to (differs for edits of past days)
+--   delta       - signed change applied to the rollup
+--   source      - 'tap' | 'quick-add' | 'edit' | 'undo'
+--
+-- The rollup and the event are written in the same statement by the RPCs below,
+-- so they never disagree. Each event carries a client-generated id; replaying
+-- a write whose event already exists is a no-op, which makes outbox retries safe.
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS public.unit_events (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  habit_id UUID NOT NULL REFERENCES public.habits(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  date DATE NOT NULL,
+  delta INTEGER NOT NULL,
+  source TEXT NOT NULL CHECK (source IN ('tap', 'quick-add', 'edit', 'undo')),
+  occurred_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+ALTER TABLE public.unit_events ENABLE ROW LEVEL SECURITY;
+
+-- Append-only: no update or delete policies (rows go away with the user or habit)
+DROP POLICY IF EXISTS "Users can view own unit events" ON public.unit_events;
+DROP POLICY IF EXISTS "Users can insert own unit events" ON public.unit_events;
+CREATE POLICY "Users can view own unit events" ON public.unit_events
+  FOR SELECT USING (auth.uid() = user_id);
+CREATE POLICY "Users can insert own unit events" ON public.unit_events
+  FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+CREATE INDEX IF NOT EXISTS idx_unit_events_user_occurred ON public.unit_events(user_id, occurred_at);
+CREATE INDEX IF NOT EXISTS idx_unit_events_habit_date ON public.unit_events(habit_id, date);
+
+-- Replace the 003 signature with one that also records the event
+DROP FUNCTION IF EXISTS public.increment_habit_log(UUID, DATE, INTEGER);
+
+CREATE OR REPLACE FUNCTION public.increment_habit_log(
+  p_habit_id UUID,
+  p_date DATE,
+  p_delta INTEGER,
+  p_source TEXT DEFAULT 'tap',
+  p_event_id UUID DEFAULT NULL,
+  p_occurred_at TIMESTAMPTZ DEFAULT NULL
+)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  old_count INTEGER;
+  new_count INTEGER;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.habits WHERE id = p_habit_id AND user_id = auth.uid()
+  ) THEN
+    RAISE EXCEPTION 'Habit not found';
+  END IF;
+
+  -- Already applied (retried after a lost response): report the current count
+  IF p_event_id IS NOT NULL AND EXISTS (SELECT 1 FROM public.unit_events WHERE id = p_event_id) THEN
+    SELECT count INTO new_count FROM public.habit_logs WHERE habit_id = p_habit_id AND date = p_date;
+    RETURN COALESCE(new_count, 0);
+  END IF;
+
+  -- The count is floored at 0, so the event records the change actually applied
+  SELECT count INTO old_count
+  FROM public.habit_logs
+  WHERE habit_id = p_habit_id AND date = p_date
+  FOR UPDATE;
+
+  INSERT INTO public.habit_logs (habit_id, user_id, date, count)
+  VALUES (p_habit_id, auth.uid(), p_date, GREATEST(p_delta, 0))
+  ON CONFLICT (habit_id, date)
+  DO UPDATE SET count = GREATEST(public.habit_logs.count + p_delta, 0)
+  RETURNING count INTO new_count;
+
+  IF new_count <> COALESCE(old_count, 0) THEN
+    INSERT INTO public.unit_events (id, habit_id, user_id, date, delta, source, occurred_at)
+    VALUES (
+      COALESCE(p_event_id, uuid_generate_v4()),
+      p_habit_id,
+      auth.uid(),
+      p_date,
+      new_count - COALESCE(old_count, 0),
+      p_source,
+      COALESCE(p_occurred_at, NOW())
+    );
+  END IF;
+
+  RETURN new_count;
+END;
+$$;
+
+-- Absolute write (removals and edits). The delta is computed against the row as
+-- locked here, so the event reflects what actually changed on the server.
+CREATE OR REPLACE FUNCTION public.set_habit_log_count(
+  p_habit_id UUID,
+  p_date DATE,
+  p_count INTEGER,
+  p_source TEXT DEFAULT 'edit',
+  p_event_id UUID DEFAULT NULL,
+  p_occurred_at TIMESTAMPTZ DEFAULT NULL
+)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  old_count INTEGER;
+  new_count INTEGER := GREATEST(p_count, 0);
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.habits WHERE id = p_habit_id AND user_id = auth.uid()
+  ) THEN
+    RAISE EXCEPTION 'Habit not found';
+  END IF;
+
+  IF p_event_id IS NOT NULL AND EXISTS (SELECT 1 FROM public.unit_events WHERE id = p_event_id) THEN
+    SELECT count INTO old_count FROM public.habit_logs WHERE habit_id = p_habit_id AND date = p_date;
+    RETURN COALESCE(old_count, 0);
+  END IF;
+
+  SELECT count INTO old_count
+  FROM public.habit_logs
+  WHERE habit_id = p_habit_id AND date = p_date
+  FOR UPDATE;
+
+  INSERT INTO public.habit_logs (habit_id, user_id, date, count)
+  VALUES (p_habit_id, auth.uid(), p_date, new_count)
+  ON CONFLICT (habit_id, date)
+  DO UPDATE SET count = EXCLUDED.count;
+
+  IF new_count <> COALESCE(old_count, 0) THEN
+    INSERT INTO public.unit_events (id, habit_id, user_id, date, delta, source, occurred_at)
+    VALUES (
+      COALESCE(p_event_id, uuid_generate_v4()),
+      p_habit_id,
+      auth.uid(),
+      p_date,
+      new_count - COALESCE(old_count, 0),
+      p_source,
+      COALESCE(p_occurred_at, NOW())
+    );
+  END IF;
+
+  RETURN new_count;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.increment_habit_log(UUID, DATE, INTEGER, TEXT, UUID, TIMESTAMPTZ) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.increment_habit_log(UUID, DATE, INTEGER, TEXT, UUID, TIMESTAMPTZ) TO authenticated;
+REVOKE ALL ON FUNCTION public.set_habit_log_count(UUID, DATE, INTEGER, TEXT, UUID, TIMESTAMPTZ) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.set_habit_log_count(UUID, DATE, INTEGER, TEXT, UUID, TIMESTAMPTZ) TO authenticated;
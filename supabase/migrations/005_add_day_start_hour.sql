@@ -0,0 +1,18 @@
+-- ============================================================================
+-- CONFIGURABLE DAY START
+-- ============================================================================
+-- Days used to roll over at local midnight, so a 1am session landed on the next
+-- day. day_start_hour is the hour (0-23) at which the user's day begins; all
+-- date bucketing on the client shifts timestamps back by this many hours.
+--
+-- Stored on the profile rather than in device settings so it follows the user
+-- across devices.
+-- ============================================================================
+
+ALTER TABLE public.profiles
+  ADD COLUMN IF NOT EXISTS day_start_hour SMALLINT NOT NULL DEFAULT 0;
+
+ALTER TABLE public.profiles
+  DROP CONSTRAINT IF EXISTS profiles_day_start_hour_check;
+ALTER TABLE public.profiles
+  ADD CONSTRAINT profiles_day_start_hour_check CHECK (day_start_hour BETWEEN 0 AND 23);
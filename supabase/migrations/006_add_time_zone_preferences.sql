@@ -0,0 +1,16 @@
+-- ============================================================================
+-- HOME TIME ZONE AND TRAVEL MODE
+-- ============================================================================
+-- habit_logs.date is a plain DATE with no zone, so the client decides which
+-- zone a moment is bucketed in. Using the device's current zone meant a flight
+-- across zones could double-count or skip a day.
+--   home_time_zone - IANA zone (e.g. 'America/New_York') days are counted in;
+--                    set from the device on first sign-in
+--   travel_mode    - when true, days follow the device's current zone instead
+-- ============================================================================
+
+ALTER TABLE public.profiles
+  ADD COLUMN IF NOT EXISTS home_time_zone TEXT;
+
+ALTER TABLE public.profiles
+  ADD COLUMN IF NOT EXISTS travel_mode BOOLEAN NOT NULL DEFAULT FALSE;
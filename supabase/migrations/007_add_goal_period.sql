@@ -0,0 +1,17 @@
+-- ============================================================================
+-- WEEKLY AND MONTHLY GOALS
+-- ============================================================================
+-- daily_goal used to always mean "per day". goal_period sets the period the
+-- target is measured over; daily_goal keeps holding the target itself:
+--   'day'   - daily_goal units every day (previous behaviour, the default)
+--   'week'  - daily_goal units per Monday-Sunday week
+--   'month' - daily_goal units per calendar month
+-- ============================================================================
+
+ALTER TABLE public.habits
+  ADD COLUMN IF NOT EXISTS goal_period TEXT NOT NULL DEFAULT 'day';
+
+ALTER TABLE public.habits
+  DROP CONSTRAINT IF EXISTS habits_goal_period_check;
+ALTER TABLE public.habits
+  ADD CONSTRAINT habits_goal_period_check CHECK (goal_period IN ('day', 'week', 'month'));
@@ -0,0 +1,12 @@
+-- ============================================================================
+-- HABIT SCHEDULES
+-- ============================================================================
+-- Daily-goal habits can skip days. Unscheduled days are rest days: they are
+-- left out of goal totals and perfect-day checks. NULL means every day.
+--   {"type": "weekdays", "days": [1, 3, 5]}                       - 0 = Sunday
+--   {"type": "interval", "everyDays": 2, "startDate": "2025-01-01"}
+--   {"type": "dates", "dates": ["2025-01-04", "2025-01-11"]}
+-- ============================================================================
+
+ALTER TABLE public.habits
+  ADD COLUMN IF NOT EXISTS schedule JSONB;
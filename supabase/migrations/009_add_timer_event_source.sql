@@ -0,0 +1,11 @@
+-- ============================================================================
+-- TIMER EVENT SOURCE
+-- ============================================================================
+-- Time habits can be logged with a start/stop timer. Minutes logged when a
+-- timer is stopped are recorded in unit_events with source 'timer'.
+-- ============================================================================
+
+ALTER TABLE public.unit_events
+  DROP CONSTRAINT IF EXISTS unit_events_source_check;
+ALTER TABLE public.unit_events
+  ADD CONSTRAINT unit_events_source_check CHECK (source IN ('tap', 'quick-add', 'edit', 'undo', 'timer'));
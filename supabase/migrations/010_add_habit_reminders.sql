@@ -0,0 +1,10 @@
+-- ============================================================================
+-- HABIT REMINDERS
+-- ============================================================================
+-- Reminder times for a habit, as "HH:MM" in the device's local time. The app
+-- schedules the notifications on device; the server only stores the times so
+-- they follow the user to a new device.
+-- ============================================================================
+
+ALTER TABLE public.habits
+  ADD COLUMN IF NOT EXISTS reminder_times TEXT[] NOT NULL DEFAULT '{}';
@@ -0,0 +1,90 @@
+-- ============================================================================
+-- BULK UNIT IMPORT
+-- ============================================================================
+-- Imports from a backup or another habit tracker can carry years of history.
+-- import_habit_logs applies a batch of unit additions in one round trip
+-- instead of one increment_habit_log call per row. Each entry is applied with
+-- the same rules as increment_habit_log (rollup and event written together,
+-- entries whose event id already exists are skipped), so a batch retried after
+-- a lost response does not double-count. Events are recorded with source 'import'.
+--
+-- p_entries is a JSON array of:
+--   { "event_id": uuid, "habit_id": uuid, "date": "YYYY-MM-DD",
+--     "delta": integer, "occurred_at": timestamptz }
+-- Returns the number of entries applied (skipped duplicates are not counted).
+-- ============================================================================
+
+ALTER TABLE public.unit_events
+  DROP CONSTRAINT IF EXISTS unit_events_source_check;
+ALTER TABLE public.unit_events
+  ADD CONSTRAINT unit_events_source_check CHECK (source IN ('tap', 'quick-add', 'edit', 'undo', 'timer', 'import'));
+
+CREATE OR REPLACE FUNCTION public.import_habit_logs(p_entries JSONB)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  entry JSONB;
+  entry_event_id UUID;
+  entry_habit_id UUID;
+  entry_date DATE;
+  entry_delta INTEGER;
+  applied INTEGER := 0;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF jsonb_typeof(p_entries) <> 'array' THEN
+    RAISE EXCEPTION 'Entries must be an array';
+  END IF;
+
+  -- Reject the whole batch if any entry points at someone else's habit
+  IF EXISTS (
+    SELECT 1
+    FROM jsonb_array_elements(p_entries) AS e
+    WHERE NOT EXISTS (
+      SELECT 1 FROM public.habits
+      WHERE id = (e->>'habit_id')::UUID AND user_id = auth.uid()
+    )
+  ) THEN
+    RAISE EXCEPTION 'Habit not found';
+  END IF;
+
+  FOR entry IN SELECT * FROM jsonb_array_elements(p_entries)
+  LOOP
+    entry_event_id := (entry->>'event_id')::UUID;
+    entry_habit_id := (entry->>'habit_id')::UUID;
+    entry_date := (entry->>'date')::DATE;
+    entry_delta := (entry->>'delta')::INTEGER;
+
+    CONTINUE WHEN entry_delta IS NULL OR entry_delta <= 0;
+    CONTINUE WHEN EXISTS (SELECT 1 FROM public.unit_events WHERE id = entry_event_id);
+
+    INSERT INTO public.habit_logs (habit_id, user_id, date, count)
+    VALUES (entry_habit_id, auth.uid(), entry_date, entry_delta)
+    ON CONFLICT (habit_id, date)
+    DO UPDATE SET count = public.habit_logs.count + entry_delta;
+
+    INSERT INTO public.unit_events (id, habit_id, user_id, date, delta, source, occurred_at)
+    VALUES (
+      entry_event_id,
+      entry_habit_id,
+      auth.uid(),
+      entry_date,
+      entry_delta,
+      'import',
+      COALESCE((entry->>'occurred_at')::TIMESTAMPTZ, NOW())
+    );
+
+    applied := applied + 1;
+  END LOOP;
+
+  RETURN applied;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.import_habit_logs(JSONB) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.import_habit_logs(JSONB) TO authenticated;
@@ -0,0 +1,20 @@
+-- ============================================================================
+-- SERVER-MANAGED SUBSCRIPTIONS
+-- ============================================================================
+-- Subscription rows were written by the app under RLS, trusting whatever
+-- originalTransactionId the client reported. They are now written only by the
+-- API server (POST /api/subscriptions/verify) after it has verified Apple's
+-- signed transaction, using the service role key, which bypasses RLS.
+--
+-- Users keep read access to their own row. The insert and update policies are
+-- removed so a client can no longer grant itself premium access.
+--
+-- Also records which App Store environment (Production or Sandbox) the
+-- verified transaction came from.
+-- ============================================================================
+
+DROP POLICY IF EXISTS "Users can insert own subscription" ON public.subscriptions;
+DROP POLICY IF EXISTS "Users can update own subscription" ON public.subscriptions;
+
+ALTER TABLE public.subscriptions
+  ADD COLUMN IF NOT EXISTS environment TEXT;
@@ -0,0 +1,44 @@
+-- ============================================================================
+-- SUBSCRIPTION EVENTS
+-- ============================================================================
+-- History of App Store Server Notifications (v2) received by the API server
+-- (POST /api/app-store/notifications): renewals, expiries, refunds,
+-- revocations and billing issues. Each notification also updates the bound
+-- subscriptions row, so refunds and lapses take effect without waiting for the
+-- app to re-validate.
+--
+-- Apple retries notifications until it gets a 2xx response, so rows are unique
+-- on notification_uuid. user_id is null for notifications about a
+-- subscription that has not been bound to an account yet.
+--
+-- Written only by the API server with the service role key. Users can read
+-- their own events.
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS public.subscription_events (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  notification_uuid TEXT NOT NULL UNIQUE,
+  notification_type TEXT NOT NULL,
+  subtype TEXT,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE,
+  original_transaction_id TEXT,
+  transaction_id TEXT,
+  product_id TEXT,
+  expires_date TIMESTAMPTZ,
+  revocation_date TIMESTAMPTZ,
+  is_active BOOLEAN,
+  environment TEXT,
+  signed_date TIMESTAMPTZ,
+  received_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_subscription_events_original_transaction_id
+  ON public.subscription_events(original_transaction_id);
+CREATE INDEX IF NOT EXISTS idx_subscription_events_user_id
+  ON public.subscription_events(user_id);
+
+ALTER TABLE public.subscription_events ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view own subscription events" ON public.subscription_events;
+CREATE POLICY "Users can view own subscription events" ON public.subscription_events
+  FOR SELECT USING (auth.uid() = user_id);
@@ -0,0 +1,99 @@
+-- ============================================================================
+-- ACCOUNT DELETION
+-- ============================================================================
+-- delete_user_account removes everything stored for a user, including the
+-- auth.users record, in one transaction: either the whole account is gone or
+-- nothing changed. Called only by the API server (DELETE /api/account) with
+-- the service role key after it has authenticated the user.
+--
+-- Each deletion leaves a receipt in account_deletions with the number of rows
+-- removed per table. Receipts hold no personal data besides the former user
+-- id, have no foreign key (the user no longer exists) and are readable only
+-- with the service role.
+--
+-- Returns the receipt:
+--   { "receipt_id": uuid, "user_id": uuid, "deleted_at": timestamptz,
+--     "deleted": { "<table>": count, ... } }
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS public.account_deletions (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID NOT NULL,
+  deleted_counts JSONB NOT NULL,
+  deleted_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_account_deletions_user_id
+  ON public.account_deletions(user_id);
+
+-- No policies: only the service role can read or write receipts
+ALTER TABLE public.account_deletions ENABLE ROW LEVEL SECURITY;
+
+CREATE OR REPLACE FUNCTION public.delete_user_account(p_user_id UUID)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  counts JSONB := '{}'::JSONB;
+  row_count INTEGER;
+  receipt_id UUID;
+  deleted_at TIMESTAMPTZ := NOW();
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM auth.users WHERE id = p_user_id) THEN
+    RAISE EXCEPTION 'User not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  -- Children before parents, so each count only covers rows of that table
+  DELETE FROM public.unit_events WHERE user_id = p_user_id;
+  GET DIAGNOSTICS row_count = ROW_COUNT;
+  counts := counts || jsonb_build_object('unit_events', row_count);
+
+  DELETE FROM public.habit_logs WHERE user_id = p_user_id;
+  GET DIAGNOSTICS row_count = ROW_COUNT;
+  counts := counts || jsonb_build_object('habit_logs', row_count);
+
+  DELETE FROM public.habits WHERE user_id = p_user_id;
+  GET DIAGNOSTICS row_count = ROW_COUNT;
+  counts := counts || jsonb_build_object('habits', row_count);
+
+  DELETE FROM public.bad_habit_logs WHERE user_id = p_user_id;
+  GET DIAGNOSTICS row_count = ROW_COUNT;
+  counts := counts || jsonb_build_object('bad_habit_logs', row_count);
+
+  DELETE FROM public.bad_habits WHERE user_id = p_user_id;
+  GET DIAGNOSTICS row_count = ROW_COUNT;
+  counts := counts || jsonb_build_object('bad_habits', row_count);
+
+  DELETE FROM public.subscription_events WHERE user_id = p_user_id;
+  GET DIAGNOSTICS row_count = ROW_COUNT;
+  counts := counts || jsonb_build_object('subscription_events', row_count);
+
+  DELETE FROM public.subscriptions WHERE user_id = p_user_id;
+  GET DIAGNOSTICS row_count = ROW_COUNT;
+  counts := counts || jsonb_build_object('subscriptions', row_count);
+
+  DELETE FROM public.profiles WHERE id = p_user_id;
+  GET DIAGNOSTICS row_count = ROW_COUNT;
+  counts := counts || jsonb_build_object('profiles', row_count);
+
+  -- Also removes the user's sessions and identities
+  DELETE FROM auth.users WHERE id = p_user_id;
+
+  INSERT INTO public.account_deletions (user_id, deleted_counts, deleted_at)
+  VALUES (p_user_id, counts, deleted_at)
+  RETURNING id INTO receipt_id;
+
+  RETURN jsonb_build_object(
+    'receipt_id', receipt_id,
+    'user_id', p_user_id,
+    'deleted_at', deleted_at,
+    'deleted', counts
+  );
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.delete_user_account(UUID) FROM PUBLIC;
+REVOKE ALL ON FUNCTION public.delete_user_account(UUID) FROM anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.delete_user_account(UUID) TO service_role;
@@ -0,0 +1,39 @@
+-- ============================================================================
+-- KEEP PROFILE EMAIL IN SYNC
+-- ============================================================================
+-- profiles.email is copied from the auth user when the profile is created.
+-- An email change only touches auth.users, and only once the user has
+-- confirmed it from the link Supabase sends, so the copy is updated by a
+-- trigger at that moment rather than by the app when it asks for the change.
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION public.sync_profile_email()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.profiles
+  SET email = NEW.email
+  WHERE id = NEW.id;
+  RETURN NEW;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.sync_profile_email() FROM PUBLIC;
+REVOKE ALL ON FUNCTION public.sync_profile_email() FROM anon, authenticated;
+
+DROP TRIGGER IF EXISTS sync_profile_email ON auth.users;
+CREATE TRIGGER sync_profile_email
+  AFTER UPDATE OF email ON auth.users
+  FOR EACH ROW
+  WHEN (OLD.email IS DISTINCT FROM NEW.email)
+  EXECUTE FUNCTION public.sync_profile_email();
+
+-- Profiles of users who changed their email before this migration
+UPDATE public.profiles p
+SET email = u.email
+FROM auth.users u
+WHERE p.id = u.id
+  AND p.email IS DISTINCT FROM u.email;
@@ -0,0 +1,27 @@
+-- ============================================================================
+-- REALTIME FOR MULTI-DEVICE SYNC
+-- ============================================================================
+-- The app subscribes to changes on the user's rows so a tap on one device
+-- shows up on the others without waiting for the next sync. Supabase only
+-- streams tables that are in the supabase_realtime publication; RLS still
+-- decides which rows each subscriber receives.
+-- ============================================================================
+
+DO $$
+DECLARE
+  table_name TEXT;
+BEGIN
+  FOREACH table_name IN ARRAY ARRAY[
+    'habits', 'habit_logs', 'bad_habits', 'bad_habit_logs', 'unit_events'
+  ] LOOP
+    IF NOT EXISTS (
+      SELECT 1 FROM pg_publication_tables
+      WHERE pubname = 'supabase_realtime'
+        AND schemaname = 'public'
+        AND tablename = table_name
+    ) THEN
+      EXECUTE format('ALTER PUBLICATION supabase_realtime ADD TABLE public.%I', table_name);
+    END IF;
+  END LOOP;
+END;
+$$;
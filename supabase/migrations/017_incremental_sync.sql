@@ -0,0 +1,61 @@
+-- ============================================================================
+-- INCREMENTAL SYNC
+-- ============================================================================
+-- The app keeps its data on the device and only asks for rows written since
+-- its last sync (updated_at, or created_at for the append-only unit_events).
+-- That cursor comes from the server's clock, so every write must be stamped
+-- by the server too: inserts used to keep an updated_at sent by the client,
+-- and a device with a slow clock could hide its rows from the others.
+--
+-- get_daily_totals sums habit logs per day in the database, for stats that
+-- used to download every log to add them up on the device.
+-- ============================================================================
+
+DROP TRIGGER IF EXISTS update_habits_updated_at ON public.habits;
+CREATE TRIGGER update_habits_updated_at
+  BEFORE INSERT OR UPDATE ON public.habits
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+DROP TRIGGER IF EXISTS update_habit_logs_updated_at ON public.habit_logs;
+CREATE TRIGGER update_habit_logs_updated_at
+  BEFORE INSERT OR UPDATE ON public.habit_logs
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+DROP TRIGGER IF EXISTS update_bad_habits_updated_at ON public.bad_habits;
+CREATE TRIGGER update_bad_habits_updated_at
+  BEFORE INSERT OR UPDATE ON public.bad_habits
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+DROP TRIGGER IF EXISTS update_bad_habit_logs_updated_at ON public.bad_habit_logs;
+CREATE TRIGGER update_bad_habit_logs_updated_at
+  BEFORE INSERT OR UPDATE ON public.bad_habit_logs
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE INDEX IF NOT EXISTS idx_habits_user_updated ON public.habits(user_id, updated_at);
+CREATE INDEX IF NOT EXISTS idx_habit_logs_user_updated ON public.habit_logs(user_id, updated_at);
+CREATE INDEX IF NOT EXISTS idx_bad_habits_user_updated ON public.bad_habits(user_id, updated_at);
+CREATE INDEX IF NOT EXISTS idx_bad_habit_logs_user_updated ON public.bad_habit_logs(user_id, updated_at);
+CREATE INDEX IF NOT EXISTS idx_unit_events_user_created ON public.unit_events(user_id, created_at);
+
+-- Both bounds are optional and inclusive
+CREATE OR REPLACE FUNCTION public.get_daily_totals(
+  p_from DATE DEFAULT NULL,
+  p_to DATE DEFAULT NULL
+)
+RETURNS TABLE (date DATE, total INTEGER)
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+SET search_path = public
+AS $$
+  SELECT l.date, COALESCE(SUM(l.count), 0)::INTEGER AS total
+  FROM public.habit_logs l
+  WHERE l.user_id = auth.uid()
+    AND (p_from IS NULL OR l.date >= p_from)
+    AND (p_to IS NULL OR l.date <= p_to)
+  GROUP BY l.date
+  ORDER BY l.date;
+$$;
+
+REVOKE ALL ON FUNCTION public.get_daily_totals(DATE, DATE) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.get_daily_totals(DATE, DATE) TO authenticated;